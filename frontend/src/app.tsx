@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { AuthProvider, useAuth } from '@/lib/auth-context';
 import { SiteProvider } from '@/lib/site-context';
 import { LoginForm } from '@/components/login-form';
@@ -9,10 +9,15 @@ import { SettingsTab } from '@/components/settings-tab';
 import './index.css';
 
 function Dashboard() {
-  const { user, loading } = useAuth();
+  const { user, loading, emailChangeResult } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('overview');
   const [autoShowCreateSite, setAutoShowCreateSite] = useState(false);
 
+  // Arriving from an email-change link: show the outcome next to the email setting
+  useEffect(() => {
+    if (emailChangeResult) setActiveTab('settings');
+  }, [emailChangeResult]);
+
   const handleNavigateToCreateSite = () => {
     setAutoShowCreateSite(true);
     setActiveTab('sites');
@@ -25,6 +25,20 @@
             || (isLocalDev ? 'http://localhost:8787' : 'https://commentkit.ankushkun.workers.dev'),
     };
 
+    // Number of top-level threads fetched per page
+    const THREADS_PER_PAGE = 20;
+
+    // Emoji shown for each reaction type ('like' keeps its heart button)
+    const REACTION_EMOJI = {
+        like: '👍',
+        love: '😍',
+        laugh: '😂',
+        sad: '😢',
+        angry: '😠',
+    };
+
+    const HEART_PATH = 'M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z';
+
     // Check if current page is localhost/development
     function isLocalhost() {
         const hostname = window.location.hostname;
@@ -60,6 +74,8 @@
             const pageTitle = options.pageTitle || document.title;
             const pageUrl = options.pageUrl || window.location.href;
             const theme = options.theme || 'auto';
+            // Token from the host site's own login, signed with the site's SSO secret
+            const sso = options.sso || null;
 
             const instance = new CommentWidget(container, {
                 domain,
@@ -67,6 +83,7 @@
                 pageTitle,
                 pageUrl,
                 theme,
+                sso,
                 widgetBase: CONFIG.baseUrl,  // Where widget iframe is served
                 apiBase: CONFIG.apiUrl,       // Where API calls go
                 isLocalhost: isLocalhost(),   // Whether we're on localhost
@@ -104,8 +121,11 @@
                 loginEmail: '',          // Email entered for login
                 loginSent: false,        // Magic link sent
                 authLoading: false,      // Auth action in progress
+                authProviders: [],       // OAuth providers offered in the login modal
                 expandedReplies: new Set(),  // Track which comments have expanded replies
-                guestCommentSent: false, // Guest comment awaiting moderation
+                pendingCommentSent: false, // Comment awaiting moderation
+                verificationEmailSent: false, // Guest was emailed a link to confirm their address
+                loadingMore: false,      // Next page of threads in flight
             };
             this.commentMap = new Map();  // Store comment data by ID for quick access
             this.scrollAnchor = null;  // Element to anchor scroll position to
@@ -320,6 +340,15 @@
                     line-height: 1.6;
                 }
 
+                /* Honeypot field - hidden from people, filled in by bots */
+                .ck-hp {
+                    position: absolute;
+                    left: -9999px;
+                    width: 1px;
+                    height: 1px;
+                    overflow: hidden;
+                }
+
                 /* Buttons */
                 .ck-btn {
                     display: inline-flex;
@@ -449,6 +478,17 @@
                     margin-top: 40px;
                 }
 
+                .ck-load-more-wrap {
+                    display: flex;
+                    justify-content: center;
+                    margin-top: 32px;
+                }
+
+                .ck-load-more:disabled {
+                    opacity: 0.7;
+                    cursor: not-allowed;
+                }
+
                 @keyframes ck-fade-in {
                     from { opacity: 0; transform: translateY(10px); }
                     to { opacity: 1; transform: translateY(0); }
@@ -506,6 +546,104 @@
                     margin-bottom: 12px;
                 }
 
+                /* Markdown comments: allowlisted HTML from the server */
+                .ck-comment-body.ck-markdown {
+                    white-space: normal;
+                }
+
+                .ck-markdown p,
+                .ck-markdown ul,
+                .ck-markdown ol,
+                .ck-markdown blockquote,
+                .ck-markdown pre {
+                    margin: 0 0 8px;
+                }
+
+                .ck-markdown > :last-child {
+                    margin-bottom: 0;
+                }
+
+                .ck-markdown ul,
+                .ck-markdown ol {
+                    padding-left: 24px;
+                }
+
+                .ck-markdown blockquote {
+                    border-left: 3px solid #e5e7eb;
+                    padding-left: 12px;
+                    color: #6b7280;
+                }
+
+                .ck-markdown code {
+                    font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+                    font-size: 0.875em;
+                    background: #f3f4f6;
+                    border-radius: 4px;
+                    padding: 1px 4px;
+                }
+
+                .ck-markdown pre {
+                    background: #f3f4f6;
+                    border-radius: 6px;
+                    padding: 10px 12px;
+                    overflow-x: auto;
+                    white-space: pre;
+                }
+
+                .ck-markdown pre code {
+                    background: none;
+                    padding: 0;
+                }
+
+                .ck-markdown a {
+                    color: var(--ck-primary);
+                    text-decoration: underline;
+                }
+
+                .ck-edited {
+                    color: #9ca3af;
+                    font-size: 0.8rem;
+                    font-style: italic;
+                }
+
+                button.ck-edited {
+                    background: none;
+                    border: none;
+                    padding: 0;
+                    cursor: pointer;
+                    text-decoration: underline dotted;
+                }
+
+                /* Deleted comments kept in place for their replies */
+                .ck-comment-body.ck-deleted {
+                    color: #9ca3af;
+                    font-style: italic;
+                }
+
+                .ck-revisions {
+                    border-left: 2px solid #e5e7eb;
+                    padding-left: 12px;
+                    margin-bottom: 12px;
+                }
+
+                .ck-revision-date {
+                    color: #9ca3af;
+                    font-size: 0.8rem;
+                    margin-bottom: 2px;
+                }
+
+                .ck-revisions .ck-comment-body {
+                    color: #6b7280;
+                    font-size: 0.9rem;
+                    margin-bottom: 8px;
+                }
+
+                .ck-form-hint {
+                    font-size: 0.8rem;
+                    color: #9ca3af;
+                    margin-top: 4px;
+                }
+
                 .ck-comment-actions {
                     display: flex;
                     gap: 16px;
@@ -533,6 +671,76 @@
                     color: var(--ck-danger);
                 }
 
+                /* Reactions */
+                .ck-reactions {
+                    position: relative;
+                    display: flex;
+                    align-items: center;
+                    gap: 8px;
+                }
+
+                .ck-reaction-chip,
+                .ck-react-btn {
+                    background: var(--ck-bg-muted);
+                    border: 1px solid var(--ck-border);
+                    border-radius: 999px;
+                    color: var(--ck-text-muted);
+                    font-size: 0.8rem;
+                    font-weight: 600;
+                    cursor: pointer;
+                    padding: 2px 8px;
+                    display: inline-flex;
+                    align-items: center;
+                    gap: 4px;
+                    transition: border-color 0.15s, color 0.15s;
+                }
+
+                .ck-reaction-chip:hover,
+                .ck-react-btn:hover {
+                    border-color: var(--ck-primary);
+                    color: var(--ck-primary);
+                }
+
+                .ck-reaction-chip.active {
+                    border-color: var(--ck-primary);
+                    background: #eff6ff;
+                    color: var(--ck-primary);
+                }
+
+                .ck-reaction-picker {
+                    position: absolute;
+                    bottom: calc(100% + 6px);
+                    left: 0;
+                    display: flex;
+                    gap: 2px;
+                    padding: 4px;
+                    background: var(--ck-bg);
+                    border: 1px solid var(--ck-border);
+                    border-radius: 999px;
+                    box-shadow: 0 4px 12px rgba(0, 0, 0, 0.08);
+                    z-index: 10;
+                }
+
+                .ck-reaction-picker[hidden] {
+                    display: none;
+                }
+
+                .ck-reaction-option {
+                    background: none;
+                    border: none;
+                    border-radius: 50%;
+                    font-size: 1.1rem;
+                    line-height: 1;
+                    cursor: pointer;
+                    padding: 4px;
+                    transition: transform 0.1s, background 0.15s;
+                }
+
+                .ck-reaction-option:hover {
+                    background: var(--ck-bg-muted);
+                    transform: scale(1.2);
+                }
+
                 /* States */
                 .ck-empty, .ck-loading {
                     text-align: center;
@@ -1085,6 +1293,29 @@
                     font-weight: 500;
                 }
 
+                /* OAuth provider buttons */
+                .ck-modal-body .ck-oauth-divider {
+                    display: flex;
+                    align-items: center;
+                    gap: 12px;
+                    margin: 20px 0 16px;
+                    color: #9ca3af;
+                    font-size: 0.8rem;
+                }
+
+                .ck-modal-body .ck-oauth-divider::before,
+                .ck-modal-body .ck-oauth-divider::after {
+                    content: '';
+                    flex: 1;
+                    height: 1px;
+                    background: #e5e7eb;
+                }
+
+                .ck-modal-body .ck-oauth-btn {
+                    width: 100%;
+                    margin-bottom: 8px;
+                }
+
                 /* Mobile responsive modal */
                 @media (max-width: 640px) {
                     .ck-modal-content {
@@ -1241,31 +1472,53 @@
 
                 switch (event.data.action) {
                     case 'commentsLoaded':
+                        if (event.data.append) {
+                            this.appendComments(event.data.data);
+                            break;
+                        }
                         this.state.pageData = event.data.data;
                         this.state.comments = event.data.data.comments || [];
                         this.state.loading = false;
+                        this.state.loadingMore = false;
                         this.state.error = null;
                         this.render();
                         break;
                     case 'bridgeReady':
                         console.log('[CommentKit] Bridge ready, user:', event.data.user?.email || 'guest');
                         this.state.user = event.data.user || null;
+                        this.state.authProviders = event.data.providers || [];
+                        // Sign in as the host site's user first, then load comments as them
+                        if (this.config.sso) {
+                            this.sendToIframe({ action: 'ssoLogin', domain: this.config.domain, token: this.config.sso });
+                            break;
+                        }
+                        this.loadComments();
+                        break;
+                    case 'ssoResult':
+                        if (event.data.error) {
+                            console.warn('[CommentKit] SSO sign-in failed:', event.data.error);
+                        }
+                        if (event.data.user) {
+                            this.state.user = event.data.user;
+                        }
                         this.loadComments();
                         break;
                     case 'commentPosted':
                         this.state.loginSent = false;
                         this.state.authMode = 'guest';
-                        // Show confirmation for guest comments
-                        if (!this.state.user) {
-                            this.state.guestCommentSent = true;
+                        // Show confirmation when the comment is held for moderation
+                        if (event.data.data?.status ? event.data.data.status === 'pending' : !this.state.user) {
+                            this.state.pendingCommentSent = true;
                         }
+                        this.state.verificationEmailSent = !!event.data.data?.verification_email_sent;
                         this.refreshComments();
                         break;
                     case 'authStateChanged':
                         this.state.user = event.data.user || null;
                         this.state.authLoading = false;
                         this.state.loginSent = false;
-                        this.state.guestCommentSent = false;
+                        this.state.pendingCommentSent = false;
+                        this.state.verificationEmailSent = false;
                         this.state.authMode = 'guest';
                         this.hideLoginModal(); // Close modal on successful auth
                         this.render();
@@ -1294,6 +1547,7 @@
 
                         this.state.loading = false;
                         this.state.authLoading = false;
+                        this.state.loadingMore = false;
                         this.render();
                         break;
                 }
@@ -1309,21 +1563,99 @@
                 pageId: this.config.pageId,
                 pageTitle: this.config.pageTitle,
                 pageUrl: this.config.pageUrl,
+                limit: THREADS_PER_PAGE,
             });
         }
 
         refreshComments() {
             // Refresh comments without showing loading state
+            // Re-fetch as many threads as are already shown so "Load more" pages aren't dropped
             this.isRefreshing = true;
+            const loadedThreads = this.buildTree(this.state.comments).length;
             this.sendToIframe({
                 action: 'loadComments',
                 domain: this.config.domain,
                 pageId: this.config.pageId,
                 pageTitle: this.config.pageTitle,
                 pageUrl: this.config.pageUrl,
+                limit: Math.max(loadedThreads, THREADS_PER_PAGE),
             });
         }
 
+        loadMoreComments() {
+            const cursor = this.state.pageData?.next_cursor;
+            if (!cursor || this.state.loadingMore) return;
+
+            this.state.loadingMore = true;
+            this.updateLoadMoreButton();
+            this.sendToIframe({
+                action: 'loadComments',
+                domain: this.config.domain,
+                pageId: this.config.pageId,
+                pageTitle: this.config.pageTitle,
+                pageUrl: this.config.pageUrl,
+                limit: THREADS_PER_PAGE,
+                cursor,
+            });
+        }
+
+        // Append the next page of threads to the existing list instead of re-rendering
+        appendComments(data) {
+            const knownIds = new Set(this.state.comments.map(c => c.id));
+            const newComments = (data.comments || []).filter(c => !knownIds.has(c.id));
+
+            this.state.comments = this.state.comments.concat(newComments);
+            this.state.pageData = { ...this.state.pageData, next_cursor: data.next_cursor };
+            this.state.loadingMore = false;
+
+            // Rebuild the tree so commentMap includes the new threads
+            const roots = this.buildTree(this.state.comments);
+
+            let list = this.container.querySelector('.ck-comments');
+            if (!list && newComments.length > 0) {
+                // First visible threads arrived on a later page - swap out the empty state
+                const empty = this.container.querySelector('.ck-empty');
+                if (empty) {
+                    empty.insertAdjacentHTML('afterend', '<div class="ck-comments"></div>');
+                    empty.remove();
+                }
+                list = this.container.querySelector('.ck-comments');
+            }
+
+            if (list) {
+                const rendered = new Set(
+                    Array.from(list.children).map(el => parseInt(el.dataset.id))
+                );
+                const temp = document.createElement('div');
+                temp.innerHTML = roots
+                    .filter(root => !rendered.has(root.id))
+                    .map(root => this.renderComment(root))
+                    .join('');
+
+                Array.from(temp.children).forEach(element => {
+                    list.appendChild(element);
+                    this.attachCommentListeners(element);
+                });
+            }
+
+            this.updateLoadMoreButton();
+        }
+
+        updateLoadMoreButton() {
+            const existing = this.container.querySelector('.ck-load-more-wrap');
+            const html = this.renderLoadMore();
+
+            if (existing) {
+                if (html) {
+                    existing.outerHTML = html;
+                } else {
+                    existing.remove();
+                }
+            }
+
+            this.attachLoadMoreListener();
+        }
+
         postComment(data) {
             this.sendToIframe({
                 action: 'postComment',
@@ -1375,7 +1707,7 @@
             });
         }
 
-        toggleCommentLike(commentId, shouldLike) {
+        setCommentReaction(commentId, reaction) {
             return new Promise((resolve, reject) => {
                 const messageId = Date.now() + Math.random();
                 const handler = (event) => {
@@ -1391,10 +1723,10 @@
                 window.addEventListener('message', handler);
 
                 this.sendToIframe({
-                    action: 'toggleCommentLike',
+                    action: 'setCommentReaction',
                     messageId,
                     commentId,
-                    shouldLike,
+                    reaction, // null removes the viewer's reaction
                 });
 
                 // Timeout after 5 seconds
@@ -1406,17 +1738,49 @@
         }
 
 
-        // Generate Gravatar avatar HTML with fallback to initials
-        renderAvatar(emailHash, name, cssClass = 'ck-avatar') {
+        getCommentRevisions(commentId) {
+            return new Promise((resolve, reject) => {
+                const messageId = Date.now() + Math.random();
+                const handler = (event) => {
+                    if (event.data.type === 'commentkit' && event.data.messageId === messageId) {
+                        window.removeEventListener('message', handler);
+                        if (event.data.error) {
+                            reject(new Error(event.data.error));
+                        } else {
+                            resolve(event.data.data);
+                        }
+                    }
+                };
+                window.addEventListener('message', handler);
+
+                this.sendToIframe({
+                    action: 'getCommentRevisions',
+                    messageId,
+                    commentId,
+                });
+
+                // Timeout after 5 seconds
+                setTimeout(() => {
+                    window.removeEventListener('message', handler);
+                    reject(new Error('Timeout'));
+                }, 5000);
+            });
+        }
+
+        // Generate avatar HTML: the uploaded avatar, else Gravatar, falling back to initials
+        renderAvatar(avatarUrl, emailHash, name, cssClass = 'ck-avatar') {
             const displayName = name || 'Anonymous';
             const initials = displayName.charAt(0).toUpperCase();
 
-            if (emailHash) {
-                // Try Gravatar, fallback to initials on error
-                const gravatarUrl = `https://www.gravatar.com/avatar/${emailHash}?d=404&s=64`;
+            const imageUrl = avatarUrl
+                ? this.escapeHtml(avatarUrl)
+                : emailHash ? `https://www.gravatar.com/avatar/${emailHash}?d=404&s=64` : null;
+
+            if (imageUrl) {
+                // Fall back to initials if the image fails to load
                 return `
                     <div class="${cssClass}" style="position: relative;">
-                        <img src="${gravatarUrl}" 
+                        <img src="${imageUrl}" 
                              alt="${this.escapeHtml(displayName)}" 
                              style="width: 100%; height: 100%; border-radius: 50%; object-fit: cover;"
                              onerror="this.style.display='none'; this.nextElementSibling.style.display='flex'"
@@ -1428,7 +1792,7 @@
                 `;
             }
 
-            // No email hash, just show initials
+            // No image, just show initials
             return `<div class="${cssClass}">${initials}</div>`;
         }
 
@@ -1522,10 +1886,10 @@
         }
 
         renderForm() {
-            const { user, authMode, loginSent, loginEmail, guestCommentSent } = this.state;
+            const { user, authMode, loginSent, loginEmail, pendingCommentSent, verificationEmailSent } = this.state;
 
-            // If guest comment was sent, show confirmation
-            if (guestCommentSent && !user) {
+            // If comment is awaiting moderation or its email needs confirming, show confirmation
+            if (pendingCommentSent || verificationEmailSent) {
                 return `
                     <div class="ck-form">
                         <div class="ck-login-sent">
@@ -1536,8 +1900,13 @@
                                 </svg>
                             </div>
                             <p><strong>Comment submitted!</strong></p>
-                            <p>Your comment has been received and is awaiting approval.</p>
-                            <p>Site owners will review it before it appears publicly.</p>
+                            ${pendingCommentSent ? `
+                                <p>Your comment has been received and is awaiting approval.</p>
+                                <p>Site owners will review it before it appears publicly.</p>
+                            ` : ''}
+                            ${verificationEmailSent ? `
+                                <p>We've emailed you a link to confirm your address.</p>
+                            ` : ''}
                             <button type="button" class="ck-link-btn" id="ck-dismiss-guest-message">Post another comment</button>
                         </div>
                     </div>
@@ -1551,16 +1920,17 @@
                     <div class="ck-form">
                         <h3>Leave a Comment</h3>
                         <div class="ck-user-info">
-                            ${this.renderAvatar(user.email_hash, displayName)}
+                            ${this.renderAvatar(user.avatar_url, user.email_hash, displayName)}
                             <div class="ck-user-details">
                                 <div class="ck-user-name">${this.escapeHtml(displayName)}</div>
-                                <div class="ck-user-email">${this.escapeHtml(user.email)}</div>
+                                ${user.sso_site_id ? '' : `<div class="ck-user-email">${this.escapeHtml(user.email)}</div>`}
                             </div>
-                            <button type="button" class="ck-logout-btn" id="ck-logout">Sign out</button>
+                            ${user.sso_site_id ? '' : '<button type="button" class="ck-logout-btn" id="ck-logout">Sign out</button>'}
                         </div>
                         <form id="ck-comment-form">
                             <div class="ck-form-group">
                                 <textarea id="ck-content" name="content" required placeholder="Share your thoughts..."></textarea>
+                                ${this.renderMarkdownHint()}
                             </div>
                             <div style="display: flex; gap: 8px;">
                                 <button type="submit" class="ck-btn ck-btn-primary">Post Comment</button>
@@ -1616,9 +1986,13 @@
                             <input type="email" id="ck-email" name="email" placeholder="your@email.com" pattern="[^\\s@]+@[^\\s@]+\\.[^\\s@]+" title="Please enter a valid email address (e.g., user@example.com)">
                         </div>
                     </div>
+                    <div class="ck-hp" aria-hidden="true">
+                        <label>Website <input type="text" name="website" tabindex="-1" autocomplete="off"></label>
+                    </div>
                     <div class="ck-form-group">
                         <label for="ck-content">Comment *</label>
                         <textarea id="ck-content" name="content" required placeholder="Share your thoughts..."></textarea>
+                        ${this.renderMarkdownHint()}
                     </div>
                     <div style="display: flex; gap: 8px;">
                         <button type="submit" class="ck-btn ck-btn-primary">Post Comment</button>
@@ -1651,44 +2025,56 @@
                         <p style="font-size: 1.1rem; margin-bottom: 4px;">No comments yet</p>
                         <p>Be the first to share your thoughts!</p>
                     </div>
+                    ${this.renderLoadMore()}
                 `;
             }
 
-            return `<div class="ck-comments">${comments.map(c => this.renderComment(c)).join('')}</div>`;
+            return `
+                <div class="ck-comments">${comments.map(c => this.renderComment(c)).join('')}</div>
+                ${this.renderLoadMore()}
+            `;
+        }
+
+        renderLoadMore() {
+            if (!this.state.pageData?.next_cursor) return '';
+
+            return `
+                <div class="ck-load-more-wrap">
+                    <button type="button" class="ck-btn ck-btn-secondary ck-load-more" ${this.state.loadingMore ? 'disabled' : ''}>
+                        ${this.state.loadingMore ? 'Loading...' : 'Load more comments'}
+                    </button>
+                </div>
+            `;
         }
 
         renderComment(comment, depth = 0) {
             const timeAgo = this.formatTimeAgo(comment.created_at);
-            const isLiked = comment.user_liked || false;
             const hasReplies = comment.replies && comment.replies.length > 0;
             const replyCount = hasReplies ? comment.replies.length : 0;
             const isExpanded = this.state.expandedReplies.has(comment.id);
+            const authorName = comment.deleted ? 'Deleted' : comment.author_name;
 
-            // Regular comment rendering (works for both real and placeholder comments)
+            // Regular comment rendering (works for real, deleted and placeholder comments)
             return `
                 <div class="ck-comment" data-id="${comment.id}">
                     <div class="ck-comment-inner">
-                        ${this.renderAvatar(comment.author_email_hash, comment.author_name)}
+                        ${this.renderAvatar(comment.author_avatar_url, comment.author_email_hash, authorName)}
                         <div class="ck-comment-content">
                             <div class="ck-comment-header">
-                                <span class="ck-comment-author">${this.escapeHtml(comment.author_name)}</span>
+                                <span class="ck-comment-author">${this.escapeHtml(authorName)}</span>
                                 <span class="ck-comment-date">${timeAgo}</span>
+                                ${comment.edited ? this.renderEditedBadge(comment) : ''}
                             </div>
-                            <div class="ck-comment-body">${this.escapeHtml(comment.content)}</div>
+                            ${this.renderCommentBody(comment)}
                             <div class="ck-comment-actions">
-                                <button class="ck-comment-action ${isLiked ? 'liked' : ''}" data-id="${comment.id}">
-                                    ${comment.likes > 0 ? `<span>${comment.likes}</span>` : ''}
-                                    <svg width="16" height="16" viewBox="0 0 24 24" fill="${isLiked ? 'currentColor' : 'none'}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
-                                        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path>
-                                    </svg>
-                                </button>
+                                ${comment.deleted ? '' : this.renderReactions(comment)}
                                 <button class="ck-comment-action ck-reply-btn" data-id="${comment.id}">
                                     Reply
                                 </button>
                             </div>
                             ${hasReplies && !isExpanded ? `
                                 <button class="ck-reply-count" data-id="${comment.id}" aria-label="Toggle replies">
-                                    ${this.renderAvatar(comment.replies[0].author_email_hash, comment.replies[0].author_name, 'ck-reply-avatar')}
+                                    ${this.renderAvatar(comment.replies[0].author_avatar_url, comment.replies[0].author_email_hash, comment.replies[0].author_name, 'ck-reply-avatar')}
                                     <span>${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}</span>
                                 </button>
                             ` : ''}
@@ -1703,6 +2089,136 @@
             `;
         }
 
+        // Markdown comments come with rendered HTML; everything else is plain text
+        renderCommentBody(comment) {
+            if (comment.deleted) {
+                return '<div class="ck-comment-body ck-deleted">[deleted]</div>';
+            }
+            if (comment.content_html) {
+                return `<div class="ck-comment-body ck-markdown">${this.sanitizeCommentHtml(comment.content_html)}</div>`;
+            }
+            return `<div class="ck-comment-body">${this.escapeHtml(comment.content)}</div>`;
+        }
+
+        // The server only emits allowlisted markup; re-check it here so a bad
+        // response can never inject anything else into the host page
+        sanitizeCommentHtml(html) {
+            const allowed = {
+                P: [], BR: [], EM: [], STRONG: [], CODE: ['class'], PRE: [],
+                BLOCKQUOTE: [], UL: [], OL: ['start'], LI: [], A: ['href'],
+            };
+            const template = document.createElement('template');
+            template.innerHTML = html;
+
+            const clean = (node) => {
+                Array.from(node.childNodes).forEach((child) => {
+                    if (child.nodeType === Node.TEXT_NODE) return;
+                    if (child.nodeType !== Node.ELEMENT_NODE || !allowed[child.tagName]) {
+                        // Keep the text of unknown elements, drop everything else
+                        child.replaceWith(document.createTextNode(child.nodeType === Node.ELEMENT_NODE ? child.textContent : ''));
+                        return;
+                    }
+                    Array.from(child.attributes).forEach((attr) => {
+                        if (!allowed[child.tagName].includes(attr.name)) child.removeAttribute(attr.name);
+                    });
+                    if (child.tagName === 'A') {
+                        if (!/^(https?:|mailto:)/i.test(child.getAttribute('href') || '')) child.removeAttribute('href');
+                        child.setAttribute('rel', 'nofollow ugc');
+                    }
+                    if (child.hasAttribute('class') && !/^language-[\w+#.-]+$/.test(child.getAttribute('class'))) {
+                        child.removeAttribute('class');
+                    }
+                    clean(child);
+                });
+            };
+
+            clean(template.content);
+            return template.innerHTML;
+        }
+
+        // Readers can open earlier versions only when the site makes edit history public
+        renderEditedBadge(comment) {
+            if (!this.state.pageData?.edit_history_public) {
+                return '<span class="ck-edited">edited</span>';
+            }
+            return `<button type="button" class="ck-edited ck-edited-btn" data-id="${comment.id}" aria-expanded="false" title="Show earlier versions">edited</button>`;
+        }
+
+        renderRevisions(revisions) {
+            if (revisions.length === 0) {
+                return '<div class="ck-revisions"><div class="ck-revision-date">No earlier versions</div></div>';
+            }
+            return `
+                <div class="ck-revisions">
+                    ${revisions.map(revision => `
+                        <div class="ck-revision-date">Until ${this.formatTimeAgo(revision.replaced_at)}</div>
+                        ${this.renderCommentBody(revision)}
+                    `).join('')}
+                </div>
+            `;
+        }
+
+        async toggleRevisions(btn) {
+            const body = btn.closest('.ck-comment-content').querySelector(':scope > .ck-comment-body');
+            const existing = body.nextElementSibling?.classList.contains('ck-revisions') ? body.nextElementSibling : null;
+            if (existing) {
+                existing.remove();
+                btn.setAttribute('aria-expanded', 'false');
+                return;
+            }
+
+            try {
+                const data = await this.getCommentRevisions(parseInt(btn.dataset.id));
+                body.insertAdjacentHTML('afterend', this.renderRevisions(data.revisions || []));
+                btn.setAttribute('aria-expanded', 'true');
+            } catch (error) {
+                this.showToast(error.message || 'Could not load earlier versions');
+            }
+        }
+
+        renderMarkdownHint() {
+            if (!this.state.pageData?.markdown_enabled) return '';
+            return '<p class="ck-form-hint">Markdown supported: *italic*, **bold**, `code`, ``` code blocks, [links](https://…), &gt; quotes and lists</p>';
+        }
+
+        // Like button, counts for other reactions and the picker to add one
+        renderReactions(comment) {
+            const enabled = this.state.pageData?.enabled_reactions || ['like'];
+            const counts = comment.reactions || {};
+            const userReaction = comment.user_reaction ?? (comment.user_liked ? 'like' : null);
+            const isLiked = userReaction === 'like';
+            const likes = counts.like || 0;
+            const pickerTypes = enabled.filter(type => type !== 'like');
+
+            const likeButton = enabled.includes('like') ? `
+                <button class="ck-comment-action ck-like-action ${isLiked ? 'liked' : ''}" data-id="${comment.id}" aria-label="Like">
+                    ${likes > 0 ? `<span>${likes}</span>` : ''}
+                    <svg width="16" height="16" viewBox="0 0 24 24" fill="${isLiked ? 'currentColor' : 'none'}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+                        <path d="${HEART_PATH}"></path>
+                    </svg>
+                </button>
+            ` : '';
+
+            const chips = pickerTypes
+                .filter(type => counts[type] > 0)
+                .map(type => `
+                    <button class="ck-reaction-chip ${userReaction === type ? 'active' : ''}" data-id="${comment.id}" data-reaction="${type}" aria-label="${type}">
+                        ${REACTION_EMOJI[type]} <span>${counts[type]}</span>
+                    </button>
+                `).join('');
+
+            const picker = pickerTypes.length > 0 ? `
+                <button class="ck-react-btn" data-id="${comment.id}" aria-label="Add reaction">+ ${REACTION_EMOJI[pickerTypes[0]]}</button>
+                <div class="ck-reaction-picker" data-id="${comment.id}" hidden>
+                    ${pickerTypes.map(type => `
+                        <button class="ck-reaction-option" data-id="${comment.id}" data-reaction="${type}" aria-label="${type}">${REACTION_EMOJI[type]}</button>
+                    `).join('')}
+                </div>
+            ` : '';
+
+            return `<span class="ck-reactions" data-id="${comment.id}">${likeButton}${chips}${picker}</span>`;
+        }
+
         renderInlineReplyForm(parentId) {
             const { user } = this.state;
 
@@ -1712,7 +2228,7 @@
                     <div class="ck-inline-reply-form" style="margin-left: 56px; margin-top: 16px; margin-bottom: 16px;">
                         <div class="ck-form">
                             <div class="ck-user-info">
-                                ${this.renderAvatar(user.email_hash, displayName)}
+                                ${this.renderAvatar(user.avatar_url, user.email_hash, displayName)}
                                 <div class="ck-user-details">
                                     <div class="ck-user-name">${this.escapeHtml(displayName)}</div>
                                 </div>
@@ -1720,6 +2236,7 @@
                             <form class="ck-reply-form" data-parent-id="${parentId}">
                                 <div class="ck-form-group">
                                     <textarea class="ck-reply-textarea" name="content" required placeholder="Write a reply..."></textarea>
+                                    ${this.renderMarkdownHint()}
                                 </div>
                                 <div style="display: flex; gap: 8px;">
                                     <button type="submit" class="ck-btn ck-btn-primary">Post Reply</button>
@@ -1745,9 +2262,13 @@
                                     <input type="email" name="email" placeholder="your@email.com" pattern="[^\\s@]+@[^\\s@]+\\.[^\\s@]+" title="Please enter a valid email address (e.g., user@example.com)">
                                 </div>
                             </div>
+                            <div class="ck-hp" aria-hidden="true">
+                                <label>Website <input type="text" name="website" tabindex="-1" autocomplete="off"></label>
+                            </div>
                             <div class="ck-form-group">
                                 <label>Reply *</label>
                                 <textarea class="ck-reply-textarea" name="content" required placeholder="Write a reply..."></textarea>
+                                ${this.renderMarkdownHint()}
                             </div>
                             <div style="display: flex; gap: 8px;">
                                 <button type="submit" class="ck-btn ck-btn-primary">Post Reply</button>
@@ -1763,6 +2284,8 @@
             // Top-level comment form submission
             const form = this.container.querySelector('#ck-comment-form');
             if (form) {
+                // Sent with the comment so the server can spot instant bot submissions
+                const shownAt = Date.now();
                 form.addEventListener('submit', (e) => {
                     e.preventDefault();
 
@@ -1778,6 +2301,8 @@
                     const commentData = {
                         content: formData.get('content'),
                         parent_id: null, // Top-level comments have no parent
+                        honeypot: formData.get('website') || undefined,
+                        elapsed_ms: Date.now() - shownAt,
                     };
                     // Include guest fields only if not authenticated
                     if (!this.state.user) {
@@ -1791,87 +2316,13 @@
                 });
             }
 
-            // Reply buttons
-            this.container.querySelectorAll('.ck-reply-btn').forEach(btn => {
-                btn.addEventListener('click', () => {
-                    const commentId = parseInt(btn.dataset.id);
-
-                    // Remove any existing reply forms
-                    const existingForms = this.container.querySelectorAll('.ck-inline-reply-form');
-                    existingForms.forEach(f => f.remove());
-
-                    this.state.replyTo = commentId;
-
-                    // Find the comment element and insert reply form after the comment-inner
-                    const commentDiv = this.container.querySelector(`.ck-comment[data-id="${commentId}"]`);
-                    if (commentDiv) {
-                        const commentInner = commentDiv.querySelector('.ck-comment-inner');
-                        const replyFormHTML = this.renderInlineReplyForm(commentId);
-
-                        // Create a temporary container to parse HTML
-                        const temp = document.createElement('div');
-                        temp.innerHTML = replyFormHTML;
-                        const replyFormElement = temp.firstElementChild;
-
-                        // Insert after comment-inner
-                        commentInner.insertAdjacentElement('afterend', replyFormElement);
-
-                        // Attach event listeners to the new form
-                        this.attachInlineReplyFormListeners(replyFormElement, commentId);
-
-                        // Focus textarea
-                        setTimeout(() => {
-                            replyFormElement.querySelector('.ck-reply-textarea')?.focus();
-                        }, 0);
-                    }
-                });
-            });
-
-            // Reply count toggle
-            this.container.querySelectorAll('.ck-reply-count').forEach(btn => {
-                btn.addEventListener('click', () => {
-                    const commentId = parseInt(btn.dataset.id);
-                    const commentDiv = this.container.querySelector(`.ck-comment[data-id="${commentId}"]`);
-
-                    if (this.state.expandedReplies.has(commentId)) {
-                        // Collapse
-                        this.state.expandedReplies.delete(commentId);
-                        const repliesDiv = commentDiv.querySelector('.ck-replies');
-                        if (repliesDiv) repliesDiv.remove();
-                        btn.style.display = 'inline-flex';
-                    } else {
-                        // Expand
-                        this.state.expandedReplies.add(commentId);
-                        const comment = this.commentMap.get(commentId);
-                        if (comment && comment.replies && comment.replies.length > 0) {
-                            const repliesHTML = `
-                                <div class="ck-replies">
-                                    ${comment.replies.map(r => this.renderComment(r, 1)).join('')}
-                                </div>
-                            `;
-                            const temp = document.createElement('div');
-                            temp.innerHTML = repliesHTML;
-                            const repliesElement = temp.firstElementChild;
-
-                            // Insert before the closing of comment div
-                            commentDiv.appendChild(repliesElement);
-
-                            // Attach event listeners to nested comments
-                            this.attachEventListeners();
-
-                            // Hide the reply count button
-                            btn.style.display = 'none';
-                        }
-                    }
-                });
-            });
-
             // Auth mode toggle
             const guestModeBtn = this.container.querySelector('#ck-mode-guest');
             if (guestModeBtn) {
                 guestModeBtn.addEventListener('click', () => {
                     this.state.authMode = 'guest';
-                    this.state.guestCommentSent = false;
+                    this.state.pendingCommentSent = false;
+                    this.state.verificationEmailSent = false;
                     this.render();
                 });
             }
@@ -1880,7 +2331,8 @@
             if (loginModeBtn) {
                 loginModeBtn.addEventListener('click', () => {
                     this.state.authMode = 'login';
-                    this.state.guestCommentSent = false;
+                    this.state.pendingCommentSent = false;
+                    this.state.verificationEmailSent = false;
                     this.render();
                 });
             }
@@ -1923,7 +2375,8 @@
             const dismissGuestBtn = this.container.querySelector('#ck-dismiss-guest-message');
             if (dismissGuestBtn) {
                 dismissGuestBtn.addEventListener('click', () => {
-                    this.state.guestCommentSent = false;
+                    this.state.pendingCommentSent = false;
+                    this.state.verificationEmailSent = false;
                     this.render();
                 });
             }
@@ -1936,6 +2389,9 @@
                 });
             }
 
+            // Load more threads
+            this.attachLoadMoreListener();
+
             // Page like button
             const pageLikeBtn = this.container.querySelector('.ck-like-btn');
             if (pageLikeBtn) {
@@ -1990,71 +2446,204 @@
                 });
             }
 
-            // Comment like buttons
-            this.container.querySelectorAll('.ck-comment-action').forEach(btn => {
-                // Skip if it's a reply button (which also has ck-comment-action class)
-                if (btn.classList.contains('ck-reply-btn')) return;
+            // Reply, reply count and like buttons on rendered comments
+            this.attachCommentListeners(this.container);
+        }
 
-                btn.addEventListener('click', async () => {
-                    if (!this.state.user) {
-                        // Show toast and open login modal
-                        this.showToast('Sign in to like comments', {
-                            text: 'Sign in',
-                            callback: () => {
-                                this.showLoginModal();
-                            }
-                        });
-                        return;
-                    }
+        attachLoadMoreListener() {
+            const loadMoreBtn = this.container.querySelector('.ck-load-more');
+            if (loadMoreBtn) {
+                loadMoreBtn.addEventListener('click', () => {
+                    this.loadMoreComments();
+                });
+            }
+        }
+
+        // Attach listeners to comment-level controls within root
+        // Scoped so appended threads can be wired up without rebinding existing ones
+        attachCommentListeners(root) {
+            // "edited" badges open the comment's earlier versions
+            root.querySelectorAll('.ck-edited-btn').forEach(btn => {
+                btn.addEventListener('click', () => this.toggleRevisions(btn));
+            });
 
+            // Reply buttons
+            root.querySelectorAll('.ck-reply-btn').forEach(btn => {
+                btn.addEventListener('click', () => {
                     const commentId = parseInt(btn.dataset.id);
-                    const comment = this.commentMap.get(commentId);
-                    if (!comment) return;
 
-                    // Optimistic UI update
-                    const isCurrentlyLiked = comment.user_liked;
-                    comment.user_liked = !isCurrentlyLiked;
-                    comment.likes += isCurrentlyLiked ? -1 : 1;
+                    // Remove any existing reply forms
+                    const existingForms = this.container.querySelectorAll('.ck-inline-reply-form');
+                    existingForms.forEach(f => f.remove());
 
-                    // Update button immediately
-                    btn.classList.toggle('liked', comment.user_liked);
-                    const svgHtml = `<svg width="16" height="16" viewBox="0 0 24 24" fill="${comment.user_liked ? 'currentColor' : 'none'}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path></svg>`;
+                    this.state.replyTo = commentId;
 
-                    if (comment.likes > 0) {
-                        btn.innerHTML = `<span>${comment.likes}</span> ${svgHtml}`;
-                    } else {
-                        btn.innerHTML = svgHtml;
+                    // Find the comment element and insert reply form after the comment-inner
+                    const commentDiv = this.container.querySelector(`.ck-comment[data-id="${commentId}"]`);
+                    if (commentDiv) {
+                        const commentInner = commentDiv.querySelector('.ck-comment-inner');
+                        const replyFormHTML = this.renderInlineReplyForm(commentId);
+
+                        // Create a temporary container to parse HTML
+                        const temp = document.createElement('div');
+                        temp.innerHTML = replyFormHTML;
+                        const replyFormElement = temp.firstElementChild;
+
+                        // Insert after comment-inner
+                        commentInner.insertAdjacentElement('afterend', replyFormElement);
+
+                        // Attach event listeners to the new form
+                        this.attachInlineReplyFormListeners(replyFormElement, commentId);
+
+                        // Focus textarea
+                        setTimeout(() => {
+                            replyFormElement.querySelector('.ck-reply-textarea')?.focus();
+                        }, 0);
                     }
+                });
+            });
 
-                    // Make API call
-                    try {
-                        const response = await this.toggleCommentLike(commentId, !isCurrentlyLiked);
-                        if (response && response.total_likes !== undefined) {
-                            // Update with server response
-                            comment.likes = response.total_likes;
-                            comment.user_liked = response.user_liked;
-                            btn.classList.toggle('liked', comment.user_liked);
-                            const newSvgHtml = `<svg width="16" height="16" viewBox="0 0 24 24" fill="${comment.user_liked ? 'currentColor' : 'none'}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path></svg>`;
-                            if (comment.likes > 0) {
-                                btn.innerHTML = `<span>${comment.likes}</span> ${newSvgHtml}`;
-                            } else {
-                                btn.innerHTML = newSvgHtml;
-                            }
-                        }
-                    } catch (error) {
-                        // Revert on error
-                        comment.user_liked = isCurrentlyLiked;
-                        comment.likes += isCurrentlyLiked ? 1 : -1;
-                        btn.classList.toggle('liked', comment.user_liked);
-                        const revertSvgHtml = `<svg width="16" height="16" viewBox="0 0 24 24" fill="${comment.user_liked ? 'currentColor' : 'none'}" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path></svg>`;
-                        if (comment.likes > 0) {
-                            btn.innerHTML = `<span>${comment.likes}</span> ${revertSvgHtml}`;
-                        } else {
-                            btn.innerHTML = revertSvgHtml;
+            // Reply count toggle
+            root.querySelectorAll('.ck-reply-count').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    const commentId = parseInt(btn.dataset.id);
+                    const commentDiv = this.container.querySelector(`.ck-comment[data-id="${commentId}"]`);
+
+                    if (this.state.expandedReplies.has(commentId)) {
+                        // Collapse
+                        this.state.expandedReplies.delete(commentId);
+                        const repliesDiv = commentDiv.querySelector('.ck-replies');
+                        if (repliesDiv) repliesDiv.remove();
+                        btn.style.display = 'inline-flex';
+                    } else {
+                        // Expand
+                        this.state.expandedReplies.add(commentId);
+                        const comment = this.commentMap.get(commentId);
+                        if (comment && comment.replies && comment.replies.length > 0) {
+                            const repliesHTML = `
+                                <div class="ck-replies">
+                                    ${comment.replies.map(r => this.renderComment(r, 1)).join('')}
+                                </div>
+                            `;
+                            const temp = document.createElement('div');
+                            temp.innerHTML = repliesHTML;
+                            const repliesElement = temp.firstElementChild;
+
+                            // Insert before the closing of comment div
+                            commentDiv.appendChild(repliesElement);
+
+                            // Attach event listeners to nested comments
+                            this.attachCommentListeners(repliesElement);
+
+                            // Hide the reply count button
+                            btn.style.display = 'none';
                         }
                     }
                 });
             });
+
+            this.attachReactionListeners(root);
+        }
+
+        attachReactionListeners(root) {
+            // Like buttons
+            root.querySelectorAll('.ck-like-action').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    this.handleReaction(parseInt(btn.dataset.id), 'like');
+                });
+            });
+
+            // Existing reaction counts toggle the viewer's reaction
+            root.querySelectorAll('.ck-reaction-chip').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    this.handleReaction(parseInt(btn.dataset.id), btn.dataset.reaction);
+                });
+            });
+
+            // Reaction picker
+            root.querySelectorAll('.ck-react-btn').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    const picker = this.container.querySelector(`.ck-reaction-picker[data-id="${btn.dataset.id}"]`);
+                    if (!picker) return;
+
+                    const wasHidden = picker.hidden;
+                    this.container.querySelectorAll('.ck-reaction-picker').forEach(p => p.hidden = true);
+                    picker.hidden = !wasHidden;
+                });
+            });
+
+            root.querySelectorAll('.ck-reaction-option').forEach(btn => {
+                btn.addEventListener('click', () => {
+                    btn.closest('.ck-reaction-picker').hidden = true;
+                    this.handleReaction(parseInt(btn.dataset.id), btn.dataset.reaction);
+                });
+            });
+        }
+
+        // Toggle a reaction: picking your current reaction removes it, anything else replaces it
+        async handleReaction(commentId, reaction) {
+            if (!this.state.user) {
+                // Show toast and open login modal
+                this.showToast('Sign in to react to comments', {
+                    text: 'Sign in',
+                    callback: () => {
+                        this.showLoginModal();
+                    }
+                });
+                return;
+            }
+
+            const comment = this.commentMap.get(commentId);
+            if (!comment) return;
+
+            const previous = {
+                reactions: { ...(comment.reactions || {}) },
+                user_reaction: comment.user_reaction ?? null,
+            };
+            const next = previous.user_reaction === reaction ? null : reaction;
+
+            // Optimistic UI update
+            this.applyReaction(comment, previous.user_reaction, next);
+            this.updateReactions(comment);
+
+            try {
+                const response = await this.setCommentReaction(commentId, next);
+                if (response && response.reactions) {
+                    // Update with server response
+                    comment.reactions = response.reactions;
+                    comment.user_reaction = response.user_reaction;
+                }
+            } catch (error) {
+                // Revert on error
+                comment.reactions = previous.reactions;
+                comment.user_reaction = previous.user_reaction;
+            }
+
+            comment.likes = comment.reactions.like || 0;
+            comment.user_liked = comment.user_reaction === 'like';
+            this.updateReactions(comment);
+        }
+
+        applyReaction(comment, from, to) {
+            const counts = { ...(comment.reactions || {}) };
+            if (from) counts[from] = Math.max(0, (counts[from] || 0) - 1);
+            if (to) counts[to] = (counts[to] || 0) + 1;
+
+            comment.reactions = counts;
+            comment.user_reaction = to;
+        }
+
+        // Re-render just the reactions of one comment
+        updateReactions(comment) {
+            const current = this.container.querySelector(`.ck-reactions[data-id="${comment.id}"]`);
+            if (!current) return;
+
+            const temp = document.createElement('div');
+            temp.innerHTML = this.renderReactions(comment);
+            const updated = temp.firstElementChild;
+
+            current.replaceWith(updated);
+            this.attachReactionListeners(updated);
         }
 
         attachInlineReplyFormListeners(formElement, parentId) {
@@ -2063,6 +2652,7 @@
 
             // Form submission
             if (form) {
+                const shownAt = Date.now();
                 form.addEventListener('submit', (e) => {
                     e.preventDefault();
 
@@ -2078,6 +2668,8 @@
                     const commentData = {
                         content: formData.get('content'),
                         parent_id: parentId,
+                        honeypot: formData.get('website') || undefined,
+                        elapsed_ms: Date.now() - shownAt,
                     };
                     // Include guest fields only if not authenticated
                     if (!this.state.user) {
@@ -2395,6 +2987,8 @@
                 });
             }
 
+            this.attachProviderButtons(modal);
+
             // Trigger show animation
             requestAnimationFrame(() => {
                 modal.classList.add('show');
@@ -2471,7 +3065,34 @@
                         }
                     }, 0);
                 }
+                this.attachProviderButtons(modalBody);
+            }
+        }
+
+        attachProviderButtons(root) {
+            root.querySelectorAll('.ck-oauth-btn').forEach((btn) => {
+                btn.addEventListener('click', () => this.startProviderLogin(btn.dataset.provider));
+            });
+        }
+
+        // Sign in with an OAuth provider in a popup; the API sets the session cookie
+        // and closes the popup, after which the bridge re-checks who is signed in
+        startProviderLogin(providerId) {
+            const provider = this.state.authProviders.find((p) => p.id === providerId);
+            if (!provider) return;
+
+            const url = `${this.config.apiBase}/api/v1/auth/oauth/${encodeURIComponent(provider.id)}?mode=popup`;
+            const popup = window.open(url, 'commentkit-oauth', 'width=500,height=650');
+            if (!popup) {
+                this.showToast(`Allow popups to sign in with ${provider.name}`);
+                return;
             }
+
+            const timer = setInterval(() => {
+                if (!popup.closed) return;
+                clearInterval(timer);
+                this.sendToIframe({ action: 'checkAuth' });
+            }, 500);
         }
 
         renderLoginModalForm() {
@@ -2488,6 +3109,14 @@
                         ${this.state.authLoading ? 'Sending...' : 'Send Login Link'}
                     </button>
                 </form>
+                ${this.state.authProviders.length > 0 ? `
+                    <div class="ck-oauth-divider">or</div>
+                    ${this.state.authProviders.map((provider) => `
+                        <button type="button" class="ck-btn ck-btn-secondary ck-oauth-btn" data-provider="${this.escapeHtml(provider.id)}">
+                            Continue with ${this.escapeHtml(provider.name)}
+                        </button>
+                    `).join('')}
+                ` : ''}
             `;
         }
 
@@ -2523,6 +3152,7 @@
             const pageTitle = container.dataset.pageTitle || document.title;
             const pageUrl = container.dataset.pageUrl || window.location.href;
             const theme = container.dataset.theme || 'auto';
+            const sso = container.dataset.sso || null;
 
             // Initialize this container
             CommentKit.init({
@@ -2531,6 +3161,7 @@
                 pageTitle: pageTitle,
                 pageUrl: pageUrl,
                 theme: theme,
+                sso: sso,
             });
 
             // Mark as initialized
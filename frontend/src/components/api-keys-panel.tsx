@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import { sites, type ApiKeyScope, type SiteApiKey } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Plus, Trash2, Loader2, Copy, Check } from 'lucide-react';
+import { cn, formatTimeAgo } from '@/lib/utils';
+
+interface ApiKeysPanelProps {
+    siteId: number;
+}
+
+const scopeLabels: Record<ApiKeyScope, string> = {
+    'comments:read': 'Read comments',
+    'comments:write': 'Post comments',
+    moderate: 'Moderate',
+    export: 'Export',
+};
+
+// Named keys that let the site's own servers call the API
+export function ApiKeysPanel({ siteId }: ApiKeysPanelProps) {
+    const [apiKeys, setApiKeys] = useState<SiteApiKey[]>([]);
+    const [availableScopes, setAvailableScopes] = useState<ApiKeyScope[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Create form
+    const [name, setName] = useState('');
+    const [scopes, setScopes] = useState<ApiKeyScope[]>(['comments:read']);
+    const [creating, setCreating] = useState(false);
+
+    // Key that was just created (shown once)
+    const [revealedKey, setRevealedKey] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    useEffect(() => {
+        const loadApiKeys = async () => {
+            setLoading(true);
+            setError(null);
+            setRevealedKey(null);
+            const { data, error } = await sites.listApiKeys(siteId);
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setApiKeys(data.api_keys);
+                setAvailableScopes(data.available_scopes);
+            }
+            setLoading(false);
+        };
+
+        loadApiKeys();
+    }, [siteId]);
+
+    const toggleScope = (scope: ApiKeyScope) => {
+        setScopes((prev) => prev.includes(scope) ? prev.filter((s) => s !== scope) : [...prev, scope]);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setCreating(true);
+        setError(null);
+
+        const { data, error } = await sites.createApiKey(siteId, { name: name.trim(), scopes });
+        if (data && !error) {
+            const { key, ...apiKey } = data;
+            setApiKeys((prev) => [apiKey, ...prev]);
+            setRevealedKey(key);
+            setName('');
+            setScopes(['comments:read']);
+        } else {
+            setError(error || 'Failed to create API key');
+        }
+
+        setCreating(false);
+    };
+
+    const handleRevoke = async (apiKey: SiteApiKey) => {
+        if (!confirm(`Revoke "${apiKey.name}"? Requests using it will be refused from now on.`)) return;
+
+        const { data, error } = await sites.revokeApiKey(siteId, apiKey.id);
+        if (data && !error) {
+            setApiKeys((prev) => prev.map((k) => k.id === apiKey.id ? data : k));
+        } else {
+            setError(error || 'Failed to revoke API key');
+        }
+    };
+
+    const handleCopyKey = async () => {
+        if (!revealedKey) return;
+        await navigator.clipboard.writeText(revealedKey);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading API keys...
+            </div>
+        );
+    }
+
+    return (
+        <Card className="border-slate-200 py-4">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    API Keys
+                </CardTitle>
+                <CardDescription>
+                    Let your own servers read, post, moderate or export comments by sending a key in the <code>X-API-Key</code> header
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                        <p className="text-sm text-red-700">{error}</p>
+                    </div>
+                )}
+
+                {revealedKey && (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
+                        <p className="text-sm font-medium text-blue-900">
+                            API key - copy it now, it won't be shown again
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 text-xs bg-white border border-blue-200 rounded px-3 py-2 font-mono break-all">
+                                {revealedKey}
+                            </code>
+                            <Button variant="outline" size="sm" onClick={handleCopyKey} className="gap-1">
+                                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                            </Button>
+                        </div>
+                        <p className="text-xs text-blue-800">
+                            Keep it on your server. Never put it in page source.
+                        </p>
+                    </div>
+                )}
+
+                <form onSubmit={handleCreate} className="space-y-3">
+                    <div className="space-y-2">
+                        <Label htmlFor="api-key-name">Name</Label>
+                        <Input
+                            id="api-key-name"
+                            placeholder="Import script"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            maxLength={100}
+                            required
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {availableScopes.map((scope) => (
+                            <button
+                                key={scope}
+                                type="button"
+                                onClick={() => toggleScope(scope)}
+                                className={cn(
+                                    "px-3 py-1.5 rounded-full border text-sm font-medium transition-all",
+                                    scopes.includes(scope)
+                                        ? "bg-blue-50 border-blue-300 text-blue-700"
+                                        : "bg-white border-slate-200 text-slate-400 hover:text-slate-600"
+                                )}
+                            >
+                                {scopeLabels[scope]}
+                            </button>
+                        ))}
+                    </div>
+                    <Button type="submit" disabled={creating || scopes.length === 0 || !name.trim()} className="gap-2">
+                        {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Create Key
+                    </Button>
+                </form>
+
+                {apiKeys.length > 0 && (
+                    <div className="rounded-lg border border-slate-200 divide-y divide-slate-100">
+                        {apiKeys.map((apiKey) => (
+                            <div key={apiKey.id} className={cn('p-3 flex items-center gap-3', apiKey.revoked_at && 'opacity-60')}>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm font-medium text-slate-900 truncate">
+                                        {apiKey.name}
+                                        <code className="ml-2 text-xs font-normal text-slate-400">{apiKey.key_prefix}...</code>
+                                    </p>
+                                    <p className="text-xs text-slate-400 truncate">
+                                        {apiKey.scopes.map((scope) => scopeLabels[scope]).join(', ')}
+                                        {' · '}
+                                        {apiKey.revoked_at
+                                            ? `revoked ${formatTimeAgo(apiKey.revoked_at)}`
+                                            : apiKey.last_used_at ? `last used ${formatTimeAgo(apiKey.last_used_at)}` : 'never used'}
+                                    </p>
+                                </div>
+                                {!apiKey.revoked_at && (
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        title="Revoke"
+                                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                        onClick={() => handleRevoke(apiKey)}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
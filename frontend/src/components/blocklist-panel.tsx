@@ -0,0 +1,261 @@
+import { useEffect, useState } from 'react';
+import { sites, type BlocklistAction, type BlocklistEntry, type BlocklistKind } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Ban, Plus, Trash2, Loader2 } from 'lucide-react';
+import { formatTimeAgo } from '@/lib/utils';
+
+interface BlocklistPanelProps {
+    siteId: number;
+    // Bumped by the parent after it adds an entry (e.g. "Block author" on a comment)
+    refreshKey?: number;
+}
+
+const kindOptions: { value: BlocklistKind; label: string; placeholder: string }[] = [
+    { value: 'user', label: 'User ID', placeholder: '42' },
+    { value: 'email', label: 'Email or email hash', placeholder: 'troll@example.com' },
+    { value: 'ip', label: 'IP address', placeholder: '203.0.113.7' },
+    { value: 'word', label: 'Word or phrase', placeholder: 'buy now' },
+    { value: 'regex', label: 'Regular expression', placeholder: 'free\\s+money' },
+];
+
+const actionOptions: { value: BlocklistAction; label: string; description: string }[] = [
+    { value: 'reject', label: 'Reject', description: 'The comment is refused.' },
+    { value: 'hold', label: 'Hold for moderation', description: 'The comment waits in the review queue.' },
+    { value: 'shadow_ban', label: 'Shadow-ban', description: 'The comment is saved and shown to its author, but hidden from everyone else.' },
+];
+
+export function BlocklistPanel({ siteId, refreshKey = 0 }: BlocklistPanelProps) {
+    const [entries, setEntries] = useState<BlocklistEntry[]>([]);
+    const [ipBlockingAvailable, setIpBlockingAvailable] = useState(false);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [kind, setKind] = useState<BlocklistKind>('word');
+    const [value, setValue] = useState('');
+    const [action, setAction] = useState<BlocklistAction>('reject');
+    const [note, setNote] = useState('');
+    const [adding, setAdding] = useState(false);
+
+    useEffect(() => {
+        const loadBlocklist = async () => {
+            setLoading(true);
+            setError(null);
+            const { data, error } = await sites.getBlocklist(siteId);
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setEntries(data.entries);
+                setIpBlockingAvailable(data.ip_blocking_available);
+            }
+            setLoading(false);
+        };
+
+        loadBlocklist();
+    }, [siteId, refreshKey]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setAdding(true);
+        setError(null);
+
+        const { data, error } = await sites.addBlocklistEntry(siteId, {
+            kind,
+            value,
+            action,
+            note: note || undefined,
+        });
+
+        if (data && !error) {
+            setEntries((prev) => [data, ...prev]);
+            setValue('');
+            setNote('');
+        } else {
+            setError(error || 'Failed to add entry');
+        }
+
+        setAdding(false);
+    };
+
+    const handleActionChange = async (entry: BlocklistEntry, newAction: BlocklistAction) => {
+        const { data, error } = await sites.updateBlocklistEntry(siteId, entry.id, { action: newAction });
+        if (data && !error) {
+            setEntries((prev) => prev.map((e) => e.id === entry.id ? data : e));
+        } else {
+            setError(error || 'Failed to update entry');
+        }
+    };
+
+    const handleDelete = async (entryId: number) => {
+        if (!confirm('Remove this entry from the blocklist?')) return;
+
+        const { error } = await sites.deleteBlocklistEntry(siteId, entryId);
+        if (error) {
+            setError(error);
+            return;
+        }
+        setEntries((prev) => prev.filter((e) => e.id !== entryId));
+    };
+
+    const selectedKind = kindOptions.find((option) => option.value === kind);
+    const selectedAction = actionOptions.find((option) => option.value === action);
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading blocklist...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            )}
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Ban className="h-5 w-5" />
+                        Add to Blocklist
+                    </CardTitle>
+                    <CardDescription>
+                        Ban commenters or filter words. New comments are checked against every entry before they are saved.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleAdd} className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-3">
+                            <div className="space-y-2">
+                                <Label>Block by</Label>
+                                <Select value={kind} onValueChange={(v) => setKind(v as BlocklistKind)}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {kindOptions.map((option) => (
+                                            <SelectItem
+                                                key={option.value}
+                                                value={option.value}
+                                                disabled={option.value === 'ip' && !ipBlockingAvailable}
+                                            >
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="blocklist-value">Value</Label>
+                                <Input
+                                    id="blocklist-value"
+                                    placeholder={selectedKind?.placeholder}
+                                    value={value}
+                                    onChange={(e) => setValue(e.target.value)}
+                                    maxLength={500}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label>Action</Label>
+                                <Select value={action} onValueChange={(v) => setAction(v as BlocklistAction)}>
+                                    <SelectTrigger className="w-full">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {actionOptions.map((option) => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        {selectedAction && (
+                            <p className="text-sm text-slate-500">{selectedAction.description}</p>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="blocklist-note">Note (optional)</Label>
+                            <Input
+                                id="blocklist-note"
+                                placeholder="Why this entry was added"
+                                value={note}
+                                onChange={(e) => setNote(e.target.value)}
+                                maxLength={200}
+                            />
+                        </div>
+                        {!ipBlockingAvailable && (
+                            <p className="text-xs text-slate-400">
+                                IP blocking is unavailable because IP addresses are not collected (COLLECT_IP_ADDRESS).
+                            </p>
+                        )}
+                        <Button type="submit" disabled={adding || !value.trim()} className="gap-2">
+                            {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Add Entry
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            {entries.length > 0 && (
+                <Card className="border-slate-200">
+                    <div className="divide-y divide-slate-100">
+                        {entries.map((entry) => (
+                            <div key={entry.id} className="p-4 flex items-center gap-4">
+                                <div className="min-w-0 flex-1">
+                                    <div className="flex items-center gap-2">
+                                        <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600">
+                                            {kindOptions.find((option) => option.value === entry.kind)?.label ?? entry.kind}
+                                        </span>
+                                        <code className="font-mono text-sm text-slate-900 truncate">{entry.value}</code>
+                                    </div>
+                                    <p className="text-xs text-slate-400 mt-1">
+                                        {entry.note ? `${entry.note} · ` : ''}added {formatTimeAgo(entry.created_at)}
+                                    </p>
+                                </div>
+                                <Select
+                                    value={entry.action}
+                                    onValueChange={(v) => handleActionChange(entry, v as BlocklistAction)}
+                                >
+                                    <SelectTrigger className="w-[190px]">
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {actionOptions.map((option) => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Remove"
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                    onClick={() => handleDelete(entry.id)}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+}
@@ -2,6 +2,8 @@ import { type Comment } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Avatar } from '@/components/ui/avatar';
+import { SpamReasons } from '@/components/spam-reasons';
+import { CommentRevisions } from '@/components/comment-revisions';
 import { Check, X, AlertTriangle, Trash2, Clock, ExternalLink } from 'lucide-react';
 import { cn, formatTimeAgo } from '@/lib/utils';
 
@@ -69,6 +71,7 @@ export function CommentCard({
                         <div className="flex items-center gap-3 flex-wrap">
                             <div className="flex items-center gap-3">
                                 <Avatar
+                                    src={comment.author_avatar_url}
                                     emailHash={comment.author_email_hash}
                                     name={comment.author_name}
                                     size="md"
@@ -124,6 +127,9 @@ export function CommentCard({
                             </p>
                         </div>
 
+                        <SpamReasons comment={comment} />
+                        <CommentRevisions comment={comment} />
+
                         {/* Author Email (if available) */}
                         {comment.author_email && (
                             <div className="text-xs text-slate-500">
@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { comments, type Comment, type CommentRevision } from '@/lib/api';
+import { formatTimeAgo } from '@/lib/utils';
+
+interface CommentRevisionsProps {
+    comment: Pick<Comment, 'id' | 'is_edited'>;
+}
+
+/**
+ * "Edited" marker that expands into the comment's earlier versions (renders nothing for unedited comments)
+ */
+export function CommentRevisions({ comment }: CommentRevisionsProps) {
+    const [open, setOpen] = useState(false);
+    const [revisions, setRevisions] = useState<CommentRevision[] | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    if (!comment.is_edited) return null;
+
+    const handleToggle = async () => {
+        setOpen(!open);
+        if (open || revisions) return;
+
+        setLoading(true);
+        setError(null);
+        const { data, error } = await comments.getRevisions(comment.id);
+        if (data && !error) {
+            setRevisions(data.revisions);
+        } else {
+            setError(error || 'Failed to load edit history');
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div className="text-xs">
+            <button
+                type="button"
+                onClick={handleToggle}
+                className="inline-flex items-center gap-1 text-slate-500 hover:text-slate-700"
+            >
+                <History className="h-3.5 w-3.5" />
+                Edited · {open ? 'Hide' : 'View'} history
+            </button>
+            {open && (
+                <div className="mt-2 space-y-2 border-l-2 border-slate-200 pl-3">
+                    {loading && (
+                        <div className="flex items-center gap-2 text-slate-400">
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                            Loading...
+                        </div>
+                    )}
+                    {error && <p className="text-red-600">{error}</p>}
+                    {revisions?.map((revision) => (
+                        <div key={revision.id}>
+                            <p className="text-slate-400">Replaced {formatTimeAgo(revision.replaced_at)}</p>
+                            <p className="text-slate-600 whitespace-pre-wrap">{revision.content}</p>
+                        </div>
+                    ))}
+                    {revisions?.length === 0 && <p className="text-slate-400">No earlier versions were recorded.</p>}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -115,6 +115,7 @@ export function DashboardLayout({ children, activeTab, onTabChange }: DashboardL
                                     <div className="text-xs text-slate-500">{user?.email}</div>
                                 </div>
                                 <Avatar
+                                    src={user?.avatar_url}
                                     emailHash={user?.email_hash}
                                     name={user?.display_name || user?.email}
                                     size="md"
@@ -0,0 +1,201 @@
+import { useEffect, useState } from 'react';
+import { sites, type SiteDomainAlias, type VerificationMethod } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { VerificationSteps } from '@/components/verification-steps';
+import { Globe, Plus, Trash2, Loader2, ShieldCheck, ShieldAlert } from 'lucide-react';
+
+interface DomainsPanelProps {
+    siteId: number;
+}
+
+// Extra domains (www., staging, previews) that show the same comments as the site
+export function DomainsPanel({ siteId }: DomainsPanelProps) {
+    const [primary, setPrimary] = useState<{ domain: string; verified: boolean } | null>(null);
+    const [aliases, setAliases] = useState<SiteDomainAlias[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [newDomain, setNewDomain] = useState('');
+    const [adding, setAdding] = useState(false);
+
+    // The unverified alias whose instructions are open
+    const [verifyingId, setVerifyingId] = useState<number | null>(null);
+    const [method, setMethod] = useState<VerificationMethod>('file');
+    const [checking, setChecking] = useState(false);
+    const [verifyError, setVerifyError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadDomains = async () => {
+            setLoading(true);
+            setError(null);
+            const { data, error } = await sites.getDomains(siteId);
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setPrimary(data.primary);
+                setAliases(data.aliases);
+            }
+            setLoading(false);
+        };
+
+        loadDomains();
+    }, [siteId]);
+
+    const handleAdd = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setAdding(true);
+        setError(null);
+
+        const { data, error } = await sites.addDomain(siteId, newDomain.trim());
+        if (data && !error) {
+            setAliases((prev) => [...prev, data]);
+            setNewDomain('');
+            setVerifyingId(data.id);
+            setVerifyError(null);
+        } else {
+            setError(error || 'Failed to add domain');
+        }
+
+        setAdding(false);
+    };
+
+    const handleVerify = async (alias: SiteDomainAlias) => {
+        setChecking(true);
+        setVerifyError(null);
+
+        const { data, error } = await sites.verifyDomain(siteId, alias.id, method);
+        if (error) {
+            setVerifyError(error);
+        } else if (data?.verified) {
+            setAliases((prev) => prev.map((a) => a.id === alias.id
+                ? { ...a, verified: true, verification_method: method, verification: null }
+                : a));
+            setVerifyingId(null);
+        } else {
+            setVerifyError(data?.error || 'Verification failed');
+        }
+
+        setChecking(false);
+    };
+
+    const handleDelete = async (alias: SiteDomainAlias) => {
+        if (!confirm(`Remove ${alias.domain}? The widget will stop loading there.`)) return;
+
+        const { error } = await sites.deleteDomain(siteId, alias.id);
+        if (error) {
+            setError(error);
+            return;
+        }
+        setAliases((prev) => prev.filter((a) => a.id !== alias.id));
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading domains...
+            </div>
+        );
+    }
+
+    return (
+        <Card className="border-slate-200 py-4">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Globe className="h-5 w-5" />
+                    Domains
+                </CardTitle>
+                <CardDescription>
+                    Serve the same comments on more domains, such as www., staging or preview hosts, or every subdomain with a wildcard like *.example.com. Each domain must be verified before the widget loads there.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                        <p className="text-sm text-red-700">{error}</p>
+                    </div>
+                )}
+
+                <div className="rounded-lg border border-slate-200 divide-y divide-slate-100">
+                    {primary && (
+                        <div className="p-3 flex items-center gap-3">
+                            <code className="font-mono text-sm text-slate-900 flex-1 truncate">{primary.domain}</code>
+                            <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600">Primary</span>
+                            <VerifiedBadge verified={primary.verified} />
+                        </div>
+                    )}
+                    {aliases.map((alias) => (
+                        <div key={alias.id} className="p-3 space-y-3">
+                            <div className="flex items-center gap-3">
+                                <code className="font-mono text-sm text-slate-900 flex-1 truncate">{alias.domain}</code>
+                                <VerifiedBadge verified={alias.verified} />
+                                {!alias.verified && verifyingId !== alias.id && (
+                                    <Button variant="outline" size="sm" onClick={() => { setVerifyingId(alias.id); setVerifyError(null); }}>
+                                        Verify
+                                    </Button>
+                                )}
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Remove"
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                    onClick={() => handleDelete(alias)}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                            {alias.verification && verifyingId === alias.id && (
+                                <div className="bg-slate-50 rounded-lg p-3 space-y-3">
+                                    <VerificationSteps
+                                        info={alias.verification}
+                                        method={method}
+                                        onMethodChange={(m) => { setMethod(m); setVerifyError(null); }}
+                                    />
+                                    {verifyError && (
+                                        <p className="text-sm text-red-700">{verifyError}</p>
+                                    )}
+                                    <div className="flex gap-2">
+                                        <Button size="sm" onClick={() => handleVerify(alias)} disabled={checking} className="gap-2">
+                                            {checking ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+                                            Verify Now
+                                        </Button>
+                                        <Button variant="ghost" size="sm" onClick={() => setVerifyingId(null)}>
+                                            Cancel
+                                        </Button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                </div>
+
+                <form onSubmit={handleAdd} className="flex items-center gap-2 max-w-md">
+                    <Input
+                        placeholder="www.example.com or *.example.com"
+                        value={newDomain}
+                        onChange={(e) => setNewDomain(e.target.value)}
+                        maxLength={255}
+                    />
+                    <Button type="submit" disabled={adding || !newDomain.trim()} className="gap-2 shrink-0">
+                        {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                        Add Domain
+                    </Button>
+                </form>
+            </CardContent>
+        </Card>
+    );
+}
+
+function VerifiedBadge({ verified }: { verified: boolean }) {
+    return verified ? (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-green-50 text-green-700">
+            <ShieldCheck className="h-3 w-3" /> Verified
+        </span>
+    ) : (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-amber-50 text-amber-700">
+            <ShieldAlert className="h-3 w-3" /> Unverified
+        </span>
+    );
+}
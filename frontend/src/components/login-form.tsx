@@ -1,6 +1,7 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { trackEvent, Events } from '@/lib/analytics';
+import { auth, type AuthProvider } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -15,7 +16,9 @@ import {
     CheckCircle2,
     ArrowRight,
     Globe,
-    BookOpen
+    BookOpen,
+    Github,
+    KeyRound
 } from 'lucide-react';
 import logo from "../../icon.png"
 
@@ -53,6 +56,26 @@ export function LoginForm() {
     const [loading, setLoading] = useState(false);
     const [sent, setSent] = useState(false);
     const [error, setError] = useState('');
+    const [providers, setProviders] = useState<AuthProvider[]>([]);
+
+    useEffect(() => {
+        auth.providers().then(({ data }) => {
+            if (data) setProviders(data.providers);
+        });
+
+        // A failed OAuth sign-in comes back here with the reason in the URL
+        const params = new URLSearchParams(window.location.search);
+        const oauthError = params.get('oauth_error');
+        if (oauthError) {
+            setError(oauthError);
+            window.history.replaceState({}, '', window.location.pathname);
+        }
+    }, []);
+
+    const handleProviderLogin = (provider: AuthProvider) => {
+        trackEvent(Events.USER_LOGGED_IN, { method: `oauth_${provider.id}` });
+        window.location.href = auth.oauthUrl(provider.id);
+    };
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -152,9 +175,30 @@ export function LoginForm() {
                         )}
                     </Button>
                 </form>
+                {providers.length > 0 && (
+                    <div className="mt-4 space-y-3">
+                        <div className="flex items-center gap-3 text-xs text-slate-400">
+                            <div className="h-px flex-1 bg-slate-200" />
+                            or
+                            <div className="h-px flex-1 bg-slate-200" />
+                        </div>
+                        {providers.map((provider) => (
+                            <Button
+                                key={provider.id}
+                                type="button"
+                                variant="outline"
+                                className="w-full h-11 gap-2"
+                                onClick={() => handleProviderLogin(provider)}
+                            >
+                                {provider.id === 'github' ? <Github className="h-4 w-4" /> : <KeyRound className="h-4 w-4" />}
+                                Continue with {provider.name}
+                            </Button>
+                        ))}
+                    </div>
+                )}
                 <div className="flex items-center gap-2 justify-center mt-4 text-xs text-slate-400">
                     <Shield className="h-3.5 w-3.5" />
-                    <span>Passwordless sign-in via magic link</span>
+                    <span>Passwordless sign-in via magic link{providers.length > 0 ? ' or your existing account' : ''}</span>
                 </div>
             </CardContent>
         </Card>
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { sites, type ModerationLogEntry } from '@/lib/api';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { History, Loader2, ChevronLeft, ChevronRight } from 'lucide-react';
+import { cn, formatTimeAgo } from '@/lib/utils';
+
+interface ModerationLogPanelProps {
+    siteId: number;
+}
+
+const PAGE_SIZE = 25;
+
+const actionLabels: Record<ModerationLogEntry['action'], { label: string; className: string }> = {
+    approve: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+    reject: { label: 'Rejected', className: 'bg-slate-100 text-slate-700' },
+    spam: { label: 'Marked spam', className: 'bg-red-100 text-red-700' },
+    mark_pending: { label: 'Sent to review', className: 'bg-yellow-100 text-yellow-700' },
+    delete: { label: 'Deleted', className: 'bg-red-100 text-red-700' },
+    restore: { label: 'Restored', className: 'bg-blue-100 text-blue-700' },
+};
+
+export function ModerationLogPanel({ siteId }: ModerationLogPanelProps) {
+    const [entries, setEntries] = useState<ModerationLogEntry[]>([]);
+    const [total, setTotal] = useState(0);
+    const [offset, setOffset] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        setOffset(0);
+    }, [siteId]);
+
+    useEffect(() => {
+        const loadLog = async () => {
+            setLoading(true);
+            setError(null);
+            const { data, error } = await sites.getModerationLog(siteId, { limit: PAGE_SIZE, offset });
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setEntries(data.entries);
+                setTotal(data.total);
+            }
+            setLoading(false);
+        };
+
+        loadLog();
+    }, [siteId, offset]);
+
+    if (loading && entries.length === 0) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading history...
+            </div>
+        );
+    }
+
+    if (error) {
+        return (
+            <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                <p className="text-sm text-red-700">{error}</p>
+            </div>
+        );
+    }
+
+    if (entries.length === 0) {
+        return (
+            <Card className="border-slate-200">
+                <CardContent className="p-8 text-center">
+                    <History className="h-12 w-12 text-slate-300 mx-auto mb-3" />
+                    <h3 className="text-lg font-medium text-slate-800 mb-1">No Moderation History</h3>
+                    <p className="text-slate-500 text-sm">
+                        Approvals, rejections and deletions will be recorded here.
+                    </p>
+                </CardContent>
+            </Card>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <Card className="border-slate-200">
+                <div className="divide-y divide-slate-100">
+                    {entries.map((entry) => {
+                        const action = actionLabels[entry.action];
+                        return (
+                            <div key={entry.id} className="p-4">
+                                <div className="flex items-center gap-2 flex-wrap mb-1">
+                                    <span className={cn('px-2 py-0.5 text-xs rounded-full', action.className)}>
+                                        {action.label}
+                                    </span>
+                                    <span className="text-sm text-slate-700">
+                                        by <span className="font-medium">{entry.moderator?.api_key ? `API key "${entry.moderator.api_key.name}"` : entry.moderator?.email ?? 'Unknown'}</span>
+                                        {entry.moderator && !entry.moderator.api_key && (
+                                            <span className="text-slate-400"> ({entry.moderator.role})</span>
+                                        )}
+                                    </span>
+                                    <span className="text-xs text-slate-400">• {formatTimeAgo(entry.created_at)}</span>
+                                </div>
+                                {entry.from_status && entry.to_status && (
+                                    <p className="text-xs text-slate-500 mb-1">
+                                        {entry.from_status} → {entry.to_status}
+                                    </p>
+                                )}
+                                {entry.comment_excerpt && (
+                                    <p className="text-sm text-slate-600 line-clamp-2">
+                                        {entry.comment_excerpt}
+                                    </p>
+                                )}
+                                {entry.reason && (
+                                    <p className="text-sm text-slate-500 mt-1 italic">
+                                        Reason: {entry.reason}
+                                    </p>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            </Card>
+
+            {total > PAGE_SIZE && (
+                <div className="flex items-center justify-between">
+                    <p className="text-sm text-slate-500">
+                        {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+                    </p>
+                    <div className="flex gap-2">
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={offset === 0 || loading}
+                            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+                        >
+                            <ChevronLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={offset + PAGE_SIZE >= total || loading}
+                            onClick={() => setOffset(offset + PAGE_SIZE)}
+                        >
+                            <ChevronRight className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
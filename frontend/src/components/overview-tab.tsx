@@ -18,7 +18,7 @@ import {
     Plus,
     Globe
 } from 'lucide-react';
-import { cn, formatTimeAgo } from '@/lib/utils';
+import { cn, formatTimeAgo, hasSiteRole } from '@/lib/utils';
 
 interface OverviewTabProps {
     onNavigateToSites?: () => void;
@@ -51,7 +51,8 @@ export function OverviewTab({ onNavigateToSites }: OverviewTabProps = {}) {
             return {
                 siteId: site.id,
                 siteName: site.name,
-                comments: siteData.data?.comments || [],
+                // The review queue only shows sites the user can moderate
+                comments: hasSiteRole(site.role, 'moderator') ? siteData.data?.comments || [] : [],
                 activity: activityData.data?.activity || [],
                 pages: pagesData.data?.pages || []
             };
@@ -266,6 +267,7 @@ export function OverviewTab({ onNavigateToSites }: OverviewTabProps = {}) {
                                         <div key={idx} className="p-4 hover:bg-slate-50 transition-colors">
                                             <div className="flex gap-3">
                                                 <Avatar
+                                                    src={item.author_avatar_url}
                                                     emailHash={item.author_email_hash}
                                                     name={item.author_name}
                                                     size="md"
@@ -1,18 +1,183 @@
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
-import { auth as authApi } from '@/lib/api';
+import { auth as authApi, notifications as notificationsApi, type NotificationPreferences, type UserSession } from '@/lib/api';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Avatar } from '@/components/ui/avatar';
-import { User, Mail, Save, Loader2 } from 'lucide-react';
+import { User, Mail, Save, Loader2, Bell, MonitorSmartphone, LogOut, Download, Trash2, Database, Upload } from 'lucide-react';
+import { describeUserAgent, formatTimeAgo, resizeImageToSquare } from '@/lib/utils';
+
+const notificationOptions: { key: keyof NotificationPreferences; label: string; description: string }[] = [
+    { key: 'reply_emails', label: 'Replies', description: 'Email me when someone replies to one of my comments.' },
+    { key: 'mention_emails', label: 'Mentions', description: 'Email me when someone @mentions me in a comment.' },
+    { key: 'digest_emails', label: 'Pending comments digest', description: 'A daily summary of new comments waiting for review on my sites.' },
+];
 
 export function SettingsTab() {
-    const { user } = useAuth();
+    const { user, logout, updateUser, emailChangeResult } = useAuth();
     const [displayName, setDisplayName] = useState(user?.display_name || '');
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+    const [preferencesError, setPreferencesError] = useState<string | null>(null);
+    const [sessions, setSessions] = useState<UserSession[] | null>(null);
+    const [sessionsError, setSessionsError] = useState<string | null>(null);
+    const [revoking, setRevoking] = useState<number | 'all' | null>(null);
+    const [exporting, setExporting] = useState(false);
+    const [deleteConfirm, setDeleteConfirm] = useState('');
+    const [deleting, setDeleting] = useState(false);
+    const [accountError, setAccountError] = useState<string | null>(null);
+    const [newEmail, setNewEmail] = useState('');
+    const [changingEmail, setChangingEmail] = useState(false);
+    const [avatarBusy, setAvatarBusy] = useState(false);
+    const [avatarError, setAvatarError] = useState<string | null>(null);
+    const avatarInput = useRef<HTMLInputElement>(null);
+    const [emailMessage, setEmailMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(emailChangeResult);
+
+    useEffect(() => {
+        notificationsApi.getPreferences().then(({ data, error }) => {
+            if (data) setPreferences(data);
+            if (error) setPreferencesError(error);
+        });
+        authApi.sessions().then(({ data, error }) => {
+            if (data) setSessions(data.sessions);
+            if (error) setSessionsError(error);
+        });
+    }, []);
+
+    const handleRevokeSession = async (session: UserSession) => {
+        if (session.current) {
+            await logout();
+            return;
+        }
+
+        setRevoking(session.id);
+        setSessionsError(null);
+        const { error } = await authApi.revokeSession(session.id);
+        if (error) {
+            setSessionsError(error);
+        } else {
+            setSessions((prev) => prev ? prev.filter((s) => s.id !== session.id) : prev);
+        }
+        setRevoking(null);
+    };
+
+    const handleLogoutEverywhere = async () => {
+        if (!confirm('Sign out of every browser and device, including this one?')) return;
+
+        setRevoking('all');
+        setSessionsError(null);
+        const { error } = await authApi.logoutAll();
+        if (error) {
+            setSessionsError(error);
+            setRevoking(null);
+            return;
+        }
+        await logout();
+    };
+
+    // Preferences save as soon as a box is toggled, rolling back if the request fails
+    const handleTogglePreference = async (key: keyof NotificationPreferences, value: boolean) => {
+        if (!preferences) return;
+
+        const previous = preferences;
+        setPreferences({ ...preferences, [key]: value });
+        setPreferencesError(null);
+
+        const { data, error } = await notificationsApi.updatePreferences({ [key]: value });
+        if (data && !error) {
+            setPreferences(data);
+        } else {
+            setPreferences(previous);
+            setPreferencesError(error || 'Failed to update notification preferences');
+        }
+    };
+
+    const handleAvatarSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file || !user) return;
+
+        setAvatarBusy(true);
+        setAvatarError(null);
+        try {
+            const { data, error } = await authApi.uploadAvatar(await resizeImageToSquare(file, 256));
+            if (data && !error) {
+                updateUser({ ...user, avatar_url: data.avatar_url });
+            } else {
+                setAvatarError(error || 'Failed to upload avatar');
+            }
+        } catch {
+            setAvatarError('That file could not be read as an image');
+        }
+        setAvatarBusy(false);
+    };
+
+    const handleRemoveAvatar = async () => {
+        if (!user) return;
+
+        setAvatarBusy(true);
+        setAvatarError(null);
+        const { error } = await authApi.removeAvatar();
+        if (error) {
+            setAvatarError(error);
+        } else {
+            updateUser({ ...user, avatar_url: null });
+        }
+        setAvatarBusy(false);
+    };
+
+    const handleRequestEmailChange = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setChangingEmail(true);
+        setEmailMessage(null);
+
+        const { data, error } = await authApi.requestEmailChange(newEmail);
+        if (data && !error) {
+            setEmailMessage({ type: 'success', text: `${data.message}. Your address changes once you follow it.` });
+            setNewEmail('');
+        } else {
+            setEmailMessage({ type: 'error', text: error || 'Failed to start the email change' });
+        }
+
+        setChangingEmail(false);
+    };
+
+    const handleExport = async () => {
+        setExporting(true);
+        setAccountError(null);
+
+        const { data, error } = await authApi.exportData();
+        if (data && !error) {
+            const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }));
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `commentkit-export-${user?.id}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } else {
+            setAccountError(error || 'Failed to export your data');
+        }
+
+        setExporting(false);
+    };
+
+    const handleDeleteAccount = async () => {
+        if (!confirm('Delete your account permanently? This cannot be undone.')) return;
+
+        setDeleting(true);
+        setAccountError(null);
+
+        const { error } = await authApi.deleteAccount(deleteConfirm);
+        if (error) {
+            setAccountError(error);
+            setDeleting(false);
+            return;
+        }
+        await logout();
+    };
 
     const handleSave = async () => {
         setSaving(true);
@@ -56,6 +221,7 @@ export function SettingsTab() {
                     {/* Avatar */}
                     <div className="flex items-center gap-6">
                         <Avatar
+                            src={user?.avatar_url}
                             emailHash={user?.email_hash}
                             name={user?.display_name || user?.email}
                             size="lg"
@@ -64,8 +230,29 @@ export function SettingsTab() {
                         <div>
                             <p className="text-sm font-medium text-slate-900">Profile Picture</p>
                             <p className="text-sm text-slate-600 mt-1">
-                                Powered by <a href="https://gravatar.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Gravatar</a>
+                                {user?.avatar_url
+                                    ? 'Shown on your comments and in the dashboard'
+                                    : <>Powered by <a href="https://gravatar.com" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">Gravatar</a>, or upload your own</>}
                             </p>
+                            <div className="flex items-center gap-2 mt-3">
+                                <input
+                                    ref={avatarInput}
+                                    type="file"
+                                    accept="image/png,image/jpeg,image/webp"
+                                    className="hidden"
+                                    onChange={handleAvatarSelected}
+                                />
+                                <Button variant="outline" size="sm" onClick={() => avatarInput.current?.click()} disabled={avatarBusy}>
+                                    {avatarBusy ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                                    Upload
+                                </Button>
+                                {user?.avatar_url && (
+                                    <Button variant="ghost" size="sm" onClick={handleRemoveAvatar} disabled={avatarBusy}>
+                                        Remove
+                                    </Button>
+                                )}
+                            </div>
+                            {avatarError && <p className="text-sm text-red-600 mt-2">{avatarError}</p>}
                         </div>
                     </div>
 
@@ -102,9 +289,29 @@ export function SettingsTab() {
                                 Verified
                             </div>
                         </div>
-                        <p className="text-sm text-slate-600">
-                            Your email address cannot be changed
-                        </p>
+                        <form onSubmit={handleRequestEmailChange} className="flex items-center gap-2 max-w-md pt-2">
+                            <Input
+                                id="new-email"
+                                type="email"
+                                value={newEmail}
+                                onChange={(e) => setNewEmail(e.target.value)}
+                                placeholder="New email address"
+                                required
+                            />
+                            <Button type="submit" variant="outline" disabled={changingEmail || !newEmail} className="shrink-0 gap-2">
+                                {changingEmail ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                                Change email
+                            </Button>
+                        </form>
+                        {emailMessage ? (
+                            <p className={`text-sm font-medium ${emailMessage.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                                {emailMessage.text}
+                            </p>
+                        ) : (
+                            <p className="text-sm text-slate-600">
+                                We'll send a confirmation link to the new address and let the current one know
+                            </p>
+                        )}
                     </div>
 
                     {/* Save Button */}
@@ -136,6 +343,163 @@ export function SettingsTab() {
                 </CardContent>
             </Card>
 
+            {/* Email Notifications */}
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Bell className="h-5 w-5" />
+                        Email Notifications
+                    </CardTitle>
+                    <CardDescription>
+                        Choose which emails CommentKit sends to {user?.email}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {!preferences && !preferencesError && (
+                        <div className="flex items-center gap-2 text-sm text-slate-500">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading preferences...
+                        </div>
+                    )}
+
+                    {preferences && notificationOptions.map((option) => (
+                        <label key={option.key} className="flex items-start gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={preferences[option.key]}
+                                onChange={(e) => handleTogglePreference(option.key, e.target.checked)}
+                                className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                            />
+                            <div>
+                                <p className="text-sm font-medium text-slate-900">{option.label}</p>
+                                <p className="text-sm text-slate-500">{option.description}</p>
+                            </div>
+                        </label>
+                    ))}
+
+                    {preferencesError && (
+                        <div className="text-sm font-medium text-red-600">{preferencesError}</div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {/* Sessions */}
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <MonitorSmartphone className="h-5 w-5" />
+                        Active Sessions
+                    </CardTitle>
+                    <CardDescription>
+                        Browsers and devices signed in to your account. Sessions end after 30 days without use.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {!sessions && !sessionsError && (
+                        <div className="flex items-center gap-2 text-sm text-slate-500">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading sessions...
+                        </div>
+                    )}
+
+                    {sessions && (
+                        <div className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                            {sessions.map((session) => (
+                                <div key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                                    <div className="min-w-0">
+                                        <div className="flex items-center gap-2">
+                                            <p className="text-sm font-medium text-slate-900 truncate" title={session.user_agent ?? undefined}>
+                                                {describeUserAgent(session.user_agent)}
+                                            </p>
+                                            {session.current && (
+                                                <span className="px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-700">This browser</span>
+                                            )}
+                                        </div>
+                                        <p className="text-xs text-slate-500 mt-0.5">
+                                            Signed in {formatTimeAgo(session.created_at)}
+                                            {' · '}last used {formatTimeAgo(session.last_used_at ?? session.created_at)}
+                                        </p>
+                                    </div>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="shrink-0 text-red-600 hover:text-red-700 hover:bg-red-50"
+                                        disabled={revoking !== null}
+                                        onClick={() => handleRevokeSession(session)}
+                                    >
+                                        {revoking === session.id ? <Loader2 className="h-4 w-4 animate-spin" /> : session.current ? 'Sign out' : 'Revoke'}
+                                    </Button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {sessionsError && (
+                        <div className="text-sm font-medium text-red-600">{sessionsError}</div>
+                    )}
+
+                    <Button variant="outline" onClick={handleLogoutEverywhere} disabled={revoking !== null} className="gap-2">
+                        {revoking === 'all' ? <Loader2 className="h-4 w-4 animate-spin" /> : <LogOut className="h-4 w-4" />}
+                        Sign out everywhere
+                    </Button>
+                </CardContent>
+            </Card>
+
+            {/* Your Data */}
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Database className="h-5 w-5" />
+                        Your Data
+                    </CardTitle>
+                    <CardDescription>
+                        Download or erase what CommentKit stores about you
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                        <p className="text-sm text-slate-600">
+                            A JSON file with your profile, comments and their edit history, reactions, likes and sessions on every site.
+                        </p>
+                        <Button variant="outline" onClick={handleExport} disabled={exporting} className="gap-2">
+                            {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+                            Download my data
+                        </Button>
+                    </div>
+
+                    <div className="space-y-2 pt-4 border-t border-slate-100">
+                        <Label htmlFor="delete-confirm" className="text-sm font-medium text-red-700">
+                            Delete account
+                        </Label>
+                        <p className="text-sm text-slate-600">
+                            Your comments are deleted or kept under "Deleted user", depending on each site's policy.
+                            Sites you own must be deleted first. Type <span className="font-medium">{user?.email}</span> to confirm.
+                        </p>
+                        <div className="flex items-center gap-2 max-w-md">
+                            <Input
+                                id="delete-confirm"
+                                value={deleteConfirm}
+                                onChange={(e) => setDeleteConfirm(e.target.value)}
+                                placeholder={user?.email}
+                            />
+                            <Button
+                                variant="outline"
+                                onClick={handleDeleteAccount}
+                                disabled={deleting || deleteConfirm.trim().toLowerCase() !== (user?.email || '').toLowerCase()}
+                                className="shrink-0 gap-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                                {deleting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                                Delete account
+                            </Button>
+                        </div>
+                    </div>
+
+                    {accountError && (
+                        <div className="text-sm font-medium text-red-600">{accountError}</div>
+                    )}
+                </CardContent>
+            </Card>
+
             {/* Account Info */}
             <Card className="border-slate-200 py-4">
                 <CardHeader>
@@ -0,0 +1,497 @@
+import { useEffect, useState } from 'react';
+import { sites, type ReactionType, type SiteSettings } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { ShieldCheck, Save, Loader2, SmilePlus, Gauge, ShieldAlert, Type, Pencil, UserX } from 'lucide-react';
+
+interface SiteSettingsPanelProps {
+    siteId: number;
+    settings: SiteSettings;
+    onSaved: (settings: SiteSettings) => void;
+}
+
+const approvalOptions: { value: SiteSettings['moderation']['require_approval']; label: string; description: string }[] = [
+    { value: 'guests', label: 'Guests only', description: 'Signed-in users are published immediately, guest comments wait for review.' },
+    { value: 'all', label: 'Everyone', description: 'Every comment waits for review unless the author is a trusted commenter.' },
+    { value: 'none', label: 'Nobody', description: 'All comments are published immediately.' },
+];
+
+const deletedAccountOptions: { value: SiteSettings['privacy']['deleted_account_comments']; label: string; description: string }[] = [
+    { value: 'anonymize', label: 'Keep them anonymously', description: 'Comments stay up under "Deleted user" so threads still make sense.' },
+    { value: 'delete', label: 'Delete them', description: 'Comments are removed; replies to them stay under a "deleted" placeholder.' },
+];
+
+const reactionOptions: { value: ReactionType; emoji: string; label: string }[] = [
+    { value: 'like', emoji: '👍', label: 'Like' },
+    { value: 'love', emoji: '😍', label: 'Love' },
+    { value: 'laugh', emoji: '😂', label: 'Laugh' },
+    { value: 'sad', emoji: '😢', label: 'Sad' },
+    { value: 'angry', emoji: '😠', label: 'Angry' },
+];
+
+const rateLimitFields: { key: 'comments_per_ip' | 'comments_per_user' | 'comments_per_email'; label: string; description: string }[] = [
+    { key: 'comments_per_ip', label: 'Per IP address', description: 'Every commenter on the same network' },
+    { key: 'comments_per_user', label: 'Per signed-in user', description: 'Each account' },
+    { key: 'comments_per_email', label: 'Per guest email', description: 'Guests using the same email address' },
+];
+
+export function SiteSettingsPanel({ siteId, settings, onSaved }: SiteSettingsPanelProps) {
+    const [moderation, setModeration] = useState(settings.moderation);
+    const [reactions, setReactions] = useState(settings.reactions);
+    const [spam, setSpam] = useState(settings.spam);
+    // Edited as one word per line, split back into a list on save
+    const [blockedWords, setBlockedWords] = useState(settings.spam.blocked_words.join('\n'));
+    const [rateLimits, setRateLimits] = useState(settings.rate_limits);
+    const [formatting, setFormatting] = useState(settings.formatting);
+    const [editing, setEditing] = useState(settings.editing);
+    const [privacy, setPrivacy] = useState(settings.privacy);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Keep the form in sync with the saved settings (site switch or reload)
+    useEffect(() => {
+        setModeration(settings.moderation);
+        setReactions(settings.reactions);
+        setSpam(settings.spam);
+        setBlockedWords(settings.spam.blocked_words.join('\n'));
+        setRateLimits(settings.rate_limits);
+        setFormatting(settings.formatting);
+        setEditing(settings.editing);
+        setPrivacy(settings.privacy);
+    }, [settings]);
+
+    useEffect(() => {
+        setMessage(null);
+    }, [siteId]);
+
+    const handleSave = async () => {
+        setSaving(true);
+        setMessage(null);
+
+        const { data, error } = await sites.update(siteId, {
+            settings: {
+                moderation,
+                reactions,
+                spam: { ...spam, blocked_words: blockedWords.split('\n') },
+                rate_limits: rateLimits,
+                formatting,
+                editing,
+                privacy,
+            },
+        });
+
+        if (data && !error) {
+            setMessage({ type: 'success', text: 'Settings saved' });
+            onSaved(data.settings);
+        } else {
+            setMessage({ type: 'error', text: error || 'Failed to save settings' });
+        }
+
+        setSaving(false);
+    };
+
+    const selectedApproval = approvalOptions.find((option) => option.value === moderation.require_approval);
+    const selectedDeletedAccount = deletedAccountOptions.find((option) => option.value === privacy.deleted_account_comments);
+
+    const toggleReaction = (reaction: ReactionType) => {
+        const enabled = reactions.enabled.includes(reaction)
+            ? reactions.enabled.filter((r) => r !== reaction)
+            : [...reactions.enabled, reaction];
+        setReactions({ ...reactions, enabled });
+    };
+
+    return (
+        <div className="space-y-6">
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ShieldCheck className="h-5 w-5" />
+                        Moderation
+                    </CardTitle>
+                    <CardDescription>
+                        Control which comments are published immediately and which wait for your review
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    {/* Approval policy */}
+                    <div className="space-y-2">
+                        <Label className="text-sm font-medium text-slate-900">Require approval for</Label>
+                        <Select
+                            value={moderation.require_approval}
+                            onValueChange={(value) => setModeration({
+                                ...moderation,
+                                require_approval: value as SiteSettings['moderation']['require_approval'],
+                            })}
+                        >
+                            <SelectTrigger className="w-full max-w-md">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {approvalOptions.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                        {option.label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        {selectedApproval && (
+                            <p className="text-sm text-slate-500">{selectedApproval.description}</p>
+                        )}
+                    </div>
+
+                    {/* Guest comments */}
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={moderation.allow_guest_comments}
+                            onChange={(e) => setModeration({ ...moderation, allow_guest_comments: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Allow guest comments</p>
+                            <p className="text-sm text-slate-500">When disabled, visitors must sign in before they can comment.</p>
+                        </div>
+                    </label>
+
+                    {/* Guest email verification */}
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={moderation.verify_guest_emails}
+                            onChange={(e) => setModeration({ ...moderation, verify_guest_emails: e.target.checked })}
+                            disabled={!moderation.allow_guest_comments}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Verify guest emails</p>
+                            <p className="text-sm text-slate-500">Guests who leave an email get a link to confirm it. Signing in with that email later links their guest comments to their account.</p>
+                        </div>
+                    </label>
+
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={moderation.approve_verified_guests}
+                            onChange={(e) => setModeration({ ...moderation, approve_verified_guests: e.target.checked })}
+                            disabled={!moderation.allow_guest_comments || !moderation.verify_guest_emails}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Approve verified guests</p>
+                            <p className="text-sm text-slate-500">A held guest comment is published once its email is confirmed, if signed-in users skip review. Comments held for spam or by the blocklist stay in the queue.</p>
+                        </div>
+                    </label>
+
+                    {/* Trusted commenters */}
+                    <div className="space-y-2">
+                        <Label htmlFor="trusted-threshold" className="text-sm font-medium text-slate-900">
+                            Trusted commenter threshold
+                        </Label>
+                        <Input
+                            id="trusted-threshold"
+                            type="number"
+                            min={0}
+                            max={1000}
+                            value={moderation.trusted_commenter_threshold}
+                            onChange={(e) => setModeration({
+                                ...moderation,
+                                trusted_commenter_threshold: Math.max(0, parseInt(e.target.value) || 0),
+                            })}
+                            className="max-w-[160px]"
+                            disabled={moderation.require_approval !== 'all'}
+                        />
+                        <p className="text-sm text-slate-500">
+                            Signed-in users with this many approved comments skip the review queue. Set to 0 to disable.
+                        </p>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <SmilePlus className="h-5 w-5" />
+                        Reactions
+                    </CardTitle>
+                    <CardDescription>
+                        Choose which reactions visitors can add to comments
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="flex flex-wrap gap-2">
+                        {reactionOptions.map((option) => {
+                            const isEnabled = reactions.enabled.includes(option.value);
+                            return (
+                                <button
+                                    key={option.value}
+                                    type="button"
+                                    onClick={() => toggleReaction(option.value)}
+                                    className={cn(
+                                        "flex items-center gap-2 px-3 py-1.5 rounded-full border text-sm font-medium transition-all",
+                                        isEnabled
+                                            ? "bg-blue-50 border-blue-300 text-blue-700"
+                                            : "bg-white border-slate-200 text-slate-400 hover:text-slate-600"
+                                    )}
+                                >
+                                    <span className="text-base">{option.emoji}</span>
+                                    {option.label}
+                                </button>
+                            );
+                        })}
+                    </div>
+                    {reactions.enabled.length === 0 && (
+                        <p className="text-sm text-slate-500 mt-3">Reactions are turned off for this site.</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Type className="h-5 w-5" />
+                        Formatting
+                    </CardTitle>
+                    <CardDescription>
+                        Choose how comment text is displayed
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={formatting.markdown}
+                            onChange={(e) => setFormatting({ ...formatting, markdown: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Enable Markdown</p>
+                            <p className="text-sm text-slate-500">
+                                New comments can use *emphasis*, `code`, fenced code blocks, links, quotes and lists. Links are marked nofollow; any other HTML is shown as plain text.
+                            </p>
+                        </div>
+                    </label>
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Pencil className="h-5 w-5" />
+                        Editing
+                    </CardTitle>
+                    <CardDescription>
+                        Control how long authors can edit their comments and who can see earlier versions
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="space-y-2">
+                        <Label htmlFor="edit-window" className="text-sm font-medium text-slate-900">
+                            Edit window (minutes)
+                        </Label>
+                        <Input
+                            id="edit-window"
+                            type="number"
+                            min={0}
+                            max={43200}
+                            value={editing.window_minutes}
+                            onChange={(e) => setEditing({
+                                ...editing,
+                                window_minutes: Math.min(43200, Math.max(0, parseInt(e.target.value) || 0)),
+                            })}
+                            className="max-w-[160px]"
+                        />
+                        <p className="text-sm text-slate-500">
+                            Edits are refused once a comment is older than this. Set to 0 to allow editing at any time.
+                        </p>
+                    </div>
+
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={editing.public_history}
+                            onChange={(e) => setEditing({ ...editing, public_history: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Show edit history to readers</p>
+                            <p className="text-sm text-slate-500">
+                                Readers can click the "edited" badge to see earlier versions. You can always see them in the dashboard.
+                            </p>
+                        </div>
+                    </label>
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <UserX className="h-5 w-5" />
+                        Deleted Accounts
+                    </CardTitle>
+                    <CardDescription>
+                        What happens to a commenter's comments on this site when they delete their account
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                    <Select
+                        value={privacy.deleted_account_comments}
+                        onValueChange={(value) => setPrivacy({
+                            ...privacy,
+                            deleted_account_comments: value as SiteSettings['privacy']['deleted_account_comments'],
+                        })}
+                    >
+                        <SelectTrigger className="w-full max-w-md">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {deletedAccountOptions.map((option) => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    {selectedDeletedAccount && (
+                        <p className="text-sm text-slate-500">{selectedDeletedAccount.description}</p>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <ShieldAlert className="h-5 w-5" />
+                        Spam Protection
+                    </CardTitle>
+                    <CardDescription>
+                        Score new comments for spam and hold or flag suspicious ones before they are published
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={spam.enabled}
+                            onChange={(e) => setSpam({ ...spam, enabled: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Check new comments for spam</p>
+                            <p className="text-sm text-slate-500">
+                                Looks at links, repeated content, blocked words and bot-like form submissions. Flagged comments show why in the moderation queue.
+                            </p>
+                        </div>
+                    </label>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="blocked-words" className="text-sm font-medium text-slate-900">
+                            Blocked words
+                        </Label>
+                        <textarea
+                            id="blocked-words"
+                            rows={4}
+                            value={blockedWords}
+                            onChange={(e) => setBlockedWords(e.target.value)}
+                            disabled={!spam.enabled}
+                            placeholder={'one word or phrase\nper line'}
+                            className="w-full max-w-md rounded-md border border-slate-200 px-3 py-2 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 disabled:opacity-50"
+                        />
+                        <p className="text-sm text-slate-500">
+                            Comments containing any of these are held for review. A few common spam terms are always checked.
+                        </p>
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Gauge className="h-5 w-5" />
+                        Rate Limits
+                    </CardTitle>
+                    <CardDescription>
+                        Limit how many comments can be posted in a short period to stop floods and spam bursts
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <label className="flex items-start gap-3 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={rateLimits.enabled}
+                            onChange={(e) => setRateLimits({ ...rateLimits, enabled: e.target.checked })}
+                            className="mt-0.5 h-4 w-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500 cursor-pointer"
+                        />
+                        <div>
+                            <p className="text-sm font-medium text-slate-900">Rate limit new comments</p>
+                            <p className="text-sm text-slate-500">Commenters who go over a limit are asked to wait before posting again.</p>
+                        </div>
+                    </label>
+
+                    <div className="space-y-2">
+                        <Label htmlFor="rate-limit-window" className="text-sm font-medium text-slate-900">
+                            Window (minutes)
+                        </Label>
+                        <Input
+                            id="rate-limit-window"
+                            type="number"
+                            min={1}
+                            max={1440}
+                            value={rateLimits.window_minutes}
+                            onChange={(e) => setRateLimits({
+                                ...rateLimits,
+                                window_minutes: Math.min(1440, Math.max(1, parseInt(e.target.value) || 1)),
+                            })}
+                            className="max-w-[160px]"
+                            disabled={!rateLimits.enabled}
+                        />
+                    </div>
+
+                    <div className="grid gap-4 md:grid-cols-3">
+                        {rateLimitFields.map((field) => (
+                            <div key={field.key} className="space-y-2">
+                                <Label htmlFor={`rate-limit-${field.key}`} className="text-sm font-medium text-slate-900">
+                                    {field.label}
+                                </Label>
+                                <Input
+                                    id={`rate-limit-${field.key}`}
+                                    type="number"
+                                    min={1}
+                                    max={10000}
+                                    value={rateLimits[field.key]}
+                                    onChange={(e) => setRateLimits({
+                                        ...rateLimits,
+                                        [field.key]: Math.min(10000, Math.max(1, parseInt(e.target.value) || 1)),
+                                    })}
+                                    disabled={!rateLimits.enabled}
+                                />
+                                <p className="text-sm text-slate-500">{field.description}</p>
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            <div className="flex items-center gap-4">
+                <Button onClick={handleSave} disabled={saving} className="gap-2">
+                    {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save Settings
+                </Button>
+                {message && (
+                    <div className={`text-sm font-medium ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+                        {message.text}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
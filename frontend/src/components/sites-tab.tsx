@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react';
-import { sites, comments as commentsApi, type SitePreview, type SiteDetailWithData, type Comment, type VerificationInfo, type PageWithStats } from '@/lib/api';
+import { sites, comments as commentsApi, type SitePreview, type SiteDetailWithData, type Comment, type VerificationInfo, type VerificationMethod, type PageWithStats } from '@/lib/api';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -35,9 +35,26 @@ import {
     FileText,
     MessageSquare,
     Settings,
-    ExternalLink
+    ExternalLink,
+    History,
+    Webhook,
+    Ban,
+    EyeOff,
+    RotateCcw,
+    Users
 } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { cn, hasSiteRole } from '@/lib/utils';
+import { SiteSettingsPanel } from '@/components/site-settings-panel';
+import { ModerationLogPanel } from '@/components/moderation-log-panel';
+import { WebhooksPanel } from '@/components/webhooks-panel';
+import { SsoPanel } from '@/components/sso-panel';
+import { SpamReasons } from '@/components/spam-reasons';
+import { CommentRevisions } from '@/components/comment-revisions';
+import { BlocklistPanel } from '@/components/blocklist-panel';
+import { VerificationSteps } from '@/components/verification-steps';
+import { DomainsPanel } from '@/components/domains-panel';
+import { TeamPanel } from '@/components/team-panel';
+import { ApiKeysPanel } from '@/components/api-keys-panel';
 
 interface SitesTabProps {
     autoShowCreate?: boolean;
@@ -62,15 +79,21 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
 
     // Comments filter
     const [commentFilter, setCommentFilter] = useState<string>('pending');
+    // Deleted comments aren't part of the site details payload; loaded when their tab opens
+    const [deletedComments, setDeletedComments] = useState<Comment[] | null>(null);
+    const [commentActionError, setCommentActionError] = useState<string | null>(null);
 
     // Site detail view tab
-    const [siteDetailTab, setSiteDetailTab] = useState<'overview' | 'pages' | 'comments'>('overview');
+    const [siteDetailTab, setSiteDetailTab] = useState<'overview' | 'pages' | 'comments' | 'history' | 'blocklist' | 'webhooks' | 'settings' | 'team'>('overview');
+    // Bumped after blocking a comment author so the blocklist tab reloads
+    const [blocklistVersion, setBlocklistVersion] = useState(0);
 
     // Verification state
     const [verificationInfo, setVerificationInfo] = useState<VerificationInfo | null>(null);
     const [verificationLoading, setVerificationLoading] = useState(false);
     const [verificationError, setVerificationError] = useState<string | null>(null);
     const [showVerification, setShowVerification] = useState(false);
+    const [verificationMethod, setVerificationMethod] = useState<VerificationMethod>('file');
 
     // Post-creation verification instructions
     const [showVerifyInstructions, setShowVerifyInstructions] = useState(false);
@@ -114,7 +137,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
         const [siteData, pagesData] = await Promise.all([
             sites.get(siteId, {
                 comment_limit: 50,
-                comment_status: status === 'all' ? undefined : status,
+                comment_status: status === 'all' || status === 'deleted' ? undefined : status,
             }),
             sites.getPages(siteId, { limit: 100, sort: 'latest_comment' })
         ]);
@@ -125,6 +148,10 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                 pages: pagesData.data?.pages || []
             });
         }
+        setDeletedComments(null);
+        if (status === 'deleted') {
+            await loadDeletedComments(siteId);
+        }
     };
 
     const handleCreateSite = async (e: React.FormEvent) => {
@@ -166,17 +193,6 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
         await loadSites();
     };
 
-    const handleRegenerateKey = async (siteId: number) => {
-        if (!confirm('Are you sure? This will invalidate the current API key.')) {
-            return;
-        }
-
-        const { data } = await sites.regenerateKey(siteId);
-        if (data && selectedSite) {
-            setSelectedSite({ ...selectedSite, api_key: data.api_key });
-        }
-    };
-
     const handleModerateComment = async (commentId: number, status: 'approved' | 'rejected' | 'spam') => {
         await commentsApi.updateStatus(commentId, status);
         // Optimistic update or refresh
@@ -195,8 +211,47 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
         }
     };
 
+    // Ban a comment's author (by account, or by email for guests) from the site
+    const handleBlockAuthor = async (comment: Comment) => {
+        if (!selectedSite) return;
+        const target = comment.user_id
+            ? { kind: 'user' as const, value: String(comment.user_id) }
+            : comment.author_email
+                ? { kind: 'email' as const, value: comment.author_email }
+                : comment.author_email_hash
+                    ? { kind: 'email' as const, value: comment.author_email_hash }
+                    : null;
+        if (!target) return;
+        if (!confirm(`Block ${comment.author_name || 'this commenter'} from commenting on this site? Manage bans in the Blocklist tab.`)) return;
+
+        const { error } = await sites.addBlocklistEntry(selectedSite.id, {
+            ...target,
+            action: 'reject',
+            note: `Blocked from comment #${comment.id}`,
+        });
+        if (!error) {
+            setBlocklistVersion((v) => v + 1);
+        }
+    };
+
+    // Shadow-ban a signed-in author: they keep seeing their comments, nobody else does
+    const handleShadowBanAuthor = async (comment: Comment) => {
+        if (!selectedSite || !comment.user_id) return;
+        if (!confirm(`Shadow-ban ${comment.author_name || 'this commenter'}? Their comments, including earlier ones, will only be visible to them.`)) return;
+
+        const { error } = await sites.addBlocklistEntry(selectedSite.id, {
+            kind: 'user',
+            value: String(comment.user_id),
+            action: 'shadow_ban',
+            note: `Shadow-banned from comment #${comment.id}`,
+        });
+        if (!error) {
+            setBlocklistVersion((v) => v + 1);
+        }
+    };
+
     const handleDeleteComment = async (commentId: number) => {
-        if (!confirm('Delete this comment?')) return;
+        if (!confirm('Delete this comment? Its replies stay up, and you can restore it from the Deleted tab for 30 days.')) return;
         await commentsApi.delete(commentId);
         if (selectedSite) {
             setSelectedSite(prev => {
@@ -207,6 +262,37 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                 };
             });
         }
+        setDeletedComments(null);
+    };
+
+    const loadDeletedComments = async (siteId: number) => {
+        const { data } = await sites.get(siteId, { comment_status: 'deleted', comment_limit: 50 });
+        setDeletedComments(data?.comments ?? []);
+    };
+
+    const handleSelectCommentFilter = (filter: string) => {
+        setCommentFilter(filter);
+        setCommentActionError(null);
+        if (filter === 'deleted' && selectedSite) {
+            loadDeletedComments(selectedSite.id);
+        }
+    };
+
+    const handleRestoreComment = async (comment: Comment) => {
+        setCommentActionError(null);
+        const { error } = await commentsApi.restore(comment.id);
+        if (error) {
+            setCommentActionError(error);
+            return;
+        }
+        setDeletedComments(prev => (prev ?? []).filter(c => c.id !== comment.id));
+        setSelectedSite(prev => {
+            if (!prev) return null;
+            return {
+                ...prev,
+                comments: [{ ...comment, deleted_at: null }, ...(prev.comments || [])]
+            };
+        });
     };
 
     const loadVerificationInfo = async (siteId: number) => {
@@ -224,7 +310,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
     const handleVerifySite = async (siteId: number) => {
         setVerificationLoading(true);
         setVerificationError(null);
-        const { data, error } = await sites.verify(siteId);
+        const { data, error } = await sites.verify(siteId, verificationMethod);
         if (error) {
             setVerificationError(error);
         } else if (data) {
@@ -250,7 +336,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
         if (!newlyCreatedSiteId) return;
         setPostCreateVerifying(true);
         setPostCreateVerifyError(null);
-        const { data, error } = await sites.verify(newlyCreatedSiteId);
+        const { data, error } = await sites.verify(newlyCreatedSiteId, verificationMethod);
         if (error) {
             setPostCreateVerifyError(error);
         } else if (data) {
@@ -258,7 +344,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                 setPostCreateVerified(true);
                 await loadSites();
             } else {
-                setPostCreateVerifyError(data.error || 'Verification failed. Make sure the file is accessible.');
+                setPostCreateVerifyError(data.error || 'Verification failed. Make sure the token is published.');
             }
         }
         setPostCreateVerifying(false);
@@ -283,15 +369,18 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
     };
 
     // Filter logic
-    const filteredComments = (selectedSite?.comments ?? []).filter(
-        (c: Comment) => commentFilter === 'all' || c.status === commentFilter
-    );
+    const filteredComments = commentFilter === 'deleted'
+        ? deletedComments ?? []
+        : (selectedSite?.comments ?? []).filter(
+            (c: Comment) => commentFilter === 'all' || c.status === commentFilter
+        );
 
     const filterTabs = [
         { id: 'pending', label: 'Pending', count: selectedSite?.stats?.pending_comments ?? 0, icon: AlertCircle },
         { id: 'approved', label: 'Approved', icon: CheckCircle2 },
         { id: 'spam', label: 'Spam', icon: XCircle },
-        { id: 'rejected', label: 'Rejected', icon: Trash2 }, // Mapping rejected to deleted concept roughly
+        { id: 'rejected', label: 'Rejected', icon: XCircle },
+        { id: 'deleted', label: 'Deleted', icon: Trash2 },
         { id: 'all', label: 'All', icon: null }
     ];
 
@@ -305,10 +394,20 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
 
     // Site detail view
     if (selectedSite) {
+        // Only offer what the user's role on the site allows
+        const canModerate = hasSiteRole(selectedSite.role, 'moderator');
+        const canManage = hasSiteRole(selectedSite.role, 'admin');
         const siteDetailTabs = [
             { id: 'overview' as const, label: 'Overview', icon: Settings },
             { id: 'pages' as const, label: 'Pages', icon: FileText },
             { id: 'comments' as const, label: 'Comments', icon: MessageSquare, count: selectedSite.stats?.pending_comments },
+            { id: 'history' as const, label: 'History', icon: History },
+            ...(canModerate ? [{ id: 'blocklist' as const, label: 'Blocklist', icon: Ban }] : []),
+            ...(canManage ? [
+                { id: 'webhooks' as const, label: 'Webhooks', icon: Webhook },
+                { id: 'settings' as const, label: 'Settings', icon: ShieldCheck },
+            ] : []),
+            { id: 'team' as const, label: 'Team', icon: Users },
         ];
 
         return (
@@ -340,9 +439,11 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                             </div>
                         </div>
                     </div>
-                    <Button variant="outline" size="sm" className="gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200" onClick={() => handleDeleteSite(selectedSite.id)}>
-                        <Trash2 className="h-3.5 w-3.5" /> Delete Site
-                    </Button>
+                    {selectedSite.role === 'owner' && (
+                        <Button variant="outline" size="sm" className="gap-2 text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200" onClick={() => handleDeleteSite(selectedSite.id)}>
+                            <Trash2 className="h-3.5 w-3.5" /> Delete Site
+                        </Button>
+                    )}
                 </div>
 
                 {/* Tabs */}
@@ -377,7 +478,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                 {siteDetailTab === 'overview' && (
                     <div className="space-y-6">
                         {/* Verification Alert - Show prominently if unverified */}
-                        {!selectedSite.verified && (
+                        {!selectedSite.verified && canManage && (
                             <Card className="border-amber-300 bg-gradient-to-r from-amber-50 to-orange-50">
                                 <CardContent className="p-5">
                                     <div className="flex items-start gap-4">
@@ -400,37 +501,11 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                                                 </div>
                                             ) : verificationInfo ? (
                                                 <div className="space-y-3 mt-4 pt-4 border-t border-amber-200">
-                                                    <div className="flex gap-3">
-                                                        <div className="shrink-0 h-6 w-6 rounded-full bg-amber-200 text-amber-700 flex items-center justify-center text-sm font-semibold">1</div>
-                                                        <div className="flex-1">
-                                                            <p className="text-sm text-slate-700">Create a file at:</p>
-                                                            <code className="block bg-white px-3 py-2 rounded mt-1 text-sm font-mono text-slate-700 border border-amber-200">
-                                                                {verificationInfo.verification_file_path}
-                                                            </code>
-                                                        </div>
-                                                    </div>
-                                                    <div className="flex gap-3">
-                                                        <div className="shrink-0 h-6 w-6 rounded-full bg-amber-200 text-amber-700 flex items-center justify-center text-sm font-semibold">2</div>
-                                                        <div className="flex-1">
-                                                            <p className="text-sm text-slate-700">Add this token as the file content:</p>
-                                                            <div className="flex items-center gap-2 mt-1">
-                                                                <code className="flex-1 bg-white px-3 py-2 rounded font-mono text-sm text-slate-700 select-all border border-amber-200 truncate">
-                                                                    {verificationInfo.verification_token}
-                                                                </code>
-                                                                <Button
-                                                                    variant="outline"
-                                                                    size="sm"
-                                                                    className={cn(
-                                                                        "transition-colors shrink-0",
-                                                                        copiedItem === 'verify-token' && "text-green-600 border-green-300"
-                                                                    )}
-                                                                    onClick={() => copyToClipboard(verificationInfo.verification_token, 'verify-token')}
-                                                                >
-                                                                    {copiedItem === 'verify-token' ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
-                                                                </Button>
-                                                            </div>
-                                                        </div>
-                                                    </div>
+                                                    <VerificationSteps
+                                                        info={verificationInfo}
+                                                        method={verificationMethod}
+                                                        onMethodChange={(method) => { setVerificationMethod(method); setVerificationError(null); }}
+                                                    />
                                                     {verificationError && (
                                                         <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
                                                             <p className="text-sm text-red-700">{verificationError}</p>
@@ -639,7 +714,7 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                                 return (
                                     <button
                                         key={tab.id}
-                                        onClick={() => setCommentFilter(tab.id)}
+                                        onClick={() => handleSelectCommentFilter(tab.id)}
                                         className={cn(
                                             "flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all",
                                             isActive
@@ -659,6 +734,12 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                             })}
                         </div>
 
+                        {commentActionError && (
+                            <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                                <p className="text-sm text-red-700">{commentActionError}</p>
+                            </div>
+                        )}
+
                         {/* Comments List */}
                         <Card className="border-slate-200">
                             {filteredComments.length === 0 ? (
@@ -688,10 +769,25 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                                                         {comment.status === 'pending' && <span className="px-2 py-0.5 bg-yellow-100 text-yellow-700 text-xs rounded-full">Pending</span>}
                                                         {comment.status === 'spam' && <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">Spam</span>}
                                                         {comment.status === 'approved' && <span className="px-2 py-0.5 bg-green-100 text-green-700 text-xs rounded-full">Approved</span>}
+                                                        {!!comment.shadow_banned && <span className="px-2 py-0.5 bg-slate-100 text-slate-600 text-xs rounded-full">Shadow-banned</span>}
+                                                        {!comment.user_id && comment.email_verified_at && <span className="px-2 py-0.5 bg-blue-100 text-blue-700 text-xs rounded-full">Email verified</span>}
+                                                        {comment.deleted_at && <span className="px-2 py-0.5 bg-red-100 text-red-700 text-xs rounded-full">Deleted {new Date(comment.deleted_at).toLocaleDateString()}</span>}
                                                     </div>
                                                     <p className="text-slate-600 text-sm leading-relaxed mb-3">
                                                         {comment.content}
                                                     </p>
+                                                    <div className="mb-3 space-y-2 empty:hidden">
+                                                        <SpamReasons comment={comment} />
+                                                        <CommentRevisions comment={comment} />
+                                                    </div>
+                                                    {!canModerate ? null : comment.deleted_at ? (
+                                                        <div className="flex items-center gap-2">
+                                                            <Button size="sm" variant="outline" className="h-7 gap-1" onClick={() => handleRestoreComment(comment)}>
+                                                                <RotateCcw className="h-3.5 w-3.5" />
+                                                                Restore
+                                                            </Button>
+                                                        </div>
+                                                    ) : (
                                                     <div className="flex items-center gap-2">
                                                         {comment.status !== 'approved' && (
                                                             <Button size="sm" variant="outline" className="h-7 text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200" onClick={() => handleModerateComment(comment.id, 'approved')}>
@@ -708,7 +804,24 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                                                                 Reject
                                                             </Button>
                                                         )}
+                                                        {(comment.user_id || comment.author_email || comment.author_email_hash) && (
+                                                            <Button size="sm" variant="ghost" className="h-7 text-slate-500 hover:text-slate-700 gap-1" onClick={() => handleBlockAuthor(comment)}>
+                                                                <Ban className="h-3.5 w-3.5" />
+                                                                Block author
+                                                            </Button>
+                                                        )}
+                                                        {comment.user_id && (
+                                                            <Button size="sm" variant="ghost" className="h-7 text-slate-500 hover:text-slate-700 gap-1" onClick={() => handleShadowBanAuthor(comment)}>
+                                                                <EyeOff className="h-3.5 w-3.5" />
+                                                                Shadow-ban
+                                                            </Button>
+                                                        )}
+                                                        <Button size="sm" variant="ghost" className="h-7 text-red-600 hover:text-red-700 hover:bg-red-50 gap-1" onClick={() => handleDeleteComment(comment.id)}>
+                                                            <Trash2 className="h-3.5 w-3.5" />
+                                                            Delete
+                                                        </Button>
                                                     </div>
+                                                    )}
                                                 </div>
                                             </div>
                                         </div>
@@ -718,6 +831,42 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                         </Card>
                     </div>
                 )}
+
+                {siteDetailTab === 'history' && (
+                    <ModerationLogPanel siteId={selectedSite.id} />
+                )}
+
+                {siteDetailTab === 'blocklist' && (
+                    <BlocklistPanel siteId={selectedSite.id} refreshKey={blocklistVersion} />
+                )}
+
+                {siteDetailTab === 'webhooks' && (
+                    <WebhooksPanel siteId={selectedSite.id} />
+                )}
+
+                {siteDetailTab === 'settings' && (
+                    <div className="space-y-6">
+                        <SiteSettingsPanel
+                            siteId={selectedSite.id}
+                            settings={selectedSite.settings}
+                            onSaved={(settings) => setSelectedSite(prev => prev ? { ...prev, settings } : null)}
+                        />
+                        <DomainsPanel siteId={selectedSite.id} />
+                        <SsoPanel
+                            siteId={selectedSite.id}
+                            enabled={selectedSite.sso_enabled}
+                            onChange={(sso_enabled) => setSelectedSite(prev => prev ? { ...prev, sso_enabled } : null)}
+                        />
+                        <ApiKeysPanel siteId={selectedSite.id} />
+                    </div>
+                )}
+
+                {siteDetailTab === 'team' && (
+                    <TeamPanel
+                        siteId={selectedSite.id}
+                        onLeft={() => { setSelectedSite(null); setSiteDetailTab('overview'); loadSites(); }}
+                    />
+                )}
             </div>
         );
     }
@@ -794,65 +943,20 @@ export function SitesTab({ autoShowCreate = false }: SitesTabProps) {
                     </AlertDialogHeader>
                     <div className="space-y-4">
                         <p className="text-sm text-slate-600">
-                            To enable CommentKit on <span className="font-semibold text-slate-800">{newlyCreatedSiteDomain}</span>, verify that you own this domain by following these steps:
+                            To enable CommentKit on <span className="font-semibold text-slate-800">{newlyCreatedSiteDomain}</span>, verify that you own this domain with one of these methods:
                         </p>
 
                         {postCreateVerificationInfo && (
                             <div className="space-y-4">
-                                {/* Step 1 */}
-                                <div className="flex gap-3">
-                                    <div className="shrink-0 h-6 w-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-semibold">
-                                        1
-                                    </div>
-                                    <div className="flex-1 space-y-2">
-                                        <p className="text-sm text-slate-700">
-                                            Create a file at this path on your website:
-                                        </p>
-                                        <code className="block bg-slate-100 px-3 py-2 rounded text-sm font-mono text-slate-700">
-                                            {postCreateVerificationInfo.verification_file_path}
-                                        </code>
-                                    </div>
-                                </div>
-
-                                {/* Step 2 */}
-                                <div className="flex gap-3">
-                                    <div className="shrink-0 h-6 w-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-semibold">
-                                        2
-                                    </div>
-                                    <div className="flex-1 space-y-2">
-                                        <p className="text-sm text-slate-700">
-                                            Add this verification token as the file content:
-                                        </p>
-                                        <div className="flex items-center gap-2">
-                                            <code className="flex-1 bg-slate-100 px-3 py-2 rounded text-sm font-mono text-slate-700 select-all truncate">
-                                                {postCreateVerificationInfo.verification_token}
-                                            </code>
-                                            <Button
-                                                variant="outline"
-                                                size="sm"
-                                                className={cn(
-                                                    "transition-colors",
-                                                    copiedItem === 'token' && "text-green-600 border-green-300"
-                                                )}
-                                                onClick={() => copyToClipboard(postCreateVerificationInfo.verification_token, 'token')}
-                                            >
-                                                {copiedItem === 'token' ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
-                                            </Button>
-                                        </div>
-                                    </div>
-                                </div>
+                                <VerificationSteps
+                                    info={postCreateVerificationInfo}
+                                    method={verificationMethod}
+                                    onMethodChange={(method) => { setVerificationMethod(method); setPostCreateVerifyError(null); }}
+                                />
 
-                                {/* Step 3 */}
-                                <div className="flex gap-3">
-                                    <div className="shrink-0 h-6 w-6 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center text-sm font-semibold">
-                                        3
-                                    </div>
-                                    <div className="flex-1 space-y-2">
-                                        <p className="text-sm text-slate-700">
-                                            Click "Verify" below to check if the file is accessible.
-                                        </p>
-                                    </div>
-                                </div>
+                                <p className="text-sm text-slate-700">
+                                    Then click "Verify" below to check for it.
+                                </p>
 
                                 <div className="bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mt-4">
                                     <p className="text-xs text-amber-700">
@@ -0,0 +1,35 @@
+import { ShieldAlert } from 'lucide-react';
+import { type Comment } from '@/lib/api';
+
+interface SpamReasonsProps {
+    comment: Pick<Comment, 'spam_score' | 'spam_reasons'>;
+}
+
+// spam_reasons is stored as a JSON array of strings
+function parseSpamReasons(raw: string | null | undefined): string[] {
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Why the spam pipeline held or flagged a comment (renders nothing for clean comments)
+ */
+export function SpamReasons({ comment }: SpamReasonsProps) {
+    const reasons = parseSpamReasons(comment.spam_reasons);
+    if (reasons.length === 0) return null;
+
+    return (
+        <div className="flex items-start gap-1.5 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded px-2 py-1.5">
+            <ShieldAlert className="h-3.5 w-3.5 mt-px shrink-0" />
+            <span>
+                <span className="font-medium">Spam score {comment.spam_score ?? 0}:</span>{' '}
+                {reasons.join(' · ')}
+            </span>
+        </div>
+    );
+}
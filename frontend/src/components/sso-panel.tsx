@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { sites } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { KeyRound, RefreshCw, Loader2, Copy, Check, Power } from 'lucide-react';
+
+interface SsoPanelProps {
+    siteId: number;
+    enabled: boolean;
+    onChange: (enabled: boolean) => void;
+}
+
+const signingExample = `const payload = base64url(JSON.stringify({
+  id: user.id, name: user.name, email: user.email, avatar: user.avatarUrl,
+  iat: Math.floor(Date.now() / 1000),
+}));
+const token = payload + '.' + hmacSha256Hex(payload, SSO_SECRET);
+
+CommentKit.init({ container: '#comments', sso: token });`;
+
+export function SsoPanel({ siteId, enabled, onChange }: SsoPanelProps) {
+    const [working, setWorking] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Secret that was just generated (shown once)
+    const [revealedSecret, setRevealedSecret] = useState<string | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const handleRotate = async () => {
+        if (enabled && !confirm('Generate a new SSO secret? Tokens signed with the old secret will stop working.')) {
+            return;
+        }
+
+        setWorking(true);
+        setError(null);
+        const { data, error } = await sites.rotateSsoSecret(siteId);
+        if (data && !error) {
+            setRevealedSecret(data.sso_secret);
+            onChange(true);
+        } else {
+            setError(error || 'Failed to generate SSO secret');
+        }
+        setWorking(false);
+    };
+
+    const handleDisable = async () => {
+        if (!confirm('Turn off SSO? Visitors signed in by your site will need to sign in again.')) return;
+
+        setWorking(true);
+        setError(null);
+        const { error } = await sites.disableSso(siteId);
+        if (error) {
+            setError(error);
+        } else {
+            setRevealedSecret(null);
+            onChange(false);
+        }
+        setWorking(false);
+    };
+
+    const handleCopySecret = async () => {
+        if (!revealedSecret) return;
+        await navigator.clipboard.writeText(revealedSecret);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <Card className="border-slate-200 py-4">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <KeyRound className="h-5 w-5" />
+                    Single Sign-On
+                </CardTitle>
+                <CardDescription>
+                    Sign your site's logged-in users straight into the widget with a token signed on your server
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {error && (
+                    <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                        <p className="text-sm text-red-700">{error}</p>
+                    </div>
+                )}
+
+                {revealedSecret && (
+                    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
+                        <p className="text-sm font-medium text-blue-900">
+                            SSO secret - copy it now, it won't be shown again
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <code className="flex-1 text-xs bg-white border border-blue-200 rounded px-3 py-2 font-mono break-all">
+                                {revealedSecret}
+                            </code>
+                            <Button variant="outline" size="sm" onClick={handleCopySecret} className="gap-1">
+                                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                            </Button>
+                        </div>
+                        <p className="text-xs text-blue-800">
+                            Keep it on your server. Never put it in page source.
+                        </p>
+                    </div>
+                )}
+
+                {enabled && (
+                    <pre className="text-xs bg-slate-50 border border-slate-200 rounded px-3 py-2 overflow-x-auto">
+                        {signingExample}
+                    </pre>
+                )}
+
+                <div className="flex items-center gap-2">
+                    <Button onClick={handleRotate} disabled={working} className="gap-2">
+                        {working ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                        {enabled ? 'Rotate secret' : 'Enable SSO'}
+                    </Button>
+                    {enabled && (
+                        <Button variant="outline" onClick={handleDisable} disabled={working} className="gap-2 text-red-600 hover:text-red-700 hover:bg-red-50">
+                            <Power className="h-4 w-4" />
+                            Turn off
+                        </Button>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,283 @@
+import { useEffect, useState } from 'react';
+import { sites, type SiteMemberRole, type SiteRole, type TeamInvitation, type TeamMember } from '@/lib/api';
+import { useAuth } from '@/lib/auth-context';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar } from '@/components/ui/avatar';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Users, Mail, Trash2, Loader2, LogOut, UserPlus } from 'lucide-react';
+import { formatTimeAgo, hasSiteRole } from '@/lib/utils';
+
+interface TeamPanelProps {
+    siteId: number;
+    // Called after the current user leaves the site
+    onLeft: () => void;
+}
+
+const roleOptions: { value: SiteMemberRole; label: string; description: string }[] = [
+    { value: 'admin', label: 'Admin', description: 'Everything except deleting the site, including settings and the team.' },
+    { value: 'moderator', label: 'Moderator', description: 'Approve, reject and delete comments, and manage the blocklist.' },
+    { value: 'viewer', label: 'Viewer', description: 'See comments, stats and the moderation history.' },
+];
+
+const roleLabels: Record<SiteRole, string> = {
+    owner: 'Owner',
+    admin: 'Admin',
+    moderator: 'Moderator',
+    viewer: 'Viewer',
+};
+
+// The people who help run a site, and invitations for more
+export function TeamPanel({ siteId, onLeft }: TeamPanelProps) {
+    const { user } = useAuth();
+    const [role, setRole] = useState<SiteRole>('viewer');
+    const [members, setMembers] = useState<TeamMember[]>([]);
+    const [invitations, setInvitations] = useState<TeamInvitation[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const [email, setEmail] = useState('');
+    const [inviteRole, setInviteRole] = useState<SiteMemberRole>('moderator');
+    const [inviting, setInviting] = useState(false);
+    const [invited, setInvited] = useState<string | null>(null);
+
+    useEffect(() => {
+        const loadTeam = async () => {
+            setLoading(true);
+            setError(null);
+            const { data, error } = await sites.getTeam(siteId);
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setRole(data.role);
+                setMembers(data.members);
+                setInvitations(data.invitations);
+            }
+            setLoading(false);
+        };
+
+        loadTeam();
+    }, [siteId]);
+
+    const canManage = hasSiteRole(role, 'admin');
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setInviting(true);
+        setError(null);
+        setInvited(null);
+
+        const { data, error } = await sites.inviteMember(siteId, email.trim(), inviteRole);
+        if (data && !error) {
+            setInvitations((prev) => [data, ...prev.filter((i) => i.id !== data.id)]);
+            setInvited(data.email);
+            setEmail('');
+        } else {
+            setError(error || 'Failed to send invitation');
+        }
+
+        setInviting(false);
+    };
+
+    const handleCancelInvitation = async (invitation: TeamInvitation) => {
+        const { error } = await sites.cancelInvitation(siteId, invitation.id);
+        if (error) {
+            setError(error);
+            return;
+        }
+        setInvitations((prev) => prev.filter((i) => i.id !== invitation.id));
+    };
+
+    const handleRoleChange = async (member: TeamMember, newRole: SiteMemberRole) => {
+        const { data, error } = await sites.updateMemberRole(siteId, member.user_id, newRole);
+        if (data && !error) {
+            setMembers((prev) => prev.map((m) => m.user_id === member.user_id ? { ...m, role: data.role } : m));
+        } else {
+            setError(error || 'Failed to change role');
+        }
+    };
+
+    const handleRemove = async (member: TeamMember) => {
+        const isSelf = member.user_id === user?.id;
+        const question = isSelf
+            ? 'Leave this site? You will lose access until someone invites you again.'
+            : `Remove ${member.display_name || member.email} from this site?`;
+        if (!confirm(question)) return;
+
+        const { error } = await sites.removeMember(siteId, member.user_id);
+        if (error) {
+            setError(error);
+            return;
+        }
+        if (isSelf) {
+            onLeft();
+            return;
+        }
+        setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id));
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading team...
+            </div>
+        );
+    }
+
+    const selectedRole = roleOptions.find((option) => option.value === inviteRole);
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            )}
+
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Users className="h-5 w-5" />
+                        Team
+                    </CardTitle>
+                    <CardDescription>
+                        People who can help run this site. You are {role === 'admin' || role === 'owner' ? 'an' : 'a'} {roleLabels[role].toLowerCase()}.
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <div className="rounded-lg border border-slate-200 divide-y divide-slate-100">
+                        {members.map((member) => {
+                            const isSelf = member.user_id === user?.id;
+                            const editable = canManage && member.role !== 'owner';
+                            return (
+                                <div key={member.user_id} className="p-3 flex items-center gap-3">
+                                    <Avatar src={member.avatar_url} emailHash={member.email_hash} name={member.display_name || member.email} />
+                                    <div className="min-w-0 flex-1">
+                                        <p className="text-sm font-medium text-slate-900 truncate">
+                                            {member.display_name || member.email}
+                                            {isSelf && <span className="text-slate-400 font-normal"> (you)</span>}
+                                        </p>
+                                        <p className="text-xs text-slate-400 truncate">
+                                            {member.display_name ? `${member.email} · ` : ''}joined {formatTimeAgo(member.joined_at)}
+                                        </p>
+                                    </div>
+                                    {editable ? (
+                                        <Select
+                                            value={member.role}
+                                            onValueChange={(v) => handleRoleChange(member, v as SiteMemberRole)}
+                                        >
+                                            <SelectTrigger className="w-[140px]">
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {roleOptions.map((option) => (
+                                                    <SelectItem key={option.value} value={option.value}>
+                                                        {option.label}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    ) : (
+                                        <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600">
+                                            {roleLabels[member.role]}
+                                        </span>
+                                    )}
+                                    {member.role !== 'owner' && (editable || isSelf) && (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            title={isSelf ? 'Leave site' : 'Remove'}
+                                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                            onClick={() => handleRemove(member)}
+                                        >
+                                            {isSelf ? <LogOut className="h-4 w-4" /> : <Trash2 className="h-4 w-4" />}
+                                        </Button>
+                                    )}
+                                </div>
+                            );
+                        })}
+                        {invitations.map((invitation) => (
+                            <div key={`invitation-${invitation.id}`} className="p-3 flex items-center gap-3">
+                                <div className="h-8 w-8 rounded-full bg-slate-100 flex items-center justify-center shrink-0">
+                                    <Mail className="h-4 w-4 text-slate-400" />
+                                </div>
+                                <div className="min-w-0 flex-1">
+                                    <p className="text-sm text-slate-700 truncate">{invitation.email}</p>
+                                    <p className="text-xs text-slate-400">Invited {formatTimeAgo(invitation.created_at)} · waiting to sign in</p>
+                                </div>
+                                <span className="px-2 py-0.5 text-xs rounded-full bg-amber-50 text-amber-700">
+                                    {roleLabels[invitation.role]}
+                                </span>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Cancel invitation"
+                                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                    onClick={() => handleCancelInvitation(invitation)}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                </CardContent>
+            </Card>
+
+            {canManage && (
+                <Card className="border-slate-200 py-4">
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <UserPlus className="h-5 w-5" />
+                            Invite Someone
+                        </CardTitle>
+                        <CardDescription>
+                            They get an email with a sign-in link and join the team when they use it.
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <form onSubmit={handleInvite} className="flex items-center gap-2">
+                            <Input
+                                type="email"
+                                placeholder="editor@example.com"
+                                value={email}
+                                onChange={(e) => setEmail(e.target.value)}
+                                maxLength={255}
+                                required
+                            />
+                            <Select value={inviteRole} onValueChange={(v) => setInviteRole(v as SiteMemberRole)}>
+                                <SelectTrigger className="w-[160px] shrink-0">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {roleOptions.map((option) => (
+                                        <SelectItem key={option.value} value={option.value}>
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <Button type="submit" disabled={inviting || !email.trim()} className="gap-2 shrink-0">
+                                {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+                                Send Invite
+                            </Button>
+                        </form>
+                        {selectedRole && (
+                            <p className="text-sm text-slate-500">{selectedRole.description}</p>
+                        )}
+                        {invited && (
+                            <p className="text-sm text-green-700">Invitation sent to {invited}.</p>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    );
+}
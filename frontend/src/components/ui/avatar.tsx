@@ -1,6 +1,8 @@
 import { useState } from 'react';
 
 interface AvatarProps {
+    // Uploaded avatar, preferred over the Gravatar
+    src?: string | null;
     emailHash?: string | null;
     name?: string | null;
     size?: 'sm' | 'md' | 'lg';
@@ -13,8 +15,9 @@ const sizeClasses = {
     lg: 'h-12 w-12 text-base',
 };
 
-export function Avatar({ emailHash, name, size = 'md', className = '' }: AvatarProps) {
-    const [imageError, setImageError] = useState(false);
+export function Avatar({ src, emailHash, name, size = 'md', className = '' }: AvatarProps) {
+    // Remember which URL failed, so a new avatar gets its own chance to load
+    const [failedUrl, setFailedUrl] = useState<string | null>(null);
 
     const displayName = name || 'Anonymous';
     const initial = (displayName[0] || 'A').toUpperCase();
@@ -24,16 +27,17 @@ export function Avatar({ emailHash, name, size = 'md', className = '' }: AvatarP
         ? `https://www.gravatar.com/avatar/${emailHash}?d=404&s=${size === 'lg' ? 96 : size === 'md' ? 64 : 48}`
         : null;
 
-    const shouldShowImage = gravatarUrl && !imageError;
+    const imageUrl = src || gravatarUrl;
+    const shouldShowImage = imageUrl && failedUrl !== imageUrl;
 
     return (
         <div className={`${sizeClasses[size]} rounded-full flex items-center justify-center shrink-0 ${className}`}>
             {shouldShowImage ? (
                 <img
-                    src={gravatarUrl}
+                    src={imageUrl}
                     alt={displayName}
                     className="h-full w-full object-cover rounded-full"
-                    onError={() => setImageError(true)}
+                    onError={() => setFailedUrl(imageUrl)}
                 />
             ) : (
                 <div className="h-full w-full bg-blue-50 border border-blue-200 rounded-full flex items-center justify-center text-blue-600 font-bold">
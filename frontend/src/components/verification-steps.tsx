@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import type { VerificationInfo, VerificationMethod } from '@/lib/api';
+import { Button } from '@/components/ui/button';
+import { Copy, Check } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface VerificationStepsProps {
+    info: Pick<VerificationInfo, 'methods'>;
+    method: VerificationMethod;
+    onMethodChange: (method: VerificationMethod) => void;
+}
+
+const methodLabels: { method: VerificationMethod; label: string }[] = [
+    { method: 'file', label: 'File' },
+    { method: 'dns', label: 'DNS record' },
+    { method: 'meta', label: 'Meta tag' },
+];
+
+// Instructions for each way of proving domain ownership, with a picker between them
+export function VerificationSteps({ info, method, onMethodChange }: VerificationStepsProps) {
+    const [copied, setCopied] = useState<string | null>(null);
+    const available = methodLabels.filter(({ method: option }) => info.methods[option] !== null);
+
+    // Wildcard domains only offer DNS
+    useEffect(() => {
+        if (info.methods[method] === null) {
+            onMethodChange('dns');
+        }
+    }, [info, method, onMethodChange]);
+
+    const copy = async (text: string) => {
+        await navigator.clipboard.writeText(text);
+        setCopied(text);
+        setTimeout(() => setCopied(null), 2000);
+    };
+
+    const steps: { label: string; value: string; copyable?: boolean }[] =
+        method === 'meta' && info.methods.meta ? [
+            { label: 'Add this tag to the <head> of your home page:', value: info.methods.meta.tag, copyable: true },
+            { label: 'It is checked at:', value: info.methods.meta.url },
+        ] : method === 'file' && info.methods.file ? [
+            { label: 'Create a file at this path on your website:', value: info.methods.file.path },
+            { label: 'Add this token as the file content:', value: info.methods.file.content, copyable: true },
+        ] : [
+            { label: `Add a ${info.methods.dns.type} record named:`, value: info.methods.dns.name, copyable: true },
+            { label: 'With this value:', value: info.methods.dns.value, copyable: true },
+        ];
+
+    return (
+        <div className="space-y-3">
+            <div className="inline-flex rounded-md border border-slate-200 bg-white p-0.5">
+                {available.map(({ method: option, label }) => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => onMethodChange(option)}
+                        className={cn(
+                            'px-3 py-1 text-sm rounded transition-colors',
+                            option === method ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-100'
+                        )}
+                    >
+                        {label}
+                    </button>
+                ))}
+            </div>
+
+            {steps.map((step, index) => (
+                <div key={step.label} className="flex gap-3">
+                    <div className="shrink-0 h-6 w-6 rounded-full bg-slate-200 text-slate-700 flex items-center justify-center text-sm font-semibold">
+                        {index + 1}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <p className="text-sm text-slate-700">{step.label}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                            <code className="flex-1 bg-white px-3 py-2 rounded font-mono text-sm text-slate-700 select-all border border-slate-200 truncate">
+                                {step.value}
+                            </code>
+                            {step.copyable && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className={cn('transition-colors shrink-0', copied === step.value && 'text-green-600 border-green-300')}
+                                    onClick={() => copy(step.value)}
+                                >
+                                    {copied === step.value ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            ))}
+
+            {method === 'dns' && (
+                <p className="text-xs text-slate-500">DNS changes can take a few minutes to appear. Use this if your site blocks bots or can't serve /.well-known/ files.</p>
+            )}
+        </div>
+    );
+}
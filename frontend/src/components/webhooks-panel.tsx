@@ -0,0 +1,349 @@
+import { useEffect, useState } from 'react';
+import { sites, type Webhook, type WebhookDelivery, type WebhookEvent } from '@/lib/api';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Webhook as WebhookIcon, Plus, Send, Trash2, Loader2, Copy, Check, RefreshCw, Pause, Play, ChevronDown, ChevronUp } from 'lucide-react';
+import { cn, formatTimeAgo } from '@/lib/utils';
+
+interface WebhooksPanelProps {
+    siteId: number;
+}
+
+const eventLabels: Record<WebhookEvent, string> = {
+    'comment.created': 'Comment created',
+    'comment.approved': 'Comment approved',
+    'comment.rejected': 'Comment rejected',
+    'comment.deleted': 'Comment deleted',
+    'page.liked': 'Page liked',
+};
+
+const deliveryStatusStyles: Record<WebhookDelivery['status'], string> = {
+    success: 'bg-green-100 text-green-700',
+    pending: 'bg-yellow-100 text-yellow-700',
+    failed: 'bg-red-100 text-red-700',
+};
+
+export function WebhooksPanel({ siteId }: WebhooksPanelProps) {
+    const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+    const [availableEvents, setAvailableEvents] = useState<WebhookEvent[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    // Create form
+    const [url, setUrl] = useState('');
+    const [description, setDescription] = useState('');
+    const [events, setEvents] = useState<WebhookEvent[]>(['comment.created']);
+    const [creating, setCreating] = useState(false);
+
+    // Secret of a just-created or rotated webhook (shown once)
+    const [revealedSecret, setRevealedSecret] = useState<{ webhookId: number; secret: string } | null>(null);
+    const [copied, setCopied] = useState(false);
+
+    const [testing, setTesting] = useState<number | null>(null);
+    const [testResults, setTestResults] = useState<Record<number, WebhookDelivery>>({});
+    const [expanded, setExpanded] = useState<number | null>(null);
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+    const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+
+    useEffect(() => {
+        const loadWebhooks = async () => {
+            setLoading(true);
+            setError(null);
+            setRevealedSecret(null);
+            setExpanded(null);
+            const { data, error } = await sites.listWebhooks(siteId);
+            if (error) {
+                setError(error);
+            } else if (data) {
+                setWebhooks(data.webhooks);
+                setAvailableEvents(data.available_events);
+            }
+            setLoading(false);
+        };
+
+        loadWebhooks();
+    }, [siteId]);
+
+    const loadDeliveries = async (webhookId: number) => {
+        setDeliveriesLoading(true);
+        const { data } = await sites.getWebhookDeliveries(siteId, webhookId, { limit: 10 });
+        setDeliveries(data?.deliveries ?? []);
+        setDeliveriesLoading(false);
+    };
+
+    const toggleEvent = (event: WebhookEvent) => {
+        setEvents((prev) => prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]);
+    };
+
+    const handleCreate = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setCreating(true);
+        setError(null);
+
+        const { data, error } = await sites.createWebhook(siteId, {
+            url,
+            events,
+            description: description || undefined,
+        });
+
+        if (data && !error) {
+            setWebhooks((prev) => [data, ...prev]);
+            if (data.secret) setRevealedSecret({ webhookId: data.id, secret: data.secret });
+            setUrl('');
+            setDescription('');
+            setEvents(['comment.created']);
+        } else {
+            setError(error || 'Failed to create webhook');
+        }
+
+        setCreating(false);
+    };
+
+    const handleUpdate = async (webhook: Webhook, data: { active?: boolean; rotate_secret?: boolean }) => {
+        if (data.rotate_secret && !confirm('Rotate the signing secret? Requests signed with the old secret will stop verifying.')) {
+            return;
+        }
+
+        const { data: updated, error } = await sites.updateWebhook(siteId, webhook.id, data);
+        if (updated && !error) {
+            setWebhooks((prev) => prev.map((w) => w.id === webhook.id ? updated : w));
+            if (updated.secret) setRevealedSecret({ webhookId: updated.id, secret: updated.secret });
+        } else {
+            setError(error || 'Failed to update webhook');
+        }
+    };
+
+    const handleDelete = async (webhookId: number) => {
+        if (!confirm('Delete this webhook? Its delivery log will be removed too.')) return;
+
+        const { error } = await sites.deleteWebhook(siteId, webhookId);
+        if (error) {
+            setError(error);
+            return;
+        }
+        setWebhooks((prev) => prev.filter((w) => w.id !== webhookId));
+        if (expanded === webhookId) setExpanded(null);
+    };
+
+    const handleTest = async (webhookId: number) => {
+        setTesting(webhookId);
+        const { data, error } = await sites.testWebhook(siteId, webhookId);
+        if (data) {
+            setTestResults((prev) => ({ ...prev, [webhookId]: data }));
+            if (expanded === webhookId) loadDeliveries(webhookId);
+        } else {
+            setError(error || 'Failed to send test event');
+        }
+        setTesting(null);
+    };
+
+    const handleToggleDeliveries = (webhookId: number) => {
+        if (expanded === webhookId) {
+            setExpanded(null);
+            return;
+        }
+        setExpanded(webhookId);
+        loadDeliveries(webhookId);
+    };
+
+    const handleCopySecret = async () => {
+        if (!revealedSecret) return;
+        await navigator.clipboard.writeText(revealedSecret.secret);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12 text-slate-500 gap-2">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading webhooks...
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="bg-red-50 border border-red-200 rounded px-3 py-2">
+                    <p className="text-sm text-red-700">{error}</p>
+                </div>
+            )}
+
+            {revealedSecret && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-2">
+                    <p className="text-sm font-medium text-blue-900">
+                        Signing secret - copy it now, it won't be shown again
+                    </p>
+                    <div className="flex items-center gap-2">
+                        <code className="flex-1 text-xs bg-white border border-blue-200 rounded px-3 py-2 font-mono break-all">
+                            {revealedSecret.secret}
+                        </code>
+                        <Button variant="outline" size="sm" onClick={handleCopySecret} className="gap-1">
+                            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                        </Button>
+                    </div>
+                    <p className="text-xs text-blue-800">
+                        Verify the <code>X-CommentKit-Signature</code> header: HMAC-SHA256 of <code>{'{t}.{body}'}</code> with this secret.
+                    </p>
+                </div>
+            )}
+
+            {/* Create */}
+            <Card className="border-slate-200 py-4">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <WebhookIcon className="h-5 w-5" />
+                        Add Webhook
+                    </CardTitle>
+                    <CardDescription>
+                        Receive a signed POST request when comments are created, moderated or deleted
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <form onSubmit={handleCreate} className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-2">
+                                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                                <Input
+                                    id="webhook-url"
+                                    type="url"
+                                    placeholder="https://example.com/hooks/commentkit"
+                                    value={url}
+                                    onChange={(e) => setUrl(e.target.value)}
+                                    required
+                                />
+                            </div>
+                            <div className="space-y-2">
+                                <Label htmlFor="webhook-description">Description (optional)</Label>
+                                <Input
+                                    id="webhook-description"
+                                    placeholder="Slack #comments"
+                                    value={description}
+                                    onChange={(e) => setDescription(e.target.value)}
+                                    maxLength={200}
+                                />
+                            </div>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                            {availableEvents.map((event) => (
+                                <button
+                                    key={event}
+                                    type="button"
+                                    onClick={() => toggleEvent(event)}
+                                    className={cn(
+                                        "px-3 py-1.5 rounded-full border text-sm font-medium transition-all",
+                                        events.includes(event)
+                                            ? "bg-blue-50 border-blue-300 text-blue-700"
+                                            : "bg-white border-slate-200 text-slate-400 hover:text-slate-600"
+                                    )}
+                                >
+                                    {eventLabels[event]}
+                                </button>
+                            ))}
+                        </div>
+                        <Button type="submit" disabled={creating || events.length === 0 || !url} className="gap-2">
+                            {creating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                            Add Webhook
+                        </Button>
+                    </form>
+                </CardContent>
+            </Card>
+
+            {/* List */}
+            {webhooks.length > 0 && (
+                <Card className="border-slate-200">
+                    <div className="divide-y divide-slate-100">
+                        {webhooks.map((webhook) => {
+                            const testResult = testResults[webhook.id];
+                            return (
+                                <div key={webhook.id} className="p-4 space-y-3">
+                                    <div className="flex items-start justify-between gap-4">
+                                        <div className="min-w-0">
+                                            <div className="flex items-center gap-2">
+                                                <p className="font-mono text-sm text-slate-900 truncate">{webhook.url}</p>
+                                                {!webhook.active && (
+                                                    <span className="px-2 py-0.5 text-xs rounded-full bg-slate-100 text-slate-600">Paused</span>
+                                                )}
+                                            </div>
+                                            {webhook.description && (
+                                                <p className="text-sm text-slate-500">{webhook.description}</p>
+                                            )}
+                                            <p className="text-xs text-slate-400 mt-1">
+                                                {webhook.events.map((event) => eventLabels[event] ?? event).join(' · ')}
+                                                {' · '}secret {webhook.secret_preview}
+                                            </p>
+                                        </div>
+                                        <div className="flex items-center gap-1 shrink-0">
+                                            <Button variant="outline" size="sm" className="gap-1" disabled={testing === webhook.id} onClick={() => handleTest(webhook.id)}>
+                                                {testing === webhook.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                                                Send test event
+                                            </Button>
+                                            <Button variant="ghost" size="sm" title={webhook.active ? 'Pause' : 'Resume'} onClick={() => handleUpdate(webhook, { active: !webhook.active })}>
+                                                {webhook.active ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                                            </Button>
+                                            <Button variant="ghost" size="sm" title="Rotate secret" onClick={() => handleUpdate(webhook, { rotate_secret: true })}>
+                                                <RefreshCw className="h-4 w-4" />
+                                            </Button>
+                                            <Button variant="ghost" size="sm" title="Delete" className="text-red-600 hover:text-red-700 hover:bg-red-50" onClick={() => handleDelete(webhook.id)}>
+                                                <Trash2 className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    </div>
+
+                                    {testResult && (
+                                        <p className={cn('text-sm', testResult.status === 'success' ? 'text-green-600' : 'text-red-600')}>
+                                            {testResult.status === 'success'
+                                                ? `Test event delivered (HTTP ${testResult.response_status})`
+                                                : `Test event failed: ${testResult.error}`}
+                                        </p>
+                                    )}
+
+                                    <button
+                                        type="button"
+                                        onClick={() => handleToggleDeliveries(webhook.id)}
+                                        className="flex items-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+                                    >
+                                        {expanded === webhook.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                        Recent deliveries
+                                    </button>
+
+                                    {expanded === webhook.id && (
+                                        <div className="rounded border border-slate-100 bg-slate-50">
+                                            {deliveriesLoading ? (
+                                                <div className="flex items-center gap-2 p-3 text-sm text-slate-500">
+                                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                                    Loading deliveries...
+                                                </div>
+                                            ) : deliveries.length === 0 ? (
+                                                <p className="p-3 text-sm text-slate-500">No deliveries yet.</p>
+                                            ) : (
+                                                <div className="divide-y divide-slate-100">
+                                                    {deliveries.map((delivery) => (
+                                                        <div key={delivery.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                                                            <span className={cn('px-2 py-0.5 text-xs rounded-full', deliveryStatusStyles[delivery.status])}>
+                                                                {delivery.status}
+                                                            </span>
+                                                            <span className="font-mono text-xs text-slate-700">{delivery.event}</span>
+                                                            <span className="text-xs text-slate-500">
+                                                                {delivery.response_status ? `HTTP ${delivery.response_status}` : delivery.error}
+                                                                {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                                                            </span>
+                                                            <span className="ml-auto text-xs text-slate-400">{formatTimeAgo(delivery.created_at)}</span>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </Card>
+            )}
+        </div>
+    );
+}
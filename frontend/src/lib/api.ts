@@ -85,6 +85,12 @@ export interface UserWithBootstrap extends User {
     bootstrap?: BootstrapData;
 }
 
+// An OAuth / OIDC sign-in provider configured on the server
+export interface AuthProvider {
+    id: string;
+    name: string;
+}
+
 // Auth
 export const auth = {
     login: (email: string) =>
@@ -96,6 +102,11 @@ export const auth = {
     verify: (token: string) =>
         request<{ token: string; user: User; csrf_token: string }>(`/api/v1/auth/verify?token=${token}`),
 
+    providers: () => request<{ providers: AuthProvider[] }>('/api/v1/auth/providers'),
+
+    // Full-page URL that starts signing in with a provider (the server redirects back to the dashboard)
+    oauthUrl: (providerId: string) => `${API_BASE}/api/v1/auth/oauth/${encodeURIComponent(providerId)}`,
+
     // Get current user, optionally with bootstrap data to save an extra API call
     me: (options?: { bootstrap?: boolean }) =>
         request<UserWithBootstrap>(`/api/v1/auth/me${options?.bootstrap ? '?bootstrap=true' : ''}`),
@@ -103,6 +114,48 @@ export const auth = {
     logout: () =>
         request<{ message: string }>('/api/v1/auth/logout', { method: 'POST' }),
 
+    // Active sessions (signed-in browsers)
+    sessions: () => request<{ sessions: UserSession[] }>('/api/v1/auth/sessions'),
+
+    revokeSession: (id: number) =>
+        request<{ success: boolean }>(`/api/v1/auth/sessions/${id}`, { method: 'DELETE' }),
+
+    logoutAll: () =>
+        request<{ message: string; revoked: number }>('/api/v1/auth/logout-all', { method: 'POST' }),
+
+    // Email changes take effect once the link sent to the new address is followed
+    requestEmailChange: (newEmail: string) =>
+        request<{ message: string }>('/api/v1/auth/email-change', {
+            method: 'POST',
+            body: JSON.stringify({ new_email: newEmail }),
+        }),
+
+    confirmEmailChange: (token: string) =>
+        request<{ message: string; user: User }>('/api/v1/auth/email-change/confirm', {
+            method: 'POST',
+            body: JSON.stringify({ token }),
+        }),
+
+    // Everything stored about the current user, as a JSON archive
+    exportData: () => request<Record<string, unknown>>('/api/v1/auth/me/export'),
+
+    deleteAccount: (confirmEmail: string) =>
+        request<{ success: boolean; comments_deleted: number; comments_anonymized: number }>('/api/v1/auth/me', {
+            method: 'DELETE',
+            body: JSON.stringify({ confirm_email: confirmEmail }),
+        }),
+
+    // The image is sent as-is; the dashboard scales it down first (see settings-tab)
+    uploadAvatar: (image: Blob) =>
+        request<{ avatar_url: string }>('/api/v1/auth/avatar', {
+            method: 'PUT',
+            body: image,
+            headers: { 'Content-Type': image.type },
+        }),
+
+    removeAvatar: () =>
+        request<{ avatar_url: null }>('/api/v1/auth/avatar', { method: 'DELETE' }),
+
     updateProfile: (data: { display_name?: string }) =>
         request<User>('/api/v1/auth/profile', {
             method: 'PATCH',
@@ -136,8 +189,8 @@ export const sites = {
             body: JSON.stringify({ name, domain }),
         }),
 
-    update: (id: number, data: { name?: string; domain?: string }) =>
-        request<Site>(`/api/v1/admin/sites/${id}`, {
+    update: (id: number, data: { name?: string; domain?: string; settings?: SiteSettingsUpdate }) =>
+        request<SiteUpdateResult>(`/api/v1/admin/sites/${id}`, {
             method: 'PATCH',
             body: JSON.stringify(data),
         }),
@@ -147,11 +200,17 @@ export const sites = {
             method: 'DELETE',
         }),
 
-    regenerateKey: (id: number) =>
-        request<{ api_key: string }>(`/api/v1/admin/sites/${id}/regenerate-key`, {
+    // Host-site single sign-on
+    rotateSsoSecret: (id: number) =>
+        request<{ sso_secret: string }>(`/api/v1/admin/sites/${id}/sso-secret`, {
             method: 'POST',
         }),
 
+    disableSso: (id: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${id}/sso-secret`, {
+            method: 'DELETE',
+        }),
+
     // Get pages for a site with comment counts
     getPages: (siteId: number, params?: {
         limit?: number;
@@ -194,14 +253,163 @@ export const sites = {
             }
         ),
 
+    // Get moderation history for a site
+    getModerationLog: (siteId: number, params?: { limit?: number; offset?: number; comment_id?: number }) => {
+        const query = new URLSearchParams();
+        if (params?.limit) query.set('limit', String(params.limit));
+        if (params?.offset) query.set('offset', String(params.offset));
+        if (params?.comment_id) query.set('comment_id', String(params.comment_id));
+        const queryStr = query.toString();
+        return request<{ entries: ModerationLogEntry[]; total: number; limit: number; offset: number }>(
+            `/api/v1/admin/sites/${siteId}/moderation-log${queryStr ? `?${queryStr}` : ''}`
+        );
+    },
+
     // Get verification token and instructions
     getVerification: (id: number) =>
         request<VerificationInfo>(`/api/v1/admin/sites/${id}/verification`),
 
-    // Trigger verification check
-    verify: (id: number) =>
+    // Trigger verification check with the chosen method
+    verify: (id: number, method: VerificationMethod = 'file') =>
         request<VerificationResult>(`/api/v1/admin/sites/${id}/verify`, {
             method: 'POST',
+            body: JSON.stringify({ method }),
+        }),
+
+    // Outgoing webhooks
+    listWebhooks: (siteId: number) =>
+        request<{ webhooks: Webhook[]; available_events: WebhookEvent[] }>(`/api/v1/admin/sites/${siteId}/webhooks`),
+
+    // The response includes the signing secret - it is not shown again
+    createWebhook: (siteId: number, data: { url: string; events: WebhookEvent[]; description?: string }) =>
+        request<Webhook>(`/api/v1/admin/sites/${siteId}/webhooks`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        }),
+
+    updateWebhook: (
+        siteId: number,
+        webhookId: number,
+        data: { url?: string; events?: WebhookEvent[]; description?: string | null; active?: boolean; rotate_secret?: boolean }
+    ) =>
+        request<Webhook>(`/api/v1/admin/sites/${siteId}/webhooks/${webhookId}`, {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+        }),
+
+    deleteWebhook: (siteId: number, webhookId: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${siteId}/webhooks/${webhookId}`, {
+            method: 'DELETE',
+        }),
+
+    testWebhook: (siteId: number, webhookId: number) =>
+        request<WebhookDelivery>(`/api/v1/admin/sites/${siteId}/webhooks/${webhookId}/test`, {
+            method: 'POST',
+        }),
+
+    getWebhookDeliveries: (siteId: number, webhookId: number, params?: { limit?: number; offset?: number }) => {
+        const query = new URLSearchParams();
+        if (params?.limit) query.set('limit', String(params.limit));
+        if (params?.offset) query.set('offset', String(params.offset));
+        const queryStr = query.toString();
+        return request<{ deliveries: WebhookDelivery[]; total: number; limit: number; offset: number }>(
+            `/api/v1/admin/sites/${siteId}/webhooks/${webhookId}/deliveries${queryStr ? `?${queryStr}` : ''}`
+        );
+    },
+
+    // Blocklist (banned commenters and word filters)
+    getBlocklist: (siteId: number) =>
+        request<{ entries: BlocklistEntry[]; ip_blocking_available: boolean }>(`/api/v1/admin/sites/${siteId}/blocklist`),
+
+    addBlocklistEntry: (siteId: number, data: { kind: BlocklistKind; value: string; action?: BlocklistAction; note?: string }) =>
+        request<BlocklistEntry>(`/api/v1/admin/sites/${siteId}/blocklist`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        }),
+
+    updateBlocklistEntry: (siteId: number, entryId: number, data: { action?: BlocklistAction; note?: string | null }) =>
+        request<BlocklistEntry>(`/api/v1/admin/sites/${siteId}/blocklist/${entryId}`, {
+            method: 'PATCH',
+            body: JSON.stringify(data),
+        }),
+
+    deleteBlocklistEntry: (siteId: number, entryId: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${siteId}/blocklist/${entryId}`, {
+            method: 'DELETE',
+        }),
+
+    // Domain aliases (www., staging and preview domains sharing the site's comments)
+    getDomains: (siteId: number) =>
+        request<{ primary: { domain: string; verified: boolean }; aliases: SiteDomainAlias[] }>(`/api/v1/admin/sites/${siteId}/domains`),
+
+    addDomain: (siteId: number, domain: string) =>
+        request<SiteDomainAlias>(`/api/v1/admin/sites/${siteId}/domains`, {
+            method: 'POST',
+            body: JSON.stringify({ domain }),
+        }),
+
+    verifyDomain: (siteId: number, domainId: number, method: VerificationMethod) =>
+        request<VerificationResult>(`/api/v1/admin/sites/${siteId}/domains/${domainId}/verify`, {
+            method: 'POST',
+            body: JSON.stringify({ method }),
+        }),
+
+    deleteDomain: (siteId: number, domainId: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${siteId}/domains/${domainId}`, {
+            method: 'DELETE',
+        }),
+
+    // Team (members with roles, and invitations sent by email)
+    getTeam: (siteId: number) =>
+        request<SiteTeam>(`/api/v1/admin/sites/${siteId}/team`),
+
+    inviteMember: (siteId: number, email: string, role: SiteMemberRole) =>
+        request<TeamInvitation>(`/api/v1/admin/sites/${siteId}/team/invitations`, {
+            method: 'POST',
+            body: JSON.stringify({ email, role }),
+        }),
+
+    cancelInvitation: (siteId: number, invitationId: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${siteId}/team/invitations/${invitationId}`, {
+            method: 'DELETE',
+        }),
+
+    updateMemberRole: (siteId: number, userId: number, role: SiteMemberRole) =>
+        request<{ user_id: number; role: SiteMemberRole }>(`/api/v1/admin/sites/${siteId}/team/members/${userId}`, {
+            method: 'PATCH',
+            body: JSON.stringify({ role }),
+        }),
+
+    removeMember: (siteId: number, userId: number) =>
+        request<{ success: boolean }>(`/api/v1/admin/sites/${siteId}/team/members/${userId}`, {
+            method: 'DELETE',
+        }),
+
+    // API keys for server-to-server calls
+    listApiKeys: (siteId: number) =>
+        request<{ api_keys: SiteApiKey[]; available_scopes: ApiKeyScope[] }>(`/api/v1/admin/sites/${siteId}/api-keys`),
+
+    createApiKey: (siteId: number, data: { name: string; scopes: ApiKeyScope[] }) =>
+        request<SiteApiKey & { key: string }>(`/api/v1/admin/sites/${siteId}/api-keys`, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        }),
+
+    revokeApiKey: (siteId: number, keyId: number) =>
+        request<SiteApiKey>(`/api/v1/admin/sites/${siteId}/api-keys/${keyId}`, {
+            method: 'DELETE',
+        }),
+};
+
+// Email notification preferences
+export const notifications = {
+    getPreferences: () =>
+        request<NotificationPreferences>('/api/v1/notifications/preferences'),
+
+    updatePreferences: (data: Partial<NotificationPreferences>) =>
+        request<NotificationPreferences>('/api/v1/notifications/preferences', {
+            method: 'PATCH',
+            body: JSON.stringify(data),
         }),
 };
 
@@ -226,6 +434,14 @@ export const comments = {
         request<{ success: boolean }>(`/api/v1/sites/comments/${id}`, {
             method: 'DELETE',
         }),
+
+    restore: (id: number) =>
+        request<{ id: number; status: Comment['status']; restored: boolean }>(`/api/v1/sites/comments/${id}/restore`, {
+            method: 'POST',
+        }),
+
+    getRevisions: (id: number) =>
+        request<{ comment_id: number; revisions: CommentRevision[] }>(`/api/v1/sites/comments/${id}/revisions`),
 };
 
 // Superadmin (admin-only endpoints)
@@ -301,11 +517,28 @@ export interface User {
     email_hash: string | null;
     display_name: string | null;
     is_superadmin: boolean;
+    // Uploaded avatar, shown instead of the Gravatar when set
+    avatar_url: string | null;
     created_at: string;
     updated_at: string;
     csrf_token?: string;
 }
 
+export interface UserSession {
+    id: number;
+    user_agent: string | null;
+    created_at: string;
+    last_used_at: string | null;
+    expires_at: string;
+    current: boolean;
+}
+
+export interface NotificationPreferences {
+    reply_emails: boolean;
+    mention_emails: boolean;
+    digest_emails: boolean;
+}
+
 export interface GlobalStats {
     total_users: number;
     total_sites: number;
@@ -350,21 +583,24 @@ export interface AdminSiteDetail {
     id: number;
     name: string;
     domain: string;
-    api_key: string;
-    settings: Record<string, unknown>;
+    settings: SiteSettings;
     owner_id: number;
     owner_email: string;
     created_at: string;
     updated_at: string;
 }
 
+// The current user's place on a site's team
+export type SiteRole = 'owner' | 'admin' | 'moderator' | 'viewer';
+export type SiteMemberRole = Exclude<SiteRole, 'owner'>;
+
 export interface SitePreview {
     id: number;
     name: string;
     domain: string;
-    api_key_preview: string;
     verified: boolean;
     verified_at: string | null;
+    role: SiteRole;
     created_at: string;
     updated_at: string;
 }
@@ -377,14 +613,65 @@ export interface SiteDetail {
     id: number;
     name: string;
     domain: string;
-    api_key: string;
-    settings: Record<string, unknown>;
+    settings: SiteSettings;
     verified: boolean;
     verified_at: string | null;
+    sso_enabled: boolean;
+    role: SiteRole;
     created_at: string;
     updated_at: string;
 }
 
+export type ReactionType = 'like' | 'love' | 'laugh' | 'sad' | 'angry';
+
+export interface SiteSettings {
+    moderation: {
+        require_approval: 'all' | 'guests' | 'none';
+        allow_guest_comments: boolean;
+        trusted_commenter_threshold: number;
+        verify_guest_emails: boolean;
+        approve_verified_guests: boolean;
+    };
+    reactions: {
+        enabled: ReactionType[];
+    };
+    spam: {
+        enabled: boolean;
+        blocked_words: string[];
+    };
+    rate_limits: {
+        enabled: boolean;
+        window_minutes: number;
+        comments_per_ip: number;
+        comments_per_user: number;
+        comments_per_email: number;
+    };
+    formatting: {
+        markdown: boolean;
+    };
+    editing: {
+        window_minutes: number;
+        public_history: boolean;
+    };
+    privacy: {
+        deleted_account_comments: 'anonymize' | 'delete';
+    };
+}
+
+export type SiteSettingsUpdate = {
+    [K in keyof SiteSettings]?: Partial<SiteSettings[K]>;
+};
+
+export interface SiteUpdateResult {
+    id: number;
+    name: string;
+    domain: string;
+    verified: boolean;
+    verified_at: string | null;
+    settings: SiteSettings;
+    updated_at: string;
+}
+
 export interface SiteDetailWithData extends SiteDetail {
     stats: SiteStats;
     comments?: Comment[];
@@ -395,22 +682,68 @@ export interface Site {
     id: number;
     name: string;
     domain: string;
-    api_key: string;
     verified: boolean;
+    role: SiteRole;
+    created_at: string;
+}
+
+export interface TeamMember {
+    user_id: number;
+    email: string;
+    display_name: string | null;
+    email_hash: string | null;
+    avatar_url: string | null;
+    role: SiteRole;
+    joined_at: string;
+}
+
+export interface TeamInvitation {
+    id: number;
+    email: string;
+    role: SiteMemberRole;
+    expires_at: string;
     created_at: string;
 }
 
+export interface SiteTeam {
+    role: SiteRole;
+    members: TeamMember[];
+    // Only listed for admins and the owner
+    invitations: TeamInvitation[];
+}
+
+export type VerificationMethod = 'file' | 'dns' | 'meta';
+
 export interface VerificationInfo {
     verified: boolean;
     verified_at: string | null;
+    verification_method: VerificationMethod | null;
     verification_token: string;
-    verification_file_path: string;
-    verification_file_content: string;
-    verification_url: string;
+    verification_file_path: string | null;
+    verification_file_content: string | null;
+    verification_url: string | null;
+    // file and meta are null for wildcard domains, which verify by DNS only
+    methods: {
+        file: { path: string; content: string; url: string } | null;
+        dns: { type: string; name: string; value: string };
+        meta: { url: string; tag: string } | null;
+    };
+}
+
+export interface SiteDomainAlias {
+    id: number;
+    domain: string;
+    verified: boolean;
+    verified_at: string | null;
+    verification_method: VerificationMethod | null;
+    created_at: string;
+    // Instructions while the alias is unverified
+    verification: Pick<VerificationInfo, 'verification_token' | 'methods'> | null;
 }
 
 export interface VerificationResult {
     verified: boolean;
+    method?: VerificationMethod;
     message?: string;
     error?: string;
 }
@@ -430,12 +763,100 @@ export interface Comment {
     author_name: string | null;
     author_email: string | null;
     author_email_hash: string | null;
+    author_avatar_url?: string | null;
     content: string;
+    content_html?: string | null;
     status: 'pending' | 'approved' | 'rejected' | 'spam';
+    spam_score?: number | null;
+    spam_reasons?: string | null;
+    shadow_banned?: number;
+    is_edited?: number;
+    // Set on deleted comments, which can be restored for a limited time
+    deleted_at?: string | null;
+    // Set once a guest confirmed their email, or signed in with it
+    email_verified_at?: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CommentRevision {
+    id: number;
+    content: string;
+    content_html: string | null;
+    // When this version was replaced by an edit
+    replaced_at: string;
+}
+
+export interface ModerationLogEntry {
+    id: number;
+    comment_id: number | null;
+    action: 'approve' | 'reject' | 'spam' | 'mark_pending' | 'delete' | 'restore';
+    from_status: Comment['status'] | null;
+    to_status: Comment['status'] | null;
+    reason: string | null;
+    moderator: {
+        // Both null when the action was taken with an API key
+        user_id: number | null;
+        email: string | null;
+        role: SiteRole | 'author' | 'superadmin' | 'api_key';
+        api_key?: { id: number; name: string };
+    } | null;
+    comment_excerpt: string | null;
+    created_at: string;
+}
+
+export type ApiKeyScope = 'comments:read' | 'comments:write' | 'moderate' | 'export';
+
+export interface SiteApiKey {
+    id: number;
+    name: string;
+    // The start of the key; the whole key is only returned when it is created
+    key_prefix: string;
+    scopes: ApiKeyScope[];
+    last_used_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+}
+
+export type WebhookEvent = 'comment.created' | 'comment.approved' | 'comment.rejected' | 'comment.deleted' | 'page.liked';
+
+export interface Webhook {
+    id: number;
+    url: string;
+    description: string | null;
+    events: WebhookEvent[];
+    active: boolean;
+    secret?: string; // Only present right after create or rotate
+    secret_preview: string;
     created_at: string;
     updated_at: string;
 }
 
+export interface WebhookDelivery {
+    id: number;
+    event: WebhookEvent | 'ping';
+    status: 'pending' | 'success' | 'failed';
+    attempts: number;
+    response_status: number | null;
+    response_body: string | null;
+    error: string | null;
+    next_attempt_at: string | null;
+    created_at: string;
+    completed_at: string | null;
+}
+
+export type BlocklistKind = 'user' | 'email' | 'ip' | 'word' | 'regex';
+export type BlocklistAction = 'reject' | 'hold' | 'shadow_ban';
+
+export interface BlocklistEntry {
+    id: number;
+    kind: BlocklistKind;
+    value: string;
+    action: BlocklistAction;
+    note: string | null;
+    created_at: string;
+}
+
 // Dashboard types
 export interface PageWithStats {
     id: number;
@@ -454,6 +875,7 @@ export interface ActivityItem {
     type: 'comment' | 'reply';
     author_name: string | null;
     author_email_hash: string | null;
+    author_avatar_url?: string | null;
     content: string;
     page_title: string | null;
     page_slug: string;
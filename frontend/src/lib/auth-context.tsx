@@ -11,6 +11,8 @@ interface AuthContextType {
     updateUser: (user: User) => void;
     // Bootstrap data - cached on initial load, consumed once
     consumeBootstrap: () => BootstrapData | null;
+    // Outcome of following an email-change confirmation link, if the page was opened from one
+    emailChangeResult: { type: 'success' | 'error'; text: string } | null;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -18,6 +20,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
     const [user, setUser] = useState<User | null>(null);
     const [loading, setLoading] = useState(true);
+    const [emailChangeResult, setEmailChangeResult] = useState<AuthContextType['emailChangeResult']>(null);
     // Store bootstrap data for one-time consumption by OverviewTab
     const bootstrapRef = useRef<BootstrapData | null>(null);
 
@@ -57,8 +60,18 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const params = new URLSearchParams(window.location.search);
         const token = params.get('token');
         const redirectUrl = params.get('redirect');
+        const emailChangeToken = params.get('email_change_token');
 
-        if (token) {
+        if (emailChangeToken) {
+            // Link from the confirmation email sent to a new address
+            window.history.replaceState({}, '', window.location.pathname);
+            auth.confirmEmailChange(emailChangeToken).then(({ data, error }) => {
+                setEmailChangeResult(data && !error
+                    ? { type: 'success', text: `Your email address is now ${data.user.email}` }
+                    : { type: 'error', text: error || 'Failed to change your email address' });
+                checkAuth();
+            });
+        } else if (token) {
             // Verify token - server will set HttpOnly cookie in response
             auth.verify(token).then(({ data, error }) => {
                 if (data && !error) {
@@ -129,7 +142,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     };
 
     return (
-        <AuthContext.Provider value={{ user, loading, login, logout, checkAuth, updateUser, consumeBootstrap }}>
+        <AuthContext.Provider value={{ user, loading, login, logout, checkAuth, updateUser, consumeBootstrap, emailChangeResult }}>
             {children}
         </AuthContext.Provider>
     );
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
+import type { SiteRole } from "./api";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -56,3 +57,62 @@ export function formatTimeAgo(date: string): string {
   });
   return `${dateStr}, ${timeStr}`;
 }
+
+/**
+ * Short "Browser on OS" label for a session's user agent
+ */
+export function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  // Order matters: Edge and Opera also claim Chrome, and Chrome also claims Safari
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\//.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' :
+    null;
+
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' :
+    null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || userAgent.split(' ')[0] || 'Unknown device';
+}
+
+/**
+ * Crop an image file to a centered square and scale it to `size` pixels,
+ * so avatar uploads stay small
+ */
+export async function resizeImageToSquare(file: File, size: number): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+  const side = Math.min(bitmap.width, bitmap.height);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not process the image');
+  context.drawImage(bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, size, size);
+  bitmap.close();
+
+  // Browsers that can't encode WebP hand back a PNG instead
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/webp', 0.9));
+  if (!blob) throw new Error('Could not process the image');
+  return blob;
+}
+
+const siteRoleRank: Record<SiteRole, number> = { viewer: 0, moderator: 1, admin: 2, owner: 3 };
+
+/**
+ * Whether a role on a site includes another (an admin can do whatever a moderator can).
+ * Mirrors the worker's site access policy, so the dashboard only offers what will be allowed.
+ */
+export function hasSiteRole(role: SiteRole, minimum: SiteRole): boolean {
+  return siteRoleRank[role] >= siteRoleRank[minimum];
+}
@@ -0,0 +1,2 @@
+-- Supports cursor pagination over top-level threads on a page
+CREATE INDEX IF NOT EXISTS idx_comments_page_threads ON comments(page_id, parent_id, created_at, id);
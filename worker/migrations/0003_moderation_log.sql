@@ -0,0 +1,12 @@
+-- ============================================
+-- MODERATION_LOG: Structured audit columns
+-- ============================================
+-- moderator_info keeps a JSON snapshot of the moderator (email, role) so entries
+-- stay readable after the user is deleted; moderator_id allows filtering.
+-- comment_excerpt preserves context once a deleted comment's id is nulled out.
+ALTER TABLE moderation_log ADD COLUMN moderator_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE moderation_log ADD COLUMN from_status TEXT;
+ALTER TABLE moderation_log ADD COLUMN to_status TEXT;
+ALTER TABLE moderation_log ADD COLUMN comment_excerpt TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_moderation_log_site_created ON moderation_log(site_id, created_at);
@@ -0,0 +1,24 @@
+-- ============================================
+-- NOTIFICATION_PREFERENCES: Email opt-ins
+-- ============================================
+-- Keyed by (lowercased) email rather than user id so guests who left an
+-- author_email can unsubscribe with the signed link too. A missing row means
+-- every notification is enabled.
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  email TEXT PRIMARY KEY,
+  reply_emails INTEGER NOT NULL DEFAULT 1,
+  mention_emails INTEGER NOT NULL DEFAULT 1,
+  digest_emails INTEGER NOT NULL DEFAULT 1,
+  last_digest_at TEXT,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Set once reply/mention emails went out, so approving a held comment later
+-- notifies exactly once
+ALTER TABLE comments ADD COLUMN notified_at TEXT;
+
+-- Comments published before this migration must not trigger notifications
+UPDATE comments SET notified_at = created_at WHERE status = 'approved';
+
+-- Supports the pending-comment digest
+CREATE INDEX IF NOT EXISTS idx_comments_site_status_created ON comments(site_id, status, created_at);
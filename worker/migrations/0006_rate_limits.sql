@@ -0,0 +1,13 @@
+-- ============================================
+-- RATE_LIMITS: Fixed-window counters for public write endpoints
+-- ============================================
+-- key is "<bucket>:<sha256 of the identifier>" so raw IPs and emails are never
+-- stored. reset_at is a unix timestamp (seconds); expired rows are reused by
+-- the next hit and purged by the cron trigger.
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL DEFAULT 0,
+  reset_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limits_reset_at ON rate_limits(reset_at);
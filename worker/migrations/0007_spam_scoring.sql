@@ -0,0 +1,9 @@
+-- ============================================
+-- COMMENTS: Spam scoring results
+-- ============================================
+-- spam_score is the combined score from the spam pipeline when the comment
+-- was posted; spam_reasons is a JSON array of human-readable signals so
+-- moderators can see why a comment was held or flagged. Both stay NULL for
+-- comments posted before scoring existed.
+ALTER TABLE comments ADD COLUMN spam_score REAL;
+ALTER TABLE comments ADD COLUMN spam_reasons TEXT;
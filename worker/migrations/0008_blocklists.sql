@@ -0,0 +1,29 @@
+-- ============================================
+-- SITE_BLOCKLIST: Per-site bans and word filters
+-- ============================================
+-- kind decides how value is matched against a new comment:
+--   user  - user id of a signed-in commenter
+--   email - lowercased email address, or its SHA-256 hash (as shown in the dashboard)
+--   ip    - client IP (only checked when COLLECT_IP_ADDRESS is enabled)
+--   word  - case-insensitive word or phrase in the content
+--   regex - case-insensitive JavaScript regular expression tested against the content
+-- action is what happens on a match; the strictest matching entry wins.
+CREATE TABLE IF NOT EXISTS site_blocklist (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('user', 'email', 'ip', 'word', 'regex')),
+  value TEXT NOT NULL,
+  action TEXT NOT NULL DEFAULT 'reject' CHECK (action IN ('reject', 'hold', 'shadow_ban')),
+  note TEXT,
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (site_id, kind, value)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_blocklist_site ON site_blocklist(site_id);
+
+-- ============================================
+-- COMMENTS: Shadow-banned comments
+-- ============================================
+-- Stored like any other comment but left out of public threads and counts.
+ALTER TABLE comments ADD COLUMN shadow_banned INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,7 @@
+-- ============================================
+-- COMMENTS: Rendered Markdown
+-- ============================================
+-- Sites can opt in to Markdown comments. `content` keeps the source exactly as
+-- typed (for editing) and content_html holds the HTML rendered from it through
+-- the allowlist in utils/markdown.ts. NULL means a plain-text comment.
+ALTER TABLE comments ADD COLUMN content_html TEXT;
@@ -0,0 +1,15 @@
+-- ============================================
+-- COMMENT_REVISIONS: Earlier versions of edited comments
+-- ============================================
+-- Every edit stores the version it replaces, so the comment row always holds
+-- the latest text and this table holds everything before it. created_at is
+-- when that version was replaced.
+CREATE TABLE IF NOT EXISTS comment_revisions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  comment_id INTEGER NOT NULL REFERENCES comments(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  content_html TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comment_revisions_comment ON comment_revisions(comment_id, created_at);
@@ -0,0 +1,10 @@
+-- ============================================
+-- COMMENTS: Soft deletion
+-- ============================================
+-- Deleting a comment sets deleted_at instead of removing the row, so replies
+-- (which cascade on parent_id) survive under a "[deleted]" tombstone. Site
+-- owners can restore a comment during the retention window; after it the
+-- scheduled purge removes the row, or scrubs it when replies still hang off it.
+ALTER TABLE comments ADD COLUMN deleted_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_comments_deleted_at ON comments(deleted_at);
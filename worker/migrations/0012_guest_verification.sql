@@ -0,0 +1,11 @@
+-- ============================================
+-- COMMENTS: Guest email verification
+-- ============================================
+-- Guests can confirm the email they commented with through a signed link, and
+-- signing in by magic link with that address links their guest comments to
+-- the new account. email_verified_at records when either happened; NULL means
+-- the address was never confirmed. Older rows may hold mixed-case addresses,
+-- so the sign-in lookup goes through an index on LOWER(author_email).
+ALTER TABLE comments ADD COLUMN email_verified_at TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_comments_author_email ON comments(LOWER(author_email));
@@ -0,0 +1,19 @@
+-- ============================================
+-- OAUTH_ACCOUNTS: Sign-in identities from OAuth / OIDC providers
+-- ============================================
+-- Each row links one provider account (GitHub, Google or the configured OIDC
+-- issuer) to a user. The first sign-in with a provider links it to the user
+-- that owns the provider's verified email address, creating the user if needed;
+-- later sign-ins find the user by provider_account_id even if that email changes.
+CREATE TABLE IF NOT EXISTS oauth_accounts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  provider_account_id TEXT NOT NULL,
+  email TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_oauth_accounts_provider_account ON oauth_accounts(provider, provider_account_id);
+CREATE INDEX IF NOT EXISTS idx_oauth_accounts_user ON oauth_accounts(user_id);
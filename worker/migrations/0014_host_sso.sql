@@ -0,0 +1,15 @@
+-- ============================================
+-- SITES / USERS: Single sign-on from the host site
+-- ============================================
+-- A site with an sso_secret can sign its own logged-in users into the widget:
+-- the host page passes a payload signed with the secret, and the worker maps it
+-- to a user that belongs to that site alone (sso_site_id + sso_external_id).
+-- These users never share an account with a CommentKit user of the same email,
+-- since the host site is trusted to vouch for its own users and nobody else's.
+ALTER TABLE sites ADD COLUMN sso_secret TEXT;
+
+ALTER TABLE users ADD COLUMN sso_site_id INTEGER REFERENCES sites(id) ON DELETE CASCADE;
+ALTER TABLE users ADD COLUMN sso_external_id TEXT;
+
+-- Regular users have NULLs here, which never collide in a unique index
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_sso_identity ON users(sso_site_id, sso_external_id);
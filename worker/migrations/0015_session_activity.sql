@@ -0,0 +1,13 @@
+-- ============================================
+-- SESSIONS: Device and last-used tracking
+-- ============================================
+-- Users can list and revoke where they are signed in. user_agent records the
+-- browser that created the session; last_used_at is refreshed as the session is
+-- used, and expires_at slides forward with it, so only idle sessions expire.
+ALTER TABLE sessions ADD COLUMN user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN last_used_at TEXT;
+
+UPDATE sessions SET last_used_at = created_at WHERE last_used_at IS NULL;
+
+-- For the scheduled purge of expired sessions
+CREATE INDEX IF NOT EXISTS idx_sessions_expires_at ON sessions(expires_at);
@@ -0,0 +1,16 @@
+-- ============================================
+-- EMAIL_CHANGE_REQUESTS: Pending email address changes
+-- ============================================
+-- A signed-in user asks to move their account to a new address; the change
+-- only happens once a link sent to that address is followed. Tokens are
+-- stored hashed, like session tokens. A newer request replaces any pending one.
+CREATE TABLE IF NOT EXISTS email_change_requests (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  new_email TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_change_requests_user ON email_change_requests(user_id);
@@ -0,0 +1,7 @@
+-- ============================================
+-- SITES: How the domain was verified
+-- ============================================
+-- Besides the /.well-known file, a domain can now be verified with a DNS TXT
+-- record or a <meta> tag on its home page. The method that succeeded is kept
+-- so the dashboard can tell owners what to leave in place.
+ALTER TABLE sites ADD COLUMN verification_method TEXT;
@@ -0,0 +1,20 @@
+-- ============================================
+-- SITE_DOMAINS: Extra domains that serve the same site
+-- ============================================
+-- sites.domain stays the primary domain; each alias here (www., staging,
+-- preview hosts) maps onto the same site and its comments. Every alias proves
+-- ownership on its own with its own token, and the widget only loads on it
+-- once it is verified. A domain may belong to one site only, as a primary
+-- domain or as an alias; the API checks both tables before adding one.
+CREATE TABLE IF NOT EXISTS site_domains (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  domain TEXT NOT NULL UNIQUE,
+  verification_token TEXT NOT NULL,
+  verified INTEGER NOT NULL DEFAULT 0,
+  verification_method TEXT,
+  verified_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_domains_site ON site_domains(site_id);
@@ -0,0 +1,21 @@
+-- ============================================
+-- SITES / SITE_DOMAINS: Store domains in normal form
+-- ============================================
+-- Domains are now normalized before they are stored or looked up: lowercase,
+-- without a port or trailing dot (see normalizeDomain in utils/site-domains.ts),
+-- and may be wildcards such as *.example.com. Rewrite existing rows the same
+-- way so lookups keep finding them. A row that would collide with another
+-- site's domain is left as it is (OR IGNORE) for its owner to sort out.
+-- Internationalized names can't be converted to punycode here; they are
+-- normalized the next time the owner saves the domain.
+UPDATE OR IGNORE sites
+SET domain = LOWER(RTRIM(
+  CASE WHEN domain NOT LIKE '[%' AND INSTR(domain, ':') > 0 THEN SUBSTR(domain, 1, INSTR(domain, ':') - 1) ELSE domain END,
+  '.'
+));
+
+UPDATE OR IGNORE site_domains
+SET domain = LOWER(RTRIM(
+  CASE WHEN domain NOT LIKE '[%' AND INSTR(domain, ':') > 0 THEN SUBSTR(domain, 1, INSTR(domain, ':') - 1) ELSE domain END,
+  '.'
+));
@@ -0,0 +1,36 @@
+-- ============================================
+-- SITE_MEMBERS: People who help run a site
+-- ============================================
+-- sites.owner_id stays the site's single owner. Everyone else on the site's
+-- team is a member with one of the lesser roles (admin, moderator, viewer);
+-- what each role may do is decided in utils/site-access.ts.
+CREATE TABLE IF NOT EXISTS site_members (
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'moderator', 'viewer')),
+  invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  PRIMARY KEY (site_id, user_id)
+);
+
+-- "Which sites can this user see" for the dashboard
+CREATE INDEX IF NOT EXISTS idx_site_members_user ON site_members(user_id);
+
+-- ============================================
+-- SITE_INVITATIONS: Pending invitations to a site's team
+-- ============================================
+-- Inviting someone emails them a magic link; signing in with that address
+-- (by any means that proves it) turns each unexpired invitation into a
+-- membership. Inviting the same address again replaces the old invitation.
+CREATE TABLE IF NOT EXISTS site_invitations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('admin', 'moderator', 'viewer')),
+  invited_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (site_id, email)
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_invitations_email ON site_invitations(email);
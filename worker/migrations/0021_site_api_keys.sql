@@ -0,0 +1,32 @@
+-- ============================================
+-- SITE_API_KEYS: Named, scoped keys for server-to-server calls
+-- ============================================
+-- A site can have any number of keys, each limited to the scopes in the JSON
+-- array `scopes` (see utils/api-keys.ts). Only a SHA-256 hash of the key is
+-- stored; the key itself is shown once, when it is created. key_prefix is the
+-- start of the key so owners can tell their keys apart. A revoked key stays
+-- listed with revoked_at set but no longer authenticates.
+CREATE TABLE IF NOT EXISTS site_api_keys (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  site_id INTEGER NOT NULL REFERENCES sites(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL DEFAULT '[]',
+  created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  last_used_at TEXT,
+  revoked_at TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_api_keys_site_id ON site_api_keys(site_id);
+
+-- ============================================
+-- SITES: Retire the single plain-text api_key
+-- ============================================
+-- sites.api_key was never checked (any X-API-Key header was accepted), so no
+-- integration can depend on its value, and it can't be hashed here. Overwrite
+-- it with random values that nothing reads. The column stays because SQLite
+-- can't drop a UNIQUE column without rebuilding sites.
+DROP INDEX IF EXISTS idx_sites_api_key;
+UPDATE sites SET api_key = 'retired_' || lower(hex(randomblob(16)));
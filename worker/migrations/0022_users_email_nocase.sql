@@ -0,0 +1,7 @@
+-- ============================================
+-- USERS: Case-insensitive email lookups
+-- ============================================
+-- Database.getUserByEmail matches addresses with LOWER(email), so sign-ins
+-- with differently capitalized addresses find the same account. This index
+-- keeps that lookup from scanning the table.
+CREATE INDEX IF NOT EXISTS idx_users_email_lower ON users(LOWER(email));
@@ -1,4 +1,37 @@
-import type { Comment, LikeStats, Page, Site, User } from '../types';
+import type {
+    ApiKeyScope,
+    BlocklistAction,
+    BlocklistEntry,
+    BlocklistKind,
+    Comment,
+    CommentCursor,
+    CommentRevision,
+    LikeStats,
+    ModerationAction,
+    ModerationAudit,
+    ModerationLogEntry,
+    NotificationComment,
+    NotificationPreferences,
+    Page,
+    ReactionStats,
+    ReactionType,
+    SessionInfo,
+    Site,
+    SiteApiKey,
+    SiteDomain,
+    SiteExportData,
+    SiteForDomain,
+    SiteInvitation,
+    SiteMember,
+    SiteMemberRole,
+    SiteRole,
+    User,
+    UserExportData,
+    Webhook,
+    WebhookDelivery,
+    WebhookEvent,
+} from '../types';
+import { coveringWildcards, domainLookupCandidates, normalizeDomain } from '../utils/site-domains';
 
 // Hash email for Gravatar (SHA-256)
 async function hashEmail(email: string): Promise<string> {
@@ -9,6 +42,27 @@ async function hashEmail(email: string): Promise<string> {
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
+// Comments everyone may see: not shadow-banned when posted, and the author isn't
+// shadow-banned on the site (a user ban also hides what they posted before it).
+// Expects the comments table to be aliased as "c".
+const NOT_SHADOW_BANNED = `c.shadow_banned = 0 AND NOT EXISTS (
+    SELECT 1 FROM site_blocklist b
+    WHERE b.site_id = c.site_id AND b.kind = 'user' AND b.action = 'shadow_ban'
+      AND b.value = CAST(c.user_id AS TEXT)
+)`;
+
+// A commenter's email address, leaving out the placeholder addresses of host-site
+// SSO users (see utils/sso.ts), who are never emailed. Expects users aliased as "u".
+const USER_EMAIL = 'CASE WHEN u.sso_site_id IS NULL THEN u.email END';
+
+// Audit log action recorded for each status a comment can be moved to
+const STATUS_ACTIONS: Record<Comment['status'], ModerationAction> = {
+    approved: 'approve',
+    rejected: 'reject',
+    spam: 'spam',
+    pending: 'mark_pending',
+};
+
 // Database wrapper for D1 operations
 export class Database {
     constructor(private db: D1Database) { }
@@ -21,19 +75,29 @@ export class Database {
         return this.db.prepare('SELECT * FROM sites WHERE id = ?').bind(id).first<Site>();
     }
 
-    async getSiteByApiKey(apiKey: string): Promise<Site | null> {
-        return this.db.prepare('SELECT * FROM sites WHERE api_key = ?').bind(apiKey).first<Site>();
-    }
-
     async getSitesByOwner(ownerId: number): Promise<Site[]> {
         const result = await this.db.prepare('SELECT * FROM sites WHERE owner_id = ?').bind(ownerId).all<Site>();
         return result.results;
     }
 
-    async createSite(name: string, domain: string, apiKey: string, ownerId: number): Promise<Site> {
+    // Sites a user owns or is a member of, with their role on each
+    async getSitesForUser(userId: number): Promise<(Site & { role: SiteRole })[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT s.*, CASE WHEN s.owner_id = ? THEN 'owner' ELSE m.role END AS role FROM sites s
+         LEFT JOIN site_members m ON m.site_id = s.id AND m.user_id = ?
+         WHERE s.owner_id = ? OR m.user_id IS NOT NULL`
+            )
+            .bind(userId, userId, userId)
+            .all<Site & { role: SiteRole }>();
+        return result.results;
+    }
+
+    async createSite(name: string, domain: string, ownerId: number): Promise<Site> {
+        // api_key is retired but still NOT NULL UNIQUE; API keys live in site_api_keys
         const result = await this.db
             .prepare('INSERT INTO sites (name, domain, api_key, owner_id) VALUES (?, ?, ?, ?) RETURNING *')
-            .bind(name, domain, apiKey, ownerId)
+            .bind(name, domain, `retired_${crypto.randomUUID()}`, ownerId)
             .first<Site>();
         if (!result) throw new Error('Failed to create site');
         return result;
@@ -43,8 +107,54 @@ export class Database {
         await this.db.prepare('DELETE FROM sites WHERE id = ?').bind(id).run();
     }
 
-    async getSiteByDomain(domain: string): Promise<Site | null> {
-        return this.db.prepare('SELECT * FROM sites WHERE domain = ?').bind(domain).first<Site>();
+    // Resolves a host to its site: verified matches first, and among those an exact
+    // primary domain or alias, then the most specific wildcard covering it
+    async getSiteByDomain(domain: string): Promise<SiteForDomain | null> {
+        const host = normalizeDomain(domain);
+        if (!host) return null;
+
+        const candidates = domainLookupCandidates(host);
+        const placeholders = candidates.map(() => '?').join(', ');
+        return this.db
+            .prepare(
+                `SELECT * FROM (
+           SELECT s.*, s.verified AS domain_verified, s.domain AS matched_domain FROM sites s WHERE s.domain IN (${placeholders})
+           UNION ALL
+           SELECT s.*, d.verified AS domain_verified, d.domain AS matched_domain FROM site_domains d JOIN sites s ON s.id = d.site_id WHERE d.domain IN (${placeholders})
+         )
+         ORDER BY domain_verified DESC, matched_domain = ? DESC, LENGTH(matched_domain) DESC
+         LIMIT 1`
+            )
+            .bind(...candidates, ...candidates, host)
+            .first<SiteForDomain>();
+    }
+
+    // Whether a normalized domain is already some site's primary domain or alias, or is
+    // covered by a verified wildcard of a site other than siteId
+    async isDomainTaken(domain: string, siteId?: number): Promise<boolean> {
+        const wildcards = coveringWildcards(domain);
+        const placeholders = wildcards.map(() => '?').join(', ');
+        const coveredQuery = wildcards.length > 0
+            ? `UNION ALL
+         SELECT 1 FROM sites WHERE verified = 1 AND domain IN (${placeholders}) AND id IS NOT ?
+         UNION ALL
+         SELECT 1 FROM site_domains WHERE verified = 1 AND domain IN (${placeholders}) AND site_id IS NOT ?`
+            : '';
+        const coveredBindings = wildcards.length > 0
+            ? [...wildcards, siteId ?? null, ...wildcards, siteId ?? null]
+            : [];
+
+        const result = await this.db
+            .prepare(
+                `SELECT 1 FROM sites WHERE domain = ?
+         UNION ALL
+         SELECT 1 FROM site_domains WHERE domain = ?
+         ${coveredQuery}
+         LIMIT 1`
+            )
+            .bind(domain, domain, ...coveredBindings)
+            .first();
+        return !!result;
     }
 
     async updateSite(
@@ -85,10 +195,11 @@ export class Database {
         return result;
     }
 
-    async updateSiteApiKey(id: number, apiKey: string): Promise<void> {
+    // Pass null to turn host-site SSO off
+    async updateSiteSsoSecret(id: number, secret: string | null): Promise<void> {
         await this.db
-            .prepare("UPDATE sites SET api_key = ?, updated_at = datetime('now') WHERE id = ?")
-            .bind(apiKey, id)
+            .prepare("UPDATE sites SET sso_secret = ?, updated_at = datetime('now') WHERE id = ?")
+            .bind(secret, id)
             .run();
     }
 
@@ -99,16 +210,16 @@ export class Database {
             .run();
     }
 
-    async markSiteVerified(id: number): Promise<void> {
+    async markSiteVerified(id: number, method: string): Promise<void> {
         await this.db
-            .prepare("UPDATE sites SET verified = 1, verified_at = datetime('now'), updated_at = datetime('now') WHERE id = ?")
-            .bind(id)
+            .prepare("UPDATE sites SET verified = 1, verified_at = datetime('now'), verification_method = ?, updated_at = datetime('now') WHERE id = ?")
+            .bind(method, id)
             .run();
     }
 
     async resetSiteVerification(id: number): Promise<void> {
         await this.db
-            .prepare("UPDATE sites SET verified = 0, verified_at = NULL, updated_at = datetime('now') WHERE id = ?")
+            .prepare("UPDATE sites SET verified = 0, verified_at = NULL, verification_method = NULL, updated_at = datetime('now') WHERE id = ?")
             .bind(id)
             .run();
     }
@@ -124,8 +235,8 @@ export class Database {
             .prepare(`
                 SELECT
                     (SELECT COUNT(*) FROM pages WHERE site_id = ?) as total_pages,
-                    (SELECT COUNT(*) FROM comments WHERE site_id = ?) as total_comments,
-                    (SELECT COUNT(*) FROM comments WHERE site_id = ? AND status = 'pending') as pending_comments,
+                    (SELECT COUNT(*) FROM comments WHERE site_id = ? AND deleted_at IS NULL) as total_comments,
+                    (SELECT COUNT(*) FROM comments WHERE site_id = ? AND status = 'pending' AND deleted_at IS NULL) as pending_comments,
                     (SELECT COUNT(*) FROM page_likes pl JOIN pages p ON pl.page_id = p.id WHERE p.site_id = ?) as total_likes
             `)
             .bind(siteId, siteId, siteId, siteId)
@@ -139,25 +250,27 @@ export class Database {
         };
     }
 
-    // Get all sites for an owner with aggregated stats in a single query
-    async getSitesWithStats(ownerId: number): Promise<{
-        sites: (Site & { total_pages: number; total_comments: number; pending_comments: number; total_likes: number })[];
+    // Get all sites a user owns or is a member of with aggregated stats in a single query
+    async getSitesWithStats(userId: number): Promise<{
+        sites: (Site & { role: SiteRole; total_pages: number; total_comments: number; pending_comments: number; total_likes: number })[];
         aggregated: { total_pages: number; total_comments: number; pending_comments: number; total_likes: number };
     }> {
         const sites = await this.db
             .prepare(`
                 SELECT
                     s.*,
+                    CASE WHEN s.owner_id = ? THEN 'owner' ELSE m.role END as role,
                     COALESCE((SELECT COUNT(*) FROM pages WHERE site_id = s.id), 0) as total_pages,
-                    COALESCE((SELECT COUNT(*) FROM comments WHERE site_id = s.id), 0) as total_comments,
-                    COALESCE((SELECT COUNT(*) FROM comments WHERE site_id = s.id AND status = 'pending'), 0) as pending_comments,
+                    COALESCE((SELECT COUNT(*) FROM comments WHERE site_id = s.id AND deleted_at IS NULL), 0) as total_comments,
+                    COALESCE((SELECT COUNT(*) FROM comments WHERE site_id = s.id AND status = 'pending' AND deleted_at IS NULL), 0) as pending_comments,
                     COALESCE((SELECT COUNT(*) FROM page_likes pl JOIN pages p ON pl.page_id = p.id WHERE p.site_id = s.id), 0) as total_likes
                 FROM sites s
-                WHERE s.owner_id = ?
+                LEFT JOIN site_members m ON m.site_id = s.id AND m.user_id = ?
+                WHERE s.owner_id = ? OR m.user_id IS NOT NULL
                 ORDER BY s.created_at DESC
             `)
-            .bind(ownerId)
-            .all<Site & { total_pages: number; total_comments: number; pending_comments: number; total_likes: number }>();
+            .bind(userId, userId, userId)
+            .all<Site & { role: SiteRole; total_pages: number; total_comments: number; pending_comments: number; total_likes: number }>();
 
         // Calculate aggregated stats
         const aggregated = sites.results.reduce(
@@ -198,10 +311,238 @@ export class Database {
         return { site, stats, comments };
     }
 
+    // A site's pages and (undeleted) comments, for its data export
+    async getSiteExportData(siteId: number): Promise<SiteExportData> {
+        const [pages, comments] = await this.db.batch([
+            this.db
+                .prepare('SELECT id, slug, title, url, created_at FROM pages WHERE site_id = ? ORDER BY created_at, id')
+                .bind(siteId),
+            this.db
+                .prepare(
+                    `SELECT id, page_id, parent_id, user_id, author_name, author_email, content, status, is_edited, created_at, updated_at
+           FROM comments
+           WHERE site_id = ? AND deleted_at IS NULL
+           ORDER BY created_at, id`
+                )
+                .bind(siteId),
+        ]);
+
+        return {
+            pages: pages.results as SiteExportData['pages'],
+            comments: comments.results as SiteExportData['comments'],
+        };
+    }
+
+    // ==========================================
+    // Site domain (alias) queries
+    // ==========================================
+
+    async getSiteDomains(siteId: number): Promise<SiteDomain[]> {
+        const result = await this.db
+            .prepare('SELECT * FROM site_domains WHERE site_id = ? ORDER BY created_at, id')
+            .bind(siteId)
+            .all<SiteDomain>();
+        return result.results;
+    }
+
+    async getSiteDomain(siteId: number, id: number): Promise<SiteDomain | null> {
+        return this.db
+            .prepare('SELECT * FROM site_domains WHERE id = ? AND site_id = ?')
+            .bind(id, siteId)
+            .first<SiteDomain>();
+    }
+
+    // Returns null if the domain is already an alias (of any site)
+    async createSiteDomain(siteId: number, domain: string, verificationToken: string): Promise<SiteDomain | null> {
+        return this.db
+            .prepare(
+                `INSERT INTO site_domains (site_id, domain, verification_token) VALUES (?, ?, ?)
+         ON CONFLICT(domain) DO NOTHING
+         RETURNING *`
+            )
+            .bind(siteId, domain, verificationToken)
+            .first<SiteDomain>();
+    }
+
+    async markSiteDomainVerified(id: number, method: string): Promise<void> {
+        await this.db
+            .prepare("UPDATE site_domains SET verified = 1, verified_at = datetime('now'), verification_method = ? WHERE id = ?")
+            .bind(method, id)
+            .run();
+    }
+
+    async deleteSiteDomain(siteId: number, id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare('DELETE FROM site_domains WHERE id = ? AND site_id = ?')
+            .bind(id, siteId)
+            .run();
+        return result.meta.changes > 0;
+    }
+
+    // ==========================================
+    // Site team queries
+    // ==========================================
+
+    // A member's role on a site; the owner isn't a member (see getSiteRole in utils/site-access.ts)
+    async getSiteMemberRole(siteId: number, userId: number): Promise<SiteMemberRole | null> {
+        const result = await this.db
+            .prepare('SELECT role FROM site_members WHERE site_id = ? AND user_id = ?')
+            .bind(siteId, userId)
+            .first<{ role: SiteMemberRole }>();
+        return result?.role ?? null;
+    }
+
+    async getSiteMembers(siteId: number): Promise<SiteMember[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT m.*, u.email, u.display_name, u.email_hash, u.avatar_url FROM site_members m
+         JOIN users u ON u.id = m.user_id
+         WHERE m.site_id = ?
+         ORDER BY m.created_at, m.user_id`
+            )
+            .bind(siteId)
+            .all<SiteMember>();
+        return result.results;
+    }
+
+    async updateSiteMemberRole(siteId: number, userId: number, role: SiteMemberRole): Promise<boolean> {
+        const result = await this.db
+            .prepare('UPDATE site_members SET role = ? WHERE site_id = ? AND user_id = ?')
+            .bind(role, siteId, userId)
+            .run();
+        return result.meta.changes > 0;
+    }
+
+    async removeSiteMember(siteId: number, userId: number): Promise<boolean> {
+        const result = await this.db
+            .prepare('DELETE FROM site_members WHERE site_id = ? AND user_id = ?')
+            .bind(siteId, userId)
+            .run();
+        return result.meta.changes > 0;
+    }
+
+    // Unexpired invitations, newest first
+    async getSiteInvitations(siteId: number): Promise<SiteInvitation[]> {
+        const result = await this.db
+            .prepare("SELECT * FROM site_invitations WHERE site_id = ? AND expires_at > datetime('now') ORDER BY created_at DESC, id DESC")
+            .bind(siteId)
+            .all<SiteInvitation>();
+        return result.results;
+    }
+
+    // Inviting an address again replaces its earlier invitation
+    async createSiteInvitation(params: {
+        siteId: number;
+        email: string;
+        role: SiteMemberRole;
+        invitedBy: number;
+        expiresAt: string;
+    }): Promise<SiteInvitation> {
+        const result = await this.db
+            .prepare(
+                `INSERT INTO site_invitations (site_id, email, role, invited_by, expires_at) VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(site_id, email) DO UPDATE SET
+           role = excluded.role, invited_by = excluded.invited_by, expires_at = excluded.expires_at, created_at = datetime('now')
+         RETURNING *`
+            )
+            .bind(params.siteId, params.email, params.role, params.invitedBy, params.expiresAt)
+            .first<SiteInvitation>();
+        if (!result) throw new Error('Failed to create invitation');
+        return result;
+    }
+
+    async deleteSiteInvitation(siteId: number, id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare('DELETE FROM site_invitations WHERE id = ? AND site_id = ?')
+            .bind(id, siteId)
+            .run();
+        return result.meta.changes > 0;
+    }
+
+    // Turn every unexpired invitation for a proven address into a membership. An
+    // invitation replaces the role of an existing membership, and one to a site the
+    // user already owns is simply dropped.
+    async acceptSiteInvitations(userId: number, email: string): Promise<void> {
+        await this.db.batch([
+            this.db
+                .prepare(
+                    `INSERT INTO site_members (site_id, user_id, role, invited_by)
+           SELECT i.site_id, ?, i.role, i.invited_by FROM site_invitations i
+           JOIN sites s ON s.id = i.site_id
+           WHERE i.email = LOWER(?) AND i.expires_at > datetime('now') AND (s.owner_id IS NULL OR s.owner_id != ?)
+           ON CONFLICT(site_id, user_id) DO UPDATE SET role = excluded.role`
+                )
+                .bind(userId, email, userId),
+            this.db.prepare('DELETE FROM site_invitations WHERE email = LOWER(?)').bind(email),
+        ]);
+    }
+
+    // ==========================================
+    // Site API key queries
+    // ==========================================
+
+    // Active keys first, newest first
+    async getSiteApiKeys(siteId: number): Promise<SiteApiKey[]> {
+        const result = await this.db
+            .prepare('SELECT * FROM site_api_keys WHERE site_id = ? ORDER BY revoked_at IS NOT NULL, created_at DESC, id DESC')
+            .bind(siteId)
+            .all<SiteApiKey>();
+        return result.results;
+    }
+
+    // Only unrevoked keys authenticate
+    async getActiveApiKeyByHash(keyHash: string): Promise<SiteApiKey | null> {
+        return this.db
+            .prepare('SELECT * FROM site_api_keys WHERE key_hash = ? AND revoked_at IS NULL')
+            .bind(keyHash)
+            .first<SiteApiKey>();
+    }
+
+    async createSiteApiKey(params: {
+        siteId: number;
+        name: string;
+        keyPrefix: string;
+        keyHash: string;
+        scopes: ApiKeyScope[];
+        createdBy: number;
+    }): Promise<SiteApiKey> {
+        const result = await this.db
+            .prepare(
+                'INSERT INTO site_api_keys (site_id, name, key_prefix, key_hash, scopes, created_by) VALUES (?, ?, ?, ?, ?, ?) RETURNING *'
+            )
+            .bind(params.siteId, params.name, params.keyPrefix, params.keyHash, JSON.stringify(params.scopes), params.createdBy)
+            .first<SiteApiKey>();
+        if (!result) throw new Error('Failed to create API key');
+        return result;
+    }
+
+    async revokeSiteApiKey(siteId: number, id: number): Promise<SiteApiKey | null> {
+        return this.db
+            .prepare(
+                "UPDATE site_api_keys SET revoked_at = datetime('now') WHERE id = ? AND site_id = ? AND revoked_at IS NULL RETURNING *"
+            )
+            .bind(id, siteId)
+            .first<SiteApiKey>();
+    }
+
+    // Recorded at most once a minute so busy integrations don't write on every request
+    async touchApiKey(id: number): Promise<void> {
+        await this.db
+            .prepare(
+                "UPDATE site_api_keys SET last_used_at = datetime('now') WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-1 minute'))"
+            )
+            .bind(id)
+            .run();
+    }
+
     // ==========================================
     // Page queries
     // ==========================================
 
+    async getPageById(id: number): Promise<Page | null> {
+        return this.db.prepare('SELECT * FROM pages WHERE id = ?').bind(id).first<Page>();
+    }
+
     async getPageBySlug(siteId: number, slug: string): Promise<Page | null> {
         return this.db
             .prepare('SELECT * FROM pages WHERE site_id = ? AND slug = ?')
@@ -248,9 +589,9 @@ export class Database {
         const dataQuery = `
             SELECT
                 p.*,
-                COALESCE((SELECT COUNT(*) FROM comments c WHERE c.page_id = p.id), 0) as comment_count,
-                COALESCE((SELECT COUNT(*) FROM comments c WHERE c.page_id = p.id AND c.status = 'pending'), 0) as pending_count,
-                (SELECT MAX(c.created_at) FROM comments c WHERE c.page_id = p.id) as latest_comment_at
+                COALESCE((SELECT COUNT(*) FROM comments c WHERE c.page_id = p.id AND c.deleted_at IS NULL), 0) as comment_count,
+                COALESCE((SELECT COUNT(*) FROM comments c WHERE c.page_id = p.id AND c.status = 'pending' AND c.deleted_at IS NULL), 0) as pending_count,
+                (SELECT MAX(c.created_at) FROM comments c WHERE c.page_id = p.id AND c.deleted_at IS NULL) as latest_comment_at
             FROM pages p
             ${whereClause}
             ORDER BY ${safeSortBy === 'comment_count' || safeSortBy === 'pending_count' ? safeSortBy : 'p.' + safeSortBy} ${safeSortOrder}
@@ -270,6 +611,8 @@ export class Database {
         id: number;
         type: 'comment' | 'reply';
         author_name: string | null;
+        author_email_hash: string | null;
+        author_avatar_url: string | null;
         content: string;
         page_title: string | null;
         page_slug: string;
@@ -281,6 +624,8 @@ export class Database {
                 c.id,
                 CASE WHEN c.parent_id IS NULL THEN 'comment' ELSE 'reply' END as type,
                 COALESCE(u.display_name, SUBSTR(u.email, 1, INSTR(u.email, '@') - 1), c.author_name) as author_name,
+                COALESCE(u.email_hash, c.author_email_hash) as author_email_hash,
+                u.avatar_url as author_avatar_url,
                 c.content,
                 p.title as page_title,
                 p.slug as page_slug,
@@ -289,7 +634,7 @@ export class Database {
             FROM comments c
             LEFT JOIN users u ON c.user_id = u.id
             LEFT JOIN pages p ON c.page_id = p.id
-            WHERE c.site_id = ?
+            WHERE c.site_id = ? AND c.deleted_at IS NULL
             ORDER BY c.created_at DESC
             LIMIT ?
         `).bind(siteId, limit).all();
@@ -298,6 +643,8 @@ export class Database {
             id: number;
             type: 'comment' | 'reply';
             author_name: string | null;
+            author_email_hash: string | null;
+            author_avatar_url: string | null;
             content: string;
             page_title: string | null;
             page_slug: string;
@@ -323,7 +670,7 @@ export class Database {
                 SUM(CASE WHEN status = 'spam' THEN 1 ELSE 0 END) as spam,
                 SUM(CASE WHEN status = 'rejected' THEN 1 ELSE 0 END) as rejected
             FROM comments
-            WHERE site_id = ? AND created_at >= datetime('now', '-' || ? || ' days')
+            WHERE site_id = ? AND deleted_at IS NULL AND created_at >= datetime('now', '-' || ? || ' days')
         `).bind(siteId, days).first<{ total_comments: number; approved: number; pending: number; spam: number; rejected: number }>();
 
         // Daily breakdown
@@ -334,7 +681,7 @@ export class Database {
                 SUM(CASE WHEN status = 'approved' THEN 1 ELSE 0 END) as approved,
                 SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending
             FROM comments
-            WHERE site_id = ? AND created_at >= datetime('now', '-' || ? || ' days')
+            WHERE site_id = ? AND deleted_at IS NULL AND created_at >= datetime('now', '-' || ? || ' days')
             GROUP BY date(created_at)
             ORDER BY date ASC
         `).bind(siteId, days).all<{ date: string; count: number; approved: number; pending: number }>();
@@ -343,7 +690,7 @@ export class Database {
         const topPages = await this.db.prepare(`
             SELECT p.slug, p.title, COUNT(c.id) as comment_count
             FROM pages p
-            LEFT JOIN comments c ON c.page_id = p.id AND c.created_at >= datetime('now', '-' || ? || ' days')
+            LEFT JOIN comments c ON c.page_id = p.id AND c.deleted_at IS NULL AND c.created_at >= datetime('now', '-' || ? || ' days')
             WHERE p.site_id = ?
             GROUP BY p.id
             HAVING comment_count > 0
@@ -358,7 +705,7 @@ export class Database {
                 COUNT(*) as comment_count
             FROM comments c
             LEFT JOIN users u ON c.user_id = u.id
-            WHERE c.site_id = ? AND c.created_at >= datetime('now', '-' || ? || ' days')
+            WHERE c.site_id = ? AND c.deleted_at IS NULL AND c.created_at >= datetime('now', '-' || ? || ' days')
             GROUP BY COALESCE(c.user_id, c.author_email, c.author_name)
             ORDER BY comment_count DESC
             LIMIT 10
@@ -380,8 +727,12 @@ export class Database {
         return this.db.prepare('SELECT * FROM users WHERE id = ?').bind(id).first<User>();
     }
 
+    // Addresses match in any case: providers and people don't agree on how to capitalize them
     async getUserByEmail(email: string): Promise<User | null> {
-        return this.db.prepare('SELECT * FROM users WHERE email = ?').bind(email).first<User>();
+        return this.db
+            .prepare('SELECT * FROM users WHERE LOWER(email) = ?')
+            .bind(email.trim().toLowerCase())
+            .first<User>();
     }
 
     async createUser(email: string, displayName?: string): Promise<User> {
@@ -401,6 +752,33 @@ export class Database {
         return this.createUser(email);
     }
 
+    // Create or refresh the site-scoped user behind a host-site SSO identity
+    async upsertSsoUser(params: {
+        siteId: number;
+        externalId: string;
+        placeholderEmail: string;
+        displayName: string;
+        contactEmail: string | null;
+        avatarUrl: string | null;
+    }): Promise<User> {
+        const emailHash = params.contactEmail ? await hashEmail(params.contactEmail) : null;
+        const result = await this.db
+            .prepare(
+                `INSERT INTO users (email, email_hash, display_name, avatar_url, sso_site_id, sso_external_id)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(sso_site_id, sso_external_id) DO UPDATE SET
+           email_hash = excluded.email_hash,
+           display_name = excluded.display_name,
+           avatar_url = excluded.avatar_url,
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING *`
+            )
+            .bind(params.placeholderEmail, emailHash, params.displayName, params.avatarUrl, params.siteId, params.externalId)
+            .first<User>();
+        if (!result) throw new Error('Failed to create SSO user');
+        return result;
+    }
+
     async updateUserProfile(
         userId: number,
         data: { display_name?: string }
@@ -411,32 +789,231 @@ export class Database {
             .run();
     }
 
+    // Point the user at a new uploaded avatar (or back to Gravatar with null)
+    async updateUserAvatar(userId: number, avatarUrl: string | null): Promise<void> {
+        await this.db
+            .prepare('UPDATE users SET avatar_url = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?')
+            .bind(avatarUrl, userId)
+            .run();
+    }
+
+    // Everything stored about a user, for their data export. Guest comments made
+    // with their address before they signed up count as theirs too.
+    async getUserExportData(userId: number, email: string): Promise<UserExportData> {
+        const ownComments = 'c.user_id = ? OR LOWER(c.author_email) = ?';
+        const [comments, revisions, reactions, pageLikes, sessions, linkedAccounts, sites] = await this.db.batch([
+            this.db
+                .prepare(
+                    `SELECT c.id, s.domain AS site, p.slug AS page, p.url AS page_url, p.title AS page_title, c.parent_id,
+                  c.author_name, c.content, c.status, c.is_edited, c.created_at, c.updated_at, c.deleted_at
+           FROM comments c
+           JOIN sites s ON s.id = c.site_id
+           JOIN pages p ON p.id = c.page_id
+           WHERE ${ownComments}
+           ORDER BY c.created_at, c.id`
+                )
+                .bind(userId, email),
+            this.db
+                .prepare(
+                    `SELECT r.comment_id, r.content, r.created_at FROM comment_revisions r
+           JOIN comments c ON c.id = r.comment_id
+           WHERE ${ownComments}
+           ORDER BY r.created_at, r.id`
+                )
+                .bind(userId, email),
+            this.db
+                .prepare('SELECT comment_id, reaction, created_at FROM reactions WHERE user_id = ? ORDER BY created_at')
+                .bind(userId),
+            this.db
+                .prepare(
+                    `SELECT s.domain AS site, p.slug AS page, p.url AS page_url, pl.created_at FROM page_likes pl
+           JOIN pages p ON p.id = pl.page_id
+           JOIN sites s ON s.id = p.site_id
+           WHERE pl.user_id = ?
+           ORDER BY pl.created_at`
+                )
+                .bind(userId),
+            this.db
+                .prepare('SELECT id, user_agent, created_at, last_used_at, expires_at FROM sessions WHERE user_id = ? ORDER BY created_at')
+                .bind(userId),
+            this.db
+                .prepare('SELECT provider, email, created_at FROM oauth_accounts WHERE user_id = ? ORDER BY created_at')
+                .bind(userId),
+            this.db
+                .prepare('SELECT id, name, domain, created_at FROM sites WHERE owner_id = ? ORDER BY created_at')
+                .bind(userId),
+        ]);
+
+        return {
+            comments: comments.results as UserExportData['comments'],
+            revisions: revisions.results as UserExportData['revisions'],
+            reactions: reactions.results as UserExportData['reactions'],
+            page_likes: pageLikes.results as UserExportData['page_likes'],
+            sessions: sessions.results as UserExportData['sessions'],
+            linked_accounts: linkedAccounts.results as UserExportData['linked_accounts'],
+            sites: sites.results as UserExportData['sites'],
+        };
+    }
+
+    // Sites the user (or their address, as a guest) has commented on, with each site's settings
+    async getUserCommentSites(userId: number, email: string): Promise<Pick<Site, 'id' | 'settings'>[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT s.id, s.settings FROM sites s
+         WHERE s.id IN (SELECT c.site_id FROM comments c WHERE c.user_id = ? OR LOWER(c.author_email) = ?)`
+            )
+            .bind(userId, email)
+            .all<Pick<Site, 'id' | 'settings'>>();
+        return result.results;
+    }
+
+    // Erase an account. Comments on deleteSiteIds are deleted and scrubbed to tombstones
+    // straight away (the scheduled purge drops the rows); the rest are kept but lose
+    // everything that identified the author. Sessions, reactions, likes and linked
+    // sign-ins go with the user row through ON DELETE CASCADE.
+    async deleteUserAccount(userId: number, email: string, deleteSiteIds: number[]): Promise<{ deleted: number; anonymized: number }> {
+        const ownComments = '(user_id = ? OR LOWER(author_email) = ?)';
+        const siteList = deleteSiteIds.length > 0 ? deleteSiteIds.map(() => '?').join(', ') : 'NULL';
+
+        const [deleted, , , anonymized] = await this.db.batch([
+            this.db
+                .prepare(
+                    `UPDATE comments
+             SET deleted_at = COALESCE(deleted_at, datetime('now')), content = '', content_html = NULL
+             WHERE ${ownComments} AND site_id IN (${siteList})`
+                )
+                .bind(userId, email, ...deleteSiteIds),
+            this.db
+                .prepare(
+                    `DELETE FROM comment_revisions WHERE comment_id IN (
+               SELECT id FROM comments WHERE ${ownComments} AND site_id IN (${siteList})
+             )`
+                )
+                .bind(userId, email, ...deleteSiteIds),
+            this.db
+                .prepare(
+                    `UPDATE moderation_log SET comment_excerpt = NULL WHERE comment_id IN (
+               SELECT id FROM comments WHERE ${ownComments} AND site_id IN (${siteList})
+             )`
+                )
+                .bind(userId, email, ...deleteSiteIds),
+            this.db
+                .prepare(
+                    `UPDATE comments
+             SET user_id = NULL, author_name = 'Deleted user', author_email = NULL, author_email_hash = NULL,
+                 ip_address = NULL, user_agent = NULL
+             WHERE ${ownComments}`
+                )
+                .bind(userId, email),
+            this.db.prepare('DELETE FROM notification_preferences WHERE email = ?').bind(email),
+            this.db.prepare('DELETE FROM magic_links WHERE email = ?').bind(email),
+            this.db.prepare('DELETE FROM users WHERE id = ?').bind(userId),
+        ]);
+
+        const deletedCount = deleted.meta.changes ?? 0;
+        return { deleted: deletedCount, anonymized: (anonymized.meta.changes ?? 0) - deletedCount };
+    }
+
     // ==========================================
     // Comment queries
     // ==========================================
 
-    async getCommentsByPage(pageId: number): Promise<Comment[]> {
+    // Get one page of top-level threads (newest first) along with all of their replies.
+    // Threads are anchored on top-level comments of any status so approved replies under
+    // a removed parent still surface; only approved, non-shadow-banned comments are returned,
+    // except that the viewer always sees their own so a shadow-ban goes unnoticed.
+    // Deleted comments come back (as tombstones for the caller to blank) only while they have replies.
+    // The limit comes from the request (see parseThreadLimit in utils/pagination.ts).
+    async getCommentsByPage(
+        pageId: number,
+        options: { cursor?: CommentCursor; limit: number; viewerId?: number }
+    ): Promise<{ comments: Comment[]; nextCursor: CommentCursor | null }> {
+        const { cursor, limit, viewerId } = options;
+
+        const rootsQuery = `
+            SELECT id, created_at FROM comments
+            WHERE page_id = ? AND parent_id IS NULL
+            ${cursor ? 'AND (created_at < ? OR (created_at = ? AND id < ?))' : ''}
+            ORDER BY created_at DESC, id DESC
+            LIMIT ?
+        `;
+        const rootBindings = cursor
+            ? [pageId, cursor.createdAt, cursor.createdAt, cursor.id, limit + 1]
+            : [pageId, limit + 1];
+
+        // Fetch one extra row to know whether another page exists
+        const roots = await this.db
+            .prepare(rootsQuery)
+            .bind(...rootBindings)
+            .all<{ id: number; created_at: string }>();
+
+        const pageRoots = roots.results.slice(0, limit);
+        const hasMore = roots.results.length > limit;
+
+        if (pageRoots.length === 0) {
+            return { comments: [], nextCursor: null };
+        }
+
+        // Walk each thread down to its deepest reply in a single query
+        const placeholders = pageRoots.map(() => '?').join(',');
         const result = await this.db
             .prepare(`
-                SELECT 
+                WITH RECURSIVE thread(id) AS (
+                    SELECT id FROM comments WHERE id IN (${placeholders})
+                    UNION ALL
+                    SELECT c.id FROM comments c JOIN thread t ON c.parent_id = t.id WHERE c.page_id = ?
+                )
+                SELECT
                     c.*,
                     COALESCE(u.display_name, SUBSTR(u.email, 1, INSTR(u.email, '@') - 1), c.author_name) as author_name,
                     COALESCE(u.email, c.author_email) as author_email,
-                    COALESCE(u.email_hash, c.author_email_hash) as author_email_hash
+                    COALESCE(u.email_hash, c.author_email_hash) as author_email_hash,
+                    u.avatar_url as author_avatar_url
                 FROM comments c
                 LEFT JOIN users u ON c.user_id = u.id
-                WHERE c.page_id = ? AND c.status = 'approved' 
+                WHERE c.id IN (SELECT id FROM thread)
+                  AND c.page_id = ?
+                  AND (
+                    (c.deleted_at IS NULL AND c.status = 'approved' AND ((${NOT_SHADOW_BANNED}) OR c.user_id = ?))
+                    OR (c.deleted_at IS NOT NULL AND EXISTS (SELECT 1 FROM comments r WHERE r.parent_id = c.id AND r.page_id = c.page_id))
+                  )
                 ORDER BY c.created_at ASC
             `)
-            .bind(pageId)
+            .bind(...pageRoots.map((root) => root.id), pageId, pageId, viewerId ?? null)
             .all<Comment>();
-        return result.results;
+
+        const lastRoot = pageRoots[pageRoots.length - 1];
+
+        return {
+            comments: result.results,
+            nextCursor: hasMore ? { createdAt: lastRoot.created_at, id: lastRoot.id } : null,
+        };
     }
 
     async getCommentById(id: number): Promise<Comment | null> {
         return this.db.prepare('SELECT * FROM comments WHERE id = ?').bind(id).first<Comment>();
     }
 
+    // Approved, not deleted and not hidden by a shadow-ban
+    async isCommentPubliclyVisible(id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare(`SELECT 1 FROM comments c WHERE c.id = ? AND c.status = 'approved' AND c.deleted_at IS NULL AND ${NOT_SHADOW_BANNED}`)
+            .bind(id)
+            .first();
+        return result !== null;
+    }
+
+    async getCommentsByIds(ids: number[]): Promise<Comment[]> {
+        if (ids.length === 0) return [];
+
+        const placeholders = ids.map(() => '?').join(', ');
+        const result = await this.db
+            .prepare(`SELECT * FROM comments WHERE id IN (${placeholders})`)
+            .bind(...ids)
+            .all<Comment>();
+        return result.results;
+    }
+
     async createComment(params: {
         siteId: number;
         pageId: number;
@@ -445,10 +1022,15 @@ export class Database {
         authorEmail?: string;
         parentId?: number;
         content: string;
+        contentHtml?: string | null;
         ipAddress?: string;
         userAgent?: string;
+        status?: Comment['status'];
+        spamScore?: number;
+        spamReasons?: string[];
+        shadowBanned?: boolean;
     }): Promise<Comment> {
-        const status = params.userId ? 'approved' : 'pending';
+        const status = params.status ?? (params.userId ? 'approved' : 'pending');
 
         // Pre-compute email hash for anonymous comments
         let authorEmailHash: string | null = null;
@@ -458,8 +1040,8 @@ export class Database {
 
         const result = await this.db
             .prepare(
-                `INSERT INTO comments (site_id, page_id, user_id, author_name, author_email, author_email_hash, parent_id, content, status, ip_address, user_agent) 
-         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+                `INSERT INTO comments (site_id, page_id, user_id, author_name, author_email, author_email_hash, parent_id, content, content_html, status, ip_address, user_agent, spam_score, spam_reasons, shadow_banned) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
             )
             .bind(
                 params.siteId,
@@ -470,9 +1052,13 @@ export class Database {
                 authorEmailHash,
                 params.parentId ?? null,
                 params.content,
+                params.contentHtml ?? null,
                 status,
                 params.ipAddress ?? null,
-                params.userAgent ?? null
+                params.userAgent ?? null,
+                params.spamScore ?? null,
+                params.spamReasons ? JSON.stringify(params.spamReasons) : null,
+                params.shadowBanned ? 1 : 0
             )
             .first<Comment>();
 
@@ -480,56 +1066,199 @@ export class Database {
         return result;
     }
 
+    // Comments on the site with exactly this content since the given time (duplicate-post check)
+    async countRecentDuplicateComments(siteId: number, content: string, since: string): Promise<number> {
+        const result = await this.db
+            .prepare('SELECT COUNT(*) as count FROM comments WHERE site_id = ? AND content = ? AND created_at >= ?')
+            .bind(siteId, content, since)
+            .first<{ count: number }>();
+        return result?.count ?? 0;
+    }
+
+    async getApprovedCommentCountByUser(siteId: number, userId: number): Promise<number> {
+        const result = await this.db
+            .prepare("SELECT COUNT(*) as count FROM comments WHERE site_id = ? AND user_id = ? AND status = 'approved' AND deleted_at IS NULL")
+            .bind(siteId, userId)
+            .first<{ count: number }>();
+        return result?.count ?? 0;
+    }
+
+    // Returns false if the email was already confirmed
+    async markCommentEmailVerified(id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare("UPDATE comments SET email_verified_at = datetime('now') WHERE id = ? AND email_verified_at IS NULL")
+            .bind(id)
+            .run();
+        return (result.meta.changes ?? 0) > 0;
+    }
+
+    // Attach guest comments left with this email to the user who just proved they own it
+    async claimGuestComments(userId: number, email: string): Promise<number> {
+        const result = await this.db
+            .prepare(
+                `UPDATE comments
+         SET user_id = ?, email_verified_at = COALESCE(email_verified_at, datetime('now'))
+         WHERE user_id IS NULL AND LOWER(author_email) = ?`
+            )
+            .bind(userId, email.trim().toLowerCase())
+            .run();
+        return result.meta.changes ?? 0;
+    }
+
+    // Soft delete: the row stays as a tombstone until purgeDeletedComments removes it
     async deleteComment(id: number): Promise<void> {
-        await this.db.prepare('DELETE FROM comments WHERE id = ?').bind(id).run();
+        await this.deleteCommentStatement(id).run();
+    }
+
+    async undeleteComment(id: number): Promise<void> {
+        await this.undeleteCommentStatement(id).run();
     }
 
     async updateCommentStatus(id: number, status: string): Promise<void> {
-        await this.db
+        await this.commentStatusStatement(id, status).run();
+    }
+
+    private deleteCommentStatement(id: number): D1PreparedStatement {
+        return this.db
+            .prepare("UPDATE comments SET deleted_at = datetime('now') WHERE id = ? AND deleted_at IS NULL")
+            .bind(id);
+    }
+
+    private undeleteCommentStatement(id: number): D1PreparedStatement {
+        return this.db
+            .prepare("UPDATE comments SET deleted_at = NULL, updated_at = datetime('now') WHERE id = ?")
+            .bind(id);
+    }
+
+    private commentStatusStatement(id: number, status: string): D1PreparedStatement {
+        return this.db
             .prepare("UPDATE comments SET status = ?, updated_at = datetime('now') WHERE id = ?")
-            .bind(status, id)
-            .run();
+            .bind(status, id);
+    }
+
+    // The change and its moderation log entry are written in one batch so neither lands without the other
+    private moderateCommentStatements(comment: Comment, status: Comment['status'], audit: ModerationAudit): D1PreparedStatement[] {
+        return [
+            this.commentStatusStatement(comment.id, status),
+            this.moderationLogStatement(comment, STATUS_ACTIONS[status], audit, status),
+        ];
+    }
+
+    // The entry's comment_id is nulled by the FK once the comment is purged
+    private removeCommentStatements(comment: Comment, audit: ModerationAudit): D1PreparedStatement[] {
+        return [
+            this.moderationLogStatement(comment, 'delete', audit, null),
+            this.deleteCommentStatement(comment.id),
+        ];
+    }
+
+    // Change a comment's status and record it in the moderation log
+    async moderateComment(comment: Comment, status: Comment['status'], audit: ModerationAudit): Promise<void> {
+        await this.db.batch(this.moderateCommentStatements(comment, status, audit));
+    }
+
+    // Delete a comment and record it in the moderation log
+    async removeComment(comment: Comment, audit: ModerationAudit): Promise<void> {
+        await this.db.batch(this.removeCommentStatements(comment, audit));
+    }
+
+    // Bring back a deleted comment with its previous status and record it in the moderation log
+    async restoreComment(comment: Comment, audit: ModerationAudit): Promise<void> {
+        await this.db.batch([
+            this.undeleteCommentStatement(comment.id),
+            this.moderationLogStatement(comment, 'restore', audit, comment.status),
+        ]);
+    }
+
+    // Deleted before the cutoff: drop every comment whose whole subtree is past it, then
+    // scrub the ones still holding up live replies down to an anonymous tombstone.
+    // Their moderation log excerpts go first, while the rows can still be found.
+    async purgeDeletedComments(cutoff: string): Promise<{ purged: number; scrubbed: number }> {
+        const [, purged, scrubbed] = await this.db.batch([
+            this.db
+                .prepare(
+                    `UPDATE moderation_log SET comment_excerpt = NULL WHERE comment_id IN (
+               SELECT id FROM comments WHERE deleted_at IS NOT NULL AND deleted_at < ?
+             )`
+                )
+                .bind(cutoff),
+            this.db
+                .prepare(
+                    `WITH RECURSIVE subtree(root_id, id) AS (
+                SELECT id, id FROM comments WHERE deleted_at IS NOT NULL AND deleted_at < ?
+                UNION ALL
+                SELECT s.root_id, c.id FROM comments c JOIN subtree s ON c.parent_id = s.id
+            )
+            DELETE FROM comments WHERE id IN (
+                SELECT s.root_id FROM subtree s JOIN comments c ON c.id = s.id
+                GROUP BY s.root_id
+                HAVING SUM(CASE WHEN c.deleted_at IS NOT NULL AND c.deleted_at < ? THEN 0 ELSE 1 END) = 0
+            )
+            RETURNING id`
+                )
+                .bind(cutoff, cutoff),
+            this.db
+                .prepare(
+                    `UPDATE comments
+             SET content = '', content_html = NULL, user_id = NULL, author_name = 'Deleted', author_email = NULL,
+                 author_email_hash = NULL, ip_address = NULL, user_agent = NULL, spam_reasons = NULL
+             WHERE deleted_at IS NOT NULL AND deleted_at < ? AND content != ''`
+                )
+                .bind(cutoff),
+            this.db
+                .prepare(
+                    `DELETE FROM comment_revisions
+             WHERE comment_id IN (SELECT id FROM comments WHERE deleted_at IS NOT NULL AND deleted_at < ?)`
+                )
+                .bind(cutoff),
+        ]);
+        // changes would also count rows touched by the cascade, so count the returned roots
+        return { purged: purged.results.length, scrubbed: scrubbed.meta.changes ?? 0 };
     }
 
     async getCommentCount(pageId: number): Promise<number> {
         const result = await this.db
-            .prepare("SELECT COUNT(*) as count FROM comments WHERE page_id = ? AND status = 'approved'")
+            .prepare(`SELECT COUNT(*) as count FROM comments c WHERE c.page_id = ? AND c.status = 'approved' AND c.deleted_at IS NULL AND ${NOT_SHADOW_BANNED}`)
             .bind(pageId)
             .first<{ count: number }>();
         return result?.count ?? 0;
     }
 
+    // status 'deleted' lists deleted comments; every other filter leaves them out
     async getCommentsBySite(
         siteId: number,
         options: { status?: string; limit?: number; offset?: number } = {}
     ): Promise<{ comments: Comment[]; total: number }> {
         const { status, limit = 50, offset = 0 } = options;
+        const deletedFilter = status === 'deleted' ? ' AND c.deleted_at IS NOT NULL' : ' AND c.deleted_at IS NULL';
+        const statusFilter = status && status !== 'deleted' ? status : undefined;
 
-        let countQuery = 'SELECT COUNT(*) as count FROM comments c WHERE c.site_id = ?';
+        let countQuery = 'SELECT COUNT(*) as count FROM comments c WHERE c.site_id = ?' + deletedFilter;
         let dataQuery = `
             SELECT 
                 c.*,
                 COALESCE(u.display_name, SUBSTR(u.email, 1, INSTR(u.email, '@') - 1), c.author_name) as author_name,
                 COALESCE(u.email, c.author_email) as author_email,
-                COALESCE(u.email_hash, c.author_email_hash) as author_email_hash
+                COALESCE(u.email_hash, c.author_email_hash) as author_email_hash,
+                u.avatar_url as author_avatar_url
             FROM comments c
             LEFT JOIN users u ON c.user_id = u.id
-            WHERE c.site_id = ?
+            WHERE c.site_id = ?${deletedFilter}
         `;
 
-        if (status) {
+        if (statusFilter) {
             countQuery += ' AND c.status = ?';
             dataQuery += ' AND c.status = ?';
         }
 
         dataQuery += ' ORDER BY c.created_at DESC LIMIT ? OFFSET ?';
 
-        const countResult = status
-            ? await this.db.prepare(countQuery).bind(siteId, status).first<{ count: number }>()
+        const countResult = statusFilter
+            ? await this.db.prepare(countQuery).bind(siteId, statusFilter).first<{ count: number }>()
             : await this.db.prepare(countQuery).bind(siteId).first<{ count: number }>();
 
-        const dataResult = status
-            ? await this.db.prepare(dataQuery).bind(siteId, status, limit, offset).all<Comment>()
+        const dataResult = statusFilter
+            ? await this.db.prepare(dataQuery).bind(siteId, statusFilter, limit, offset).all<Comment>()
             : await this.db.prepare(dataQuery).bind(siteId, limit, offset).all<Comment>();
 
         return {
@@ -538,27 +1267,44 @@ export class Database {
         };
     }
 
-    async updateComment(id: number, content: string): Promise<Comment> {
-        const result = await this.db
-            .prepare(
-                "UPDATE comments SET content = ?, is_edited = 1, updated_at = datetime('now') WHERE id = ? RETURNING *"
-            )
-            .bind(content, id)
-            .first<Comment>();
+    // Replace a comment's content, keeping the current version as a revision
+    async updateComment(id: number, content: string, contentHtml: string | null = null): Promise<Comment> {
+        const [, updated] = await this.db.batch<Comment>([
+            this.db
+                .prepare('INSERT INTO comment_revisions (comment_id, content, content_html) SELECT id, content, content_html FROM comments WHERE id = ?')
+                .bind(id),
+            this.db
+                .prepare(
+                    "UPDATE comments SET content = ?, content_html = ?, is_edited = 1, updated_at = datetime('now') WHERE id = ? RETURNING *"
+                )
+                .bind(content, contentHtml, id),
+        ]);
 
+        const result = updated.results[0];
         if (!result) throw new Error('Failed to update comment');
         return result;
     }
 
+    // Earlier versions of a comment, newest first
+    async getCommentRevisions(commentId: number): Promise<CommentRevision[]> {
+        const result = await this.db
+            .prepare('SELECT * FROM comment_revisions WHERE comment_id = ? ORDER BY created_at DESC, id DESC')
+            .bind(commentId)
+            .all<CommentRevision>();
+        return result.results;
+    }
+
     // ==========================================
     // Page Likes queries
     // ==========================================
 
-    async addPageLike(pageId: number, userId: number): Promise<void> {
-        await this.db
+    // Returns false if the user had already liked the page
+    async addPageLike(pageId: number, userId: number): Promise<boolean> {
+        const result = await this.db
             .prepare('INSERT OR IGNORE INTO page_likes (page_id, user_id) VALUES (?, ?)')
             .bind(pageId, userId)
             .run();
+        return (result.meta.changes ?? 0) > 0;
     }
 
     async removePageLike(pageId: number, userId: number): Promise<void> {
@@ -592,16 +1338,29 @@ export class Database {
     // ==========================================
 
     async addCommentLike(commentId: number, userId: number): Promise<void> {
+        await this.setCommentReaction(commentId, userId, 'like');
+    }
+
+    // Leaves any other reaction the user has on the comment alone
+    async removeCommentLike(commentId: number, userId: number): Promise<void> {
+        await this.db
+            .prepare("DELETE FROM reactions WHERE comment_id = ? AND user_id = ? AND reaction = 'like'")
+            .bind(commentId, userId)
+            .run();
+    }
+
+    // A user has at most one reaction per comment; setting a new one replaces it
+    async setCommentReaction(commentId: number, userId: number, reaction: ReactionType): Promise<void> {
         await this.db
             .prepare(
-                `INSERT INTO reactions (comment_id, user_id, reaction) VALUES (?, ?, 'like')
-         ON CONFLICT(comment_id, user_id) DO UPDATE SET reaction = 'like'`
+                `INSERT INTO reactions (comment_id, user_id, reaction) VALUES (?, ?, ?)
+         ON CONFLICT(comment_id, user_id) DO UPDATE SET reaction = excluded.reaction, created_at = datetime('now')`
             )
-            .bind(commentId, userId)
+            .bind(commentId, userId, reaction)
             .run();
     }
 
-    async removeCommentLike(commentId: number, userId: number): Promise<void> {
+    async removeCommentReaction(commentId: number, userId: number): Promise<void> {
         await this.db
             .prepare('DELETE FROM reactions WHERE comment_id = ? AND user_id = ?')
             .bind(commentId, userId)
@@ -609,64 +1368,510 @@ export class Database {
     }
 
     async getCommentLikeStats(commentId: number, userId?: number): Promise<LikeStats> {
-        // Single query to get both count and user like status
-        const result = await this.db
-            .prepare(`
-                SELECT 
-                    COUNT(*) as count,
-                    ${userId ? 'MAX(CASE WHEN user_id = ? THEN 1 ELSE 0 END)' : '0'} as user_liked
-                FROM reactions 
-                WHERE comment_id = ? AND reaction = 'like'
-            `)
-            .bind(...(userId ? [userId, commentId] : [commentId]))
-            .first<{ count: number; user_liked: number }>();
-
+        const stats = await this.getCommentReactionStats(commentId, userId);
         return {
-            total_likes: result?.count ?? 0,
-            user_liked: !!result?.user_liked
+            total_likes: stats.counts.like ?? 0,
+            user_liked: stats.user_reaction === 'like',
         };
     }
 
-    async getCommentLikeStatsBatch(commentIds: number[], userId?: number): Promise<Map<number, LikeStats>> {
-        const result = new Map<number, LikeStats>();
+    async getCommentReactionStats(commentId: number, userId?: number): Promise<ReactionStats> {
+        const result = await this.getCommentReactionStatsBatch([commentId], userId);
+        return result.get(commentId) ?? { counts: {}, user_reaction: null };
+    }
+
+    async getCommentReactionStatsBatch(commentIds: number[], userId?: number): Promise<Map<number, ReactionStats>> {
+        const result = new Map<number, ReactionStats>();
 
-        // Initialize all with zero
+        // Initialize all with no reactions
         for (const id of commentIds) {
-            result.set(id, { total_likes: 0, user_liked: false });
+            result.set(id, { counts: {}, user_reaction: null });
         }
 
         if (commentIds.length === 0) return result;
 
-        // Single optimized query using GROUP BY instead of N queries
+        // Single query grouped by comment and reaction type instead of N queries
         const placeholders = commentIds.map(() => '?').join(',');
         const query = `
             SELECT 
                 comment_id,
-                COUNT(*) as total_likes,
-                ${userId ? 'MAX(CASE WHEN user_id = ? THEN 1 ELSE 0 END)' : '0'} as user_liked
+                reaction,
+                COUNT(*) as count,
+                ${userId ? 'MAX(CASE WHEN user_id = ? THEN 1 ELSE 0 END)' : '0'} as is_mine
             FROM reactions
-            WHERE comment_id IN (${placeholders}) AND reaction = 'like'
-            GROUP BY comment_id
+            WHERE comment_id IN (${placeholders})
+            GROUP BY comment_id, reaction
         `;
 
         const bindings = userId ? [userId, ...commentIds] : commentIds;
         const rows = await this.db.prepare(query).bind(...bindings).all<{
             comment_id: number;
-            total_likes: number;
-            user_liked: number;
+            reaction: ReactionType;
+            count: number;
+            is_mine: number;
         }>();
 
-        // Update the map with actual values
         for (const row of rows.results) {
-            result.set(row.comment_id, {
-                total_likes: row.total_likes,
-                user_liked: !!row.user_liked,
-            });
+            const stats = result.get(row.comment_id)!;
+            stats.counts[row.reaction] = row.count;
+            if (row.is_mine) {
+                stats.user_reaction = row.reaction;
+            }
         }
 
         return result;
     }
 
+    // ==========================================
+    // Moderation log queries
+    // ==========================================
+
+    private moderationLogStatement(
+        comment: Comment,
+        action: ModerationAction,
+        audit: ModerationAudit,
+        toStatus: Comment['status'] | null
+    ): D1PreparedStatement {
+        return this.db
+            .prepare(
+                `INSERT INTO moderation_log (site_id, comment_id, action, reason, moderator_info, moderator_id, from_status, to_status, comment_excerpt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+            )
+            .bind(
+                comment.site_id,
+                comment.id,
+                action,
+                audit.reason ?? null,
+                JSON.stringify(audit.moderator),
+                audit.moderator.user_id,
+                comment.status,
+                toStatus,
+                comment.content.slice(0, 200)
+            );
+    }
+
+    async getModerationLog(siteId: number, options: {
+        limit?: number;
+        offset?: number;
+        commentId?: number;
+    } = {}): Promise<{ entries: ModerationLogEntry[]; total: number }> {
+        const { limit = 50, offset = 0, commentId } = options;
+
+        let whereClause = 'WHERE site_id = ?';
+        const params: number[] = [siteId];
+        if (commentId) {
+            whereClause += ' AND comment_id = ?';
+            params.push(commentId);
+        }
+
+        const [countResult, dataResult] = await Promise.all([
+            this.db
+                .prepare(`SELECT COUNT(*) as count FROM moderation_log ${whereClause}`)
+                .bind(...params)
+                .first<{ count: number }>(),
+            this.db
+                .prepare(`SELECT * FROM moderation_log ${whereClause} ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?`)
+                .bind(...params, limit, offset)
+                .all<ModerationLogEntry>(),
+        ]);
+
+        return {
+            entries: dataResult.results,
+            total: countResult?.count ?? 0,
+        };
+    }
+
+    // ==========================================
+    // Notification queries
+    // ==========================================
+
+    // Stored opt-ins for an address, or the defaults (everything on) when none are saved
+    async getNotificationPreferences(email: string): Promise<NotificationPreferences> {
+        const normalized = email.toLowerCase();
+        const prefs = await this.db
+            .prepare('SELECT * FROM notification_preferences WHERE email = ?')
+            .bind(normalized)
+            .first<NotificationPreferences>();
+
+        return prefs ?? {
+            email: normalized,
+            reply_emails: 1,
+            mention_emails: 1,
+            digest_emails: 1,
+            last_digest_at: null,
+            updated_at: new Date().toISOString(),
+        };
+    }
+
+    async updateNotificationPreferences(
+        email: string,
+        updates: { reply_emails?: boolean; mention_emails?: boolean; digest_emails?: boolean }
+    ): Promise<NotificationPreferences> {
+        const current = await this.getNotificationPreferences(email);
+        const toFlag = (value: boolean | undefined, fallback: number) => (value === undefined ? fallback : value ? 1 : 0);
+
+        const result = await this.db
+            .prepare(
+                `INSERT INTO notification_preferences (email, reply_emails, mention_emails, digest_emails)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(email) DO UPDATE SET
+           reply_emails = excluded.reply_emails,
+           mention_emails = excluded.mention_emails,
+           digest_emails = excluded.digest_emails,
+           updated_at = datetime('now')
+         RETURNING *`
+            )
+            .bind(
+                current.email,
+                toFlag(updates.reply_emails, current.reply_emails),
+                toFlag(updates.mention_emails, current.mention_emails),
+                toFlag(updates.digest_emails, current.digest_emails)
+            )
+            .first<NotificationPreferences>();
+
+        if (!result) throw new Error('Failed to update notification preferences');
+        return result;
+    }
+
+    async getCommentForNotification(id: number): Promise<NotificationComment | null> {
+        return this.db
+            .prepare(
+                `SELECT c.*,
+                COALESCE(u.display_name, substr(u.email, 1, instr(u.email, '@') - 1), c.author_name, 'Anonymous') as author_display_name,
+                LOWER(COALESCE(${USER_EMAIL}, c.author_email)) as author_address,
+                p.slug as page_slug, p.title as page_title, p.url as page_url,
+                s.name as site_name
+         FROM comments c
+         JOIN pages p ON p.id = c.page_id
+         JOIN sites s ON s.id = c.site_id
+         LEFT JOIN users u ON u.id = c.user_id
+         WHERE c.id = ?`
+            )
+            .bind(id)
+            .first<NotificationComment>();
+    }
+
+    // Claim a comment for notification; returns false if another request already did
+    async markCommentNotified(id: number): Promise<boolean> {
+        const result = await this.db
+            .prepare("UPDATE comments SET notified_at = datetime('now') WHERE id = ? AND notified_at IS NULL")
+            .bind(id)
+            .run();
+        return (result.meta.changes ?? 0) > 0;
+    }
+
+    // Everyone with a reachable address who has a published comment on the page (mention targets)
+    async getPageParticipants(pageId: number): Promise<{ name: string; email: string }[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT DISTINCT
+                COALESCE(u.display_name, substr(u.email, 1, instr(u.email, '@') - 1), c.author_name) as name,
+                LOWER(COALESCE(${USER_EMAIL}, c.author_email)) as email
+         FROM comments c
+         LEFT JOIN users u ON u.id = c.user_id
+         WHERE c.page_id = ? AND c.status = 'approved' AND c.deleted_at IS NULL AND ${NOT_SHADOW_BANNED}
+           AND COALESCE(${USER_EMAIL}, c.author_email) IS NOT NULL`
+            )
+            .bind(pageId)
+            .all<{ name: string; email: string }>();
+        return result.results;
+    }
+
+    // Site owners who haven't opted out of the pending-comment digest
+    async getDigestRecipients(): Promise<{ user_id: number; email: string; last_digest_at: string | null }[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT DISTINCT u.id as user_id, LOWER(u.email) as email, np.last_digest_at
+         FROM sites s
+         JOIN users u ON u.id = s.owner_id
+         LEFT JOIN notification_preferences np ON np.email = LOWER(u.email)
+         WHERE COALESCE(np.digest_emails, 1) = 1`
+            )
+            .all<{ user_id: number; email: string; last_digest_at: string | null }>();
+        return result.results;
+    }
+
+    // Pending comments on an owner's sites created in (since, until]
+    async getPendingCommentsForDigest(ownerId: number, since: string, until: string, limit: number): Promise<{
+        total: number;
+        comments: { site_name: string; page_title: string; author_name: string; content: string }[];
+    }> {
+        const whereClause = `WHERE s.owner_id = ? AND c.status = 'pending' AND c.deleted_at IS NULL AND c.created_at > ? AND c.created_at <= ?`;
+
+        const [countResult, dataResult] = await Promise.all([
+            this.db
+                .prepare(`SELECT COUNT(*) as count FROM comments c JOIN sites s ON s.id = c.site_id ${whereClause}`)
+                .bind(ownerId, since, until)
+                .first<{ count: number }>(),
+            this.db
+                .prepare(
+                    `SELECT s.name as site_name,
+                    COALESCE(p.title, p.slug) as page_title,
+                    COALESCE(u.display_name, substr(u.email, 1, instr(u.email, '@') - 1), c.author_name, 'Anonymous') as author_name,
+                    c.content
+             FROM comments c
+             JOIN sites s ON s.id = c.site_id
+             JOIN pages p ON p.id = c.page_id
+             LEFT JOIN users u ON u.id = c.user_id
+             ${whereClause}
+             ORDER BY c.created_at DESC
+             LIMIT ?`
+                )
+                .bind(ownerId, since, until, limit)
+                .all<{ site_name: string; page_title: string; author_name: string; content: string }>(),
+        ]);
+
+        return {
+            total: countResult?.count ?? 0,
+            comments: dataResult.results,
+        };
+    }
+
+    async markDigestSent(email: string, sentAt: string): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT INTO notification_preferences (email, last_digest_at) VALUES (?, ?)
+         ON CONFLICT(email) DO UPDATE SET last_digest_at = excluded.last_digest_at`
+            )
+            .bind(email.toLowerCase(), sentAt)
+            .run();
+    }
+
+    // ==========================================
+    // Webhook queries
+    // ==========================================
+
+    async getWebhooksBySite(siteId: number): Promise<Webhook[]> {
+        const result = await this.db
+            .prepare('SELECT * FROM webhooks WHERE site_id = ? ORDER BY created_at DESC, id DESC')
+            .bind(siteId)
+            .all<Webhook>();
+        return result.results;
+    }
+
+    async getWebhookById(id: number): Promise<Webhook | null> {
+        return this.db.prepare('SELECT * FROM webhooks WHERE id = ?').bind(id).first<Webhook>();
+    }
+
+    async createWebhook(
+        siteId: number,
+        params: { url: string; secret: string; events: WebhookEvent[]; description?: string }
+    ): Promise<Webhook> {
+        const result = await this.db
+            .prepare('INSERT INTO webhooks (site_id, url, secret, events, description) VALUES (?, ?, ?, ?, ?) RETURNING *')
+            .bind(siteId, params.url, params.secret, JSON.stringify(params.events), params.description ?? null)
+            .first<Webhook>();
+        if (!result) throw new Error('Failed to create webhook');
+        return result;
+    }
+
+    async updateWebhook(
+        id: number,
+        updates: { url?: string; events?: WebhookEvent[]; description?: string | null; active?: boolean; secret?: string }
+    ): Promise<Webhook> {
+        const setClauses: string[] = [];
+        const values: (string | number | null)[] = [];
+
+        if (updates.url !== undefined) {
+            setClauses.push('url = ?');
+            values.push(updates.url);
+        }
+        if (updates.events !== undefined) {
+            setClauses.push('events = ?');
+            values.push(JSON.stringify(updates.events));
+        }
+        if (updates.description !== undefined) {
+            setClauses.push('description = ?');
+            values.push(updates.description);
+        }
+        if (updates.active !== undefined) {
+            setClauses.push('active = ?');
+            values.push(updates.active ? 1 : 0);
+        }
+        if (updates.secret !== undefined) {
+            setClauses.push('secret = ?');
+            values.push(updates.secret);
+        }
+
+        if (setClauses.length === 0) {
+            const webhook = await this.getWebhookById(id);
+            if (!webhook) throw new Error('Webhook not found');
+            return webhook;
+        }
+
+        setClauses.push("updated_at = datetime('now')");
+        values.push(id);
+
+        const result = await this.db
+            .prepare(`UPDATE webhooks SET ${setClauses.join(', ')} WHERE id = ? RETURNING *`)
+            .bind(...values)
+            .first<Webhook>();
+
+        if (!result) throw new Error('Failed to update webhook');
+        return result;
+    }
+
+    async deleteWebhook(id: number): Promise<void> {
+        await this.db.prepare('DELETE FROM webhooks WHERE id = ?').bind(id).run();
+    }
+
+    async getActiveWebhooksForEvent(siteId: number, event: WebhookEvent): Promise<Webhook[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT * FROM webhooks
+         WHERE site_id = ? AND active = 1
+           AND EXISTS (SELECT 1 FROM json_each(webhooks.events) WHERE value = ?)`
+            )
+            .bind(siteId, event)
+            .all<Webhook>();
+        return result.results;
+    }
+
+    async createWebhookDelivery(webhookId: number, event: WebhookEvent, payload: string): Promise<WebhookDelivery> {
+        const result = await this.db
+            // next_attempt_at is a safety net: the retry cron picks the delivery up if the first attempt never runs
+            .prepare(
+                `INSERT INTO webhook_deliveries (webhook_id, event, payload, next_attempt_at)
+         VALUES (?, ?, ?, datetime('now', '+1 minute')) RETURNING *`
+            )
+            .bind(webhookId, event, payload)
+            .first<WebhookDelivery>();
+        if (!result) throw new Error('Failed to create webhook delivery');
+        return result;
+    }
+
+    async recordWebhookAttempt(
+        id: number,
+        outcome: Pick<WebhookDelivery, 'status' | 'attempts' | 'response_status' | 'response_body' | 'error' | 'next_attempt_at'>
+    ): Promise<WebhookDelivery> {
+        const result = await this.db
+            .prepare(
+                `UPDATE webhook_deliveries
+         SET status = ?, attempts = ?, response_status = ?, response_body = ?, error = ?, next_attempt_at = ?,
+             completed_at = CASE WHEN ? = 'pending' THEN NULL ELSE datetime('now') END
+         WHERE id = ? RETURNING *`
+            )
+            .bind(
+                outcome.status,
+                outcome.attempts,
+                outcome.response_status,
+                outcome.response_body,
+                outcome.error,
+                outcome.next_attempt_at,
+                outcome.status,
+                id
+            )
+            .first<WebhookDelivery>();
+        if (!result) throw new Error('Failed to update webhook delivery');
+        return result;
+    }
+
+    async getWebhookDeliveries(webhookId: number, options: { limit?: number; offset?: number } = {}): Promise<{
+        deliveries: WebhookDelivery[];
+        total: number;
+    }> {
+        const { limit = 25, offset = 0 } = options;
+
+        const [countResult, dataResult] = await Promise.all([
+            this.db
+                .prepare('SELECT COUNT(*) as count FROM webhook_deliveries WHERE webhook_id = ?')
+                .bind(webhookId)
+                .first<{ count: number }>(),
+            this.db
+                .prepare('SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC, id DESC LIMIT ? OFFSET ?')
+                .bind(webhookId, limit, offset)
+                .all<WebhookDelivery>(),
+        ]);
+
+        return {
+            deliveries: dataResult.results,
+            total: countResult?.count ?? 0,
+        };
+    }
+
+    // Pending deliveries whose retry time has come, with the endpoint they go to
+    async getDueWebhookDeliveries(limit: number): Promise<(WebhookDelivery & Pick<Webhook, 'url' | 'secret'>)[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT d.*, w.url, w.secret
+         FROM webhook_deliveries d
+         JOIN webhooks w ON w.id = d.webhook_id
+         WHERE d.status = 'pending' AND d.next_attempt_at <= datetime('now') AND w.active = 1
+         ORDER BY d.next_attempt_at
+         LIMIT ?`
+            )
+            .bind(limit)
+            .all<WebhookDelivery & Pick<Webhook, 'url' | 'secret'>>();
+        return result.results;
+    }
+
+    // ==========================================
+    // Blocklist queries
+    // ==========================================
+
+    async getBlocklistBySite(siteId: number): Promise<BlocklistEntry[]> {
+        const result = await this.db
+            .prepare('SELECT * FROM site_blocklist WHERE site_id = ? ORDER BY created_at DESC, id DESC')
+            .bind(siteId)
+            .all<BlocklistEntry>();
+        return result.results;
+    }
+
+    async getBlocklistEntryById(id: number): Promise<BlocklistEntry | null> {
+        return this.db.prepare('SELECT * FROM site_blocklist WHERE id = ?').bind(id).first<BlocklistEntry>();
+    }
+
+    // Returns null if the site already has an entry for this kind and value
+    async createBlocklistEntry(
+        siteId: number,
+        params: { kind: BlocklistKind; value: string; action: BlocklistAction; note?: string; createdBy: number }
+    ): Promise<BlocklistEntry | null> {
+        return this.db
+            .prepare(
+                `INSERT INTO site_blocklist (site_id, kind, value, action, note, created_by) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (site_id, kind, value) DO NOTHING RETURNING *`
+            )
+            .bind(siteId, params.kind, params.value, params.action, params.note ?? null, params.createdBy)
+            .first<BlocklistEntry>();
+    }
+
+    async updateBlocklistEntry(
+        id: number,
+        updates: { action?: BlocklistAction; note?: string | null }
+    ): Promise<BlocklistEntry> {
+        const setClauses: string[] = [];
+        const values: (string | number | null)[] = [];
+
+        if (updates.action !== undefined) {
+            setClauses.push('action = ?');
+            values.push(updates.action);
+        }
+        if (updates.note !== undefined) {
+            setClauses.push('note = ?');
+            values.push(updates.note);
+        }
+
+        if (setClauses.length === 0) {
+            const entry = await this.getBlocklistEntryById(id);
+            if (!entry) throw new Error('Blocklist entry not found');
+            return entry;
+        }
+
+        values.push(id);
+
+        const result = await this.db
+            .prepare(`UPDATE site_blocklist SET ${setClauses.join(', ')} WHERE id = ? RETURNING *`)
+            .bind(...values)
+            .first<BlocklistEntry>();
+
+        if (!result) throw new Error('Failed to update blocklist entry');
+        return result;
+    }
+
+    async deleteBlocklistEntry(id: number): Promise<void> {
+        await this.db.prepare('DELETE FROM site_blocklist WHERE id = ?').bind(id).run();
+    }
+
     // ==========================================
     // Auth queries
     // ==========================================
@@ -691,28 +1896,168 @@ export class Database {
         return result?.email ?? null;
     }
 
-    async createSession(userId: number, tokenHash: string, expiresAt: string): Promise<void> {
+    // Start an email change, replacing any request the user still has pending
+    async createEmailChangeRequest(userId: number, newEmail: string, tokenHash: string, expiresAt: string): Promise<void> {
+        await this.db.batch([
+            this.db.prepare('DELETE FROM email_change_requests WHERE user_id = ?').bind(userId),
+            this.db
+                .prepare('INSERT INTO email_change_requests (user_id, new_email, token_hash, expires_at) VALUES (?, ?, ?, ?)')
+                .bind(userId, newEmail, tokenHash, expiresAt),
+        ]);
+    }
+
+    // Move the account behind a confirmed request to its new address. Everything keyed
+    // by the address (the Gravatar hash, notification preferences) moves in the same
+    // transaction. Returns null for an unknown or expired token, or if another account
+    // took the address since the request was made.
+    async confirmEmailChange(tokenHash: string): Promise<{ user: User; previousEmail: string } | null> {
+        const request = await this.db
+            .prepare(
+                `SELECT r.user_id, r.new_email, u.email AS previous_email FROM email_change_requests r
+         JOIN users u ON u.id = r.user_id
+         WHERE r.token_hash = ? AND r.expires_at > datetime('now')`
+            )
+            .bind(tokenHash)
+            .first<{ user_id: number; new_email: string; previous_email: string }>();
+        if (!request) {
+            return null;
+        }
+
+        const emailHash = await hashEmail(request.new_email);
+        const [, updated] = await this.db.batch([
+            this.db.prepare('DELETE FROM email_change_requests WHERE user_id = ?').bind(request.user_id),
+            this.db
+                .prepare(
+                    `UPDATE users SET email = ?, email_hash = ?, email_verified = 1, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ? AND NOT EXISTS (SELECT 1 FROM users WHERE LOWER(email) = ? AND id != ?)
+           RETURNING *`
+                )
+                .bind(request.new_email, emailHash, request.user_id, request.new_email.toLowerCase(), request.user_id),
+            // Preferences saved for the new address (from guest emails) give way to the account's own
+            this.db
+                .prepare(
+                    `UPDATE OR REPLACE notification_preferences SET email = ?
+           WHERE email = ? AND EXISTS (SELECT 1 FROM users WHERE id = ? AND email = ?)`
+                )
+                .bind(request.new_email, request.previous_email.toLowerCase(), request.user_id, request.new_email),
+        ]);
+
+        const user = (updated.results as User[])[0];
+        return user ? { user, previousEmail: request.previous_email } : null;
+    }
+
+    async createSession(userId: number, tokenHash: string, expiresAt: string, userAgent: string | null = null): Promise<void> {
         await this.db
-            .prepare('INSERT INTO sessions (user_id, token_hash, expires_at) VALUES (?, ?, ?)')
-            .bind(userId, tokenHash, expiresAt)
+            .prepare("INSERT INTO sessions (user_id, token_hash, expires_at, user_agent, last_used_at) VALUES (?, ?, ?, ?, datetime('now'))")
+            .bind(userId, tokenHash, expiresAt, userAgent)
             .run();
     }
 
-    async getSessionUser(tokenHash: string): Promise<User | null> {
+    async getSessionUser(tokenHash: string): Promise<(User & { session_id: number; session_last_used_at: string | null }) | null> {
         return this.db
             .prepare(
-                `SELECT u.* FROM users u 
+                `SELECT u.*, s.id AS session_id, s.last_used_at AS session_last_used_at FROM users u 
          JOIN sessions s ON u.id = s.user_id 
          WHERE s.token_hash = ? AND s.expires_at > datetime('now')`
             )
             .bind(tokenHash)
-            .first<User>();
+            .first<User & { session_id: number; session_last_used_at: string | null }>();
+    }
+
+    // Record a use of the session and slide its expiry forward
+    async touchSession(sessionId: number, expiresAt: string): Promise<void> {
+        await this.db
+            .prepare("UPDATE sessions SET last_used_at = datetime('now'), expires_at = ? WHERE id = ?")
+            .bind(expiresAt, sessionId)
+            .run();
+    }
+
+    async getUserSessions(userId: number, currentTokenHash: string | null): Promise<SessionInfo[]> {
+        const result = await this.db
+            .prepare(
+                `SELECT id, user_agent, created_at, last_used_at, expires_at, token_hash = ? AS current
+         FROM sessions
+         WHERE user_id = ? AND expires_at > datetime('now')
+         ORDER BY COALESCE(last_used_at, created_at) DESC`
+            )
+            .bind(currentTokenHash, userId)
+            .all<Omit<SessionInfo, 'current'> & { current: number }>();
+
+        return result.results.map((session) => ({ ...session, current: session.current === 1 }));
     }
 
     async deleteSession(tokenHash: string): Promise<void> {
         await this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').bind(tokenHash).run();
     }
 
+    // Revoke one of a user's sessions; false if it isn't theirs or doesn't exist
+    async deleteUserSession(userId: number, sessionId: number): Promise<boolean> {
+        const result = await this.db
+            .prepare('DELETE FROM sessions WHERE id = ? AND user_id = ?')
+            .bind(sessionId, userId)
+            .run();
+        return (result.meta.changes ?? 0) > 0;
+    }
+
+    async deleteUserSessions(userId: number): Promise<number> {
+        const result = await this.db.prepare('DELETE FROM sessions WHERE user_id = ?').bind(userId).run();
+        return result.meta.changes ?? 0;
+    }
+
+    async purgeExpiredSessions(): Promise<number> {
+        const result = await this.db.prepare("DELETE FROM sessions WHERE expires_at <= datetime('now')").run();
+        return result.meta.changes ?? 0;
+    }
+
+    async getUserByOAuthAccount(provider: string, providerAccountId: string): Promise<User | null> {
+        return this.db
+            .prepare(
+                `SELECT u.* FROM users u
+         JOIN oauth_accounts oa ON oa.user_id = u.id
+         WHERE oa.provider = ? AND oa.provider_account_id = ?`
+            )
+            .bind(provider, providerAccountId)
+            .first<User>();
+    }
+
+    // Link a provider account to a user, or refresh the email it last reported
+    async linkOAuthAccount(userId: number, provider: string, providerAccountId: string, email: string | null): Promise<void> {
+        await this.db
+            .prepare(
+                `INSERT INTO oauth_accounts (user_id, provider, provider_account_id, email) VALUES (?, ?, ?, ?)
+         ON CONFLICT(provider, provider_account_id) DO UPDATE SET
+           email = excluded.email,
+           updated_at = datetime('now')`
+            )
+            .bind(userId, provider, providerAccountId, email)
+            .run();
+    }
+
+    // ==========================================
+    // Rate limit queries
+    // ==========================================
+
+    // Count a hit in the key's current window, starting a new window if the old one has expired
+    async incrementRateLimit(key: string, windowSeconds: number, now: number): Promise<{ count: number; reset_at: number }> {
+        const result = await this.db
+            .prepare(
+                `INSERT INTO rate_limits (key, count, reset_at) VALUES (?, 1, ?)
+         ON CONFLICT(key) DO UPDATE SET
+           count = CASE WHEN reset_at <= ? THEN 1 ELSE count + 1 END,
+           reset_at = CASE WHEN reset_at <= ? THEN excluded.reset_at ELSE reset_at END
+         RETURNING count, reset_at`
+            )
+            .bind(key, now + windowSeconds, now, now)
+            .first<{ count: number; reset_at: number }>();
+
+        return result ?? { count: 1, reset_at: now + windowSeconds };
+    }
+
+    async purgeExpiredRateLimits(now: number): Promise<number> {
+        const result = await this.db.prepare('DELETE FROM rate_limits WHERE reset_at <= ?').bind(now).run();
+        return result.meta.changes ?? 0;
+    }
+
     // ==========================================
     // Admin queries - Global Analytics
     // ==========================================
@@ -730,8 +2075,8 @@ export class Database {
             this.db.prepare('SELECT COUNT(*) as count FROM users').first<{ count: number }>(),
             this.db.prepare('SELECT COUNT(*) as count FROM sites').first<{ count: number }>(),
             this.db.prepare('SELECT COUNT(*) as count FROM pages').first<{ count: number }>(),
-            this.db.prepare('SELECT COUNT(*) as count FROM comments').first<{ count: number }>(),
-            this.db.prepare("SELECT COUNT(*) as count FROM comments WHERE status = 'pending'").first<{ count: number }>(),
+            this.db.prepare('SELECT COUNT(*) as count FROM comments WHERE deleted_at IS NULL').first<{ count: number }>(),
+            this.db.prepare("SELECT COUNT(*) as count FROM comments WHERE status = 'pending' AND deleted_at IS NULL").first<{ count: number }>(),
             this.db.prepare('SELECT COUNT(*) as count FROM page_likes').first<{ count: number }>(),
             this.db.prepare('SELECT COUNT(*) as count FROM reactions').first<{ count: number }>(),
         ]);
@@ -762,6 +2107,7 @@ export class Database {
                     COALESCE(u.email, c.author_email) as author_email
                 FROM comments c
                 LEFT JOIN users u ON c.user_id = u.id
+                WHERE c.deleted_at IS NULL
                 ORDER BY c.created_at DESC LIMIT ?
             `).bind(limit).all<Comment>(),
         ]);
@@ -832,7 +2178,7 @@ export class Database {
 
         const [sites, comments, likes] = await Promise.all([
             this.db.prepare('SELECT COUNT(*) as count FROM sites WHERE owner_id = ?').bind(userId).first<{ count: number }>(),
-            this.db.prepare('SELECT COUNT(*) as count FROM comments WHERE user_id = ?').bind(userId).first<{ count: number }>(),
+            this.db.prepare('SELECT COUNT(*) as count FROM comments WHERE user_id = ? AND deleted_at IS NULL').bind(userId).first<{ count: number }>(),
             this.db.prepare(
                 `SELECT COUNT(*) as count FROM (
                     SELECT id FROM page_likes WHERE user_id = ?
@@ -893,11 +2239,14 @@ export class Database {
         };
     }
 
+    // The new owner stops being a member, since owning the site already covers every role
     async transferSiteOwnership(siteId: number, newOwnerId: number): Promise<void> {
-        await this.db
-            .prepare("UPDATE sites SET owner_id = ?, updated_at = datetime('now') WHERE id = ?")
-            .bind(newOwnerId, siteId)
-            .run();
+        await this.db.batch([
+            this.db
+                .prepare("UPDATE sites SET owner_id = ?, updated_at = datetime('now') WHERE id = ?")
+                .bind(newOwnerId, siteId),
+            this.db.prepare('DELETE FROM site_members WHERE site_id = ? AND user_id = ?').bind(siteId, newOwnerId),
+        ]);
     }
 
     // ==========================================
@@ -915,10 +2264,11 @@ export class Database {
     }> {
         const { limit = 50, offset = 0, status, siteId } = options;
 
-        const conditions: string[] = [];
+        // status 'deleted' lists deleted comments; every other filter leaves them out
+        const conditions: string[] = [status === 'deleted' ? 'c.deleted_at IS NOT NULL' : 'c.deleted_at IS NULL'];
         const params: (string | number)[] = [];
 
-        if (status) {
+        if (status && status !== 'deleted') {
             conditions.push('c.status = ?');
             params.push(status);
         }
@@ -927,7 +2277,7 @@ export class Database {
             params.push(siteId);
         }
 
-        const whereClause = conditions.length > 0 ? ' WHERE ' + conditions.join(' AND ') : '';
+        const whereClause = ' WHERE ' + conditions.join(' AND ');
 
         const countQuery = `SELECT COUNT(*) as count FROM comments c${whereClause}`;
         const dataQuery = `
@@ -957,22 +2307,29 @@ export class Database {
         };
     }
 
-    async bulkUpdateCommentStatus(commentIds: number[], status: string): Promise<number> {
-        let updated = 0;
-        for (const id of commentIds) {
-            await this.updateCommentStatus(id, status);
-            updated++;
+    // Pass siteId to ignore comments that belong to other sites; deleted comments are skipped
+    // Returns the affected comments as they were before the update
+    async bulkUpdateCommentStatus(
+        commentIds: number[],
+        status: Comment['status'],
+        audit: ModerationAudit,
+        siteId?: number
+    ): Promise<Comment[]> {
+        const targets = await this.getCommentsByIds(commentIds);
+        const updated = targets.filter((comment) => (siteId === undefined || comment.site_id === siteId) && !comment.deleted_at);
+        if (updated.length > 0) {
+            await this.db.batch(updated.flatMap((comment) => this.moderateCommentStatements(comment, status, audit)));
         }
         return updated;
     }
 
-    async bulkDeleteComments(commentIds: number[]): Promise<number> {
-        let deleted = 0;
-        for (const id of commentIds) {
-            await this.deleteComment(id);
-            deleted++;
+    // Comments that are already deleted are skipped
+    async bulkDeleteComments(commentIds: number[], audit: ModerationAudit, siteId?: number): Promise<Comment[]> {
+        const targets = await this.getCommentsByIds(commentIds);
+        const deleted = targets.filter((comment) => (siteId === undefined || comment.site_id === siteId) && !comment.deleted_at);
+        if (deleted.length > 0) {
+            await this.db.batch(deleted.flatMap((comment) => this.removeCommentStatements(comment, audit)));
         }
         return deleted;
     }
 }
-
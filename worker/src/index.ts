@@ -1,10 +1,17 @@
 import { Hono } from 'hono';
 import { cors, securityHeaders, validateCsrf } from './middleware';
-import { auth, comments, likes, sites, superadmin, widget } from './routes';
+import { Database } from './db';
+import { apiKeys, auth, avatars, blocklist, comments, domains, likes, notifications, sites, superadmin, team, webhooks, widget } from './routes';
 import type { Env } from './types';
+import { deletionRetentionCutoff } from './utils/comment-deletion';
+import { sendPendingDigests } from './utils/notifications';
+import { retryWebhookDeliveries } from './utils/webhooks';
 
 const app = new Hono<{ Bindings: Env }>();
 
+// Must match the digest schedule in wrangler.toml
+const DIGEST_CRON = '0 8 * * *';
+
 // CORS middleware
 app.use('*', cors);
 
@@ -25,11 +32,18 @@ app.get('/health', (c) => {
 
 // Mount routes
 app.route('/api/v1/auth', auth);
+app.route('/api/v1/avatars', avatars);
 app.route('/api/v1/sites', comments);
 app.route('/api/v1/admin/sites', sites);
+app.route('/api/v1/admin/sites', webhooks);
+app.route('/api/v1/admin/sites', blocklist);
+app.route('/api/v1/admin/sites', domains);
+app.route('/api/v1/admin/sites', team);
+app.route('/api/v1/admin/sites', apiKeys);
 app.route('/api/v1/superadmin', superadmin);
 app.route('/api/v1', likes);
 app.route('/api/v1/widget', widget);
+app.route('/api/v1/notifications', notifications);
 
 // 404 handler
 app.notFound((c) => {
@@ -58,4 +72,39 @@ export default {
         // Handle all other requests with Hono app
         return app.fetch(request, env, ctx);
     },
+
+    // Cron triggers (see wrangler.toml)
+    async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+        const db = new Database(env.DB);
+
+        if (controller.cron === DIGEST_CRON) {
+            // Email site owners a digest of comments awaiting review
+            ctx.waitUntil(
+                sendPendingDigests(env, db).then((sent) => {
+                    console.log(`[Notifications] Sent ${sent} pending comment digest(s)`);
+                })
+            );
+            return;
+        }
+
+        // Every other tick retries failed webhook deliveries that are due
+        ctx.waitUntil(
+            retryWebhookDeliveries(db).then((attempted) => {
+                if (attempted > 0) console.log(`[Webhooks] Retried ${attempted} delivery(ies)`);
+            })
+        );
+
+        // ...and clears out expired rate limit windows
+        ctx.waitUntil(db.purgeExpiredRateLimits(Math.floor(Date.now() / 1000)));
+
+        // ...and sessions that went unused until they expired
+        ctx.waitUntil(db.purgeExpiredSessions());
+
+        // ...and purges deleted comments past their retention period
+        ctx.waitUntil(
+            db.purgeDeletedComments(deletionRetentionCutoff()).then(({ purged, scrubbed }) => {
+                if (purged + scrubbed > 0) console.log(`[Comments] Purged ${purged} and scrubbed ${scrubbed} deleted comment(s)`);
+            })
+        );
+    },
 };
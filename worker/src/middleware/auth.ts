@@ -1,6 +1,7 @@
 import type { Context, Next } from 'hono';
 import { Database } from '../db';
 import type { AuthUser, Env } from '../types';
+import { sessionNeedsTouch, slidingSessionExpiry } from '../utils/sessions';
 
 // Hash function using Web Crypto API
 async function hashToken(token: string): Promise<string> {
@@ -11,28 +12,35 @@ async function hashToken(token: string): Promise<string> {
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
 }
 
-// Extract and validate auth user from request
-// Supports both Bearer token (for backward compatibility) and HttpOnly cookies (more secure)
-export async function getAuthUser(c: Context<{ Bindings: Env }>): Promise<AuthUser | null> {
-    let token: string | null = null;
+// Read the session token from the request
+// Supports both Bearer token and HttpOnly cookies (more secure)
+export function getAuthToken(c: Context<{ Bindings: Env }>): string | null {
+    // A request made with an API key acts as the key alone (see utils/api-keys.ts),
+    // never with the session that came along, which is what lets it skip the CSRF check
+    if (c.req.header('X-API-Key') !== undefined) {
+        return null;
+    }
 
-    // First, check for HttpOnly cookie (preferred, more secure)
-    const cookies = c.req.header('Cookie');
-    if (cookies) {
-        const cookieMatch = cookies.match(/ck_auth=([^;]+)/);
-        if (cookieMatch && cookieMatch[1]) {
-            token = cookieMatch[1];
-        }
+    // An explicit Bearer token wins: the widget sends one for host-site SSO sessions,
+    // which must not be overridden by the visitor's own CommentKit cookie
+    const authHeader = c.req.header('Authorization');
+    if (authHeader?.startsWith('Bearer ') && authHeader.length > 7) {
+        return authHeader.slice(7);
     }
 
-    // Fall back to Bearer token header (for backward compatibility)
-    if (!token) {
-        const authHeader = c.req.header('Authorization');
-        if (authHeader?.startsWith('Bearer ')) {
-            token = authHeader.slice(7);
-        }
+    // Otherwise use the HttpOnly cookie
+    const cookies = c.req.header('Cookie');
+    const cookieMatch = cookies?.match(/ck_auth=([^;]+)/);
+    if (cookieMatch && cookieMatch[1]) {
+        return cookieMatch[1];
     }
 
+    return null;
+}
+
+// Extract and validate auth user from request
+export async function getAuthUser(c: Context<{ Bindings: Env }>): Promise<AuthUser | null> {
+    const token = getAuthToken(c);
     if (!token) {
         return null;
     }
@@ -45,12 +53,19 @@ export async function getAuthUser(c: Context<{ Bindings: Env }>): Promise<AuthUs
         return null;
     }
 
+    // Sliding expiry: using a session keeps it alive
+    if (sessionNeedsTouch(user.session_last_used_at)) {
+        await db.touchSession(user.session_id, slidingSessionExpiry(user));
+    }
+
     return {
         id: user.id,
         email: user.email,
         email_hash: user.email_hash,
         display_name: user.display_name,
         is_superadmin: user.is_superadmin === 1,
+        sso_site_id: user.sso_site_id,
+        avatar_url: user.avatar_url,
         created_at: user.created_at,
         updated_at: user.updated_at,
     };
@@ -146,14 +161,10 @@ async function isOriginVerifiedSite(origin: string | undefined, db: D1Database):
 
     try {
         const url = new URL(origin);
-        const domain = url.hostname;
-
-        // Check if domain is a verified site
-        const result = await db.prepare(
-            'SELECT id FROM sites WHERE domain = ? AND verified = 1 LIMIT 1'
-        ).bind(domain).first<{ id: number }>();
 
-        return !!result;
+        // Check if the host is a verified site domain, alias or wildcard
+        const site = await new Database(db).getSiteByDomain(url.hostname);
+        return !!site?.domain_verified;
     } catch {
         return false;
     }
@@ -138,7 +138,10 @@ export async function validateCsrf(c: Context<{ Bindings: Env }>, next: Function
         const exemptPaths = [
             '/api/v1/auth/login',      // Entry point - user doesn't have a token yet
             '/api/v1/auth/verify',     // Uses magic link token, not session-based
+            '/api/v1/auth/email-change/confirm', // Uses the emailed token, may be opened in another browser
             '/api/v1/auth/logout',     // Allow logout even if CSRF token expired
+            '/api/v1/notifications/unsubscribe', // Signed link from an email, posted by mail clients
+            '/api/v1/notifications/verify-comment', // Signed link from a guest verification email
         ];
 
         if (exemptPaths.includes(path)) {
@@ -146,9 +149,10 @@ export async function validateCsrf(c: Context<{ Bindings: Env }>, next: Function
             return;
         }
 
-        // Allow API key authenticated requests (for third-party integrations)
+        // API key requests (server-to-server integrations) carry no session authority:
+        // getAuthToken ignores their cookies and routes check the key itself
         const apiKey = c.req.header('X-API-Key');
-        if (apiKey) {
+        if (apiKey !== undefined) {
             await next();
             return;
         }
@@ -1,2 +1,11 @@
-export { cors, getAuthUser, hashToken, requireAuth, requireSuperAdmin, securityHeaders } from './auth';
+export { cors, getAuthToken, getAuthUser, hashToken, requireAuth, requireSuperAdmin, securityHeaders } from './auth';
 export { generateCsrfToken, validateCsrf, validateCsrfToken } from './csrf';
+export {
+    LIKE_RATE_LIMIT,
+    LOGIN_RATE_LIMITS,
+    checkRateLimits,
+    commentRateLimitRules,
+    createRateLimitStore,
+    getClientIp,
+    rateLimit,
+} from './rate-limit';
@@ -0,0 +1,168 @@
+import type { Context, Next } from 'hono';
+import { Database } from '../db';
+import type { Env, RateLimitStore, SiteSettings } from '../types';
+import { hashToken } from './auth';
+
+/**
+ * Rate Limiting
+ *
+ * Fixed-window counters keyed by bucket and client identifier (IP, user id or
+ * email). Identifiers are hashed before they reach the store, so no raw IPs or
+ * email addresses are written to D1.
+ *
+ * Counters live in D1 by default. RATE_LIMIT_STORE=memory keeps them in the
+ * isolate instead, which is enough for local development and tests but is not
+ * shared between Workers instances.
+ *
+ * When a limit is exceeded the request gets a 429 with a Retry-After header.
+ */
+
+export interface RateLimitRule {
+    // Names the counter, e.g. 'login:email'
+    bucket: string;
+    // Who is being counted (IP address, user id, email...)
+    identifier: string;
+    limit: number;
+    windowSeconds: number;
+}
+
+// Fixed limits for endpoints that aren't configurable per site
+export const LOGIN_RATE_LIMITS = {
+    perIp: { limit: 20, windowSeconds: 15 * 60 },
+    perEmail: { limit: 5, windowSeconds: 15 * 60 },
+};
+
+export const LIKE_RATE_LIMIT = { limit: 60, windowSeconds: 60 };
+
+/**
+ * Stores counters in the rate_limits table
+ */
+export class D1RateLimitStore implements RateLimitStore {
+    constructor(private db: Database) { }
+
+    async increment(key: string, windowSeconds: number): Promise<{ count: number; resetAt: number }> {
+        const now = Math.floor(Date.now() / 1000);
+        const result = await this.db.incrementRateLimit(key, windowSeconds, now);
+        return { count: result.count, resetAt: result.reset_at };
+    }
+}
+
+/**
+ * Keeps counters in memory (per isolate)
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+    private windows = new Map<string, { count: number; resetAt: number }>();
+
+    async increment(key: string, windowSeconds: number): Promise<{ count: number; resetAt: number }> {
+        const now = Math.floor(Date.now() / 1000);
+        const current = this.windows.get(key);
+
+        if (!current || current.resetAt <= now) {
+            const fresh = { count: 1, resetAt: now + windowSeconds };
+            this.windows.set(key, fresh);
+            return { ...fresh };
+        }
+
+        current.count++;
+        return { ...current };
+    }
+
+    clear(): void {
+        this.windows.clear();
+    }
+}
+
+// Shared store used when RATE_LIMIT_STORE=memory
+export const memoryRateLimitStore = new MemoryRateLimitStore();
+
+/**
+ * Pick the store for this environment
+ */
+export function createRateLimitStore(env: Env): RateLimitStore {
+    if (env.RATE_LIMIT_STORE === 'memory') {
+        return memoryRateLimitStore;
+    }
+    return new D1RateLimitStore(new Database(env.DB));
+}
+
+// Best-effort client IP (Cloudflare sets CF-Connecting-IP in production)
+export function getClientIp(c: Context<{ Bindings: Env }>): string {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0]?.trim();
+    return c.req.header('CF-Connecting-IP') ?? (forwarded || 'unknown');
+}
+
+function tooManyRequests(c: Context<{ Bindings: Env }>, retryAfter: number) {
+    c.header('Retry-After', String(retryAfter));
+    return c.json({
+        error: 'Too many requests. Please slow down and try again later.',
+        retry_after: retryAfter,
+    }, 429);
+}
+
+/**
+ * Count a hit against every rule, stopping at the first one that is exceeded
+ *
+ * @returns A 429 response to send, or null if the request may proceed
+ */
+export async function checkRateLimits(c: Context<{ Bindings: Env }>, rules: RateLimitRule[]) {
+    const store = createRateLimitStore(c.env);
+
+    for (const rule of rules) {
+        const key = `${rule.bucket}:${await hashToken(rule.identifier.toLowerCase())}`;
+        const { count, resetAt } = await store.increment(key, rule.windowSeconds);
+
+        if (count > rule.limit) {
+            const retryAfter = Math.max(1, resetAt - Math.floor(Date.now() / 1000));
+            console.warn(`[RateLimit] ${rule.bucket} limit of ${rule.limit} exceeded`);
+            return tooManyRequests(c, retryAfter);
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Rules for posting a comment under the site's rate limit settings
+ * Signed-in commenters are counted by user id, guests by the email they give.
+ */
+export function commentRateLimitRules(
+    c: Context<{ Bindings: Env }>,
+    siteId: number,
+    settings: SiteSettings,
+    commenter: { userId?: number; email?: string }
+): RateLimitRule[] {
+    const { enabled, window_minutes, comments_per_ip, comments_per_user, comments_per_email } = settings.rate_limits;
+    if (!enabled) {
+        return [];
+    }
+
+    const windowSeconds = window_minutes * 60;
+    const rules: RateLimitRule[] = [
+        { bucket: `comment:${siteId}:ip`, identifier: getClientIp(c), limit: comments_per_ip, windowSeconds },
+    ];
+
+    if (commenter.userId !== undefined) {
+        rules.push({ bucket: `comment:${siteId}:user`, identifier: String(commenter.userId), limit: comments_per_user, windowSeconds });
+    } else if (commenter.email) {
+        rules.push({ bucket: `comment:${siteId}:email`, identifier: commenter.email, limit: comments_per_email, windowSeconds });
+    }
+
+    return rules;
+}
+
+/**
+ * Middleware that limits mutation requests per client IP
+ * Reads pass through uncounted.
+ */
+export function rateLimit(options: { bucket: string; limit: number; windowSeconds: number }) {
+    return async (c: Context<{ Bindings: Env }>, next: Next) => {
+        if (['POST', 'PUT', 'PATCH', 'DELETE'].includes(c.req.method.toUpperCase())) {
+            const limited = await checkRateLimits(c, [{ ...options, identifier: getClientIp(c) }]);
+            if (limited) {
+                return limited;
+            }
+        }
+
+        await next();
+    };
+}
@@ -0,0 +1,77 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import { hashToken } from '../middleware';
+import type { Env } from '../types';
+import { getSiteAccess } from '../utils/site-access';
+import { API_KEY_SCOPES, formatApiKey, generateApiKey } from '../utils/api-keys';
+
+const apiKeys = new Hono<{ Bindings: Env }>();
+
+// GET /api/v1/admin/sites/:id/api-keys - List a site's API keys, including revoked ones
+apiKeys.get('/:id/api-keys', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const list = await db.getSiteApiKeys(access.site.id);
+
+    return c.json({
+        api_keys: list.map(formatApiKey),
+        available_scopes: API_KEY_SCOPES,
+    });
+});
+
+// POST /api/v1/admin/sites/:id/api-keys - Create a key (the key itself is only returned here)
+const createApiKeySchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    scopes: z.array(z.enum(API_KEY_SCOPES)).min(1)
+        .transform((list) => API_KEY_SCOPES.filter((scope) => list.includes(scope))),
+});
+
+apiKeys.post('/:id/api-keys', zValidator('json', createApiKeySchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const body = c.req.valid('json');
+    const { key, prefix } = generateApiKey();
+    const apiKey = await db.createSiteApiKey({
+        siteId: access.site.id,
+        name: body.name,
+        keyPrefix: prefix,
+        keyHash: await hashToken(key),
+        scopes: body.scopes,
+        createdBy: access.user.id,
+    });
+
+    return c.json({ ...formatApiKey(apiKey), key }, 201);
+});
+
+// DELETE /api/v1/admin/sites/:id/api-keys/:keyId - Revoke a key; it stays listed but stops working at once
+apiKeys.delete('/:id/api-keys/:keyId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const keyId = parseInt(c.req.param('keyId'));
+    if (isNaN(keyId)) {
+        return c.json({ error: 'Invalid key_id' }, 400);
+    }
+
+    const revoked = await db.revokeSiteApiKey(access.site.id, keyId);
+    if (!revoked) {
+        return c.json({ error: 'API key not found' }, 404);
+    }
+
+    return c.json(formatApiKey(revoked));
+});
+
+export { apiKeys };
@@ -1,11 +1,30 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { Database } from '../db';
-import { getAuthUser, hashToken } from '../middleware';
+import { LOGIN_RATE_LIMITS, checkRateLimits, getAuthToken, getAuthUser, getClientIp, hashToken } from '../middleware';
 import { generateCsrfToken } from '../middleware/csrf';
-import type { Env } from '../types';
-import { sendMagicLinkEmail } from '../utils/email';
+import type { Env, OAuthProfile } from '../types';
+import {
+    createEmailTransport,
+    sendEmailChangeConfirmationEmail,
+    sendEmailChangeNoticeEmail,
+    sendMagicLinkEmail,
+} from '../utils/email';
+import {
+    createOAuthProviders,
+    findOAuthProvider,
+    generateOAuthSecret,
+    oauthCallbackUrl,
+    pkceChallenge,
+} from '../utils/oauth';
+import { AVATAR_MAX_BYTES, avatarKey, avatarKeyFromUrl, avatarUrl, resizeAvatar, validateAvatar } from '../utils/avatars';
+import { createAvatarStore } from '../utils/object-store';
+import { escapeHtml } from '../utils/sanitize';
+import { parseSiteSettings } from '../utils/site-settings';
+import { SESSION_DAYS, sessionUserAgent } from '../utils/sessions';
+import { SSO_SESSION_HOURS, ssoPlaceholderEmail, verifySsoToken } from '../utils/sso';
+import { timingSafeEqual } from '../utils/signing';
 
 const auth = new Hono<{ Bindings: Env }>();
 
@@ -23,6 +42,11 @@ function addMinutes(date: Date, minutes: number): Date {
     return new Date(date.getTime() + minutes * 60 * 1000);
 }
 
+// Add hours to current date
+function addHours(date: Date, hours: number): Date {
+    return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
 // Add days to current date
 function addDays(date: Date, days: number): Date {
     return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
@@ -82,6 +106,119 @@ function createLogoutCookie(env: Env): string {
     return parts.join('; ');
 }
 
+// Start a session for a user on the requesting browser, returning its token and the cookie that carries it
+async function createUserSession(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    userId: number
+): Promise<{ token: string; cookie: string }> {
+    const token = generateToken();
+    const tokenHash = await hashToken(token);
+    const expiresAt = formatDate(addDays(new Date(), SESSION_DAYS));
+
+    await db.createSession(userId, tokenHash, expiresAt, sessionUserAgent(c.req.header('User-Agent')));
+
+    return { token, cookie: createAuthCookie(token, c.env, SESSION_DAYS) };
+}
+
+// Sessions slide forward on the server as they're used (see utils/sessions), so
+// re-issue a cookie-borne token with a fresh Max-Age to keep the browser in step
+function withRefreshedAuthCookie(c: Context<{ Bindings: Env }>, response: Response): Response {
+    const cookieToken = c.req.header('Cookie')?.match(/ck_auth=([^;]+)/)?.[1];
+    if (cookieToken && getAuthToken(c) === cookieToken) {
+        response.headers.append('Set-Cookie', createAuthCookie(cookieToken, c.env, SESSION_DAYS));
+    }
+    return response;
+}
+
+// OAuth flows must come back within 10 minutes
+const OAUTH_FLOW_MAX_AGE = 10 * 60;
+
+// How the OAuth flow was opened: the dashboard navigates away, the widget uses a popup
+type OAuthMode = 'redirect' | 'popup';
+
+interface OAuthFlow {
+    state: string;
+    codeVerifier: string;
+    mode: OAuthMode;
+}
+
+// Cookie holding the state and PKCE verifier between starting the flow and the callback
+// (Lax, since the callback is a top-level navigation back from the provider)
+function createOAuthFlowCookie(flow: OAuthFlow | null, env: Env): string {
+    const parts = [
+        `ck_oauth=${flow ? `${flow.state}.${flow.codeVerifier}.${flow.mode}` : ''}`,
+        `Max-Age=${flow ? OAUTH_FLOW_MAX_AGE : 0}`,
+        'Path=/api/v1/auth/oauth',
+        'HttpOnly',
+        'SameSite=Lax',
+    ];
+
+    if (env.ENVIRONMENT === 'production') {
+        parts.push('Secure');
+    }
+
+    return parts.join('; ');
+}
+
+function readOAuthFlow(cookies: string | undefined): OAuthFlow | null {
+    const value = cookies?.match(/ck_oauth=([^;]+)/)?.[1];
+    const [state, codeVerifier, mode] = value?.split('.') ?? [];
+    if (!state || !codeVerifier || (mode !== 'redirect' && mode !== 'popup')) {
+        return null;
+    }
+    return { state, codeVerifier, mode };
+}
+
+function oauthPopupPage(title: string, message: string, nonce: string | undefined, autoClose: boolean): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title} - CommentKit</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f9fafb; color: #1f2937; padding: 48px 20px; text-align: center; }
+        h1 { font-size: 20px; margin: 0 0 12px; }
+        p { color: #4b5563; line-height: 1.6; }
+    </style>
+</head>
+<body>
+    <h1>${title}</h1>
+    <p>${message}</p>
+    ${autoClose ? `<script nonce="${nonce}">window.close();</script>` : ''}
+</body>
+</html>`;
+}
+
+// End an OAuth flow: back to the dashboard, or a page that closes the widget's popup
+function finishOAuth(
+    c: Context<{ Bindings: Env }>,
+    mode: OAuthMode,
+    error?: string
+): Response {
+    let response: Response;
+
+    if (mode === 'popup') {
+        // @ts-expect-error - set by the securityHeaders middleware
+        const nonce: string | undefined = c.get('cspNonce');
+
+        // The widget waits for the popup to close, then asks the server who is signed in
+        response = error
+            ? c.html(oauthPopupPage('Sign-in failed', escapeHtml(error), undefined, false), 400)
+            : c.html(oauthPopupPage('Signed in', 'You can close this window and return to the comments.', nonce, true));
+    } else {
+        const url = new URL(c.env.FRONTEND_URL || c.env.BASE_URL);
+        if (error) {
+            url.searchParams.set('oauth_error', error);
+        }
+        response = c.redirect(url.toString());
+    }
+
+    response.headers.append('Set-Cookie', createOAuthFlowCookie(null, c.env));
+    return response;
+}
+
 // POST /api/v1/auth/login - Send magic link
 const loginSchema = z.object({
     email: z.string().email(),
@@ -91,6 +228,15 @@ const loginSchema = z.object({
 auth.post('/login', zValidator('json', loginSchema), async (c) => {
     const { email, redirect_url } = c.req.valid('json');
 
+    // Stops a single client from flooding an inbox (or many inboxes) with magic links
+    const limited = await checkRateLimits(c, [
+        { bucket: 'login:ip', identifier: getClientIp(c), ...LOGIN_RATE_LIMITS.perIp },
+        { bucket: 'login:email', identifier: email, ...LOGIN_RATE_LIMITS.perEmail },
+    ]);
+    if (limited) {
+        return limited;
+    }
+
     const db = new Database(c.env.DB);
 
     // Generate token
@@ -112,22 +258,17 @@ auth.post('/login', zValidator('json', loginSchema), async (c) => {
     // Log for development
     console.log(`🔗 Magic link for ${email}: ${verifyUrl}`);
 
-    // Send email via Resend if API key is configured
-    if (c.env.RESEND_API_KEY) {
-        const result = await sendMagicLinkEmail(email, verifyUrl, c.env.RESEND_API_KEY);
-        if (!result.success) {
-            console.error('Failed to send email:', result.error);
-            return c.json(
-                {
-                    error: 'Failed to send magic link email. Please try again.',
-                    details: result.error,
-                },
-                500
-            );
-        }
-        console.log(`✅ Magic link email sent to ${email}`);
-    } else {
-        console.warn('⚠️ RESEND_API_KEY not configured - email not sent (check console for magic link)');
+    // Send email through the configured transport (logs only when Resend isn't set up)
+    const result = await sendMagicLinkEmail(createEmailTransport(c.env), email, verifyUrl);
+    if (!result.success) {
+        console.error('Failed to send email:', result.error);
+        return c.json(
+            {
+                error: 'Failed to send magic link email. Please try again.',
+                details: result.error,
+            },
+            500
+        );
     }
 
     return c.json({ message: 'Magic link sent! Check your email.' });
@@ -151,15 +292,13 @@ auth.get('/verify', async (c) => {
     // Get or create user
     const user = await db.getOrCreateUser(email);
 
-    // Create session
-    const sessionToken = generateToken();
-    const tokenHash = await hashToken(sessionToken);
-    const expiresAt = formatDate(addDays(new Date(), 30));
-
-    await db.createSession(user.id, tokenHash, expiresAt);
+    // The link proves they own the address, so comments they left as a guest with it become theirs
+    await db.claimGuestComments(user.id, email);
+    // Invitations to site teams sent to the address are accepted the same way
+    await db.acceptSiteInvitations(user.id, email);
 
-    // Set HttpOnly cookie for the session
-    const cookie = createAuthCookie(sessionToken, c.env, 30);
+    // Create session, carried in an HttpOnly cookie
+    const session = await createUserSession(c, db, user.id);
 
     // Generate CSRF token for the frontend
     const origin = c.req.header('Origin') || c.env.FRONTEND_URL || c.env.BASE_URL || '';
@@ -167,7 +306,7 @@ auth.get('/verify', async (c) => {
 
     // Return response with cookie
     const response = c.json({
-        token: sessionToken,  // Still return token for backward compatibility
+        token: session.token,  // Still return token for backward compatibility
         csrf_token: csrfToken,
         user: {
             id: user.id,
@@ -180,7 +319,162 @@ auth.get('/verify', async (c) => {
         },
     });
 
-    response.headers.set('Set-Cookie', cookie);
+    response.headers.set('Set-Cookie', session.cookie);
+    return response;
+});
+
+// POST /api/v1/auth/sso - Sign a host site's user into the widget with a token signed by the site
+const ssoSchema = z.object({
+    domain: z.string().min(1),
+    token: z.string().min(1).max(8192),
+});
+
+auth.post('/sso', zValidator('json', ssoSchema), async (c) => {
+    const { domain, token } = c.req.valid('json');
+    const db = new Database(c.env.DB);
+
+    const site = await db.getSiteByDomain(domain);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+    if (!site.sso_secret) {
+        return c.json({ error: 'Single sign-on is not enabled for this site' }, 403);
+    }
+
+    const { identity, error } = await verifySsoToken(token, site.sso_secret);
+    if (!identity) {
+        return c.json({ error }, 401);
+    }
+
+    const user = await db.upsertSsoUser({
+        siteId: site.id,
+        externalId: identity.externalId,
+        placeholderEmail: await ssoPlaceholderEmail(site.id, identity.externalId),
+        displayName: identity.name,
+        contactEmail: identity.email,
+        avatarUrl: identity.avatarUrl,
+    });
+
+    // No cookie: the widget holds this token and sends it as a Bearer header, so the
+    // visitor's own CommentKit session (if any) is left alone
+    const sessionToken = generateToken();
+    const expiresAt = formatDate(addHours(new Date(), SSO_SESSION_HOURS));
+    await db.createSession(user.id, await hashToken(sessionToken), expiresAt, sessionUserAgent(c.req.header('User-Agent')));
+
+    return c.json({
+        token: sessionToken,
+        expires_at: expiresAt,
+        user: {
+            id: user.id,
+            email: user.email,
+            email_hash: user.email_hash,
+            display_name: user.display_name,
+            is_superadmin: false,
+            sso_site_id: user.sso_site_id,
+            avatar_url: user.avatar_url,
+            created_at: user.created_at,
+            updated_at: user.updated_at,
+        },
+    });
+});
+
+// GET /api/v1/auth/providers - OAuth providers that are configured (for sign-in buttons)
+auth.get('/providers', (c) => {
+    return c.json({
+        providers: createOAuthProviders(c.env).map((provider) => ({ id: provider.id, name: provider.name })),
+    });
+});
+
+// GET /api/v1/auth/oauth/:provider - Send the browser to the provider to sign in
+const oauthStartQuerySchema = z.object({
+    mode: z.enum(['redirect', 'popup']).default('redirect'),
+});
+
+auth.get('/oauth/:provider', zValidator('query', oauthStartQuerySchema), async (c) => {
+    const provider = findOAuthProvider(c.env, c.req.param('provider'));
+    if (!provider) {
+        return c.json({ error: 'Unknown sign-in provider' }, 404);
+    }
+
+    const flow: OAuthFlow = {
+        state: generateOAuthSecret(),
+        codeVerifier: generateOAuthSecret(),
+        mode: c.req.valid('query').mode,
+    };
+
+    let authorizationUrl: string;
+    try {
+        authorizationUrl = await provider.authorizationUrl({
+            redirectUri: oauthCallbackUrl(c.env, provider.id),
+            state: flow.state,
+            codeChallenge: await pkceChallenge(flow.codeVerifier),
+        });
+    } catch (error) {
+        console.error(`[OAuth] Failed to start ${provider.id} sign-in:`, error);
+        return c.json({ error: `${provider.name} sign-in is unavailable right now` }, 502);
+    }
+
+    const response = c.redirect(authorizationUrl);
+    response.headers.append('Set-Cookie', createOAuthFlowCookie(flow, c.env));
+    return response;
+});
+
+// GET /api/v1/auth/oauth/:provider/callback - Finish signing in once the provider sends the browser back
+auth.get('/oauth/:provider/callback', async (c) => {
+    const provider = findOAuthProvider(c.env, c.req.param('provider'));
+    if (!provider) {
+        return c.json({ error: 'Unknown sign-in provider' }, 404);
+    }
+
+    const flow = readOAuthFlow(c.req.header('Cookie'));
+    const mode = flow?.mode ?? 'redirect';
+    const { code, state, error } = c.req.query();
+
+    if (error) {
+        return finishOAuth(c, mode, `${provider.name} sign-in was cancelled`);
+    }
+    if (!flow || !code || !state || !timingSafeEqual(state, flow.state)) {
+        return finishOAuth(c, mode, 'Your sign-in attempt expired. Please try again.');
+    }
+
+    let profile: OAuthProfile;
+    try {
+        const accessToken = await provider.exchangeCode({
+            code,
+            redirectUri: oauthCallbackUrl(c.env, provider.id),
+            codeVerifier: flow.codeVerifier,
+        });
+        profile = await provider.fetchProfile(accessToken);
+    } catch (err) {
+        console.error(`[OAuth] ${provider.id} sign-in failed:`, err);
+        return finishOAuth(c, mode, `Could not sign in with ${provider.name}. Please try again.`);
+    }
+
+    const db = new Database(c.env.DB);
+    const verifiedEmail = profile.email && profile.email_verified ? profile.email : null;
+
+    let user = await db.getUserByOAuthAccount(provider.id, profile.id);
+    if (!user) {
+        // A new provider account joins the user with the same email, which is only safe once the provider has verified it
+        if (!verifiedEmail) {
+            return finishOAuth(c, mode, `Your ${provider.name} account has no verified email address`);
+        }
+        user = (await db.getUserByEmail(verifiedEmail))
+            ?? (await db.createUser(verifiedEmail, profile.name?.slice(0, 100)));
+    }
+
+    await db.linkOAuthAccount(user.id, provider.id, profile.id, profile.email);
+
+    // Like a magic link, a verified address proves the guest comments left with it are theirs,
+    // and accepts any invitations to site teams sent to it
+    if (verifiedEmail) {
+        await db.claimGuestComments(user.id, verifiedEmail);
+        await db.acceptSiteInvitations(user.id, verifiedEmail);
+    }
+
+    const session = await createUserSession(c, db, user.id);
+    const response = finishOAuth(c, mode);
+    response.headers.append('Set-Cookie', session.cookie);
     return response;
 });
 
@@ -203,13 +497,15 @@ auth.get('/me', async (c) => {
         email_hash: user.email_hash,
         display_name: user.display_name,
         is_superadmin: user.is_superadmin,
+        sso_site_id: user.sso_site_id,
+        avatar_url: user.avatar_url,
         created_at: user.created_at,
         updated_at: user.updated_at,
         csrf_token: csrfToken,
     };
 
     if (!includeBootstrap) {
-        return c.json(userData);
+        return withRefreshedAuthCookie(c, c.json(userData));
     }
 
     // Bootstrap: include initial dashboard data to save an extra API call
@@ -220,7 +516,7 @@ auth.get('/me', async (c) => {
         id: site.id,
         name: site.name,
         domain: site.domain,
-        api_key_preview: site.api_key.slice(0, 8) + '...',
+        role: site.role,
         created_at: site.created_at,
         updated_at: site.updated_at,
         stats: {
@@ -231,13 +527,13 @@ auth.get('/me', async (c) => {
         },
     }));
 
-    return c.json({
+    return withRefreshedAuthCookie(c, c.json({
         ...userData,
         bootstrap: {
             sites: sitesData,
             aggregated,
         },
-    });
+    }));
 });
 
 // PATCH /api/v1/auth/profile - Update user profile
@@ -264,11 +560,269 @@ auth.patch('/profile', zValidator('json', updateProfileSchema), async (c) => {
         email_hash: user.email_hash,
         display_name: body.display_name ?? user.display_name,
         is_superadmin: user.is_superadmin,
+        avatar_url: user.avatar_url,
         created_at: user.created_at,
         updated_at: user.updated_at,
     });
 });
 
+// PUT /api/v1/auth/avatar - Upload an avatar to use instead of Gravatar
+// The request body is the image itself (PNG, JPEG or WebP)
+auth.put('/avatar', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    // The host site supplies SSO users' avatars
+    if (user.sso_site_id) {
+        return c.json({ error: 'Your avatar is managed by the site you signed in on' }, 403);
+    }
+
+    const store = createAvatarStore(c.env);
+    if (!store) {
+        return c.json({ error: 'Avatar uploads are not enabled' }, 503);
+    }
+
+    // Refuse oversized uploads before reading them into memory
+    const contentLength = c.req.header('Content-Length');
+    if (!contentLength || !/^\d+$/.test(contentLength)) {
+        return c.json({ error: 'Content-Length required' }, 411);
+    }
+    if (parseInt(contentLength) > AVATAR_MAX_BYTES) {
+        return c.json({ error: `Avatars must be ${AVATAR_MAX_BYTES / 1024 / 1024} MB or smaller` }, 413);
+    }
+
+    const bytes = new Uint8Array(await c.req.arrayBuffer());
+    const { type, error } = validateAvatar(bytes);
+    if (!type) {
+        return c.json({ error }, 400);
+    }
+
+    const image = await resizeAvatar(c.env, bytes, type);
+    const key = avatarKey(user.id, image.type);
+    await store.put(key, image.body, image.type);
+
+    const db = new Database(c.env.DB);
+    const url = avatarUrl(c.env, key);
+    await db.updateUserAvatar(user.id, url);
+
+    const previousKey = avatarKeyFromUrl(c.env, user.avatar_url);
+    if (previousKey) {
+        await store.delete(previousKey);
+    }
+
+    return c.json({ avatar_url: url });
+});
+
+// DELETE /api/v1/auth/avatar - Remove the uploaded avatar and go back to Gravatar
+auth.delete('/avatar', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    if (user.sso_site_id) {
+        return c.json({ error: 'Your avatar is managed by the site you signed in on' }, 403);
+    }
+
+    const db = new Database(c.env.DB);
+    await db.updateUserAvatar(user.id, null);
+
+    const key = avatarKeyFromUrl(c.env, user.avatar_url);
+    const store = createAvatarStore(c.env);
+    if (key && store) {
+        await store.delete(key);
+    }
+
+    return c.json({ avatar_url: null });
+});
+
+// POST /api/v1/auth/email-change - Ask to move the account to a new email address
+// The new address gets a confirmation link and the current one a heads-up; nothing
+// changes until the link is followed
+const emailChangeSchema = z.object({
+    new_email: z.string().email().max(255),
+});
+
+auth.post('/email-change', zValidator('json', emailChangeSchema), async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+    if (user.sso_site_id) {
+        return c.json({ error: 'This account is managed by the site that signed you in' }, 403);
+    }
+
+    const newEmail = c.req.valid('json').new_email.trim().toLowerCase();
+    if (newEmail === user.email.toLowerCase()) {
+        return c.json({ error: 'That is already your email address' }, 400);
+    }
+
+    const limited = await checkRateLimits(c, [
+        { bucket: 'email-change:user', identifier: String(user.id), ...LOGIN_RATE_LIMITS.perEmail },
+        { bucket: 'login:email', identifier: newEmail, ...LOGIN_RATE_LIMITS.perEmail },
+    ]);
+    if (limited) {
+        return limited;
+    }
+
+    const db = new Database(c.env.DB);
+    if (await db.getUserByEmail(newEmail)) {
+        return c.json({ error: 'That email address is already in use' }, 409);
+    }
+
+    const token = generateToken();
+    await db.createEmailChangeRequest(user.id, newEmail, await hashToken(token), formatDate(addHours(new Date(), 1)));
+
+    const confirmUrl = `${c.env.FRONTEND_URL || c.env.BASE_URL}?email_change_token=${token}`;
+    console.log(`🔗 Email change link for ${newEmail}: ${confirmUrl}`);
+
+    const transport = createEmailTransport(c.env);
+    const result = await sendEmailChangeConfirmationEmail(transport, { to: newEmail, confirmUrl });
+    if (!result.success) {
+        console.error('Failed to send email change confirmation:', result.error);
+        return c.json({ error: 'Failed to send the confirmation email. Please try again.' }, 500);
+    }
+
+    // Best effort: the change is still protected by the confirmation link
+    const notice = await sendEmailChangeNoticeEmail(transport, {
+        to: user.email,
+        newEmail,
+        settingsUrl: c.env.FRONTEND_URL || c.env.BASE_URL,
+    });
+    if (!notice.success) {
+        console.error('Failed to send email change notice:', notice.error);
+    }
+
+    return c.json({ message: `Confirmation link sent to ${newEmail}` });
+});
+
+// POST /api/v1/auth/email-change/confirm - Follow the link sent to the new address
+const emailChangeConfirmSchema = z.object({
+    token: z.string().min(1).max(128),
+});
+
+auth.post('/email-change/confirm', zValidator('json', emailChangeConfirmSchema), async (c) => {
+    const { token } = c.req.valid('json');
+    const db = new Database(c.env.DB);
+
+    const changed = await db.confirmEmailChange(await hashToken(token));
+    if (!changed) {
+        return c.json({ error: 'This link is invalid, has expired, or the address is now in use' }, 400);
+    }
+
+    // The new address is proven, so guest comments left with it (and invitations sent to it) are this user's too
+    await db.claimGuestComments(changed.user.id, changed.user.email);
+    await db.acceptSiteInvitations(changed.user.id, changed.user.email);
+    console.log(`[Auth] User ${changed.user.id} changed email from ${changed.previousEmail} to ${changed.user.email}`);
+
+    return c.json({
+        message: 'Email address updated',
+        user: {
+            id: changed.user.id,
+            email: changed.user.email,
+            email_hash: changed.user.email_hash,
+            display_name: changed.user.display_name,
+            is_superadmin: changed.user.is_superadmin === 1,
+            created_at: changed.user.created_at,
+            updated_at: changed.user.updated_at,
+        },
+    });
+});
+
+// GET /api/v1/auth/me/export - Download everything stored about the current user as JSON
+auth.get('/me/export', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const db = new Database(c.env.DB);
+    const email = user.email.toLowerCase();
+    const [profile, data, notificationPreferences] = await Promise.all([
+        db.getUserById(user.id),
+        db.getUserExportData(user.id, email),
+        db.getNotificationPreferences(email),
+    ]);
+
+    const response = c.json({
+        exported_at: new Date().toISOString(),
+        profile: {
+            id: user.id,
+            email: user.email,
+            display_name: user.display_name,
+            avatar_url: user.avatar_url,
+            email_verified: !!profile?.email_verified,
+            created_at: user.created_at,
+            updated_at: user.updated_at,
+        },
+        notification_preferences: {
+            reply_emails: !!notificationPreferences.reply_emails,
+            mention_emails: !!notificationPreferences.mention_emails,
+            digest_emails: !!notificationPreferences.digest_emails,
+        },
+        ...data,
+    });
+    response.headers.set('Content-Disposition', `attachment; filename="commentkit-export-${user.id}.json"`);
+    return response;
+});
+
+// DELETE /api/v1/auth/me - Delete the current user's account
+// The user confirms by typing their email (SSO users, their display name); each site's privacy setting decides
+// whether their comments there are deleted or kept anonymously
+const deleteAccountSchema = z.object({
+    confirm_email: z.string().min(1).optional(),
+    // SSO accounts only have a placeholder email, so they confirm with their display name instead
+    confirm_name: z.string().min(1).optional(),
+});
+
+auth.delete('/me', zValidator('json', deleteAccountSchema), async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const { confirm_email, confirm_name } = c.req.valid('json');
+    if (user.sso_site_id) {
+        if (!user.display_name || confirm_name?.trim() !== user.display_name.trim()) {
+            return c.json({ error: 'Type your display name to confirm deleting your account' }, 400);
+        }
+    } else if (confirm_email?.trim().toLowerCase() !== user.email.toLowerCase()) {
+        return c.json({ error: 'Type your email address to confirm deleting your account' }, 400);
+    }
+
+    const db = new Database(c.env.DB);
+
+    // Sites would be left without an owner, so they have to go first
+    const sites = await db.getSitesByOwner(user.id);
+    if (sites.length > 0) {
+        return c.json({
+            error: 'Delete your sites before deleting your account',
+            sites: sites.map((site) => ({ id: site.id, name: site.name, domain: site.domain })),
+        }, 409);
+    }
+
+    const email = user.email.toLowerCase();
+    const deleteSiteIds = (await db.getUserCommentSites(user.id, email))
+        .filter((site) => parseSiteSettings(site.settings).privacy.deleted_account_comments === 'delete')
+        .map((site) => site.id);
+
+    const { deleted, anonymized } = await db.deleteUserAccount(user.id, email, deleteSiteIds);
+
+    // Uploaded avatar, if any
+    const storedAvatar = avatarKeyFromUrl(c.env, user.avatar_url);
+    const store = createAvatarStore(c.env);
+    if (storedAvatar && store) {
+        await store.delete(storedAvatar);
+    }
+    console.log(`[Auth] Deleted account ${user.id}: ${deleted} comment(s) deleted, ${anonymized} anonymized`);
+
+    const response = c.json({ success: true, comments_deleted: deleted, comments_anonymized: anonymized });
+    response.headers.set('Set-Cookie', createLogoutCookie(c.env));
+    return response;
+});
+
 // POST /api/v1/auth/logout - Logout
 auth.post('/logout', async (c) => {
     const db = new Database(c.env.DB);
@@ -299,4 +853,61 @@ auth.post('/logout', async (c) => {
     return response;
 });
 
+// GET /api/v1/auth/sessions - Where the current user is signed in
+auth.get('/sessions', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const token = getAuthToken(c);
+    const db = new Database(c.env.DB);
+    const sessions = await db.getUserSessions(user.id, token ? await hashToken(token) : null);
+
+    return c.json({ sessions });
+});
+
+// DELETE /api/v1/auth/sessions/:id - Revoke one of the current user's sessions
+auth.delete('/sessions/:id', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const sessionId = parseInt(c.req.param('id'));
+    if (isNaN(sessionId)) {
+        return c.json({ error: 'Invalid session id' }, 400);
+    }
+
+    const db = new Database(c.env.DB);
+    const token = getAuthToken(c);
+    const current = (await db.getUserSessions(user.id, token ? await hashToken(token) : null))
+        .find((session) => session.current);
+
+    if (!(await db.deleteUserSession(user.id, sessionId))) {
+        return c.json({ error: 'Session not found' }, 404);
+    }
+
+    const response = c.json({ success: true });
+    if (current?.id === sessionId) {
+        response.headers.set('Set-Cookie', createLogoutCookie(c.env));
+    }
+    return response;
+});
+
+// POST /api/v1/auth/logout-all - Sign out of every session, including this one
+auth.post('/logout-all', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const db = new Database(c.env.DB);
+    const revoked = await db.deleteUserSessions(user.id);
+
+    const response = c.json({ message: 'Logged out everywhere', revoked });
+    response.headers.set('Set-Cookie', createLogoutCookie(c.env));
+    return response;
+});
+
 export { auth };
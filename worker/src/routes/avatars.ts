@@ -0,0 +1,31 @@
+import { Hono } from 'hono';
+import type { Env } from '../types';
+import { createAvatarStore } from '../utils/object-store';
+
+const avatars = new Hono<{ Bindings: Env }>();
+
+// GET /api/v1/avatars/:userId/:file - Serve an uploaded avatar
+// Every upload gets a new file name, so responses can be cached indefinitely
+avatars.get('/:userId/:file', async (c) => {
+    const store = createAvatarStore(c.env);
+    if (!store) {
+        return c.json({ error: 'Not found' }, 404);
+    }
+
+    const object = await store.get(`${c.req.param('userId')}/${c.req.param('file')}`);
+    if (!object) {
+        return c.json({ error: 'Not found' }, 404);
+    }
+
+    return new Response(object.body, {
+        headers: {
+            'Content-Type': object.contentType,
+            'Content-Length': String(object.size),
+            'Cache-Control': 'public, max-age=31536000, immutable',
+            // Embedded by the widget on other sites
+            'Cross-Origin-Resource-Policy': 'cross-origin',
+        },
+    });
+});
+
+export { avatars };
@@ -0,0 +1,115 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import type { Env } from '../types';
+import { getSiteAccess } from '../utils/site-access';
+import {
+    BLOCKLIST_ACTIONS,
+    BLOCKLIST_KINDS,
+    formatBlocklistEntry,
+    isIpBlockingAvailable,
+    normalizeBlocklistValue,
+} from '../utils/blocklist';
+
+const blocklist = new Hono<{ Bindings: Env }>();
+
+// GET /api/v1/admin/sites/:id/blocklist - List a site's blocklist entries
+blocklist.get('/:id/blocklist', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'moderate');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const entries = await db.getBlocklistBySite(access.site.id);
+
+    return c.json({
+        entries: entries.map(formatBlocklistEntry),
+        ip_blocking_available: isIpBlockingAvailable(c.env),
+    });
+});
+
+// POST /api/v1/admin/sites/:id/blocklist - Block a commenter or filter content
+const createBlocklistSchema = z.object({
+    kind: z.enum(BLOCKLIST_KINDS),
+    value: z.string().min(1).max(500),
+    action: z.enum(BLOCKLIST_ACTIONS).default('reject'),
+    note: z.string().max(200).optional(),
+});
+
+blocklist.post('/:id/blocklist', zValidator('json', createBlocklistSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'moderate');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const body = c.req.valid('json');
+    const normalized = normalizeBlocklistValue(body.kind, body.value, c.env);
+    if (normalized.error !== undefined) {
+        return c.json({ error: normalized.error }, 400);
+    }
+
+    const entry = await db.createBlocklistEntry(access.site.id, {
+        kind: body.kind,
+        value: normalized.value,
+        action: body.action,
+        note: body.note?.trim() || undefined,
+        createdBy: access.user.id,
+    });
+    if (!entry) {
+        return c.json({ error: 'This entry is already on the blocklist' }, 409);
+    }
+
+    return c.json(formatBlocklistEntry(entry), 201);
+});
+
+// PATCH /api/v1/admin/sites/:id/blocklist/:entryId - Change an entry's action or note
+const updateBlocklistSchema = z.object({
+    action: z.enum(BLOCKLIST_ACTIONS).optional(),
+    note: z.string().max(200).nullable().optional(),
+});
+
+blocklist.patch('/:id/blocklist/:entryId', zValidator('json', updateBlocklistSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'moderate');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const entryId = parseInt(c.req.param('entryId'));
+    const entry = isNaN(entryId) ? null : await db.getBlocklistEntryById(entryId);
+    if (!entry || entry.site_id !== access.site.id) {
+        return c.json({ error: 'Blocklist entry not found' }, 404);
+    }
+
+    const body = c.req.valid('json');
+    const updated = await db.updateBlocklistEntry(entry.id, {
+        action: body.action,
+        note: body.note === undefined ? undefined : body.note?.trim() || null,
+    });
+
+    return c.json(formatBlocklistEntry(updated));
+});
+
+// DELETE /api/v1/admin/sites/:id/blocklist/:entryId - Remove an entry
+blocklist.delete('/:id/blocklist/:entryId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'moderate');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const entryId = parseInt(c.req.param('entryId'));
+    const entry = isNaN(entryId) ? null : await db.getBlocklistEntryById(entryId);
+    if (!entry || entry.site_id !== access.site.id) {
+        return c.json({ error: 'Blocklist entry not found' }, 404);
+    }
+
+    await db.deleteBlocklistEntry(entry.id);
+
+    return c.json({ success: true });
+});
+
+export { blocklist };
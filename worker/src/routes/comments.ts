@@ -2,16 +2,31 @@ import { Hono, Context } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { Database } from '../db';
-import { getAuthUser } from '../middleware';
+import { checkRateLimits, commentRateLimitRules, getAuthUser, getClientIp, hashToken } from '../middleware';
 import { verifyOriginToken } from './widget';
-import type { CommentResponse, Env, PageResponse } from '../types';
+import type { ApiKeyScope, AuthUser, Comment, CommentResponse, Env, PageResponse, ReactionStats, Site, SiteSettings, SpamCheckInput, SpamVerdict } from '../types';
 import {
     sanitizeAuthorName,
     sanitizeCommentContent,
     sanitizeEmail,
+    sanitizeMarkdownSource,
     sanitizePageTitle,
     sanitizeUrl
 } from '../utils/sanitize';
+import { decodeCursor, encodeCursor, parseThreadLimit } from '../utils/pagination';
+import { DEFAULT_SITE_SETTINGS, isWithinEditWindow, parseSiteSettings, resolveCommentStatus } from '../utils/site-settings';
+import { buildActorModerationAudit } from '../utils/moderation-log';
+import { queueCommentNotifications } from '../utils/notifications';
+import { moderationWebhookEvent, queueCommentWebhookEvents } from '../utils/webhooks';
+import { applySpamVerdict, checkCommentForSpam } from '../utils/spam';
+import { blocklistRejectionMessage, isIpBlockingAvailable, matchBlocklist } from '../utils/blocklist';
+import { renderMarkdown } from '../utils/markdown';
+import { DELETED_COMMENT_RETENTION_DAYS, isRestorable, tombstoneResponse } from '../utils/comment-deletion';
+import { queueGuestVerificationEmail } from '../utils/guest-verification';
+import { normalizeDomain } from '../utils/site-domains';
+import { authorizeSiteActor, getSiteActor } from '../utils/site-access';
+import { API_KEY_HEADER, apiKeyAllows, authenticateApiKey } from '../utils/api-keys';
+import { SSO_OTHER_SITE_ERROR, isOutsideSsoSite } from '../utils/sso';
 
 const comments = new Hono<{ Bindings: Env }>();
 
@@ -19,6 +34,24 @@ const comments = new Hono<{ Bindings: Env }>();
 // The old regex-based approach was vulnerable to bypasses
 // Now using strict allowlist-based sanitization that strips ALL HTML
 
+// A request that sends an API key must use one of the site's keys with the scope;
+// requests without one are left to the route's other checks
+async function checkApiKey(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    site: Site | null,
+    scope: ApiKeyScope
+): Promise<{ error: string; status: 401 | 403 } | null> {
+    const result = await authenticateApiKey(c, db);
+    if (result.error) {
+        return { error: result.error, status: result.status };
+    }
+    if (result.apiKey && !(site && apiKeyAllows(result.apiKey, site, scope))) {
+        return { error: `API key does not have the ${scope} scope for this site`, status: 403 };
+    }
+    return null;
+}
+
 // Validate that the request has a valid signed origin token
 // The token is obtained from /widget/init and proves the actual page origin
 // This prevents site impersonation attacks because:
@@ -26,11 +59,15 @@ const comments = new Hono<{ Bindings: Env }>();
 // 2. Token contains the domain from the Origin header (browser-set, can't be spoofed)
 // 3. Attacker can't forge a token for a domain they don't control
 
-async function validateOriginDomain(c: Context<{ Bindings: Env }>, claimedDomain: string): Promise<{ valid: boolean; error?: string }> {
-    // API key authenticated requests bypass origin check (for server-to-server integrations)
-    const apiKey = c.req.header('X-API-Key');
-    if (apiKey) {
-        return { valid: true };
+async function validateOriginDomain(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    claimedDomain: string
+): Promise<{ valid: boolean; error?: string; status?: 401 | 403 }> {
+    // Server-to-server integrations prove the site with one of its API keys instead
+    if (c.req.header(API_KEY_HEADER) !== undefined) {
+        const keyError = await checkApiKey(c, db, await db.getSiteByDomain(claimedDomain), 'comments:write');
+        return keyError ? { valid: false, ...keyError } : { valid: true };
     }
 
     // In development, allow bypassing
@@ -53,7 +90,7 @@ async function validateOriginDomain(c: Context<{ Bindings: Env }>, claimedDomain
     }
 
     // The token domain must match the claimed domain
-    if (tokenResult.domain !== claimedDomain) {
+    if (!tokenResult.domain || normalizeDomain(tokenResult.domain) !== normalizeDomain(claimedDomain)) {
         return {
             valid: false,
             error: `Token domain "${tokenResult.domain}" does not match claimed domain "${claimedDomain}"`
@@ -63,7 +100,101 @@ async function validateOriginDomain(c: Context<{ Bindings: Env }>, claimedDomain
     return { valid: true };
 }
 
-// GET /api/v1/sites/comments - Get page comments by domain and pageId
+// Reaction fields of a CommentResponse
+// likes/user_liked mirror the 'like' reaction for clients that predate reactions
+function reactionFields(stats?: ReactionStats): Pick<CommentResponse, 'likes' | 'user_liked' | 'reactions' | 'user_reaction'> {
+    const counts = stats?.counts ?? {};
+    return {
+        likes: counts.like ?? 0,
+        user_liked: stats?.user_reaction === 'like',
+        reactions: counts,
+        user_reaction: stats?.user_reaction ?? null,
+    };
+}
+
+// Resolve the initial status of a new comment from the site's moderation policy
+async function getNewCommentStatus(
+    db: Database,
+    site: Site,
+    settings: SiteSettings,
+    authUser: AuthUser | null
+): Promise<Comment['status']> {
+    // Trust is only earned by signed-in users; guest emails are unverified
+    const approvedCount = authUser && settings.moderation.trusted_commenter_threshold > 0
+        ? await db.getApprovedCommentCountByUser(site.id, authUser.id)
+        : 0;
+
+    return resolveCommentStatus(settings, { isGuest: !authUser, approvedCount });
+}
+
+type CommentScreening =
+    | { rejected: string }
+    | { rejected?: undefined; status: Comment['status']; verdict: SpamVerdict | null; shadowBanned: boolean };
+
+// Check the site's blocklist, then run the spam pipeline and combine both with the moderation policy
+async function screenNewComment(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    site: Site,
+    settings: SiteSettings,
+    authUser: AuthUser | null,
+    input: Omit<SpamCheckInput, 'siteId' | 'isGuest'>
+): Promise<CommentScreening> {
+    const email = input.authorEmail;
+    const block = matchBlocklist(await db.getBlocklistBySite(site.id), {
+        userId: authUser?.id ?? null,
+        email,
+        emailHash: email ? await hashToken(email.trim().toLowerCase()) : null,
+        ipAddress: isIpBlockingAvailable(c.env) ? getClientIp(c) : null,
+        content: input.content,
+    });
+    if (block?.action === 'reject') {
+        return { rejected: blocklistRejectionMessage(block) };
+    }
+
+    const verdict = await checkCommentForSpam(c.env, db, site, settings, {
+        ...input,
+        siteId: site.id,
+        isGuest: !authUser,
+    });
+    let status = applySpamVerdict(await getNewCommentStatus(db, site, settings, authUser), verdict);
+    if (block?.action === 'hold' && status !== 'spam') {
+        status = 'pending';
+    }
+
+    return { status, verdict, shadowBanned: block?.action === 'shadow_ban' };
+}
+
+// A reply must answer a comment that is still up on the same page
+async function isValidReplyTarget(db: Database, parentId: number, pageId: number): Promise<boolean> {
+    const parent = await db.getCommentById(parentId);
+    return !!parent && parent.page_id === pageId && !parent.deleted_at;
+}
+
+// Sanitize submitted content; Markdown keeps its source and adds the rendered HTML
+function prepareCommentContent(raw: string, markdown: boolean): { content: string; contentHtml: string | null } {
+    if (!markdown) {
+        return { content: sanitizeCommentContent(raw), contentHtml: null };
+    }
+    const content = sanitizeMarkdownSource(raw);
+    return { content, contentHtml: renderMarkdown(content) };
+}
+
+// Guests who left an email are asked to confirm it when the site wants verification.
+// Spam gets no email, so the comment form can't be used to mail arbitrary addresses
+function shouldVerifyGuestEmail(settings: SiteSettings, comment: Comment): boolean {
+    return settings.moderation.verify_guest_emails
+        && comment.user_id === null
+        && comment.author_email !== null
+        && comment.status !== 'spam';
+}
+
+// Spam is reported to the commenter as pending so the pipeline doesn't tip off spammers
+function publicCommentStatus(status: Comment['status']): Comment['status'] {
+    return status === 'spam' ? 'pending' : status;
+}
+
+// GET /api/v1/sites/comments - Get page comments by domain and pageId, paginated by top-level thread
 comments.get('/comments', async (c) => {
     const domain = c.req.query('domain');
     const pageId = c.req.query('pageId');
@@ -77,6 +208,13 @@ comments.get('/comments', async (c) => {
         return c.json({ error: 'pageId parameter is required' }, 400);
     }
 
+    const cursorParam = c.req.query('cursor');
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+        return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    const limit = parseThreadLimit(c.req.query('limit'));
+
     const db = new Database(c.env.DB);
 
     // Get site by domain
@@ -93,12 +231,23 @@ comments.get('/comments', async (c) => {
                 likes: 0,
                 user_liked: false,
                 comments: [],
+                next_cursor: null,
+                enabled_reactions: DEFAULT_SITE_SETTINGS.reactions.enabled,
+                markdown_enabled: DEFAULT_SITE_SETTINGS.formatting.markdown,
+                edit_history_public: DEFAULT_SITE_SETTINGS.editing.public_history,
             };
             return c.json(response);
         }
         return c.json({ error: 'Site not found for domain: ' + domain }, 404);
     }
 
+    const keyError = await checkApiKey(c, db, site, 'comments:read');
+    if (keyError) {
+        return c.json({ error: keyError.error }, keyError.status);
+    }
+
+    const settings = parseSiteSettings(site.settings);
+
     // Get user ID from auth if present
     const authUser = await getAuthUser(c);
     const userId = authUser?.id;
@@ -116,16 +265,24 @@ comments.get('/comments', async (c) => {
             likes: 0,
             user_liked: false,
             comments: [],
+            next_cursor: null,
+            enabled_reactions: settings.reactions.enabled,
+            markdown_enabled: settings.formatting.markdown,
+            edit_history_public: settings.editing.public_history,
         };
         return c.json(response);
     }
 
-    // Get comments
-    const pageComments = await db.getCommentsByPage(page.id);
+    // Get one page of threads (top-level comments with their replies)
+    const { comments: pageComments, nextCursor } = await db.getCommentsByPage(page.id, {
+        cursor: cursor ?? undefined,
+        limit,
+        viewerId: userId,
+    });
 
-    // Get like stats for all comments
+    // Get reaction stats for all comments
     const commentIds = pageComments.map((comment) => comment.id);
-    const likeStats = await db.getCommentLikeStatsBatch(commentIds, userId);
+    const reactionStats = await db.getCommentReactionStatsBatch(commentIds, userId);
 
     // Combine page stats and count in parallel to save a query
     const [pageLikes, commentCount] = await Promise.all([
@@ -135,15 +292,19 @@ comments.get('/comments', async (c) => {
 
     // Build response - no runtime hashing needed!
     const commentResponses: CommentResponse[] = pageComments.map((comment) => {
-        const stats = likeStats.get(comment.id) ?? { total_likes: 0, user_liked: false };
+        if (comment.deleted_at) {
+            return tombstoneResponse(comment);
+        }
         return {
             id: comment.id,
             author_name: comment.author_name ?? '',
             author_email_hash: comment.author_email_hash ?? null,
+            author_avatar_url: comment.author_avatar_url ?? null,
             content: comment.content,
+            content_html: comment.content_html,
             parent_id: comment.parent_id,
-            likes: stats.total_likes,
-            user_liked: stats.user_liked,
+            ...reactionFields(reactionStats.get(comment.id)),
+            edited: comment.is_edited === 1,
             created_at: comment.created_at,
             replies: [],
         };
@@ -157,6 +318,10 @@ comments.get('/comments', async (c) => {
         likes: pageLikes.total_likes,
         user_liked: pageLikes.user_liked,
         comments: commentResponses,
+        next_cursor: nextCursor ? encodeCursor(nextCursor) : null,
+        enabled_reactions: settings.reactions.enabled,
+        markdown_enabled: settings.formatting.markdown,
+        edit_history_public: settings.editing.public_history,
     };
 
     return c.json(response);
@@ -172,6 +337,9 @@ const createCommentByDomainSchema = z.object({
     parent_id: z.number().optional(),
     page_title: z.string().optional(),
     page_url: z.string().optional(),
+    // Spam signals from the widget form
+    honeypot: z.string().max(1000).optional(),
+    elapsed_ms: z.number().int().min(0).optional(),
 });
 
 comments.post('/comments', zValidator('json', createCommentByDomainSchema), async (c) => {
@@ -180,9 +348,9 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
 
     // SECURITY: Validate that the request Origin matches the claimed domain
     // This prevents site impersonation attacks
-    const originValidation = await validateOriginDomain(c, body.domain);
+    const originValidation = await validateOriginDomain(c, db, body.domain);
     if (!originValidation.valid) {
-        return c.json({ error: originValidation.error || 'Origin validation failed' }, 403);
+        return c.json({ error: originValidation.error || 'Origin validation failed' }, originValidation.status ?? 403);
     }
 
     // Get site by domain
@@ -197,10 +365,12 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
                 id: Date.now(), // Use timestamp as mock ID
                 author_name: body.author_name || 'Anonymous',
                 author_email_hash: null,
+                author_avatar_url: null,
                 content: body.content,
+                content_html: null,
                 parent_id: body.parent_id || null,
-                likes: 0,
-                user_liked: false,
+                ...reactionFields(),
+                edited: false,
                 created_at: new Date().toISOString(),
                 replies: [],
             };
@@ -217,8 +387,13 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
     // Get or create page using pageId as the slug (with sanitized metadata)
     const page = await db.getOrCreatePage(site.id, body.pageId, sanitizedPageTitle, sanitizedPageUrl);
 
+    if (body.parent_id !== undefined && !(await isValidReplyTarget(db, body.parent_id, page.id))) {
+        return c.json({ error: 'Invalid parent_id' }, 400);
+    }
+
     // Get auth user if present
     const authUser = await getAuthUser(c);
+    const settings = parseSiteSettings(site.settings);
 
     // Validate: either authenticated or has author_name
     let userId: number | undefined;
@@ -227,6 +402,11 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
     let effectiveAuthorName = '';
 
     if (authUser) {
+        // Users signed in by a host site's SSO only exist on that site
+        if (isOutsideSsoSite(authUser, site.id)) {
+            return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+        }
+
         userId = authUser.id;
         // Don't store redundant info in comments table
         authorName = undefined;
@@ -234,6 +414,10 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
 
         effectiveAuthorName = authUser.display_name || authUser.email.split('@')[0];
     } else {
+        if (!settings.moderation.allow_guest_comments) {
+            return c.json({ error: 'Guest comments are disabled for this site. Please sign in to comment.' }, 403);
+        }
+
         if (!body.author_name?.trim()) {
             return c.json({ error: 'author_name is required for anonymous comments' }, 400);
         }
@@ -247,6 +431,11 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
         effectiveAuthorName = sanitizedName;
     }
 
+    const limited = await checkRateLimits(c, commentRateLimitRules(c, site.id, settings, { userId, email: authorEmail }));
+    if (limited) {
+        return limited;
+    }
+
     // Get client info only if privacy settings allow (privacy by default)
     const collectIp = c.env.COLLECT_IP_ADDRESS === 'true';
     const collectUa = c.env.COLLECT_USER_AGENT === 'true';
@@ -258,8 +447,22 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
         ? c.req.header('User-Agent')
         : null;
 
-    // Sanitize comment content (strips all HTML)
-    const sanitizedContent = sanitizeCommentContent(body.content);
+    // Sanitize comment content (strips all HTML, or renders allowlisted Markdown)
+    const { content: sanitizedContent, contentHtml } = prepareCommentContent(body.content, settings.formatting.markdown);
+
+    const screening = await screenNewComment(c, db, site, settings, authUser, {
+        content: sanitizedContent,
+        authorName: effectiveAuthorName,
+        authorEmail: authUser ? authUser.email : authorEmail ?? null,
+        ipAddress: ipAddress ?? null,
+        userAgent: userAgent ?? null,
+        pageUrl: page.url,
+        honeypot: body.honeypot,
+        elapsedMs: body.elapsed_ms,
+    });
+    if (screening.rejected !== undefined) {
+        return c.json({ error: screening.rejected }, 403);
+    }
 
     const comment = await db.createComment({
         siteId: site.id,
@@ -269,22 +472,43 @@ comments.post('/comments', zValidator('json', createCommentByDomainSchema), asyn
         authorEmail,
         parentId: body.parent_id,
         content: sanitizedContent,
+        contentHtml,
         ipAddress: ipAddress ?? undefined,
         userAgent: userAgent ?? undefined,
+        status: screening.status,
+        spamScore: screening.verdict?.score,
+        spamReasons: screening.verdict?.reasons,
+        shadowBanned: screening.shadowBanned,
     });
+    const verifyEmail = shouldVerifyGuestEmail(settings, comment);
 
     const response: CommentResponse = {
         id: comment.id,
         author_name: effectiveAuthorName,
         author_email_hash: comment.author_email_hash ?? null,
+        author_avatar_url: authUser?.avatar_url ?? null,
         content: comment.content,
+        content_html: comment.content_html,
         parent_id: comment.parent_id,
-        likes: 0,
-        user_liked: false,
+        ...reactionFields(),
+        edited: false,
         created_at: comment.created_at,
         replies: [],
+        status: publicCommentStatus(comment.status),
+        verification_email_sent: verifyEmail,
     };
 
+    // Shadow-banned comments stay invisible to everyone but their author
+    if (!comment.shadow_banned) {
+        queueCommentWebhookEvents(c, 'comment.created', [comment]);
+        if (comment.status === 'approved') {
+            queueCommentNotifications(c, [comment.id]);
+        }
+    }
+    if (verifyEmail) {
+        queueGuestVerificationEmail(c, comment, { authorName: effectiveAuthorName, pageTitle: page.title || page.slug });
+    }
+
     return c.json(response, 201);
 });
 
@@ -298,6 +522,13 @@ comments.get('/:siteId/pages/:slug', async (c) => {
         return c.json({ error: 'Invalid site_id' }, 400);
     }
 
+    const cursorParam = c.req.query('cursor');
+    const cursor = cursorParam ? decodeCursor(cursorParam) : null;
+    if (cursorParam && !cursor) {
+        return c.json({ error: 'Invalid cursor' }, 400);
+    }
+    const limit = parseThreadLimit(c.req.query('limit'));
+
     const db = new Database(c.env.DB);
 
     // Get site
@@ -306,6 +537,13 @@ comments.get('/:siteId/pages/:slug', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
+    const keyError = await checkApiKey(c, db, site, 'comments:read');
+    if (keyError) {
+        return c.json({ error: keyError.error }, keyError.status);
+    }
+
+    const settings = parseSiteSettings(site.settings);
+
     // Get user ID from auth if present
     const authUser = await getAuthUser(c);
     const userId = authUser?.id;
@@ -324,16 +562,24 @@ comments.get('/:siteId/pages/:slug', async (c) => {
             likes: 0,
             user_liked: false,
             comments: [],
+            next_cursor: null,
+            enabled_reactions: settings.reactions.enabled,
+            markdown_enabled: settings.formatting.markdown,
+            edit_history_public: settings.editing.public_history,
         };
         return c.json(response);
     }
 
-    // Get comments
-    const pageComments = await db.getCommentsByPage(page.id);
+    // Get one page of threads (top-level comments with their replies)
+    const { comments: pageComments, nextCursor } = await db.getCommentsByPage(page.id, {
+        cursor: cursor ?? undefined,
+        limit,
+        viewerId: userId,
+    });
 
-    // Get like stats for all comments
+    // Get reaction stats for all comments
     const commentIds = pageComments.map((comment) => comment.id);
-    const likeStats = await db.getCommentLikeStatsBatch(commentIds, userId);
+    const reactionStats = await db.getCommentReactionStatsBatch(commentIds, userId);
 
     // Combine page stats and count in parallel
     const [pageLikes, commentCount] = await Promise.all([
@@ -343,15 +589,19 @@ comments.get('/:siteId/pages/:slug', async (c) => {
 
     // Build response - no runtime hashing needed!
     const commentResponses: CommentResponse[] = pageComments.map((comment) => {
-        const stats = likeStats.get(comment.id) ?? { total_likes: 0, user_liked: false };
+        if (comment.deleted_at) {
+            return tombstoneResponse(comment);
+        }
         return {
             id: comment.id,
             author_name: comment.author_name ?? '',
             author_email_hash: comment.author_email_hash ?? null,
+            author_avatar_url: comment.author_avatar_url ?? null,
             content: comment.content,
+            content_html: comment.content_html,
             parent_id: comment.parent_id,
-            likes: stats.total_likes,
-            user_liked: stats.user_liked,
+            ...reactionFields(reactionStats.get(comment.id)),
+            edited: comment.is_edited === 1,
             created_at: comment.created_at,
             replies: [],
         };
@@ -365,6 +615,10 @@ comments.get('/:siteId/pages/:slug', async (c) => {
         likes: pageLikes.total_likes,
         user_liked: pageLikes.user_liked,
         comments: commentResponses,
+        next_cursor: nextCursor ? encodeCursor(nextCursor) : null,
+        enabled_reactions: settings.reactions.enabled,
+        markdown_enabled: settings.formatting.markdown,
+        edit_history_public: settings.editing.public_history,
     };
 
     return c.json(response);
@@ -378,6 +632,9 @@ const createCommentSchema = z.object({
     parent_id: z.number().optional(),
     page_title: z.string().optional(),
     page_url: z.string().optional(),
+    // Spam signals from the widget form
+    honeypot: z.string().max(1000).optional(),
+    elapsed_ms: z.number().int().min(0).optional(),
 });
 
 comments.post('/:siteId/pages/:slug', zValidator('json', createCommentSchema), async (c) => {
@@ -397,11 +654,23 @@ comments.post('/:siteId/pages/:slug', zValidator('json', createCommentSchema), a
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    // Get or create page
-    const page = await db.getOrCreatePage(site.id, slug, body.page_title, body.page_url);
+    const keyError = await checkApiKey(c, db, site, 'comments:write');
+    if (keyError) {
+        return c.json({ error: keyError.error }, keyError.status);
+    }
+
+    // Get or create page (with sanitized metadata)
+    const sanitizedPageTitle = body.page_title ? sanitizePageTitle(body.page_title) : undefined;
+    const sanitizedPageUrl = body.page_url ? (sanitizeUrl(body.page_url) ?? undefined) : undefined;
+    const page = await db.getOrCreatePage(site.id, slug, sanitizedPageTitle, sanitizedPageUrl);
+
+    if (body.parent_id !== undefined && !(await isValidReplyTarget(db, body.parent_id, page.id))) {
+        return c.json({ error: 'Invalid parent_id' }, 400);
+    }
 
     // Get auth user if present
     const authUser = await getAuthUser(c);
+    const settings = parseSiteSettings(site.settings);
 
     // Validate: either authenticated or has author_name
     let userId: number | undefined;
@@ -410,6 +679,11 @@ comments.post('/:siteId/pages/:slug', zValidator('json', createCommentSchema), a
     let effectiveAuthorName = '';
 
     if (authUser) {
+        // Users signed in by a host site's SSO only exist on that site
+        if (isOutsideSsoSite(authUser, site.id)) {
+            return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+        }
+
         userId = authUser.id;
         // Don't store redundant info in comments table
         authorName = undefined;
@@ -417,19 +691,49 @@ comments.post('/:siteId/pages/:slug', zValidator('json', createCommentSchema), a
 
         effectiveAuthorName = authUser.display_name || authUser.email.split('@')[0];
     } else {
+        if (!settings.moderation.allow_guest_comments) {
+            return c.json({ error: 'Guest comments are disabled for this site. Please sign in to comment.' }, 403);
+        }
+
         if (!body.author_name?.trim()) {
             return c.json({ error: 'author_name is required for anonymous comments' }, 400);
         }
-        authorName = body.author_name;
-        authorEmail = body.author_email;
 
-        effectiveAuthorName = authorName;
+        // Sanitize guest author fields
+        const sanitizedName = sanitizeAuthorName(body.author_name);
+        const sanitizedMail = body.author_email ? sanitizeEmail(body.author_email) : undefined;
+
+        authorName = sanitizedName;
+        authorEmail = sanitizedMail ?? undefined;
+        effectiveAuthorName = sanitizedName;
+    }
+
+    const limited = await checkRateLimits(c, commentRateLimitRules(c, site.id, settings, { userId, email: authorEmail }));
+    if (limited) {
+        return limited;
     }
 
     // Get client info
     const ipAddress = c.req.header('CF-Connecting-IP') ?? c.req.header('X-Forwarded-For');
     const userAgent = c.req.header('User-Agent');
 
+    // Sanitize comment content (strips all HTML, or renders allowlisted Markdown)
+    const { content: sanitizedContent, contentHtml } = prepareCommentContent(body.content, settings.formatting.markdown);
+
+    const screening = await screenNewComment(c, db, site, settings, authUser, {
+        content: sanitizedContent,
+        authorName: effectiveAuthorName,
+        authorEmail: authUser ? authUser.email : authorEmail ?? null,
+        ipAddress: ipAddress ?? null,
+        userAgent: userAgent ?? null,
+        pageUrl: page.url,
+        honeypot: body.honeypot,
+        elapsedMs: body.elapsed_ms,
+    });
+    if (screening.rejected !== undefined) {
+        return c.json({ error: screening.rejected }, 403);
+    }
+
     const comment = await db.createComment({
         siteId: site.id,
         pageId: page.id,
@@ -437,32 +741,55 @@ comments.post('/:siteId/pages/:slug', zValidator('json', createCommentSchema), a
         authorName,
         authorEmail,
         parentId: body.parent_id,
-        content: body.content,
+        content: sanitizedContent,
+        contentHtml,
         ipAddress: ipAddress ?? undefined,
         userAgent: userAgent ?? undefined,
+        status: screening.status,
+        spamScore: screening.verdict?.score,
+        spamReasons: screening.verdict?.reasons,
+        shadowBanned: screening.shadowBanned,
     });
+    const verifyEmail = shouldVerifyGuestEmail(settings, comment);
 
     const response: CommentResponse = {
         id: comment.id,
         author_name: effectiveAuthorName,
         author_email_hash: comment.author_email_hash ?? null,
+        author_avatar_url: authUser?.avatar_url ?? null,
         content: comment.content,
+        content_html: comment.content_html,
         parent_id: comment.parent_id,
-        likes: 0,
-        user_liked: false,
+        ...reactionFields(),
+        edited: false,
         created_at: comment.created_at,
         replies: [],
+        status: publicCommentStatus(comment.status),
+        verification_email_sent: verifyEmail,
     };
 
+    // Shadow-banned comments stay invisible to everyone but their author
+    if (!comment.shadow_banned) {
+        queueCommentWebhookEvents(c, 'comment.created', [comment]);
+        if (comment.status === 'approved') {
+            queueCommentNotifications(c, [comment.id]);
+        }
+    }
+    if (verifyEmail) {
+        queueGuestVerificationEmail(c, comment, { authorName: effectiveAuthorName, pageTitle: page.title || page.slug });
+    }
+
     return c.json(response, 201);
 });
 
-// GET /api/v1/sites/:siteId/comments - List all comments for a site (owner only)
+// GET /api/v1/sites/:siteId/comments - List all comments for a site (site team, or an API key with comments:read)
 comments.get('/:siteId/comments', async (c) => {
-    const user = await getAuthUser(c);
-    if (!user) {
-        return c.json({ error: 'Authentication required' }, 401);
+    const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
     }
+    const { actor } = auth;
 
     const siteId = parseInt(c.req.param('siteId'));
     if (isNaN(siteId)) {
@@ -473,14 +800,11 @@ comments.get('/:siteId/comments', async (c) => {
     const limit = parseInt(c.req.query('limit') || '50');
     const offset = parseInt(c.req.query('offset') || '0');
 
-    const db = new Database(c.env.DB);
-
-    // Check site ownership
     const site = await db.getSiteById(siteId);
     if (!site) {
         return c.json({ error: 'Site not found' }, 404);
     }
-    if (site.owner_id !== user.id) {
+    if (!(await authorizeSiteActor(db, site, actor, 'view'))) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -494,37 +818,81 @@ comments.get('/:siteId/comments', async (c) => {
     });
 });
 
-// DELETE /api/v1/comments/:id - Delete comment
+// DELETE /api/v1/comments/:id - Delete comment (optional ?reason= is recorded in the moderation log)
 comments.delete('/comments/:id', async (c) => {
-    const user = await getAuthUser(c);
-    if (!user) {
-        return c.json({ error: 'Authentication required' }, 401);
+    const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
     }
+    const { actor } = auth;
 
     const commentId = parseInt(c.req.param('id'));
     if (isNaN(commentId)) {
         return c.json({ error: 'Invalid comment_id' }, 400);
     }
 
+    const comment = await db.getCommentById(commentId);
+    if (!comment || comment.deleted_at) {
+        return c.json({ error: 'Comment not found' }, 404);
+    }
+
+    // Check if user is the comment author OR can moderate the site
+    const site = await db.getSiteById(comment.site_id);
+    const role = site ? await authorizeSiteActor(db, site, actor, 'moderate') : null;
+    const isAuthor = !!actor.user && comment.user_id === actor.user.id;
+
+    if (!role && !isAuthor) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const audit = buildActorModerationAudit(actor, role ?? 'author', c.req.query('reason'));
+    await db.removeComment(comment, audit);
+    queueCommentWebhookEvents(c, 'comment.deleted', [comment]);
+
+    return c.json({ success: true });
+});
+
+// POST /api/v1/comments/:id/restore - Undo a delete (site moderators or a moderate-scoped API key, within the retention period)
+// Optional ?reason= is recorded in the moderation log
+comments.post('/comments/:id/restore', async (c) => {
     const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
+    }
+    const { actor } = auth;
+
+    const commentId = parseInt(c.req.param('id'));
+    if (isNaN(commentId)) {
+        return c.json({ error: 'Invalid comment_id' }, 400);
+    }
 
     const comment = await db.getCommentById(commentId);
     if (!comment) {
         return c.json({ error: 'Comment not found' }, 404);
     }
 
-    // Check if user is the comment author OR site owner
     const site = await db.getSiteById(comment.site_id);
-    const isOwner = site?.owner_id === user.id;
-    const isAuthor = comment.user_id === user.id;
-
-    if (!isOwner && !isAuthor) {
+    const role = site ? await authorizeSiteActor(db, site, actor, 'moderate') : null;
+    if (!role) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
-    await db.deleteComment(commentId);
+    if (!comment.deleted_at) {
+        return c.json({ error: 'Comment is not deleted' }, 409);
+    }
+    if (!isRestorable(comment)) {
+        return c.json({ error: `Deleted comments can only be restored within ${DELETED_COMMENT_RETENTION_DAYS} days` }, 410);
+    }
+
+    await db.restoreComment(comment, buildActorModerationAudit(actor, role, c.req.query('reason')));
 
-    return c.json({ success: true });
+    return c.json({
+        id: comment.id,
+        status: comment.status,
+        restored: true,
+    });
 });
 
 // PATCH /api/v1/comments/:id - Edit comment (author only)
@@ -547,7 +915,7 @@ comments.patch('/comments/:id', zValidator('json', editCommentSchema), async (c)
     const db = new Database(c.env.DB);
 
     const comment = await db.getCommentById(commentId);
-    if (!comment) {
+    if (!comment || comment.deleted_at) {
         return c.json({ error: 'Comment not found' }, 404);
     }
 
@@ -556,18 +924,30 @@ comments.patch('/comments/:id', zValidator('json', editCommentSchema), async (c)
         return c.json({ error: 'Forbidden' }, 403);
     }
 
-    // Sanitize content for XSS prevention (strips all HTML)
-    const sanitizedContent = sanitizeCommentContent(body.content);
-    const updated = await db.updateComment(commentId, sanitizedContent);
+    const site = await db.getSiteById(comment.site_id);
+    if (!isWithinEditWindow(parseSiteSettings(site?.settings), comment.created_at)) {
+        return c.json({ error: 'This comment can no longer be edited' }, 403);
+    }
+
+    // Sanitize content for XSS prevention; a comment keeps the format it was posted in
+    const { content: sanitizedContent, contentHtml } = prepareCommentContent(body.content, comment.content_html !== null);
+
+    // Saving the same text again doesn't make a new revision
+    const updated = sanitizedContent === comment.content
+        ? comment
+        : await db.updateComment(commentId, sanitizedContent, contentHtml);
+    const reactionStats = await db.getCommentReactionStats(commentId, user.id);
 
     const response: CommentResponse = {
         id: updated.id,
         author_name: updated.author_name ?? '',
         author_email_hash: updated.author_email_hash ?? null,
+        author_avatar_url: user.avatar_url,
         content: updated.content,
+        content_html: updated.content_html,
         parent_id: updated.parent_id,
-        likes: 0, // Would need to fetch again
-        user_liked: false,
+        ...reactionFields(reactionStats),
+        edited: updated.is_edited === 1,
         created_at: updated.created_at,
         replies: [],
     };
@@ -575,16 +955,61 @@ comments.patch('/comments/:id', zValidator('json', editCommentSchema), async (c)
     return c.json(response);
 });
 
-// PATCH /api/v1/comments/:id/status - Moderate comment (site owner only)
+// GET /api/v1/comments/:id/revisions - Earlier versions of an edited comment
+// The site's team can always see them; readers only when the site makes edit history public
+comments.get('/comments/:id/revisions', async (c) => {
+    const commentId = parseInt(c.req.param('id'));
+    if (isNaN(commentId)) {
+        return c.json({ error: 'Invalid comment_id' }, 400);
+    }
+
+    const db = new Database(c.env.DB);
+
+    const comment = await db.getCommentById(commentId);
+    if (!comment || comment.deleted_at) {
+        return c.json({ error: 'Comment not found' }, 404);
+    }
+
+    const site = await db.getSiteById(comment.site_id);
+    const settings = parseSiteSettings(site?.settings);
+    const isPublic = settings.editing.public_history && await db.isCommentPubliclyVisible(comment.id);
+
+    if (!isPublic) {
+        const auth = await getSiteActor(c, db);
+        if (!auth.actor) {
+            return c.json({ error: auth.error }, auth.status);
+        }
+        if (!site || !(await authorizeSiteActor(db, site, auth.actor, 'view'))) {
+            return c.json({ error: 'Forbidden' }, 403);
+        }
+    }
+
+    const revisions = await db.getCommentRevisions(comment.id);
+
+    return c.json({
+        comment_id: comment.id,
+        revisions: revisions.map((revision) => ({
+            id: revision.id,
+            content: revision.content,
+            content_html: revision.content_html,
+            replaced_at: revision.created_at,
+        })),
+    });
+});
+
+// PATCH /api/v1/comments/:id/status - Moderate comment (site moderators, or an API key with the moderate scope)
 const moderateCommentSchema = z.object({
     status: z.enum(['pending', 'approved', 'rejected', 'spam']),
+    reason: z.string().max(500).optional(),
 });
 
 comments.patch('/comments/:id/status', zValidator('json', moderateCommentSchema), async (c) => {
-    const user = await getAuthUser(c);
-    if (!user) {
-        return c.json({ error: 'Authentication required' }, 401);
+    const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
     }
+    const { actor } = auth;
 
     const commentId = parseInt(c.req.param('id'));
     if (isNaN(commentId)) {
@@ -592,20 +1017,27 @@ comments.patch('/comments/:id/status', zValidator('json', moderateCommentSchema)
     }
 
     const body = c.req.valid('json');
-    const db = new Database(c.env.DB);
 
     const comment = await db.getCommentById(commentId);
-    if (!comment) {
+    if (!comment || comment.deleted_at) {
         return c.json({ error: 'Comment not found' }, 404);
     }
 
-    // Only site owner can moderate
     const site = await db.getSiteById(comment.site_id);
-    if (!site || site.owner_id !== user.id) {
+    const role = site ? await authorizeSiteActor(db, site, actor, 'moderate') : null;
+    if (!role) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
-    await db.updateCommentStatus(commentId, body.status);
+    await db.moderateComment(comment, body.status, buildActorModerationAudit(actor, role, body.reason));
+
+    const event = moderationWebhookEvent(body.status);
+    if (event) {
+        queueCommentWebhookEvents(c, event, [comment], body.status);
+    }
+    if (body.status === 'approved') {
+        queueCommentNotifications(c, [comment.id]);
+    }
 
     return c.json({
         id: comment.id,
@@ -0,0 +1,119 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import type { Env } from '../types';
+import { VERIFICATION_METHODS, generateVerificationToken, verifyDomain } from '../utils/domain-verification';
+import { getSiteAccess } from '../utils/site-access';
+import { domainSchema, formatSiteDomain, isLocalhostOrIP } from '../utils/site-domains';
+
+const domains = new Hono<{ Bindings: Env }>();
+
+// GET /api/v1/admin/sites/:id/domains - List a site's domain aliases
+domains.get('/:id/domains', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'view');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const aliases = await db.getSiteDomains(access.site.id);
+
+    return c.json({
+        primary: { domain: access.site.domain, verified: !!access.site.verified },
+        aliases: aliases.map(formatSiteDomain),
+    });
+});
+
+// POST /api/v1/admin/sites/:id/domains - Add an alias that shares the site's comments
+const createDomainSchema = z.object({
+    domain: domainSchema,
+});
+
+domains.post('/:id/domains', zValidator('json', createDomainSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const { domain } = c.req.valid('json');
+
+    // Block localhost/IP addresses in production
+    if (c.env.ENVIRONMENT === 'production' && isLocalhostOrIP(domain)) {
+        return c.json({ error: 'Localhost and IP addresses are not allowed as domains in production' }, 400);
+    }
+
+    if (await db.isDomainTaken(domain, access.site.id)) {
+        return c.json({ error: 'Domain already registered' }, 409);
+    }
+
+    const alias = await db.createSiteDomain(access.site.id, domain, generateVerificationToken());
+    if (!alias) {
+        return c.json({ error: 'Domain already registered' }, 409);
+    }
+
+    return c.json(formatSiteDomain(alias), 201);
+});
+
+// POST /api/v1/admin/sites/:id/domains/:domainId/verify - Check an alias's verification
+const verifyDomainSchema = z.object({
+    method: z.enum(VERIFICATION_METHODS).default('file'),
+});
+
+domains.post('/:id/domains/:domainId/verify', zValidator('json', verifyDomainSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const domainId = parseInt(c.req.param('domainId'));
+    if (isNaN(domainId)) {
+        return c.json({ error: 'Invalid domain_id' }, 400);
+    }
+
+    const alias = await db.getSiteDomain(access.site.id, domainId);
+    if (!alias) {
+        return c.json({ error: 'Domain not found' }, 404);
+    }
+
+    const { method } = c.req.valid('json');
+    const result = await verifyDomain(c.env, method, alias.domain, alias.verification_token);
+
+    if (result.success) {
+        await db.markSiteDomainVerified(alias.id, method);
+        return c.json({
+            verified: true,
+            method,
+            message: `${alias.domain} successfully verified!`,
+        });
+    }
+
+    return c.json({
+        verified: false,
+        error: result.error,
+    });
+});
+
+// DELETE /api/v1/admin/sites/:id/domains/:domainId - Remove an alias
+domains.delete('/:id/domains/:domainId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const domainId = parseInt(c.req.param('domainId'));
+    if (isNaN(domainId)) {
+        return c.json({ error: 'Invalid domain_id' }, 400);
+    }
+
+    if (!(await db.deleteSiteDomain(access.site.id, domainId))) {
+        return c.json({ error: 'Domain not found' }, 404);
+    }
+
+    return c.json({ success: true });
+});
+
+export { domains };
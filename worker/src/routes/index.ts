@@ -1,6 +1,13 @@
+export { apiKeys } from './api-keys';
 export { auth } from './auth';
+export { avatars } from './avatars';
+export { blocklist } from './blocklist';
 export { comments } from './comments';
+export { domains } from './domains';
 export { likes } from './likes';
+export { notifications } from './notifications';
 export { sites } from './sites';
 export { superadmin } from './superadmin';
+export { team } from './team';
+export { webhooks } from './webhooks';
 export { widget } from './widget';
@@ -1,10 +1,22 @@
 import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
 import { Database } from '../db';
-import { getAuthUser } from '../middleware';
-import type { Env } from '../types';
+import { LIKE_RATE_LIMIT, getAuthUser, rateLimit } from '../middleware';
+import type { AuthUser, Comment, Env, ReactionStats, ReactionType } from '../types';
+import { REACTION_TYPES, parseSiteSettings } from '../utils/site-settings';
+import { queueWebhookEvent, webhookPage } from '../utils/webhooks';
+import { SSO_OTHER_SITE_ERROR, isOutsideSsoSite } from '../utils/sso';
 
 const likes = new Hono<{ Bindings: Env }>();
 
+// Likes and reactions share one per-IP budget for mutations
+// (explicit paths: this router is mounted at /api/v1, so '*' would cover every route)
+const likeRateLimit = rateLimit({ bucket: 'likes', ...LIKE_RATE_LIMIT });
+likes.use('/pages/:pageId/likes', likeRateLimit);
+likes.use('/comments/:commentId/likes', likeRateLimit);
+likes.use('/comments/:commentId/reactions', likeRateLimit);
+
 // ==========================================
 // Page Likes
 // ==========================================
@@ -36,10 +48,23 @@ likes.post('/pages/:pageId/likes', async (c) => {
     }
 
     const db = new Database(c.env.DB);
-    await db.addPageLike(pageId, authUser.id);
+    const page = await db.getPageById(pageId);
+    if (page && isOutsideSsoSite(authUser, page.site_id)) {
+        return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+    }
+
+    const added = await db.addPageLike(pageId, authUser.id);
     // Get fresh stats (user_liked will be true, but count may have changed)
     const stats = await db.getPageLikeStats(pageId, authUser.id);
 
+    // Only a new like is an event; repeated POSTs are no-ops
+    if (added && page) {
+        queueWebhookEvent(c, page.site_id, 'page.liked', {
+            page: webhookPage(page),
+            total_likes: stats.total_likes,
+        });
+    }
+
     return c.json(stats);
 });
 
@@ -56,6 +81,11 @@ likes.delete('/pages/:pageId/likes', async (c) => {
     }
 
     const db = new Database(c.env.DB);
+    const page = await db.getPageById(pageId);
+    if (page && isOutsideSsoSite(authUser, page.site_id)) {
+        return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+    }
+
     await db.removePageLike(pageId, authUser.id);
     // Get fresh stats (user_liked will be false, but count may have changed)
     const stats = await db.getPageLikeStats(pageId, authUser.id);
@@ -67,6 +97,30 @@ likes.delete('/pages/:pageId/likes', async (c) => {
 // Comment Likes
 // ==========================================
 
+// A comment can take a new like or reaction while it is approved, not deleted,
+// and the reaction is one the site owner has enabled
+async function getReactableComment(
+    db: Database,
+    user: AuthUser,
+    commentId: number,
+    reaction: ReactionType
+): Promise<{ comment: Comment } | { comment?: undefined; error: string; status: 400 | 403 | 404 }> {
+    const comment = await db.getCommentById(commentId);
+    if (!comment || comment.deleted_at || comment.status !== 'approved') {
+        return { error: 'Comment not found', status: 404 };
+    }
+    if (isOutsideSsoSite(user, comment.site_id)) {
+        return { error: SSO_OTHER_SITE_ERROR, status: 403 };
+    }
+
+    const site = await db.getSiteById(comment.site_id);
+    if (!parseSiteSettings(site?.settings).reactions.enabled.includes(reaction)) {
+        return { error: 'This reaction is not enabled for this site', status: 400 };
+    }
+
+    return { comment };
+}
+
 // GET /api/v1/comments/:commentId/likes
 likes.get('/comments/:commentId/likes', async (c) => {
     const commentId = parseInt(c.req.param('commentId'));
@@ -94,6 +148,11 @@ likes.post('/comments/:commentId/likes', async (c) => {
     }
 
     const db = new Database(c.env.DB);
+    const target = await getReactableComment(db, authUser, commentId, 'like');
+    if (!target.comment) {
+        return c.json({ error: target.error }, target.status);
+    }
+
     await db.addCommentLike(commentId, authUser.id);
     // Get fresh stats
     const stats = await db.getCommentLikeStats(commentId, authUser.id);
@@ -114,6 +173,11 @@ likes.delete('/comments/:commentId/likes', async (c) => {
     }
 
     const db = new Database(c.env.DB);
+    const comment = await db.getCommentById(commentId);
+    if (comment && isOutsideSsoSite(authUser, comment.site_id)) {
+        return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+    }
+
     await db.removeCommentLike(commentId, authUser.id);
     // Get fresh stats
     const stats = await db.getCommentLikeStats(commentId, authUser.id);
@@ -121,4 +185,86 @@ likes.delete('/comments/:commentId/likes', async (c) => {
     return c.json(stats);
 });
 
+// ==========================================
+// Comment Reactions
+// ==========================================
+
+// Shape reaction stats for API responses (likes/user_liked kept for older clients)
+function reactionResponse(stats: ReactionStats) {
+    return {
+        reactions: stats.counts,
+        user_reaction: stats.user_reaction,
+        likes: stats.counts.like ?? 0,
+        user_liked: stats.user_reaction === 'like',
+    };
+}
+
+// GET /api/v1/comments/:commentId/reactions
+likes.get('/comments/:commentId/reactions', async (c) => {
+    const commentId = parseInt(c.req.param('commentId'));
+    if (isNaN(commentId)) {
+        return c.json({ error: 'Invalid comment_id' }, 400);
+    }
+
+    const db = new Database(c.env.DB);
+    const authUser = await getAuthUser(c);
+    const stats = await db.getCommentReactionStats(commentId, authUser?.id);
+
+    return c.json(reactionResponse(stats));
+});
+
+// POST /api/v1/comments/:commentId/reactions - Set the viewer's reaction (replaces any previous one)
+const reactionSchema = z.object({
+    reaction: z.enum(REACTION_TYPES),
+});
+
+likes.post('/comments/:commentId/reactions', zValidator('json', reactionSchema), async (c) => {
+    const commentId = parseInt(c.req.param('commentId'));
+    if (isNaN(commentId)) {
+        return c.json({ error: 'Invalid comment_id' }, 400);
+    }
+
+    const authUser = await getAuthUser(c);
+    if (!authUser) {
+        return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    const { reaction } = c.req.valid('json');
+    const db = new Database(c.env.DB);
+
+    const target = await getReactableComment(db, authUser, commentId, reaction);
+    if (!target.comment) {
+        return c.json({ error: target.error }, target.status);
+    }
+
+    await db.setCommentReaction(commentId, authUser.id, reaction);
+    const stats = await db.getCommentReactionStats(commentId, authUser.id);
+
+    return c.json(reactionResponse(stats));
+});
+
+// DELETE /api/v1/comments/:commentId/reactions - Remove the viewer's reaction
+likes.delete('/comments/:commentId/reactions', async (c) => {
+    const commentId = parseInt(c.req.param('commentId'));
+    if (isNaN(commentId)) {
+        return c.json({ error: 'Invalid comment_id' }, 400);
+    }
+
+    const authUser = await getAuthUser(c);
+    if (!authUser) {
+        return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    const db = new Database(c.env.DB);
+    const comment = await db.getCommentById(commentId);
+    if (comment && isOutsideSsoSite(authUser, comment.site_id)) {
+        return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+    }
+
+    await db.removeCommentReaction(commentId, authUser.id);
+    const stats = await db.getCommentReactionStats(commentId, authUser.id);
+
+    return c.json(reactionResponse(stats));
+});
+
 export { likes };
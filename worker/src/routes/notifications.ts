@@ -0,0 +1,178 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import { getAuthUser } from '../middleware';
+import type { Env, NotificationPreferences } from '../types';
+import { NOTIFICATION_KINDS, verifyUnsubscribeToken } from '../utils/notifications';
+import { confirmGuestComment, verifyGuestVerificationToken } from '../utils/guest-verification';
+import { escapeHtml } from '../utils/sanitize';
+
+const notifications = new Hono<{ Bindings: Env }>();
+
+const KIND_LABELS: Record<(typeof NOTIFICATION_KINDS)[number], string> = {
+    reply: 'reply notifications',
+    mention: 'mention notifications',
+    digest: 'the pending comments digest',
+};
+
+function preferencesResponse(prefs: NotificationPreferences) {
+    return {
+        reply_emails: prefs.reply_emails === 1,
+        mention_emails: prefs.mention_emails === 1,
+        digest_emails: prefs.digest_emails === 1,
+    };
+}
+
+// Minimal standalone page for links opened from an email
+function emailLinkPage(title: string, body: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${title} - CommentKit</title>
+    <style>
+        body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #f9fafb; color: #1f2937; padding: 64px 20px; }
+        .card { max-width: 440px; margin: 0 auto; background: #fff; border-radius: 12px; padding: 32px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); text-align: center; }
+        h1 { font-size: 20px; margin: 0 0 12px; }
+        p { color: #4b5563; line-height: 1.6; }
+        button { background: #6366f1; color: #fff; border: 0; border-radius: 8px; padding: 12px 28px; font-size: 15px; font-weight: 600; cursor: pointer; }
+    </style>
+</head>
+<body>
+    <div class="card">
+        <h1>${title}</h1>
+        ${body}
+    </div>
+</body>
+</html>`;
+}
+
+const unsubscribeQuerySchema = z.object({
+    email: z.string().email(),
+    kind: z.enum(NOTIFICATION_KINDS),
+    token: z.string().min(1),
+});
+
+// GET /api/v1/notifications/preferences - Get the current user's email preferences
+notifications.get('/preferences', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const db = new Database(c.env.DB);
+    const prefs = await db.getNotificationPreferences(user.email);
+
+    return c.json(preferencesResponse(prefs));
+});
+
+// PATCH /api/v1/notifications/preferences - Update email preferences
+const updatePreferencesSchema = z.object({
+    reply_emails: z.boolean().optional(),
+    mention_emails: z.boolean().optional(),
+    digest_emails: z.boolean().optional(),
+});
+
+notifications.patch('/preferences', zValidator('json', updatePreferencesSchema), async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Not authenticated' }, 401);
+    }
+
+    const body = c.req.valid('json');
+    const db = new Database(c.env.DB);
+    const prefs = await db.updateNotificationPreferences(user.email, body);
+
+    return c.json(preferencesResponse(prefs));
+});
+
+// GET /api/v1/notifications/unsubscribe - Confirmation page for a signed unsubscribe link
+// Unsubscribing itself needs a POST so link scanners that prefetch emails can't trigger it
+notifications.get('/unsubscribe', zValidator('query', unsubscribeQuerySchema), async (c) => {
+    const { email, kind, token } = c.req.valid('query');
+
+    if (!(await verifyUnsubscribeToken(email, kind, token, c.env.JWT_SECRET))) {
+        return c.html(emailLinkPage('Invalid link', '<p>This unsubscribe link is invalid or has been modified.</p>'), 400);
+    }
+
+    return c.html(emailLinkPage(
+        'Unsubscribe',
+        `<p>Stop sending ${KIND_LABELS[kind]} to <strong>${escapeHtml(email)}</strong>?</p>
+        <form method="POST"><button type="submit">Unsubscribe</button></form>`
+    ));
+});
+
+// POST /api/v1/notifications/unsubscribe - Apply a signed unsubscribe link (also RFC 8058 one-click)
+notifications.post('/unsubscribe', zValidator('query', unsubscribeQuerySchema), async (c) => {
+    const { email, kind, token } = c.req.valid('query');
+
+    if (!(await verifyUnsubscribeToken(email, kind, token, c.env.JWT_SECRET))) {
+        return c.html(emailLinkPage('Invalid link', '<p>This unsubscribe link is invalid or has been modified.</p>'), 400);
+    }
+
+    const db = new Database(c.env.DB);
+    await db.updateNotificationPreferences(email, {
+        reply_emails: kind === 'reply' ? false : undefined,
+        mention_emails: kind === 'mention' ? false : undefined,
+        digest_emails: kind === 'digest' ? false : undefined,
+    });
+
+    return c.html(emailLinkPage(
+        'Unsubscribed',
+        `<p>You will no longer receive ${KIND_LABELS[kind]} at <strong>${escapeHtml(email)}</strong>.</p>`
+    ));
+});
+
+const verifyCommentQuerySchema = z.object({
+    comment: z.coerce.number().int().positive(),
+    token: z.string().min(1),
+});
+
+// Load the comment a verification link points at, or null if the link doesn't match it
+async function getVerifiableComment(db: Database, commentId: number, token: string, secret: string) {
+    const comment = await db.getCommentById(commentId);
+    if (!comment || comment.deleted_at || !comment.author_email) {
+        return null;
+    }
+    return (await verifyGuestVerificationToken(comment.id, comment.author_email, token, secret)) ? comment : null;
+}
+
+// GET /api/v1/notifications/verify-comment - Confirmation page for a guest's email verification link
+// Like unsubscribing, confirming needs a POST so link scanners can't verify (and possibly approve) comments
+notifications.get('/verify-comment', zValidator('query', verifyCommentQuerySchema), async (c) => {
+    const { comment: commentId, token } = c.req.valid('query');
+    const db = new Database(c.env.DB);
+
+    const comment = await getVerifiableComment(db, commentId, token, c.env.JWT_SECRET);
+    if (!comment) {
+        return c.html(emailLinkPage('Invalid link', '<p>This verification link is invalid, or the comment no longer exists.</p>'), 400);
+    }
+
+    return c.html(emailLinkPage(
+        'Confirm your email',
+        `<p>Confirm that <strong>${escapeHtml(comment.author_email!)}</strong> is your address and that you left this comment?</p>
+        <form method="POST"><button type="submit">Confirm</button></form>`
+    ));
+});
+
+// POST /api/v1/notifications/verify-comment - Apply a guest's email verification link
+notifications.post('/verify-comment', zValidator('query', verifyCommentQuerySchema), async (c) => {
+    const { comment: commentId, token } = c.req.valid('query');
+    const db = new Database(c.env.DB);
+
+    const comment = await getVerifiableComment(db, commentId, token, c.env.JWT_SECRET);
+    if (!comment) {
+        return c.html(emailLinkPage('Invalid link', '<p>This verification link is invalid, or the comment no longer exists.</p>'), 400);
+    }
+
+    const { status } = await confirmGuestComment(c, db, comment);
+    const outcome = status === 'approved'
+        ? 'Your comment is published.'
+        : 'Your comment will appear once the site owner has reviewed it.';
+
+    return c.html(emailLinkPage('Email confirmed', `<p>Thanks for confirming your email. ${outcome}</p>`));
+});
+
+export { notifications };
@@ -4,34 +4,17 @@ import { z } from 'zod';
 import { Database } from '../db';
 import { getAuthUser } from '../middleware';
 import type { Env } from '../types';
+import { mergeSiteSettings, parseSiteSettings, siteSettingsUpdateSchema } from '../utils/site-settings';
+import { buildActorModerationAudit, formatModerationLogEntry } from '../utils/moderation-log';
+import { queueCommentNotifications } from '../utils/notifications';
+import { moderationWebhookEvent, queueCommentWebhookEvents } from '../utils/webhooks';
+import { SSO_OTHER_SITE_ERROR, generateSsoSecret, isOutsideSsoSite } from '../utils/sso';
+import { VERIFICATION_METHODS, generateVerificationToken, verificationInstructions, verifyDomain } from '../utils/domain-verification';
+import { domainSchema, isLocalhostOrIP } from '../utils/site-domains';
+import { authorizeSiteActor, getSiteActor, getSiteRole, hasSitePermission } from '../utils/site-access';
 
 const sites = new Hono<{ Bindings: Env }>();
 
-// Generate a secure API key
-function generateApiKey(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    const array = new Uint8Array(32);
-    crypto.getRandomValues(array);
-    return Array.from(array, (byte) => chars[byte % chars.length]).join('');
-}
-
-// Check if domain is localhost or IP address
-function isLocalhostOrIP(domain: string): boolean {
-    // Localhost variations (exact match, port, or subdomain)
-    if (domain === 'localhost' || domain.startsWith('localhost:') || domain.endsWith('.localhost')) return true;
-    if (domain === '127.0.0.1' || domain.startsWith('127.0.0.1:')) return true;
-    if (domain === '0.0.0.0' || domain.startsWith('0.0.0.0:')) return true;
-
-    // IPv4 pattern (with optional port)
-    const ipv4Pattern = /^(\d{1,3}\.){3}\d{1,3}(:\d+)?$/;
-    if (ipv4Pattern.test(domain)) return true;
-
-    // IPv6 pattern (simplified check)
-    if (domain.startsWith('[') || domain.includes('::')) return true;
-
-    return false;
-}
-
 // GET /api/v1/sites - List user's sites
 sites.get('/', async (c) => {
     const user = await getAuthUser(c);
@@ -40,16 +23,15 @@ sites.get('/', async (c) => {
     }
 
     const db = new Database(c.env.DB);
-    const userSites = await db.getSitesByOwner(user.id);
+    const userSites = await db.getSitesForUser(user.id);
 
-    // Don't expose full API keys in list view
     const sitesResponse = userSites.map((site) => ({
         id: site.id,
         name: site.name,
         domain: site.domain,
-        api_key_preview: '********',
         verified: !!site.verified,
         verified_at: site.verified_at,
+        role: site.role,
         created_at: site.created_at,
         updated_at: site.updated_at,
     }));
@@ -67,14 +49,13 @@ sites.get('/overview', async (c) => {
     const db = new Database(c.env.DB);
     const { sites: userSites, aggregated } = await db.getSitesWithStats(user.id);
 
-    // Don't expose full API keys
     const sitesResponse = userSites.map((site) => ({
         id: site.id,
         name: site.name,
         domain: site.domain,
-        api_key_preview: '********',
         verified: !!site.verified,
         verified_at: site.verified_at,
+        role: site.role,
         created_at: site.created_at,
         updated_at: site.updated_at,
         stats: {
@@ -122,8 +103,8 @@ sites.get('/:id', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    // Check ownership
-    if (result.site.owner_id !== user.id) {
+    const role = await getSiteRole(db, result.site, user.id);
+    if (!hasSitePermission(role, 'view')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -131,10 +112,11 @@ sites.get('/:id', async (c) => {
         id: result.site.id,
         name: result.site.name,
         domain: result.site.domain,
-        api_key: 'HIDDEN',
-        settings: JSON.parse(result.site.settings || '{}'),
+        settings: parseSiteSettings(result.site.settings),
         verified: !!result.site.verified,
         verified_at: result.site.verified_at,
+        sso_enabled: !!result.site.sso_secret,
+        role,
         created_at: result.site.created_at,
         updated_at: result.site.updated_at,
         stats: result.stats,
@@ -148,7 +130,7 @@ sites.get('/:id', async (c) => {
 // POST /api/v1/sites - Create a new site
 const createSiteSchema = z.object({
     name: z.string().min(1).max(100),
-    domain: z.string().min(1).max(255),
+    domain: domainSchema,
 });
 
 sites.post('/', zValidator('json', createSiteSchema), async (c) => {
@@ -156,6 +138,9 @@ sites.post('/', zValidator('json', createSiteSchema), async (c) => {
     if (!user) {
         return c.json({ error: 'Authentication required' }, 401);
     }
+    if (isOutsideSsoSite(user, null)) {
+        return c.json({ error: SSO_OTHER_SITE_ERROR }, 403);
+    }
 
     const body = c.req.valid('json');
     const db = new Database(c.env.DB);
@@ -167,21 +152,19 @@ sites.post('/', zValidator('json', createSiteSchema), async (c) => {
     }
 
     // Check if domain already exists
-    const existingSite = await db.getSiteByDomain(body.domain);
-    if (existingSite) {
+    if (await db.isDomainTaken(body.domain)) {
         return c.json({ error: 'Domain already registered' }, 409);
     }
 
-    const apiKey = generateApiKey();
-    const site = await db.createSite(body.name, body.domain, apiKey, user.id);
+    const site = await db.createSite(body.name, body.domain, user.id);
 
     return c.json(
         {
             id: site.id,
             name: site.name,
             domain: site.domain,
-            api_key: site.api_key,
             verified: false,
+            role: 'owner',
             created_at: site.created_at,
         },
         201
@@ -191,8 +174,8 @@ sites.post('/', zValidator('json', createSiteSchema), async (c) => {
 // PATCH /api/v1/sites/:id - Update site
 const updateSiteSchema = z.object({
     name: z.string().min(1).max(100).optional(),
-    domain: z.string().min(1).max(255).optional(),
-    settings: z.record(z.string(), z.unknown()).optional(),
+    domain: domainSchema.optional(),
+    settings: siteSettingsUpdateSchema.optional(),
 });
 
 sites.patch('/:id', zValidator('json', updateSiteSchema), async (c) => {
@@ -214,7 +197,7 @@ sites.patch('/:id', zValidator('json', updateSiteSchema), async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'manage')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -227,8 +210,7 @@ sites.patch('/:id', zValidator('json', updateSiteSchema), async (c) => {
             return c.json({ error: 'Localhost and IP addresses are not allowed as domains in production' }, 400);
         }
 
-        const existingSite = await db.getSiteByDomain(body.domain!);
-        if (existingSite) {
+        if (await db.isDomainTaken(body.domain!, site.id)) {
             return c.json({ error: 'Domain already registered' }, 409);
         }
     }
@@ -236,7 +218,9 @@ sites.patch('/:id', zValidator('json', updateSiteSchema), async (c) => {
     const updated = await db.updateSite(siteId, {
         name: body.name,
         domain: body.domain,
-        settings: body.settings ? JSON.stringify(body.settings) : undefined,
+        settings: body.settings
+            ? JSON.stringify(mergeSiteSettings(site.settings, body.settings))
+            : undefined,
     });
 
     // Reset verification if domain changed
@@ -250,7 +234,7 @@ sites.patch('/:id', zValidator('json', updateSiteSchema), async (c) => {
         domain: updated.domain,
         verified: domainChanging ? false : !!updated.verified,
         verified_at: domainChanging ? null : updated.verified_at,
-        settings: JSON.parse(updated.settings || '{}'),
+        settings: parseSiteSettings(updated.settings),
         updated_at: updated.updated_at,
     });
 });
@@ -274,7 +258,7 @@ sites.delete('/:id', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'delete')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -283,8 +267,37 @@ sites.delete('/:id', async (c) => {
     return c.json({ success: true });
 });
 
-// POST /api/v1/sites/:id/regenerate-key - Regenerate API key
-sites.post('/:id/regenerate-key', async (c) => {
+// POST /api/v1/sites/:id/sso-secret - Create or rotate the SSO signing secret (only shown once)
+sites.post('/:id/sso-secret', async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    const siteId = parseInt(c.req.param('id'));
+    if (isNaN(siteId)) {
+        return c.json({ error: 'Invalid site_id' }, 400);
+    }
+
+    const db = new Database(c.env.DB);
+    const site = await db.getSiteById(siteId);
+
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'manage')) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const ssoSecret = generateSsoSecret();
+    await db.updateSiteSsoSecret(siteId, ssoSecret);
+
+    return c.json({ sso_secret: ssoSecret });
+});
+
+// DELETE /api/v1/sites/:id/sso-secret - Turn off SSO for the site
+sites.delete('/:id/sso-secret', async (c) => {
     const user = await getAuthUser(c);
     if (!user) {
         return c.json({ error: 'Authentication required' }, 401);
@@ -302,14 +315,13 @@ sites.post('/:id/regenerate-key', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'manage')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
-    const newApiKey = generateApiKey();
-    await db.updateSiteApiKey(siteId, newApiKey);
+    await db.updateSiteSsoSecret(siteId, null);
 
-    return c.json({ api_key: newApiKey });
+    return c.json({ success: true });
 });
 
 // GET /api/v1/sites/:id/verification - Get verification token and instructions
@@ -331,68 +343,38 @@ sites.get('/:id/verification', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'manage')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
     // Generate token if not exists
     let token = site.verification_token;
     if (!token) {
-        token = generateApiKey(); // Reuse the same secure token generator
+        token = generateVerificationToken();
         await db.setVerificationToken(siteId, token);
     }
 
+    const methods = verificationInstructions(site.domain, token);
+
     return c.json({
         verified: !!site.verified,
         verified_at: site.verified_at,
+        verification_method: site.verification_method,
         verification_token: token,
-        verification_file_path: '/.well-known/commentkit-verify.txt',
-        verification_file_content: token,
-        verification_url: `https://${site.domain}/.well-known/commentkit-verify.txt`,
+        verification_file_path: methods.file?.path ?? null,
+        verification_file_content: methods.file?.content ?? null,
+        verification_url: methods.file?.url ?? null,
+        methods,
     });
 });
 
-// Helper: Verify via file
-async function verifyViaFile(domain: string, token: string): Promise<{ success: boolean; error?: string }> {
-    // Add cache-busting query parameter to ensure fresh fetch
-    const cacheBuster = Date.now() + '-' + Math.random().toString(36).substring(2, 9);
-    const verificationUrl = `https://${domain}/.well-known/commentkit-verify.txt?_=${cacheBuster}`;
-
-    try {
-        const response = await fetch(verificationUrl, {
-            headers: {
-                // Use a standard browser User-Agent to avoid bot detection
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-                'Accept': 'text/plain,text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-                'Accept-Language': 'en-US,en;q=0.9',
-                'Accept-Encoding': 'gzip, deflate, br',
-                // Strong cache-busting headers
-                'Cache-Control': 'no-cache, no-store, must-revalidate',
-                'Pragma': 'no-cache',
-            },
-            // Disable caching at fetch level
-            cache: 'no-store',
-        });
-
-        if (!response.ok) {
-            return { success: false, error: `HTTP ${response.status} - Could not fetch verification file. If you're using Cloudflare or similar protection, you may need to create a page rule to allow access to /.well-known/* paths.` };
-        }
-
-        const content = await response.text();
-        const trimmedContent = content.trim();
-
-        if (trimmedContent === token) {
-            return { success: true };
-        } else {
-            return { success: false, error: 'File found but verification token does not match' };
-        }
-    } catch (error) {
-        return { success: false, error: 'Could not reach ' + verificationUrl };
-    }
-}
-
 // POST /api/v1/sites/:id/verify - Trigger verification check
-sites.post('/:id/verify', async (c) => {
+// Checks the method chosen in the body (the verification file if none is given)
+const verifySiteSchema = z.object({
+    method: z.enum(VERIFICATION_METHODS).default('file'),
+});
+
+sites.post('/:id/verify', zValidator('json', verifySiteSchema), async (c) => {
     const user = await getAuthUser(c);
     if (!user) {
         return c.json({ error: 'Authentication required' }, 401);
@@ -410,7 +392,7 @@ sites.post('/:id/verify', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'manage')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -418,12 +400,14 @@ sites.post('/:id/verify', async (c) => {
         return c.json({ error: 'No verification token generated. Get verification instructions first.' }, 400);
     }
 
-    const result = await verifyViaFile(site.domain, site.verification_token);
+    const { method } = c.req.valid('json');
+    const result = await verifyDomain(c.env, method, site.domain, site.verification_token);
 
     if (result.success) {
-        await db.markSiteVerified(siteId);
+        await db.markSiteVerified(siteId, method);
         return c.json({
             verified: true,
+            method,
             message: 'Site successfully verified!',
         });
     } else {
@@ -453,7 +437,7 @@ sites.get('/:id/stats', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'view')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -488,7 +472,7 @@ sites.get('/:id/pages', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'view')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -523,7 +507,7 @@ sites.get('/:id/activity', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'view')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -553,7 +537,7 @@ sites.get('/:id/analytics', async (c) => {
         return c.json({ error: 'Site not found' }, 404);
     }
 
-    if (site.owner_id !== user.id) {
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'view')) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
@@ -562,17 +546,20 @@ sites.get('/:id/analytics', async (c) => {
     return c.json(analytics);
 });
 
-// POST /api/v1/sites/:id/comments/bulk - Bulk moderate comments
+// POST /api/v1/sites/:id/comments/bulk - Bulk moderate comments (site moderators, or an API key with the moderate scope)
 const bulkModerateSchema = z.object({
     comment_ids: z.array(z.number()).min(1).max(100),
     action: z.enum(['approve', 'reject', 'spam', 'delete']),
+    reason: z.string().max(500).optional(),
 });
 
 sites.post('/:id/comments/bulk', zValidator('json', bulkModerateSchema), async (c) => {
-    const user = await getAuthUser(c);
-    if (!user) {
-        return c.json({ error: 'Authentication required' }, 401);
+    const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
     }
+    const { actor } = auth;
 
     const siteId = parseInt(c.req.param('id'));
     if (isNaN(siteId)) {
@@ -580,22 +567,120 @@ sites.post('/:id/comments/bulk', zValidator('json', bulkModerateSchema), async (
     }
 
     const body = c.req.valid('json');
-    const db = new Database(c.env.DB);
 
     const site = await db.getSiteById(siteId);
-    if (!site || site.owner_id !== user.id) {
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    const role = await authorizeSiteActor(db, site, actor, 'moderate');
+    if (!role) {
         return c.json({ error: 'Forbidden' }, 403);
     }
 
+    // Only comments belonging to this site are processed
+    const audit = buildActorModerationAudit(actor, role, body.reason);
     let processed = 0;
     if (body.action === 'delete') {
-        processed = await db.bulkDeleteComments(body.comment_ids);
+        const deleted = await db.bulkDeleteComments(body.comment_ids, audit, siteId);
+        queueCommentWebhookEvents(c, 'comment.deleted', deleted);
+        processed = deleted.length;
     } else {
-        const statusMap: Record<string, string> = { approve: 'approved', reject: 'rejected', spam: 'spam' };
-        processed = await db.bulkUpdateCommentStatus(body.comment_ids, statusMap[body.action]);
+        const statusMap = { approve: 'approved', reject: 'rejected', spam: 'spam' } as const;
+        const status = statusMap[body.action];
+        const updated = await db.bulkUpdateCommentStatus(body.comment_ids, status, audit, siteId);
+        processed = updated.length;
+
+        const event = moderationWebhookEvent(status);
+        if (event) {
+            queueCommentWebhookEvents(c, event, updated, status);
+        }
+        if (status === 'approved') {
+            queueCommentNotifications(c, updated.map((comment) => comment.id));
+        }
     }
 
     return c.json({ processed, action: body.action });
 });
 
+// GET /api/v1/sites/:id/moderation-log - Paginated moderation history for a site
+const moderationLogQuerySchema = z.object({
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+    offset: z.coerce.number().int().min(0).default(0),
+    comment_id: z.coerce.number().int().positive().optional(),
+});
+
+sites.get('/:id/moderation-log', zValidator('query', moderationLogQuerySchema), async (c) => {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return c.json({ error: 'Authentication required' }, 401);
+    }
+
+    const siteId = parseInt(c.req.param('id'));
+    if (isNaN(siteId)) {
+        return c.json({ error: 'Invalid site_id' }, 400);
+    }
+
+    const { limit, offset, comment_id: commentId } = c.req.valid('query');
+
+    const db = new Database(c.env.DB);
+
+    const site = await db.getSiteById(siteId);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    if (!hasSitePermission(await getSiteRole(db, site, user.id), 'view')) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const result = await db.getModerationLog(siteId, { limit, offset, commentId });
+
+    return c.json({
+        entries: result.entries.map(formatModerationLogEntry),
+        total: result.total,
+        limit,
+        offset,
+    });
+});
+
+// GET /api/v1/sites/:id/export - Download the site's pages and comments as JSON (admins, or an API key with the export scope)
+sites.get('/:id/export', async (c) => {
+    const db = new Database(c.env.DB);
+    const auth = await getSiteActor(c, db);
+    if (!auth.actor) {
+        return c.json({ error: auth.error }, auth.status);
+    }
+    const { actor } = auth;
+
+    const siteId = parseInt(c.req.param('id'));
+    if (isNaN(siteId)) {
+        return c.json({ error: 'Invalid site_id' }, 400);
+    }
+
+    const site = await db.getSiteById(siteId);
+    if (!site) {
+        return c.json({ error: 'Site not found' }, 404);
+    }
+
+    if (!(await authorizeSiteActor(db, site, actor, 'export'))) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+
+    const data = await db.getSiteExportData(site.id);
+
+    const response = c.json({
+        exported_at: new Date().toISOString(),
+        site: {
+            id: site.id,
+            name: site.name,
+            domain: site.domain,
+            created_at: site.created_at,
+        },
+        ...data,
+    });
+    response.headers.set('Content-Disposition', `attachment; filename="commentkit-site-${site.id}.json"`);
+    return response;
+});
+
 export { sites };
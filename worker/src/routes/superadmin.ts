@@ -4,6 +4,10 @@ import { z } from 'zod';
 import { Database } from '../db';
 import { getAuthUser, requireSuperAdmin } from '../middleware';
 import type { Env } from '../types';
+import { parseSiteSettings } from '../utils/site-settings';
+import { buildModerationAudit } from '../utils/moderation-log';
+import { queueCommentNotifications } from '../utils/notifications';
+import { moderationWebhookEvent, queueCommentWebhookEvents } from '../utils/webhooks';
 
 const superadmin = new Hono<{ Bindings: Env }>();
 
@@ -232,8 +236,7 @@ superadmin.get('/sites/:id', async (c) => {
             id: site.id,
             name: site.name,
             domain: site.domain,
-            api_key: site.api_key,
-            settings: JSON.parse(site.settings || '{}'),
+            settings: parseSiteSettings(site.settings),
             owner_id: site.owner_id,
             owner_email: owner?.email,
             created_at: site.created_at,
@@ -352,6 +355,7 @@ superadmin.get('/comments/:id', async (c) => {
 // PATCH /api/v1/superadmin/comments/:id/status - Moderate single comment
 const moderateSchema = z.object({
     status: z.enum(['pending', 'approved', 'rejected', 'spam']),
+    reason: z.string().max(500).optional(),
 });
 
 superadmin.patch('/comments/:id/status', zValidator('json', moderateSchema), async (c) => {
@@ -364,11 +368,20 @@ superadmin.patch('/comments/:id/status', zValidator('json', moderateSchema), asy
     const db = new Database(c.env.DB);
 
     const comment = await db.getCommentById(commentId);
-    if (!comment) {
+    if (!comment || comment.deleted_at) {
         return c.json({ error: 'Comment not found' }, 404);
     }
 
-    await db.updateCommentStatus(commentId, body.status);
+    const currentUser = (await getAuthUser(c))!;
+    await db.moderateComment(comment, body.status, buildModerationAudit(currentUser, 'superadmin', body.reason));
+
+    const event = moderationWebhookEvent(body.status);
+    if (event) {
+        queueCommentWebhookEvents(c, event, [comment], body.status);
+    }
+    if (body.status === 'approved') {
+        queueCommentNotifications(c, [commentId]);
+    }
 
     return c.json({
         id: commentId,
@@ -381,16 +394,27 @@ superadmin.patch('/comments/:id/status', zValidator('json', moderateSchema), asy
 const bulkModerateSchema = z.object({
     comment_ids: z.array(z.number()).min(1).max(100),
     status: z.enum(['pending', 'approved', 'rejected', 'spam']),
+    reason: z.string().max(500).optional(),
 });
 
 superadmin.post('/comments/bulk-status', zValidator('json', bulkModerateSchema), async (c) => {
     const body = c.req.valid('json');
     const db = new Database(c.env.DB);
 
-    const updated = await db.bulkUpdateCommentStatus(body.comment_ids, body.status);
+    const currentUser = (await getAuthUser(c))!;
+    const audit = buildModerationAudit(currentUser, 'superadmin', body.reason);
+    const updated = await db.bulkUpdateCommentStatus(body.comment_ids, body.status, audit);
+
+    const event = moderationWebhookEvent(body.status);
+    if (event) {
+        queueCommentWebhookEvents(c, event, updated, body.status);
+    }
+    if (body.status === 'approved') {
+        queueCommentNotifications(c, updated.map((comment) => comment.id));
+    }
 
     return c.json({
-        updated_count: updated,
+        updated_count: updated.length,
         status: body.status,
     });
 });
@@ -405,11 +429,13 @@ superadmin.delete('/comments/:id', async (c) => {
     const db = new Database(c.env.DB);
     const comment = await db.getCommentById(commentId);
 
-    if (!comment) {
+    if (!comment || comment.deleted_at) {
         return c.json({ error: 'Comment not found' }, 404);
     }
 
-    await db.deleteComment(commentId);
+    const currentUser = (await getAuthUser(c))!;
+    await db.removeComment(comment, buildModerationAudit(currentUser, 'superadmin', c.req.query('reason')));
+    queueCommentWebhookEvents(c, 'comment.deleted', [comment]);
 
     return c.json({ success: true });
 });
@@ -417,16 +443,20 @@ superadmin.delete('/comments/:id', async (c) => {
 // POST /api/v1/superadmin/comments/bulk-delete - Bulk delete comments
 const bulkDeleteSchema = z.object({
     comment_ids: z.array(z.number()).min(1).max(100),
+    reason: z.string().max(500).optional(),
 });
 
 superadmin.post('/comments/bulk-delete', zValidator('json', bulkDeleteSchema), async (c) => {
     const body = c.req.valid('json');
     const db = new Database(c.env.DB);
 
-    const deleted = await db.bulkDeleteComments(body.comment_ids);
+    const currentUser = (await getAuthUser(c))!;
+    const audit = buildModerationAudit(currentUser, 'superadmin', body.reason);
+    const deleted = await db.bulkDeleteComments(body.comment_ids, audit);
+    queueCommentWebhookEvents(c, 'comment.deleted', deleted);
 
     return c.json({
-        deleted_count: deleted,
+        deleted_count: deleted.length,
     });
 });
 
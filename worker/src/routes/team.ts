@@ -0,0 +1,223 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import { LOGIN_RATE_LIMITS, checkRateLimits } from '../middleware';
+import type { Env, SiteInvitation, SiteMember, User } from '../types';
+import { createEmailTransport, sendSiteInvitationEmail } from '../utils/email';
+import { SITE_MEMBER_ROLES, getSiteAccess, getSiteRole, hasSitePermission } from '../utils/site-access';
+
+const team = new Hono<{ Bindings: Env }>();
+
+// How long an invitation (and the magic link it sends) stays valid
+const INVITATION_DAYS = 7;
+
+// Generate a magic link token
+function generateToken(): string {
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes)
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+// Format date for SQLite
+function formatDate(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function formatMember(member: SiteMember) {
+    return {
+        user_id: member.user_id,
+        email: member.email,
+        display_name: member.display_name,
+        email_hash: member.email_hash,
+        avatar_url: member.avatar_url,
+        role: member.role,
+        joined_at: member.created_at,
+    };
+}
+
+// The owner is listed first, like a member
+function formatOwner(owner: User, joinedAt: string) {
+    return {
+        user_id: owner.id,
+        email: owner.email,
+        display_name: owner.display_name,
+        email_hash: owner.email_hash,
+        avatar_url: owner.avatar_url,
+        role: 'owner' as const,
+        joined_at: joinedAt,
+    };
+}
+
+function formatInvitation(invitation: SiteInvitation) {
+    return {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expires_at: invitation.expires_at,
+        created_at: invitation.created_at,
+    };
+}
+
+// GET /api/v1/admin/sites/:id/team - List the site's owner, members and (for admins) pending invitations
+team.get('/:id/team', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'view');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const [owner, members] = await Promise.all([
+        access.site.owner_id ? db.getUserById(access.site.owner_id) : null,
+        db.getSiteMembers(access.site.id),
+    ]);
+    const canManage = hasSitePermission(access.role, 'manage');
+
+    return c.json({
+        role: access.role,
+        members: [
+            ...(owner ? [formatOwner(owner, access.site.created_at)] : []),
+            ...members.map(formatMember),
+        ],
+        invitations: canManage ? (await db.getSiteInvitations(access.site.id)).map(formatInvitation) : [],
+    });
+});
+
+// POST /api/v1/admin/sites/:id/team/invitations - Invite someone by email (sends them a magic link)
+const inviteSchema = z.object({
+    email: z.string().trim().toLowerCase().email().max(255),
+    role: z.enum(SITE_MEMBER_ROLES),
+});
+
+team.post('/:id/team/invitations', zValidator('json', inviteSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const { email, role } = c.req.valid('json');
+
+    const existing = await db.getUserByEmail(email);
+    if (existing && await getSiteRole(db, access.site, existing.id)) {
+        return c.json({ error: "Already on this site's team" }, 409);
+    }
+
+    // Each invitation emails a sign-in link, so it counts against the address like a login
+    const limited = await checkRateLimits(c, [
+        { bucket: 'invite:user', identifier: String(access.user.id), ...LOGIN_RATE_LIMITS.perIp },
+        { bucket: 'login:email', identifier: email, ...LOGIN_RATE_LIMITS.perEmail },
+    ]);
+    if (limited) {
+        return limited;
+    }
+
+    const expiresAt = formatDate(new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000));
+    const invitation = await db.createSiteInvitation({
+        siteId: access.site.id,
+        email,
+        role,
+        invitedBy: access.user.id,
+        expiresAt,
+    });
+
+    // The link is an ordinary magic link: signing in with the address accepts the invitation
+    const token = generateToken();
+    await db.createMagicLink(email, token, expiresAt);
+    const inviteUrl = `${c.env.FRONTEND_URL}?token=${token}`;
+    console.log(`🔗 Invitation link for ${email}: ${inviteUrl}`);
+
+    const result = await sendSiteInvitationEmail(createEmailTransport(c.env), {
+        to: email,
+        siteName: access.site.name,
+        siteDomain: access.site.domain,
+        inviterName: access.user.display_name || access.user.email,
+        role,
+        inviteUrl,
+        expiresInDays: INVITATION_DAYS,
+    });
+    if (!result.success) {
+        console.error('Failed to send invitation email:', result.error);
+        return c.json({ error: 'Failed to send invitation email. Please try again.' }, 500);
+    }
+
+    return c.json(formatInvitation(invitation), 201);
+});
+
+// DELETE /api/v1/admin/sites/:id/team/invitations/:invitationId - Withdraw a pending invitation
+team.delete('/:id/team/invitations/:invitationId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const invitationId = parseInt(c.req.param('invitationId'));
+    if (isNaN(invitationId)) {
+        return c.json({ error: 'Invalid invitation_id' }, 400);
+    }
+
+    if (!(await db.deleteSiteInvitation(access.site.id, invitationId))) {
+        return c.json({ error: 'Invitation not found' }, 404);
+    }
+
+    return c.json({ success: true });
+});
+
+// PATCH /api/v1/admin/sites/:id/team/members/:userId - Change a member's role
+const updateMemberSchema = z.object({
+    role: z.enum(SITE_MEMBER_ROLES),
+});
+
+team.patch('/:id/team/members/:userId', zValidator('json', updateMemberSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const userId = parseInt(c.req.param('userId'));
+    if (isNaN(userId)) {
+        return c.json({ error: 'Invalid user_id' }, 400);
+    }
+    if (userId === access.site.owner_id) {
+        return c.json({ error: "The owner's role can't be changed" }, 400);
+    }
+
+    const { role } = c.req.valid('json');
+    if (!(await db.updateSiteMemberRole(access.site.id, userId, role))) {
+        return c.json({ error: 'Member not found' }, 404);
+    }
+
+    return c.json({ user_id: userId, role });
+});
+
+// DELETE /api/v1/admin/sites/:id/team/members/:userId - Remove a member, or leave the site yourself
+team.delete('/:id/team/members/:userId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'view');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const userId = parseInt(c.req.param('userId'));
+    if (isNaN(userId)) {
+        return c.json({ error: 'Invalid user_id' }, 400);
+    }
+    if (userId !== access.user.id && !hasSitePermission(access.role, 'manage')) {
+        return c.json({ error: 'Forbidden' }, 403);
+    }
+    if (userId === access.site.owner_id) {
+        return c.json({ error: "The owner can't be removed from the site" }, 400);
+    }
+
+    if (!(await db.removeSiteMember(access.site.id, userId))) {
+        return c.json({ error: 'Member not found' }, 404);
+    }
+
+    return c.json({ success: true });
+});
+
+export { team };
@@ -0,0 +1,176 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { Database } from '../db';
+import type { Env } from '../types';
+import { getSiteAccess } from '../utils/site-access';
+import {
+    WEBHOOK_EVENTS,
+    formatWebhook,
+    formatWebhookDelivery,
+    generateWebhookSecret,
+    sendWebhookEvent,
+    validateWebhookUrl,
+} from '../utils/webhooks';
+
+const webhooks = new Hono<{ Bindings: Env }>();
+
+const webhookEventsSchema = z.array(z.enum(WEBHOOK_EVENTS)).min(1)
+    .transform((list) => WEBHOOK_EVENTS.filter((event) => list.includes(event)));
+
+// GET /api/v1/admin/sites/:id/webhooks - List a site's webhooks
+webhooks.get('/:id/webhooks', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const list = await db.getWebhooksBySite(access.site.id);
+
+    return c.json({
+        webhooks: list.map((webhook) => formatWebhook(webhook)),
+        available_events: WEBHOOK_EVENTS,
+    });
+});
+
+// POST /api/v1/admin/sites/:id/webhooks - Create a webhook (the secret is only returned here)
+const createWebhookSchema = z.object({
+    url: z.string().url().max(2000),
+    events: webhookEventsSchema,
+    description: z.string().max(200).optional(),
+});
+
+webhooks.post('/:id/webhooks', zValidator('json', createWebhookSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const body = c.req.valid('json');
+    const urlError = validateWebhookUrl(body.url, c.env);
+    if (urlError) {
+        return c.json({ error: urlError }, 400);
+    }
+
+    const webhook = await db.createWebhook(access.site.id, {
+        url: body.url,
+        secret: generateWebhookSecret(),
+        events: body.events,
+        description: body.description?.trim() || undefined,
+    });
+
+    return c.json(formatWebhook(webhook, { includeSecret: true }), 201);
+});
+
+// PATCH /api/v1/admin/sites/:id/webhooks/:webhookId - Update or pause a webhook, or rotate its secret
+const updateWebhookSchema = z.object({
+    url: z.string().url().max(2000).optional(),
+    events: webhookEventsSchema.optional(),
+    description: z.string().max(200).nullable().optional(),
+    active: z.boolean().optional(),
+    rotate_secret: z.boolean().optional(),
+});
+
+webhooks.patch('/:id/webhooks/:webhookId', zValidator('json', updateWebhookSchema), async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const webhookId = parseInt(c.req.param('webhookId'));
+    const webhook = isNaN(webhookId) ? null : await db.getWebhookById(webhookId);
+    if (!webhook || webhook.site_id !== access.site.id) {
+        return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    const body = c.req.valid('json');
+    if (body.url) {
+        const urlError = validateWebhookUrl(body.url, c.env);
+        if (urlError) {
+            return c.json({ error: urlError }, 400);
+        }
+    }
+
+    const updated = await db.updateWebhook(webhook.id, {
+        url: body.url,
+        events: body.events,
+        description: body.description === undefined ? undefined : body.description?.trim() || null,
+        active: body.active,
+        secret: body.rotate_secret ? generateWebhookSecret() : undefined,
+    });
+
+    return c.json(formatWebhook(updated, { includeSecret: body.rotate_secret === true }));
+});
+
+// DELETE /api/v1/admin/sites/:id/webhooks/:webhookId - Delete a webhook and its delivery log
+webhooks.delete('/:id/webhooks/:webhookId', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const webhookId = parseInt(c.req.param('webhookId'));
+    const webhook = isNaN(webhookId) ? null : await db.getWebhookById(webhookId);
+    if (!webhook || webhook.site_id !== access.site.id) {
+        return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    await db.deleteWebhook(webhook.id);
+
+    return c.json({ success: true });
+});
+
+// POST /api/v1/admin/sites/:id/webhooks/:webhookId/test - Send a ping event and return the delivery result
+webhooks.post('/:id/webhooks/:webhookId/test', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const webhookId = parseInt(c.req.param('webhookId'));
+    const webhook = isNaN(webhookId) ? null : await db.getWebhookById(webhookId);
+    if (!webhook || webhook.site_id !== access.site.id) {
+        return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    const delivery = await sendWebhookEvent(db, webhook, access.site, 'ping', {
+        message: 'This is a test event from CommentKit.',
+        webhook_id: webhook.id,
+    });
+
+    return c.json(formatWebhookDelivery(delivery));
+});
+
+// GET /api/v1/admin/sites/:id/webhooks/:webhookId/deliveries - Paginated delivery log
+webhooks.get('/:id/webhooks/:webhookId/deliveries', async (c) => {
+    const db = new Database(c.env.DB);
+    const access = await getSiteAccess(c, db, 'manage');
+    if (!access.site) {
+        return c.json({ error: access.error }, access.status);
+    }
+
+    const webhookId = parseInt(c.req.param('webhookId'));
+    const webhook = isNaN(webhookId) ? null : await db.getWebhookById(webhookId);
+    if (!webhook || webhook.site_id !== access.site.id) {
+        return c.json({ error: 'Webhook not found' }, 404);
+    }
+
+    const limit = Math.min(parseInt(c.req.query('limit') || '25'), 100);
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    const result = await db.getWebhookDeliveries(webhook.id, { limit, offset });
+
+    return c.json({
+        deliveries: result.deliveries.map(formatWebhookDelivery),
+        total: result.total,
+        limit,
+        offset,
+    });
+});
+
+export { webhooks };
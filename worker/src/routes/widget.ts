@@ -2,6 +2,7 @@ import { Hono } from 'hono';
 import { Database } from '../db';
 import type { Env, Variables } from '../types';
 import { generateCsrfToken } from '../middleware/csrf';
+import { normalizeDomain } from '../utils/site-domains';
 
 const widget = new Hono<{ Bindings: Env; Variables: Variables }>();
 
@@ -81,7 +82,10 @@ widget.get('/init', async (c) => {
 
     try {
         const url = new URL(origin);
-        const domain = url.hostname;
+        const domain = normalizeDomain(url.hostname);
+        if (!domain) {
+            throw new Error(`Invalid origin host: ${url.hostname}`);
+        }
 
         const isDevelopment = c.env.ENVIRONMENT === 'development';
         const isLocalhost = domain === 'localhost' || domain === '127.0.0.1' || domain.endsWith('.local');
@@ -117,7 +121,8 @@ widget.get('/init', async (c) => {
             }, 404);
         }
 
-        if (!site.verified) {
+        // The site's primary domain or an alias, each verified separately
+        if (!site.domain_verified) {
             return c.json({
                 error: 'Domain not verified',
                 verified: false
@@ -170,7 +175,7 @@ widget.get('/verify-site', async (c) => {
         });
     }
 
-    if (!site.verified) {
+    if (!site.domain_verified) {
         return c.json({
             verified: false,
             error: 'This site has not been verified. The site owner must verify domain ownership to enable comments.',
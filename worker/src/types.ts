@@ -4,16 +4,128 @@ export interface Site {
     id: number;
     name: string;
     domain: string;
+    // Retired and never read; see site_api_keys (migrations/0021_site_api_keys.sql)
     api_key: string;
     owner_id: number | null;
     settings: string;
     verified: number;
     verification_token: string | null;
     verified_at: string | null;
+    // 'file' | 'dns' | 'meta' (see utils/domain-verification.ts)
+    verification_method: string | null;
+    // Signs host-site SSO tokens (see utils/sso.ts); null when SSO is off
+    sso_secret: string | null;
     created_at: string;
     updated_at: string;
 }
 
+// A site found by one of its domains; domain_verified is that domain's own status
+// and matched_domain the stored domain (possibly a wildcard) that matched
+export interface SiteForDomain extends Site {
+    domain_verified: number;
+    matched_domain: string;
+}
+
+// Additional domain that serves a site (see migrations/0018_site_domains.sql)
+export interface SiteDomain {
+    id: number;
+    site_id: number;
+    domain: string;
+    verification_token: string;
+    verified: number;
+    verification_method: string | null;
+    verified_at: string | null;
+    created_at: string;
+}
+
+// Who someone is on a site's team; the owner is sites.owner_id, everyone else a
+// site_members row (see utils/site-access.ts for what each role may do)
+export type SiteRole = 'owner' | 'admin' | 'moderator' | 'viewer';
+export type SiteMemberRole = Exclude<SiteRole, 'owner'>;
+
+// A site_members row joined with the member's profile
+export interface SiteMember {
+    site_id: number;
+    user_id: number;
+    role: SiteMemberRole;
+    invited_by: number | null;
+    created_at: string;
+    email: string;
+    display_name: string | null;
+    email_hash: string | null;
+    avatar_url: string | null;
+}
+
+export interface SiteInvitation {
+    id: number;
+    site_id: number;
+    email: string;
+    role: SiteMemberRole;
+    invited_by: number | null;
+    expires_at: string;
+    created_at: string;
+}
+
+// What a site API key may be used for (see utils/api-keys.ts)
+export type ApiKeyScope = 'comments:read' | 'comments:write' | 'moderate' | 'export';
+
+export interface SiteApiKey {
+    id: number;
+    site_id: number;
+    name: string;
+    // The start of the key, shown so owners can tell keys apart
+    key_prefix: string;
+    key_hash: string;
+    scopes: string; // JSON array of ApiKeyScope
+    created_by: number | null;
+    last_used_at: string | null;
+    revoked_at: string | null;
+    created_at: string;
+}
+
+// Parsed form of Site.settings (see utils/site-settings.ts)
+export interface SiteSettings {
+    moderation: {
+        require_approval: 'all' | 'guests' | 'none';
+        allow_guest_comments: boolean;
+        trusted_commenter_threshold: number;
+        // Email guests a link to confirm the address they commented with
+        verify_guest_emails: boolean;
+        // Treat a guest comment like a signed-in one once its email is confirmed
+        approve_verified_guests: boolean;
+    };
+    reactions: {
+        enabled: ReactionType[];
+    };
+    spam: {
+        enabled: boolean;
+        // Extra words/phrases that count against a comment, on top of the built-in list
+        blocked_words: string[];
+    };
+    rate_limits: {
+        enabled: boolean;
+        window_minutes: number;
+        // Maximum comments per window for each bucket
+        comments_per_ip: number;
+        comments_per_user: number;
+        comments_per_email: number;
+    };
+    formatting: {
+        markdown: boolean;
+    };
+    editing: {
+        // Minutes after posting that authors may edit a comment (0 = no limit)
+        window_minutes: number;
+        // Let readers open earlier versions of edited comments from the widget
+        public_history: boolean;
+    };
+    privacy: {
+        // What happens to a commenter's comments here when they delete their account:
+        // keep the text under an anonymous name, or delete it along with the account
+        deleted_account_comments: 'anonymize' | 'delete';
+    };
+}
+
 export interface Page {
     id: number;
     site_id: number;
@@ -31,10 +143,56 @@ export interface User {
     display_name: string | null;
     avatar_url: string | null;
     is_superadmin: number;
+    // Set for users signed in by a host site's SSO, who only exist on that site
+    sso_site_id: number | null;
+    sso_external_id: string | null;
     created_at: string;
     updated_at: string;
 }
 
+// What GET /admin/sites/:id/export returns besides the site itself
+export interface SiteExportData {
+    pages: { id: number; slug: string; title: string | null; url: string | null; created_at: string }[];
+    comments: {
+        id: number;
+        page_id: number;
+        parent_id: number | null;
+        user_id: number | null;
+        author_name: string | null;
+        author_email: string | null;
+        content: string;
+        status: Comment['status'];
+        is_edited: number;
+        created_at: string;
+        updated_at: string;
+    }[];
+}
+
+// What GET /auth/me/export returns besides the profile and notification preferences
+export interface UserExportData {
+    comments: {
+        id: number;
+        site: string;
+        page: string;
+        page_url: string | null;
+        page_title: string | null;
+        parent_id: number | null;
+        author_name: string | null;
+        content: string;
+        status: string;
+        is_edited: number;
+        created_at: string;
+        updated_at: string;
+        deleted_at: string | null;
+    }[];
+    revisions: { comment_id: number; content: string; created_at: string }[];
+    reactions: { comment_id: number; reaction: ReactionType; created_at: string }[];
+    page_likes: { site: string; page: string; page_url: string | null; created_at: string }[];
+    sessions: Omit<SessionInfo, 'current'>[];
+    linked_accounts: { provider: string; email: string | null; created_at: string }[];
+    sites: { id: number; name: string; domain: string; created_at: string }[];
+}
+
 export interface Comment {
     id: number;
     site_id: number;
@@ -44,21 +202,57 @@ export interface Comment {
     author_email: string | null;
     author_email_hash: string | null;
     parent_id: number | null;
+    // The source as typed; content_html is set when it was rendered as Markdown
     content: string;
+    content_html: string | null;
     status: 'pending' | 'approved' | 'rejected' | 'spam';
     ip_address: string | null;
     user_agent: string | null;
     is_edited: number;
+    // Set once reply/mention notifications have been sent for this comment
+    notified_at: string | null;
+    // Spam pipeline result at creation time; spam_reasons is a JSON array of strings
+    spam_score: number | null;
+    spam_reasons: string | null;
+    // Shadow-banned comments are stored but hidden from public threads and counts
+    shadow_banned: number;
+    // Set when the comment was deleted; the row stays as a tombstone until it is purged
+    deleted_at: string | null;
+    // Set once the author has confirmed author_email (or signed in with it)
+    email_verified_at: string | null;
+    // Joined from the author's account by the thread and dashboard queries
+    author_avatar_url?: string | null;
     created_at: string;
     updated_at: string;
 }
 
+// A version of a comment that was replaced by an edit
+export interface CommentRevision {
+    id: number;
+    comment_id: number;
+    content: string;
+    content_html: string | null;
+    created_at: string;
+}
+
 export interface Session {
     id: number;
     user_id: number;
     token_hash: string;
+    user_agent: string | null;
     expires_at: string;
+    last_used_at: string | null;
+    created_at: string;
+}
+
+// A session as listed to its owner; current marks the one making the request
+export interface SessionInfo {
+    id: number;
+    user_agent: string | null;
     created_at: string;
+    last_used_at: string | null;
+    expires_at: string;
+    current: boolean;
 }
 
 export interface MagicLink {
@@ -70,14 +264,53 @@ export interface MagicLink {
     created_at: string;
 }
 
+export type ReactionType = 'like' | 'love' | 'laugh' | 'sad' | 'angry';
+
 export interface Reaction {
     id: number;
     comment_id: number;
     user_id: number;
-    reaction: 'like' | 'love' | 'laugh' | 'sad' | 'angry';
+    reaction: ReactionType;
     created_at: string;
 }
 
+// Per-type reaction counts for a comment plus the viewer's own reaction (one per user)
+export interface ReactionStats {
+    counts: Partial<Record<ReactionType, number>>;
+    user_reaction: ReactionType | null;
+}
+
+export type ModerationAction = 'approve' | 'reject' | 'spam' | 'mark_pending' | 'delete' | 'restore';
+
+export interface ModerationLogEntry {
+    id: number;
+    site_id: number;
+    comment_id: number | null;
+    action: ModerationAction;
+    reason: string | null;
+    moderator_info: string | null; // JSON-encoded ModeratorInfo
+    moderator_id: number | null;
+    from_status: Comment['status'] | null;
+    to_status: Comment['status'] | null;
+    comment_excerpt: string | null;
+    created_at: string;
+}
+
+// Who performed a moderation action, snapshotted into moderation_log.moderator_info
+export interface ModeratorInfo {
+    // Both null when the action was taken with an API key
+    user_id: number | null;
+    email: string | null;
+    role: SiteRole | 'author' | 'superadmin' | 'api_key';
+    api_key?: { id: number; name: string };
+}
+
+// Attached to every moderation write so it can be recorded in the audit trail
+export interface ModerationAudit {
+    moderator: ModeratorInfo;
+    reason?: string;
+}
+
 export interface PageLike {
     id: number;
     page_id: number;
@@ -90,17 +323,200 @@ export interface LikeStats {
     user_liked: boolean;
 }
 
+export type WebhookEvent =
+    | 'comment.created'
+    | 'comment.approved'
+    | 'comment.rejected'
+    | 'comment.deleted'
+    | 'page.liked'
+    | 'ping';
+
+export interface Webhook {
+    id: number;
+    site_id: number;
+    url: string;
+    secret: string;
+    events: string; // JSON-encoded WebhookEvent[]
+    description: string | null;
+    active: number;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface WebhookDelivery {
+    id: number;
+    webhook_id: number;
+    event: WebhookEvent;
+    payload: string;
+    status: 'pending' | 'success' | 'failed';
+    attempts: number;
+    response_status: number | null;
+    response_body: string | null;
+    error: string | null;
+    next_attempt_at: string | null;
+    created_at: string;
+    completed_at: string | null;
+}
+
+export type BlocklistKind = 'user' | 'email' | 'ip' | 'word' | 'regex';
+export type BlocklistAction = 'reject' | 'hold' | 'shadow_ban';
+
+export interface BlocklistEntry {
+    id: number;
+    site_id: number;
+    kind: BlocklistKind;
+    value: string;
+    action: BlocklistAction;
+    note: string | null;
+    created_by: number | null;
+    created_at: string;
+}
+
+export type NotificationKind = 'reply' | 'mention' | 'digest';
+
+// Email opt-ins, keyed by address so guests who left an email can unsubscribe too
+export interface NotificationPreferences {
+    email: string;
+    reply_emails: number;
+    mention_emails: number;
+    digest_emails: number;
+    last_digest_at: string | null;
+    updated_at: string;
+}
+
+// A comment joined with what notification emails need about its author, page and site
+export interface NotificationComment extends Comment {
+    author_display_name: string;
+    author_address: string | null;  // users.email for members, author_email for guests
+    page_slug: string;
+    page_title: string | null;
+    page_url: string | null;
+    site_name: string;
+}
+
+// Outgoing email, delivered through an EmailTransport (see utils/email.ts)
+export interface EmailMessage {
+    from?: string;
+    to: string;
+    subject: string;
+    html: string;
+    text?: string;
+    headers?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+    success: boolean;
+    error?: string;
+    id?: string;
+}
+
+export interface EmailTransport {
+    send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// Everything the spam pipeline knows about a comment before it is inserted
+export interface SpamCheckInput {
+    siteId: number;
+    content: string;
+    authorName: string;
+    authorEmail: string | null;
+    isGuest: boolean;
+    ipAddress: string | null;
+    userAgent: string | null;
+    pageUrl: string | null;
+    // Hidden widget field that only bots fill in
+    honeypot?: string;
+    // Milliseconds between the widget showing the form and submitting it
+    elapsedMs?: number;
+}
+
+// One reason a comment looks like spam; scores from all signals are summed
+export interface SpamSignal {
+    score: number;
+    reason: string;
+}
+
+export interface StoredObject {
+    body: ReadableStream;
+    contentType: string;
+    size: number;
+}
+
+// Blob storage for uploads (see utils/object-store.ts)
+export interface ObjectStore {
+    put(key: string, body: ArrayBuffer, contentType: string): Promise<void>;
+    get(key: string): Promise<StoredObject | null>;
+    delete(key: string): Promise<void>;
+}
+
+// Looks up DNS records for domain verification (see utils/domain-verification.ts)
+export interface DnsResolver {
+    resolveTxt(name: string): Promise<string[]>;
+}
+
+// A spam check that can be plugged into the pipeline (see utils/spam.ts)
+export interface SpamProvider {
+    name: string;
+    check(input: SpamCheckInput): Promise<SpamSignal[]>;
+}
+
+export interface SpamVerdict {
+    score: number;
+    reasons: string[];
+    // allow = keep the moderation policy's status, hold = send to review, spam = mark as spam
+    action: 'allow' | 'hold' | 'spam';
+}
+
+// What a sign-in provider reports about the account that authorized us
+export interface OAuthProfile {
+    // Stable account id at the provider (the OIDC "sub" claim)
+    id: string;
+    email: string | null;
+    email_verified: boolean;
+    name: string | null;
+}
+
+// A sign-in provider that can be plugged into the OAuth flow (see utils/oauth.ts)
+export interface OAuthProvider {
+    id: string;
+    name: string;
+    authorizationUrl(params: { redirectUri: string; state: string; codeChallenge: string }): Promise<string>;
+    // Trade the authorization code for an access token
+    exchangeCode(params: { code: string; redirectUri: string; codeVerifier: string }): Promise<string>;
+    fetchProfile(accessToken: string): Promise<OAuthProfile>;
+}
+
+// Fixed-window hit counter behind the rate limiter (see middleware/rate-limit.ts)
+export interface RateLimitStore {
+    // Count a hit and return the hits so far in the current window
+    // resetAt is the unix time (seconds) the window ends
+    increment(key: string, windowSeconds: number): Promise<{ count: number; resetAt: number }>;
+}
+
 // API Response types
 export interface CommentResponse {
     id: number;
     author_name: string;
     author_email_hash: string | null;
+    // Preferred over the Gravatar for author_email_hash when set
+    author_avatar_url: string | null;
     content: string;
+    // Allowlisted HTML for Markdown comments; null means render `content` as plain text
+    content_html: string | null;
     parent_id: number | null;
     likes: number;
     user_liked: boolean;
+    reactions: Partial<Record<ReactionType, number>>;
+    user_reaction: ReactionType | null;
+    edited: boolean;
+    // A deleted comment kept as a placeholder for its replies; content and author are blank
+    deleted?: boolean;
     created_at: string;
     replies: CommentResponse[];
+    // Only set on create responses, so the widget can tell the author their comment is held
+    status?: Comment['status'];
+    // Only set on create responses when a guest was sent a link to confirm their email
+    verification_email_sent?: boolean;
 }
 
 export interface PageResponse {
@@ -111,6 +527,18 @@ export interface PageResponse {
     likes: number;
     user_liked: boolean;
     comments: CommentResponse[];
+    next_cursor: string | null;
+    enabled_reactions: ReactionType[];
+    // Whether new comments on this site are rendered as Markdown
+    markdown_enabled: boolean;
+    // Whether readers may open the revisions of edited comments
+    edit_history_public: boolean;
+}
+
+// Position of the last top-level thread returned, used to fetch the next page
+export interface CommentCursor {
+    createdAt: string;
+    id: number;
 }
 
 // Environment bindings
@@ -119,6 +547,21 @@ export interface Env {
     ASSETS: Fetcher;
     JWT_SECRET: string;
     RESEND_API_KEY?: string;
+    EMAIL_TRANSPORT?: string;  // 'resend' | 'console' | 'memory' (default: resend if RESEND_API_KEY is set, else console)
+    RATE_LIMIT_STORE?: string;  // 'd1' | 'memory' (default: d1)
+    AKISMET_API_KEY?: string;  // Enables the Akismet spam provider
+    // OAuth sign-in providers, each enabled once its client id and secret are set
+    GITHUB_CLIENT_ID?: string;
+    GITHUB_CLIENT_SECRET?: string;
+    GOOGLE_CLIENT_ID?: string;
+    GOOGLE_CLIENT_SECRET?: string;
+    OIDC_ISSUER?: string;  // Generic OpenID Connect provider (discovered from <issuer>/.well-known/openid-configuration)
+    OIDC_CLIENT_ID?: string;
+    OIDC_CLIENT_SECRET?: string;
+    OIDC_NAME?: string;  // Button label for the generic provider (default: 'SSO')
+    AVATARS?: R2Bucket;  // Uploaded avatars; uploads are turned off without it
+    IMAGES?: ImagesBinding;  // Cloudflare Images, resizes uploaded avatars when bound
+    DNS_RESOLVER_URL?: string;  // DNS-over-HTTPS JSON endpoint for TXT verification (default: Cloudflare's)
     ENVIRONMENT: string;
     BASE_URL: string;
     FRONTEND_URL?: string;
@@ -140,6 +583,9 @@ export interface AuthUser {
     email_hash: string | null;
     display_name: string | null;
     is_superadmin: boolean;
+    sso_site_id: number | null;
+    // Uploaded (or SSO-supplied) avatar, shown instead of Gravatar
+    avatar_url: string | null;
     created_at: string;
     updated_at: string;
 }
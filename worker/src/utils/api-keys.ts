@@ -0,0 +1,100 @@
+/**
+ * Site API Keys
+ *
+ * Servers talk to the API with an X-API-Key header instead of a session. A
+ * site can have any number of named keys, each limited to scopes:
+ *
+ * - comments:read:  read comments, including the dashboard's list of a site's comments
+ * - comments:write: post comments without a widget origin token
+ * - moderate:       approve, reject, delete and restore comments
+ * - export:         download the site's pages and comments
+ *
+ * Only a SHA-256 hash of each key is stored, so a key is shown once, when it
+ * is created. A key belongs to one site and never acts as a user: a request
+ * that sends one is authenticated by the key alone (getAuthUser ignores its
+ * session), and routes a key can't be scoped for answer 401.
+ */
+
+import type { Context } from 'hono';
+import { Database } from '../db';
+import { hashToken } from '../middleware';
+import type { ApiKeyScope, Env, Site, SiteApiKey } from '../types';
+
+export const API_KEY_SCOPES = ['comments:read', 'comments:write', 'moderate', 'export'] as const satisfies readonly ApiKeyScope[];
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+const KEY_PREFIX = 'ck_';
+
+// How much of a key is kept in plain text so owners can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+
+// A key as the request authenticated it
+export interface ApiKeyAuth {
+    id: number;
+    site_id: number;
+    name: string;
+    scopes: ApiKeyScope[];
+}
+
+export function generateApiKey(): { key: string; prefix: string } {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const bytes = new Uint8Array(32);
+    crypto.getRandomValues(bytes);
+    const key = KEY_PREFIX + Array.from(bytes, (byte) => chars[byte % chars.length]).join('');
+    return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function parseApiKeyScopes(scopes: string): ApiKeyScope[] {
+    try {
+        const parsed = JSON.parse(scopes);
+        return Array.isArray(parsed)
+            ? API_KEY_SCOPES.filter((scope) => parsed.includes(scope))
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+export type ApiKeyResult =
+    | { apiKey: ApiKeyAuth | null; error?: undefined }
+    | { apiKey?: undefined; error: string; status: 401 };
+
+/**
+ * The API key the request sends, if any. A key that is unknown or revoked is an
+ * error rather than no key, so a request never falls back to acting anonymously.
+ */
+export async function authenticateApiKey(c: Context<{ Bindings: Env }>, db: Database): Promise<ApiKeyResult> {
+    const key = c.req.header(API_KEY_HEADER);
+    if (key === undefined) {
+        return { apiKey: null };
+    }
+
+    const row = key ? await db.getActiveApiKeyByHash(await hashToken(key)) : null;
+    if (!row) {
+        return { error: 'Invalid API key', status: 401 };
+    }
+
+    await db.touchApiKey(row.id);
+
+    return {
+        apiKey: { id: row.id, site_id: row.site_id, name: row.name, scopes: parseApiKeyScopes(row.scopes) },
+    };
+}
+
+export function apiKeyAllows(apiKey: ApiKeyAuth, site: Site, scope: ApiKeyScope): boolean {
+    return apiKey.site_id === site.id && apiKey.scopes.includes(scope);
+}
+
+// Shape a site_api_keys row for API responses; the hash never leaves the database
+export function formatApiKey(apiKey: SiteApiKey) {
+    return {
+        id: apiKey.id,
+        name: apiKey.name,
+        key_prefix: apiKey.key_prefix,
+        scopes: parseApiKeyScopes(apiKey.scopes),
+        last_used_at: apiKey.last_used_at,
+        revoked_at: apiKey.revoked_at,
+        created_at: apiKey.created_at,
+    };
+}
@@ -0,0 +1,162 @@
+/**
+ * Avatar Uploads
+ *
+ * Users can upload a PNG, JPEG or WebP image to replace their Gravatar. The
+ * type is taken from the file's magic bytes (not the request's Content-Type)
+ * and the dimensions from its header, so nothing is decoded before it passes
+ * the size checks. With the Cloudflare Images binding the upload is cropped to
+ * AVATAR_SIZE square WebP; without it (local development) the image is stored
+ * as sent, and the dashboard already scales it down before uploading.
+ *
+ * Objects are stored under a fresh key per upload, so their URLs can be cached
+ * forever and replacing an avatar is just pointing users.avatar_url elsewhere.
+ */
+
+import type { Env } from '../types';
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+export const AVATAR_MAX_DIMENSION = 4096;
+export const AVATAR_SIZE = 256;
+
+export type AvatarType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+const EXTENSIONS: Record<AvatarType, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+const AVATAR_PATH = '/api/v1/avatars/';
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function detectImageType(bytes: Uint8Array): AvatarType | null {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    // "RIFF" <size> "WEBP"
+    if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+    return null;
+}
+
+function jpegDimensions(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xff) return null;
+        const marker = bytes[offset + 1]!;
+        // Padding between segments
+        if (marker === 0xff) {
+            offset++;
+            continue;
+        }
+        // Start-of-frame markers carry the size (C4, C8 and CC are other segment types)
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+        }
+        offset += 2 + view.getUint16(offset + 2);
+    }
+    return null;
+}
+
+function webpDimensions(bytes: Uint8Array, view: DataView): { width: number; height: number } | null {
+    const chunk = String.fromCharCode(...bytes.slice(12, 16));
+    if (chunk === 'VP8 ' && bytes.length >= 30) {
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L' && bytes.length >= 25) {
+        const b1 = bytes[22]!, b2 = bytes[23]!, b3 = bytes[24]!;
+        return {
+            width: 1 + (((b1 & 0x3f) << 8) | bytes[21]!),
+            height: 1 + (((b3 & 0x0f) << 10) | (b2 << 2) | ((b1 & 0xc0) >> 6)),
+        };
+    }
+    if (chunk === 'VP8X' && bytes.length >= 30) {
+        const uint24 = (at: number) => bytes[at]! | (bytes[at + 1]! << 8) | (bytes[at + 2]! << 16);
+        return { width: 1 + uint24(24), height: 1 + uint24(27) };
+    }
+    return null;
+}
+
+function imageDimensions(bytes: Uint8Array, type: AvatarType): { width: number; height: number } | null {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    switch (type) {
+        case 'image/png':
+            return bytes.length >= 24 ? { width: view.getUint32(16), height: view.getUint32(20) } : null;
+        case 'image/jpeg':
+            return jpegDimensions(bytes, view);
+        case 'image/webp':
+            return webpDimensions(bytes, view);
+    }
+}
+
+/**
+ * Check an upload is an image we accept
+ *
+ * @returns The detected type, or an error message for the user
+ */
+export function validateAvatar(bytes: Uint8Array): { type: AvatarType; error?: undefined } | { type?: undefined; error: string } {
+    if (bytes.length === 0) {
+        return { error: 'No image was uploaded' };
+    }
+    if (bytes.length > AVATAR_MAX_BYTES) {
+        return { error: `Avatars must be ${AVATAR_MAX_BYTES / 1024 / 1024} MB or smaller` };
+    }
+
+    const type = detectImageType(bytes);
+    if (!type) {
+        return { error: 'Avatars must be PNG, JPEG or WebP images' };
+    }
+
+    const dimensions = imageDimensions(bytes, type);
+    if (!dimensions || dimensions.width === 0 || dimensions.height === 0) {
+        return { error: 'The image could not be read' };
+    }
+    if (dimensions.width > AVATAR_MAX_DIMENSION || dimensions.height > AVATAR_MAX_DIMENSION) {
+        return { error: `Avatars can be at most ${AVATAR_MAX_DIMENSION}×${AVATAR_MAX_DIMENSION} pixels` };
+    }
+
+    return { type };
+}
+
+/**
+ * Crop and scale an avatar to AVATAR_SIZE square when Cloudflare Images is bound
+ */
+export async function resizeAvatar(
+    env: Env,
+    bytes: Uint8Array,
+    type: AvatarType
+): Promise<{ body: ArrayBuffer; type: AvatarType }> {
+    if (!env.IMAGES) {
+        return { body: bytes.slice().buffer, type };
+    }
+
+    const result = await env.IMAGES.input(new Blob([bytes]).stream())
+        .transform({ width: AVATAR_SIZE, height: AVATAR_SIZE, fit: 'cover' })
+        .output({ format: 'image/webp' });
+    // R2 needs to know the length up front, so buffer the (small) result
+    return { body: await result.response().arrayBuffer(), type: 'image/webp' };
+}
+
+/**
+ * Storage key for a new upload: <user id>/<random>.<ext>
+ */
+export function avatarKey(userId: number, type: AvatarType): string {
+    const bytes = new Uint8Array(12);
+    crypto.getRandomValues(bytes);
+    const id = Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+    return `${userId}/${id}.${EXTENSIONS[type]}`;
+}
+
+export function avatarUrl(env: Env, key: string): string {
+    return `${env.BASE_URL}${AVATAR_PATH}${key}`;
+}
+
+/**
+ * The storage key behind an avatar URL, or null if it isn't one of our uploads
+ * (a Gravatar-only user, or an avatar supplied by a host site's SSO)
+ */
+export function avatarKeyFromUrl(env: Env, url: string | null): string | null {
+    const prefix = `${env.BASE_URL}${AVATAR_PATH}`;
+    return url?.startsWith(prefix) ? url.slice(prefix.length) : null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Site Blocklists
+ *
+ * Site owners can ban commenters (by user id, email or IP) and filter content
+ * (by word or regular expression). Every entry carries an action:
+ *
+ *   reject      - the comment is refused with a 403
+ *   hold        - the comment is stored as pending for review
+ *   shadow_ban  - the comment is stored but hidden from everyone else
+ *
+ * When several entries match, the strictest action wins (reject > shadow_ban > hold).
+ *
+ * A shadow-banned author still sees their own comments, so the ban isn't obvious
+ * to them. Shadow-banning a user (kind 'user') also hides what they posted before
+ * the ban; the other kinds only affect new comments.
+ */
+
+import type { BlocklistAction, BlocklistEntry, BlocklistKind, Env } from '../types';
+
+export const BLOCKLIST_KINDS = ['user', 'email', 'ip', 'word', 'regex'] as const satisfies readonly BlocklistKind[];
+export const BLOCKLIST_ACTIONS = ['reject', 'hold', 'shadow_ban'] as const satisfies readonly BlocklistAction[];
+
+const ACTION_SEVERITY: Record<BlocklistAction, number> = {
+    hold: 1,
+    shadow_ban: 2,
+    reject: 3,
+};
+
+const MAX_REGEX_LENGTH = 200;
+
+// What a new comment is checked against
+export interface BlocklistSubject {
+    userId: number | null;
+    email: string | null;
+    emailHash: string | null;
+    ipAddress: string | null;
+    content: string;
+}
+
+// IPs are only known (and so only blockable) when the site collects them
+export function isIpBlockingAvailable(env: Env): boolean {
+    return env.COLLECT_IP_ADDRESS === 'true';
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate and normalize a value for the given kind
+ *
+ * @returns The value to store, or an error message
+ */
+export function normalizeBlocklistValue(
+    kind: BlocklistKind,
+    raw: string,
+    env: Env
+): { value: string; error?: undefined } | { value?: undefined; error: string } {
+    const value = raw.trim();
+    if (!value) {
+        return { error: 'Value is required' };
+    }
+
+    switch (kind) {
+        case 'user':
+            return /^\d+$/.test(value) ? { value: String(parseInt(value)) } : { error: 'User ID must be a number' };
+        case 'email':
+            // Either an address or the SHA-256 hash shown for guest commenters
+            if (/^[a-f0-9]{64}$/i.test(value)) return { value: value.toLowerCase() };
+            return /^[^\s@]+@[^\s@]+$/.test(value) ? { value: value.toLowerCase() } : { error: 'Invalid email address or hash' };
+        case 'ip':
+            if (!isIpBlockingAvailable(env)) {
+                return { error: 'IP addresses are not collected, so they cannot be blocked (see COLLECT_IP_ADDRESS)' };
+            }
+            return /^[0-9a-f.:]+$/i.test(value) ? { value: value.toLowerCase() } : { error: 'Invalid IP address' };
+        case 'word':
+            return { value: value.toLowerCase() };
+        case 'regex':
+            if (value.length > MAX_REGEX_LENGTH) {
+                return { error: `Regular expressions are limited to ${MAX_REGEX_LENGTH} characters` };
+            }
+            try {
+                new RegExp(value, 'i');
+            } catch {
+                return { error: 'Invalid regular expression' };
+            }
+            return { value };
+    }
+}
+
+function entryMatches(entry: BlocklistEntry, subject: BlocklistSubject): boolean {
+    switch (entry.kind) {
+        case 'user':
+            return subject.userId !== null && entry.value === String(subject.userId);
+        case 'email':
+            return (subject.email !== null && entry.value === subject.email.trim().toLowerCase())
+                || (subject.emailHash !== null && entry.value === subject.emailHash.toLowerCase());
+        case 'ip':
+            return subject.ipAddress !== null && entry.value === subject.ipAddress.toLowerCase();
+        case 'word':
+            return new RegExp(`(^|\\W)${escapeRegExp(entry.value)}(\\W|$)`, 'i').test(subject.content);
+        case 'regex':
+            try {
+                return new RegExp(entry.value, 'i').test(subject.content);
+            } catch {
+                return false;
+            }
+    }
+}
+
+/**
+ * Find the strictest entry that matches a new comment
+ */
+export function matchBlocklist(entries: BlocklistEntry[], subject: BlocklistSubject): BlocklistEntry | null {
+    let match: BlocklistEntry | null = null;
+    for (const entry of entries) {
+        if (!entryMatches(entry, subject)) continue;
+        if (!match || ACTION_SEVERITY[entry.action] > ACTION_SEVERITY[match.action]) {
+            match = entry;
+        }
+    }
+    return match;
+}
+
+// Message for a rejected comment (word filters say so; bans don't explain themselves)
+export function blocklistRejectionMessage(entry: BlocklistEntry): string {
+    return entry.kind === 'word' || entry.kind === 'regex'
+        ? 'Your comment contains words that are not allowed on this site.'
+        : 'You are not allowed to comment on this site.';
+}
+
+export function formatBlocklistEntry(entry: BlocklistEntry) {
+    return {
+        id: entry.id,
+        kind: entry.kind,
+        value: entry.value,
+        action: entry.action,
+        note: entry.note,
+        created_at: entry.created_at,
+    };
+}
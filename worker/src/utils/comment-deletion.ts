@@ -0,0 +1,52 @@
+/**
+ * Comment Deletion
+ *
+ * Deleting a comment only marks it with deleted_at. In public threads it shows
+ * as a "[deleted]" tombstone while it still has replies, so conversations keep
+ * their shape, and disappears otherwise. Site owners can restore it during the
+ * retention window; after that the scheduled purge removes the row for good,
+ * or scrubs its content and author when replies still depend on it.
+ */
+
+import type { Comment, CommentResponse } from '../types';
+
+export const DELETED_COMMENT_RETENTION_DAYS = 30;
+
+const RETENTION_MS = DELETED_COMMENT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Deleted comments older than this (SQLite UTC timestamp) are past retention
+ */
+export function deletionRetentionCutoff(now: Date = new Date()): string {
+    return new Date(now.getTime() - RETENTION_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Whether a deleted comment can still be restored
+ */
+export function isRestorable(comment: Pick<Comment, 'deleted_at'>, now: Date = new Date()): boolean {
+    return comment.deleted_at !== null && comment.deleted_at >= deletionRetentionCutoff(now);
+}
+
+/**
+ * Public shape of a deleted comment: its place in the thread and nothing else
+ */
+export function tombstoneResponse(comment: Comment): CommentResponse {
+    return {
+        id: comment.id,
+        author_name: '',
+        author_email_hash: null,
+        author_avatar_url: null,
+        content: '[deleted]',
+        content_html: null,
+        parent_id: comment.parent_id,
+        likes: 0,
+        user_liked: false,
+        reactions: {},
+        user_reaction: null,
+        edited: false,
+        deleted: true,
+        created_at: comment.created_at,
+        replies: [],
+    };
+}
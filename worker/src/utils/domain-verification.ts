@@ -0,0 +1,234 @@
+/**
+ * Domain Verification
+ *
+ * A site owner proves they control its domain by publishing the site's
+ * verification token in one of three places:
+ *
+ * - file: /.well-known/commentkit-verify.txt containing the token
+ * - dns:  a TXT record on _commentkit.<domain> of "commentkit-verification=<token>"
+ * - meta: <meta name="commentkit-verification" content="<token>"> on the home page
+ *
+ * The file and meta methods fetch the site over HTTPS, which bot protection and
+ * some static hosts get in the way of; the DNS method avoids the site entirely.
+ * TXT records are looked up over DNS-over-HTTPS (JSON API), at DNS_RESOLVER_URL
+ * when set so development and tests can point it at a stub.
+ *
+ * A wildcard domain (*.example.com) has no single host to fetch from, so it can
+ * only be verified with DNS, on _commentkit.example.com.
+ */
+
+import type { DnsResolver, Env } from '../types';
+
+export const VERIFICATION_METHODS = ['file', 'dns', 'meta'] as const;
+export type VerificationMethod = (typeof VERIFICATION_METHODS)[number];
+
+export const VERIFICATION_FILE_PATH = '/.well-known/commentkit-verify.txt';
+export const VERIFICATION_META_NAME = 'commentkit-verification';
+const DNS_RECORD_PREFIX = '_commentkit';
+const DNS_VALUE_PREFIX = 'commentkit-verification=';
+
+const DEFAULT_DNS_RESOLVER_URL = 'https://cloudflare-dns.com/dns-query';
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// TXT records live on the host name alone, and a wildcard's on its base domain
+function dnsRecordName(domain: string): string {
+    return `${DNS_RECORD_PREFIX}.${domain.replace(/^\*\./, '').replace(/:\d+$/, '')}`;
+}
+
+function isWildcard(domain: string): boolean {
+    return domain.startsWith('*.');
+}
+
+export interface VerificationResult {
+    success: boolean;
+    error?: string;
+}
+
+/**
+ * Resolves records with a DNS-over-HTTPS JSON API (Cloudflare and Google both offer one)
+ */
+export class DnsOverHttpsResolver implements DnsResolver {
+    constructor(private endpoint: string) { }
+
+    async resolveTxt(name: string): Promise<string[]> {
+        const url = new URL(this.endpoint);
+        url.searchParams.set('name', name);
+        url.searchParams.set('type', 'TXT');
+
+        const response = await fetch(url, {
+            headers: { Accept: 'application/dns-json' },
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+        if (!response.ok) {
+            throw new Error(`DNS lookup failed with status ${response.status}`);
+        }
+
+        const result = await response.json<{ Status: number; Answer?: { type: number; data: string }[] }>();
+        // Status 3 is NXDOMAIN: the name simply has no records
+        if (result.Status !== 0) {
+            return [];
+        }
+
+        return (result.Answer ?? [])
+            .filter((answer) => answer.type === 16)
+            .map((answer) => parseTxtData(answer.data));
+    }
+}
+
+// TXT data arrives as one or more quoted strings ("abc" "def"), which make up a single value
+function parseTxtData(data: string): string {
+    const parts = data.match(/"((?:[^"\\]|\\.)*)"/g);
+    if (!parts) {
+        return data;
+    }
+    return parts.map((part) => part.slice(1, -1).replace(/\\(.)/g, '$1')).join('');
+}
+
+export function createDnsResolver(env: Env): DnsResolver {
+    return new DnsOverHttpsResolver(env.DNS_RESOLVER_URL || DEFAULT_DNS_RESOLVER_URL);
+}
+
+export function generateVerificationToken(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const array = new Uint8Array(32);
+    crypto.getRandomValues(array);
+    return Array.from(array, (byte) => chars[byte % chars.length]).join('');
+}
+
+/**
+ * What the owner has to publish for each method; null for methods the domain can't use
+ */
+export function verificationInstructions(domain: string, token: string) {
+    const wildcard = isWildcard(domain);
+    return {
+        file: wildcard ? null : {
+            path: VERIFICATION_FILE_PATH,
+            content: token,
+            url: `https://${domain}${VERIFICATION_FILE_PATH}`,
+        },
+        dns: {
+            type: 'TXT',
+            name: dnsRecordName(domain),
+            value: `${DNS_VALUE_PREFIX}${token}`,
+        },
+        meta: wildcard ? null : {
+            url: `https://${domain}/`,
+            tag: `<meta name="${VERIFICATION_META_NAME}" content="${token}">`,
+        },
+    };
+}
+
+// Fetch a page of the site the way a browser would, skipping every cache
+async function fetchFromSite(url: string, accept: string): Promise<Response> {
+    // Add cache-busting query parameter to ensure fresh fetch
+    const cacheBuster = Date.now() + '-' + Math.random().toString(36).substring(2, 9);
+
+    return fetch(`${url}?_=${cacheBuster}`, {
+        headers: {
+            // Use a standard browser User-Agent to avoid bot detection
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+            'Accept': accept,
+            'Accept-Language': 'en-US,en;q=0.9',
+            'Accept-Encoding': 'gzip, deflate, br',
+            // Strong cache-busting headers
+            'Cache-Control': 'no-cache, no-store, must-revalidate',
+            'Pragma': 'no-cache',
+        },
+        // Disable caching at fetch level
+        cache: 'no-store',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+}
+
+async function verifyViaFile(domain: string, token: string): Promise<VerificationResult> {
+    const verificationUrl = `https://${domain}${VERIFICATION_FILE_PATH}`;
+
+    try {
+        const response = await fetchFromSite(verificationUrl, 'text/plain,text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8');
+
+        if (!response.ok) {
+            return { success: false, error: `HTTP ${response.status} - Could not fetch verification file. If you're using Cloudflare or similar protection, you may need to create a page rule to allow access to /.well-known/* paths, or verify with a DNS record instead.` };
+        }
+
+        const content = await response.text();
+        if (content.trim() === token) {
+            return { success: true };
+        }
+        return { success: false, error: 'File found but verification token does not match' };
+    } catch {
+        return { success: false, error: 'Could not reach ' + verificationUrl };
+    }
+}
+
+async function verifyViaDns(domain: string, token: string, resolver: DnsResolver): Promise<VerificationResult> {
+    const name = dnsRecordName(domain);
+
+    let records: string[];
+    try {
+        records = await resolver.resolveTxt(name);
+    } catch {
+        return { success: false, error: `Could not look up TXT records for ${name}. Try again in a few minutes.` };
+    }
+
+    if (records.some((record) => record.trim() === `${DNS_VALUE_PREFIX}${token}`)) {
+        return { success: true };
+    }
+    if (records.length === 0) {
+        return { success: false, error: `No TXT record found for ${name}. DNS changes can take a while to appear.` };
+    }
+    return { success: false, error: `TXT record found for ${name} but verification token does not match` };
+}
+
+async function verifyViaMeta(domain: string, token: string): Promise<VerificationResult> {
+    const pageUrl = `https://${domain}/`;
+
+    try {
+        const response = await fetchFromSite(pageUrl, 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8');
+        if (!response.ok) {
+            return { success: false, error: `HTTP ${response.status} - Could not fetch ${pageUrl}` };
+        }
+
+        const contents: string[] = [];
+        await new HTMLRewriter()
+            .on(`meta[name="${VERIFICATION_META_NAME}"]`, {
+                element(element) {
+                    contents.push(element.getAttribute('content')?.trim() ?? '');
+                },
+            })
+            .transform(response)
+            .arrayBuffer();
+
+        if (contents.includes(token)) {
+            return { success: true };
+        }
+        if (contents.length === 0) {
+            return { success: false, error: `No ${VERIFICATION_META_NAME} meta tag found on ${pageUrl}` };
+        }
+        return { success: false, error: 'Meta tag found but verification token does not match' };
+    } catch {
+        return { success: false, error: 'Could not reach ' + pageUrl };
+    }
+}
+
+/**
+ * Check that the token has been published on the domain with the given method
+ */
+export async function verifyDomain(
+    env: Env,
+    method: VerificationMethod,
+    domain: string,
+    token: string
+): Promise<VerificationResult> {
+    if (isWildcard(domain) && method !== 'dns') {
+        return { success: false, error: 'Wildcard domains can only be verified with a DNS record' };
+    }
+
+    switch (method) {
+        case 'file':
+            return verifyViaFile(domain, token);
+        case 'dns':
+            return verifyViaDns(domain, token, createDnsResolver(env));
+        case 'meta':
+            return verifyViaMeta(domain, token);
+    }
+}
@@ -1,39 +1,450 @@
 /**
- * Email sending utilities using Resend SDK
- * Official docs: https://resend.com/docs/send-with-cloudflare-workers
+ * Email sending utilities
+ *
+ * Every message goes through an EmailTransport so delivery can be swapped out:
+ * Resend in production, console logging when no API key is configured, and an
+ * in-memory outbox that tests can inspect instead of calling Resend.
+ * Resend docs: https://resend.com/docs/send-with-cloudflare-workers
  */
 
 import { Resend } from 'resend';
+import type { EmailMessage, EmailSendResult, EmailTransport, Env } from '../types';
+import { escapeHtml } from './sanitize';
+
+const MAGIC_LINK_FROM = 'Ankush from CommentKit <commentkit@ankush.one>';
+const NOTIFICATION_FROM = 'CommentKit <commentkit@ankush.one>';
+
+/**
+ * Delivers email through the Resend API
+ */
+export class ResendEmailTransport implements EmailTransport {
+    constructor(private apiKey: string) { }
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+        try {
+            const resend = new Resend(this.apiKey);
+
+            const { data, error } = await resend.emails.send({
+                from: message.from ?? NOTIFICATION_FROM,
+                to: [message.to],
+                subject: message.subject,
+                html: message.html,
+                text: message.text,
+                headers: message.headers,
+            });
+
+            if (error) {
+                console.error('Resend SDK error:', error);
+                return { success: false, error: error.message || String(error) };
+            }
+
+            console.log('Email sent successfully:', data);
+            return { success: true, id: data?.id };
+        } catch (error) {
+            console.error('Error sending email:', error);
+            return { success: false, error: String(error) };
+        }
+    }
+}
+
+/**
+ * Logs messages instead of sending them (local development without Resend)
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+        console.warn(`⚠️ Email not sent (no transport configured) - to: ${message.to}, subject: ${message.subject}`);
+        return { success: true };
+    }
+}
+
+/**
+ * Keeps messages in memory so tests can assert on what would have been sent
+ */
+export class MemoryEmailTransport implements EmailTransport {
+    readonly messages: EmailMessage[] = [];
+
+    async send(message: EmailMessage): Promise<EmailSendResult> {
+        this.messages.push(message);
+        return { success: true, id: `memory-${this.messages.length}` };
+    }
+
+    clear(): void {
+        this.messages.length = 0;
+    }
+}
+
+// Shared outbox used when EMAIL_TRANSPORT=memory
+export const memoryOutbox = new MemoryEmailTransport();
+
+/**
+ * Pick the transport for this environment
+ */
+export function createEmailTransport(env: Env): EmailTransport {
+    if (env.EMAIL_TRANSPORT === 'memory') {
+        return memoryOutbox;
+    }
+    if (env.EMAIL_TRANSPORT === 'console' || !env.RESEND_API_KEY) {
+        return new ConsoleEmailTransport();
+    }
+    return new ResendEmailTransport(env.RESEND_API_KEY);
+}
 
 /**
- * Send a magic link email using Resend SDK
+ * Send a magic link email
  */
 export async function sendMagicLinkEmail(
+    transport: EmailTransport,
     email: string,
-    magicLink: string,
-    apiKey: string
-): Promise<{ success: boolean; error?: string; id?: string }> {
-    try {
-        const resend = new Resend(apiKey);
-
-        const { data, error } = await resend.emails.send({
-            from: 'Ankush from CommentKit <commentkit@ankush.one>',
-            to: [email],
-            subject: 'Your login link for CommentKit',
-            html: getMagicLinkEmailTemplate(email, magicLink),
-        });
-
-        if (error) {
-            console.error('Resend SDK error:', error);
-            return { success: false, error: error.message || String(error) };
-        }
-
-        console.log('Email sent successfully:', data);
-        return { success: true, id: data?.id };
-    } catch (error) {
-        console.error('Error sending email:', error);
-        return { success: false, error: String(error) };
+    magicLink: string
+): Promise<EmailSendResult> {
+    return transport.send({
+        from: MAGIC_LINK_FROM,
+        to: email,
+        subject: 'Your login link for CommentKit',
+        html: getMagicLinkEmailTemplate(email, magicLink),
+    });
+}
+
+// Headers that let mail clients offer one-click unsubscribe (RFC 8058)
+function unsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
+
+/**
+ * Tell a commenter that someone replied to them
+ */
+export async function sendReplyNotificationEmail(
+    transport: EmailTransport,
+    params: {
+        to: string;
+        replierName: string;
+        pageTitle: string;
+        pageUrl: string | null;
+        originalContent: string;
+        replyContent: string;
+        unsubscribeUrl: string;
+    }
+): Promise<EmailSendResult> {
+    const { replierName, pageTitle, pageUrl, unsubscribeUrl } = params;
+
+    const body = `
+        <p class="message"><strong>${escapeHtml(replierName)}</strong> replied to your comment on <strong>${escapeHtml(pageTitle)}</strong>:</p>
+        <div class="quote">${formatExcerpt(params.replyContent)}</div>
+        <p class="context">In reply to: ${formatExcerpt(params.originalContent, 200)}</p>`;
+
+    return transport.send({
+        to: params.to,
+        subject: `${replierName} replied to your comment on ${pageTitle}`,
+        html: getNotificationEmailTemplate({
+            body,
+            action: pageUrl ? { label: 'View the conversation', url: pageUrl } : undefined,
+            recipient: params.to,
+            reason: 'you asked to hear about replies to your comments',
+            unsubscribeUrl,
+        }),
+        text: `${replierName} replied to your comment on ${pageTitle}:\n\n${params.replyContent}\n\n${pageUrl ?? ''}\n\nUnsubscribe: ${unsubscribeUrl}`,
+        headers: unsubscribeHeaders(unsubscribeUrl),
+    });
+}
+
+/**
+ * Tell someone they were @mentioned in a comment
+ */
+export async function sendMentionNotificationEmail(
+    transport: EmailTransport,
+    params: {
+        to: string;
+        authorName: string;
+        pageTitle: string;
+        pageUrl: string | null;
+        content: string;
+        unsubscribeUrl: string;
+    }
+): Promise<EmailSendResult> {
+    const { authorName, pageTitle, pageUrl, unsubscribeUrl } = params;
+
+    const body = `
+        <p class="message"><strong>${escapeHtml(authorName)}</strong> mentioned you in a comment on <strong>${escapeHtml(pageTitle)}</strong>:</p>
+        <div class="quote">${formatExcerpt(params.content)}</div>`;
+
+    return transport.send({
+        to: params.to,
+        subject: `${authorName} mentioned you on ${pageTitle}`,
+        html: getNotificationEmailTemplate({
+            body,
+            action: pageUrl ? { label: 'View the comment', url: pageUrl } : undefined,
+            recipient: params.to,
+            reason: 'you asked to hear when someone mentions you',
+            unsubscribeUrl,
+        }),
+        text: `${authorName} mentioned you in a comment on ${pageTitle}:\n\n${params.content}\n\n${pageUrl ?? ''}\n\nUnsubscribe: ${unsubscribeUrl}`,
+        headers: unsubscribeHeaders(unsubscribeUrl),
+    });
+}
+
+/**
+ * Ask a guest to confirm the email address they left with a comment
+ */
+export async function sendGuestVerificationEmail(
+    transport: EmailTransport,
+    params: {
+        to: string;
+        authorName: string;
+        pageTitle: string;
+        content: string;
+        verifyUrl: string;
+    }
+): Promise<EmailSendResult> {
+    const { authorName, pageTitle, verifyUrl } = params;
+
+    const body = `
+        <p class="message">Hi ${escapeHtml(authorName)}, please confirm this is your email address so your comment on <strong>${escapeHtml(pageTitle)}</strong> can be marked as verified:</p>
+        <div class="quote">${formatExcerpt(params.content, 500)}</div>
+        <p class="context">If you didn't leave this comment, you can ignore this email.</p>`;
+
+    return transport.send({
+        to: params.to,
+        subject: `Confirm your comment on ${pageTitle}`,
+        html: getNotificationEmailTemplate({
+            body,
+            action: { label: 'Confirm my email', url: verifyUrl },
+            recipient: params.to,
+            reason: 'this address was given with a comment',
+        }),
+        text: `Please confirm your comment on ${pageTitle}:\n\n${verifyUrl}\n\nIf you didn't leave this comment, you can ignore this email.`,
+    });
+}
+
+/**
+ * Invite someone to help run a site; the link signs them in like a magic link
+ */
+export async function sendSiteInvitationEmail(
+    transport: EmailTransport,
+    params: {
+        to: string;
+        siteName: string;
+        siteDomain: string;
+        inviterName: string;
+        role: string;
+        inviteUrl: string;
+        expiresInDays: number;
+    }
+): Promise<EmailSendResult> {
+    const { siteName, siteDomain, inviterName, role, inviteUrl, expiresInDays } = params;
+
+    const body = `
+        <p class="message">${escapeHtml(inviterName)} invited you to help run <strong>${escapeHtml(siteName)}</strong> (${escapeHtml(siteDomain)}) on CommentKit as ${role === 'admin' ? 'an' : 'a'} <strong>${escapeHtml(role)}</strong>.</p>
+        <p class="context">The link signs you in and adds you to the site's team. It expires in ${expiresInDays} days. If you weren't expecting this, you can ignore this email.</p>`;
+
+    return transport.send({
+        from: MAGIC_LINK_FROM,
+        to: params.to,
+        subject: `You're invited to help run ${siteName} on CommentKit`,
+        html: getNotificationEmailTemplate({
+            body,
+            action: { label: 'Accept invitation', url: inviteUrl },
+            recipient: params.to,
+            reason: "someone on a CommentKit site's team invited this address",
+        }),
+        text: `${inviterName} invited you to help run ${siteName} (${siteDomain}) on CommentKit as ${role === 'admin' ? 'an' : 'a'} ${role}.\n\nAccept the invitation (link expires in ${expiresInDays} days):\n\n${inviteUrl}\n\nIf you weren't expecting this, you can ignore this email.`,
+    });
+}
+
+/**
+ * Ask a user to confirm the new address they want their account moved to
+ */
+export async function sendEmailChangeConfirmationEmail(
+    transport: EmailTransport,
+    params: { to: string; confirmUrl: string }
+): Promise<EmailSendResult> {
+    const body = `
+        <p class="message">Confirm that you want to use <strong>${escapeHtml(params.to)}</strong> for your CommentKit account. Your account keeps its current address until you do.</p>
+        <p class="context">This link expires in 1 hour. If you didn't ask for this, you can ignore this email.</p>`;
+
+    return transport.send({
+        from: MAGIC_LINK_FROM,
+        to: params.to,
+        subject: 'Confirm your new email address for CommentKit',
+        html: getNotificationEmailTemplate({
+            body,
+            action: { label: 'Confirm new address', url: params.confirmUrl },
+            recipient: params.to,
+            reason: 'this address was entered as the new email for a CommentKit account',
+        }),
+        text: `Confirm your new CommentKit email address (link expires in 1 hour):\n\n${params.confirmUrl}\n\nIf you didn't ask for this, you can ignore this email.`,
+    });
+}
+
+/**
+ * Warn the current address that the account is being moved to another one
+ */
+export async function sendEmailChangeNoticeEmail(
+    transport: EmailTransport,
+    params: { to: string; newEmail: string; settingsUrl: string }
+): Promise<EmailSendResult> {
+    const body = `
+        <p class="message">Someone signed in to your CommentKit account asked to change its email address to <strong>${escapeHtml(params.newEmail)}</strong>. The change happens once that address is confirmed.</p>
+        <p class="context">If this wasn't you, sign in and use "Sign out everywhere" in your settings, then sign in again.</p>`;
+
+    return transport.send({
+        from: MAGIC_LINK_FROM,
+        to: params.to,
+        subject: 'Your CommentKit email address is being changed',
+        html: getNotificationEmailTemplate({
+            body,
+            action: { label: 'Review account settings', url: params.settingsUrl },
+            recipient: params.to,
+            reason: 'this is the email address on your CommentKit account',
+        }),
+        text: `Someone asked to change your CommentKit email address to ${params.newEmail}. If this wasn't you, sign in at ${params.settingsUrl} and use "Sign out everywhere".`,
+    });
+}
+
+/**
+ * Summarize new comments waiting for review across a site owner's sites
+ */
+export async function sendPendingDigestEmail(
+    transport: EmailTransport,
+    params: {
+        to: string;
+        total: number;
+        comments: { site_name: string; page_title: string; author_name: string; content: string }[];
+        dashboardUrl: string;
+        unsubscribeUrl: string;
     }
+): Promise<EmailSendResult> {
+    const { total, comments, dashboardUrl, unsubscribeUrl } = params;
+    const noun = total === 1 ? 'comment is' : 'comments are';
+
+    const items = comments
+        .map((comment) => `
+        <div class="digest-item">
+            <p class="digest-meta">${escapeHtml(comment.author_name)} on ${escapeHtml(comment.page_title)} · ${escapeHtml(comment.site_name)}</p>
+            <div class="quote">${formatExcerpt(comment.content, 240)}</div>
+        </div>`)
+        .join('');
+    const more = total > comments.length
+        ? `<p class="context">…and ${total - comments.length} more.</p>`
+        : '';
+
+    return transport.send({
+        to: params.to,
+        subject: `${total} new ${noun} waiting for review`,
+        html: getNotificationEmailTemplate({
+            body: `<p class="message">${total} new ${noun} waiting for your review:</p>${items}${more}`,
+            action: { label: 'Open moderation queue', url: dashboardUrl },
+            recipient: params.to,
+            reason: 'you own a CommentKit site with review enabled',
+            unsubscribeUrl,
+        }),
+        text: `${total} new ${noun} waiting for your review.\n\n${dashboardUrl}\n\nUnsubscribe: ${unsubscribeUrl}`,
+        headers: unsubscribeHeaders(unsubscribeUrl),
+    });
+}
+
+// Escape comment text for the email body, trimmed and with line breaks kept
+function formatExcerpt(content: string, maxLength: number = 1000): string {
+    const trimmed = content.length > maxLength ? `${content.slice(0, maxLength).trimEnd()}…` : content;
+    return escapeHtml(trimmed).replace(/\n/g, '<br>');
+}
+
+/**
+ * Generate the HTML layout shared by notification emails
+ */
+function getNotificationEmailTemplate(params: {
+    body: string;
+    action?: { label: string; url: string };
+    recipient: string;
+    reason: string;
+    // Omitted for one-off emails such as address confirmations
+    unsubscribeUrl?: string;
+}): string {
+    const { body, action, recipient, reason, unsubscribeUrl } = params;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style>
+        body {
+            margin: 0;
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;
+            line-height: 1.6;
+            color: #1f2937;
+            background-color: #f9fafb;
+            padding: 40px 20px;
+        }
+        .container {
+            max-width: 560px;
+            margin: 0 auto;
+            background-color: #ffffff;
+            border-radius: 12px;
+            box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1);
+        }
+        .content {
+            padding: 32px 40px;
+        }
+        .message {
+            font-size: 16px;
+            color: #374151;
+            margin: 0 0 16px;
+        }
+        .quote {
+            border-left: 4px solid #6366f1;
+            background-color: #f9fafb;
+            padding: 12px 16px;
+            border-radius: 4px;
+            font-size: 15px;
+            color: #1f2937;
+            margin-bottom: 16px;
+        }
+        .context, .digest-meta {
+            font-size: 14px;
+            color: #6b7280;
+            margin: 0 0 8px;
+        }
+        .button {
+            display: inline-block;
+            background-color: #6366f1 !important;
+            color: #ffffff !important;
+            text-decoration: none;
+            padding: 12px 28px;
+            border-radius: 8px;
+            font-weight: 600;
+            font-size: 15px;
+            margin-top: 8px;
+        }
+        .footer {
+            background-color: #f9fafb;
+            padding: 20px 40px;
+            border-top: 1px solid #e5e7eb;
+            font-size: 13px;
+            color: #9ca3af;
+        }
+        .footer a {
+            color: #6b7280;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="content">
+            ${body}
+            ${action ? `<a href="${escapeHtml(action.url)}" class="button">${escapeHtml(action.label)}</a>` : ''}
+        </div>
+        <div class="footer">
+            Sent to ${escapeHtml(recipient)} because ${reason}.
+            ${unsubscribeUrl ? `<a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a>` : ''}
+        </div>
+    </div>
+</body>
+</html>
+    `.trim();
 }
 
 /**
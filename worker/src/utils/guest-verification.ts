@@ -0,0 +1,131 @@
+/**
+ * Guest Email Verification
+ *
+ * When a site turns on verify_guest_emails, a guest comment that comes with an
+ * email address triggers a confirmation email. Like unsubscribe links, the link
+ * is signed (over the comment id and address) rather than stored, so it stops
+ * working if the comment no longer carries that address.
+ *
+ * Confirming marks the comment verified and, under approve_verified_guests, lets
+ * a held comment through as if a signed-in user had posted it. Signing in by
+ * magic link with the same address claims all of the guest's comments instead
+ * (see Database.claimGuestComments).
+ */
+
+import type { Context } from 'hono';
+import { Database } from '../db';
+import type { Comment, Env } from '../types';
+import { isIpBlockingAvailable, matchBlocklist } from './blocklist';
+import { createEmailTransport, sendGuestVerificationEmail } from './email';
+import { queueCommentNotifications } from './notifications';
+import { hmacSha256Hex, timingSafeEqual } from './signing';
+import { parseSiteSettings, resolveVerifiedGuestStatus } from './site-settings';
+import { HOLD_THRESHOLD } from './spam';
+import { queueCommentWebhookEvents } from './webhooks';
+
+export async function signGuestVerificationToken(commentId: number, email: string, secret: string): Promise<string> {
+    return hmacSha256Hex(`verify-comment:${commentId}:${email.toLowerCase()}`, secret);
+}
+
+export async function verifyGuestVerificationToken(
+    commentId: number,
+    email: string,
+    token: string,
+    secret: string
+): Promise<boolean> {
+    // Without a signing secret (e.g. local dev) no link can be valid
+    if (!secret) {
+        return false;
+    }
+
+    const expected = await signGuestVerificationToken(commentId, email, secret);
+    return timingSafeEqual(token, expected);
+}
+
+export async function buildGuestVerificationUrl(env: Env, commentId: number, email: string): Promise<string> {
+    const params = new URLSearchParams({
+        comment: String(commentId),
+        token: await signGuestVerificationToken(commentId, email, env.JWT_SECRET),
+    });
+    return `${env.BASE_URL}/api/v1/notifications/verify-comment?${params.toString()}`;
+}
+
+/**
+ * Email a guest the confirmation link for their comment after the response is sent
+ */
+export function queueGuestVerificationEmail(
+    c: Context<{ Bindings: Env }>,
+    comment: Comment,
+    details: { authorName: string; pageTitle: string }
+): void {
+    if (!comment.author_email) {
+        return;
+    }
+    const email = comment.author_email;
+
+    const task = (async () => {
+        try {
+            const result = await sendGuestVerificationEmail(createEmailTransport(c.env), {
+                to: email,
+                authorName: details.authorName,
+                pageTitle: details.pageTitle,
+                content: comment.content,
+                verifyUrl: await buildGuestVerificationUrl(c.env, comment.id, email),
+            });
+            if (!result.success) {
+                console.error(`[Verification] Failed to email comment ${comment.id}:`, result.error);
+            }
+        } catch (error) {
+            console.error(`[Verification] Failed to email comment ${comment.id}:`, error);
+        }
+    })();
+
+    try {
+        c.executionCtx.waitUntil(task);
+    } catch {
+        // No execution context outside the Workers runtime - the task still runs
+    }
+}
+
+// Spam holds, shadow-bans and matching blocklist entries keep a verified guest's comment in review
+async function mustStayHeld(env: Env, db: Database, comment: Comment): Promise<boolean> {
+    if (comment.shadow_banned || (comment.spam_score ?? 0) >= HOLD_THRESHOLD) {
+        return true;
+    }
+
+    const block = matchBlocklist(await db.getBlocklistBySite(comment.site_id), {
+        userId: comment.user_id,
+        email: comment.author_email,
+        emailHash: comment.author_email_hash,
+        ipAddress: isIpBlockingAvailable(env) ? comment.ip_address : null,
+        content: comment.content,
+    });
+    return block !== null;
+}
+
+/**
+ * Mark a guest comment's email as confirmed and apply the site's policy for verified guests
+ *
+ * @returns The comment's status afterwards, and whether it had already been confirmed
+ */
+export async function confirmGuestComment(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    comment: Comment
+): Promise<{ status: Comment['status']; alreadyVerified: boolean }> {
+    if (!(await db.markCommentEmailVerified(comment.id))) {
+        return { status: comment.status, alreadyVerified: true };
+    }
+
+    const site = await db.getSiteById(comment.site_id);
+    const status = resolveVerifiedGuestStatus(parseSiteSettings(site?.settings), comment.status);
+    if (status === comment.status || await mustStayHeld(c.env, db, comment)) {
+        return { status: comment.status, alreadyVerified: false };
+    }
+
+    await db.updateCommentStatus(comment.id, status);
+    queueCommentWebhookEvents(c, 'comment.approved', [comment], status);
+    queueCommentNotifications(c, [comment.id]);
+
+    return { status, alreadyVerified: false };
+}
@@ -0,0 +1,438 @@
+/**
+ * Markdown Comments
+ *
+ * Sites that opt in (settings.formatting.markdown) get a small Markdown
+ * dialect. The source is parsed into an AST that can only hold allowlisted
+ * nodes, then rendered with every piece of text escaped:
+ *
+ *   *emphasis*, **strong**, `code`, fenced ``` code blocks,
+ *   [links](https://example.com), > blockquotes, - and 1. lists
+ *
+ * Anything else (raw HTML, headings, images, tables) stays literal text. Links
+ * are limited to http(s) and mailto and always get rel="nofollow ugc".
+ */
+
+import { escapeHtml } from './sanitize';
+
+export type MarkdownInline =
+    | { type: 'text'; value: string }
+    | { type: 'emphasis'; children: MarkdownInline[] }
+    | { type: 'strong'; children: MarkdownInline[] }
+    | { type: 'code'; value: string }
+    | { type: 'link'; href: string; children: MarkdownInline[] }
+    | { type: 'break' };
+
+export type MarkdownBlock =
+    | { type: 'paragraph'; children: MarkdownInline[] }
+    | { type: 'code_block'; language: string | null; value: string }
+    | { type: 'blockquote'; children: MarkdownBlock[] }
+    | { type: 'list'; ordered: boolean; start: number; items: MarkdownBlock[][] };
+
+// Deeper quotes, lists and emphasis are left as text so input can't blow the stack
+const MAX_DEPTH = 8;
+
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)[^`]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])( +|$)/;
+// "(" url [title] ")" where the url may hold balanced parentheses, e.g. Wikipedia links
+const LINK_DESTINATION = /\(\s*(<[^<>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)(?:\s+"[^"\n]*"|\s+'[^'\n]*')?\s*\)/y;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!>~|]/;
+
+// ==========================================
+// Block parsing
+// ==========================================
+
+function isBlankLine(line: string): boolean {
+    return line.trim() === '';
+}
+
+function isOrderedMarker(marker: string): boolean {
+    return /\d/.test(marker[0]);
+}
+
+// Lines that end a paragraph without a blank line in between
+// (numbered lists only when they start at 1, so "2024. was a year" stays text)
+function startsBlock(line: string): boolean {
+    const item = line.match(LIST_ITEM);
+    return FENCE.test(line) || QUOTE.test(line) || (item !== null && (!isOrderedMarker(item[2]) || parseInt(item[2]) === 1));
+}
+
+function parseBlocks(lines: string[], depth: number): MarkdownBlock[] {
+    const blocks: MarkdownBlock[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (isBlankLine(line)) {
+            i++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            const marker = fence[1];
+            const body: string[] = [];
+            i++;
+            // An unclosed fence runs to the end of the comment
+            while (i < lines.length) {
+                const closing = lines[i].trim();
+                if (closing.length >= marker.length && closing === marker[0].repeat(closing.length)) {
+                    i++;
+                    break;
+                }
+                body.push(lines[i]);
+                i++;
+            }
+            const language = fence[2].slice(0, 20) || null;
+            blocks.push({ type: 'code_block', language, value: body.join('\n') });
+            continue;
+        }
+
+        if (depth < MAX_DEPTH && QUOTE.test(line)) {
+            const quoted: string[] = [];
+            while (i < lines.length && QUOTE.test(lines[i])) {
+                quoted.push(lines[i].replace(QUOTE, ''));
+                i++;
+            }
+            blocks.push({ type: 'blockquote', children: parseBlocks(quoted, depth + 1) });
+            continue;
+        }
+
+        const item = line.match(LIST_ITEM);
+        if (depth < MAX_DEPTH && item) {
+            const ordered = isOrderedMarker(item[2]);
+            const start = ordered ? parseInt(item[2]) : 1;
+            const items: MarkdownBlock[][] = [];
+
+            while (i < lines.length) {
+                const marker = lines[i].match(LIST_ITEM);
+                if (!marker || isOrderedMarker(marker[2]) !== ordered) break;
+
+                // Continuation lines are indented at least as far as the item's text
+                const indent = marker[0].length;
+                const itemLines = [lines[i].slice(marker[0].length)];
+                i++;
+
+                while (i < lines.length) {
+                    const next = lines[i];
+                    if (isBlankLine(next)) {
+                        // A blank line only continues the item if indented content follows
+                        const following = lines[i + 1];
+                        if (following !== undefined && !isBlankLine(following) && following.search(/\S/) >= indent) {
+                            itemLines.push('');
+                            i++;
+                            continue;
+                        }
+                        break;
+                    }
+                    if (next.search(/\S/) >= indent) {
+                        itemLines.push(next.slice(indent));
+                    } else if (!startsBlock(next) && !LIST_ITEM.test(next) && !isBlankLine(itemLines[itemLines.length - 1])) {
+                        // Lazy continuation of the item's paragraph
+                        itemLines.push(next.trim());
+                    } else {
+                        break;
+                    }
+                    i++;
+                }
+
+                items.push(parseBlocks(itemLines, depth + 1));
+
+                // Items separated by one blank line still belong to the same list
+                if (isBlankLine(lines[i] ?? '') && LIST_ITEM.test(lines[i + 1] ?? '')) {
+                    i++;
+                }
+            }
+
+            blocks.push({ type: 'list', ordered, start, items });
+            continue;
+        }
+
+        const paragraph: string[] = [];
+        while (i < lines.length && !isBlankLine(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+            paragraph.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n'), depth) });
+    }
+
+    return blocks;
+}
+
+// ==========================================
+// Inline parsing
+// ==========================================
+
+/**
+ * Only absolute http(s) and mailto links are kept
+ *
+ * @returns The normalized URL, or null if the link isn't allowed
+ */
+export function safeLinkHref(raw: string): string | null {
+    const value = raw.trim().replace(/^<(.*)>$/, '$1');
+    try {
+        const url = new URL(value);
+        return LINK_PROTOCOLS.includes(url.protocol) ? url.href : null;
+    } catch {
+        return null;
+    }
+}
+
+function backtickRun(text: string, start: number): string {
+    let end = start;
+    while (text[end] === '`') end++;
+    return text.slice(start, end);
+}
+
+// Pair up every "[" with its "]" in one pass (escapes and code spans don't count)
+function matchBrackets(text: string): Map<number, number> {
+    const pairs = new Map<number, number>();
+    const open: number[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '\\') {
+            i++;
+        } else if (char === '`') {
+            const run = backtickRun(text, i);
+            const close = text.indexOf(run, i + run.length);
+            i = (close === -1 ? i + run.length : close + run.length) - 1;
+        } else if (char === '[') {
+            open.push(i);
+        } else if (char === ']' && open.length > 0) {
+            pairs.set(open.pop()!, i);
+        }
+    }
+    return pairs;
+}
+
+// Match "(url)" or "(url "title")" at `open`, whatever the url is
+function matchLinkDestination(text: string, open: number): { url: string; end: number } | null {
+    LINK_DESTINATION.lastIndex = open;
+    const match = LINK_DESTINATION.exec(text);
+    return match ? { url: match[1], end: open + match[0].length } : null;
+}
+
+/**
+ * Parse "(url)" or "(url "title")" right after a link's closing bracket
+ * Titles are accepted but dropped.
+ */
+function parseLinkDestination(text: string, open: number): { href: string; end: number } | null {
+    const destination = matchLinkDestination(text, open);
+    const href = destination && safeLinkHref(destination.url);
+    return href ? { href, end: destination.end } : null;
+}
+
+function canOpenEmphasis(text: string, start: number, delimiter: string): boolean {
+    const afterOpen = text[start + delimiter.length];
+    if (afterOpen === undefined || /\s/.test(afterOpen)) return false;
+    // Underscores inside words (snake_case) are not emphasis
+    return !(delimiter[0] === '_' && start > 0 && /\w/.test(text[start - 1]));
+}
+
+// Find where an emphasis run opened at `start` closes, or -1
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+    let i = start + delimiter.length + 1;
+    while (i < text.length) {
+        const char = text[i];
+        if (char === '\\') {
+            i += 2;
+            continue;
+        }
+        if (char === '`') {
+            const run = backtickRun(text, i);
+            const close = text.indexOf(run, i + run.length);
+            i = close === -1 ? i + run.length : close + run.length;
+            continue;
+        }
+        if (text.startsWith(delimiter, i) && !/\s/.test(text[i - 1])) {
+            const after = text[i + delimiter.length];
+            // A longer run closes at its end: "**" for "*", the last two of "***" for "**"
+            const longerRun = after === delimiter[0];
+            const intraword = delimiter[0] === '_' && after !== undefined && /\w/.test(after);
+            if (!longerRun && !intraword) return i;
+            if (longerRun) {
+                i += delimiter.length === 1 ? 2 : 1;
+                continue;
+            }
+        }
+        i++;
+    }
+    return -1;
+}
+
+function parseInline(text: string, depth: number, inLink = false): MarkdownInline[] {
+    const nodes: MarkdownInline[] = [];
+    let buffer = '';
+    // Where a search for each delimiter's closer last came up empty; searching
+    // again from further on can't succeed, so "*a *b *c ..." stays linear
+    const unclosedFrom: Record<string, number> = {};
+    let brackets: Map<number, number> | undefined;
+
+    const flush = () => {
+        if (buffer) {
+            nodes.push({ type: 'text', value: buffer });
+            buffer = '';
+        }
+    };
+
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+
+        if (char === '\\' && i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+            buffer += text[i + 1];
+            i += 2;
+            continue;
+        }
+
+        if (char === '\n') {
+            flush();
+            nodes.push({ type: 'break' });
+            i++;
+            continue;
+        }
+
+        if (char === '`') {
+            const run = backtickRun(text, i);
+            const close = text.indexOf(run, i + run.length);
+            if (close !== -1 && text[close + run.length] !== '`') {
+                flush();
+                let value = text.slice(i + run.length, close).replace(/\n/g, ' ');
+                if (/^ .*\S.* $/.test(value)) value = value.slice(1, -1);
+                nodes.push({ type: 'code', value });
+                i = close + run.length;
+                continue;
+            }
+            buffer += run;
+            i += run.length;
+            continue;
+        }
+
+        // Images aren't supported: all of "![alt](url)" stays text instead of becoming "!" and a link
+        if (char === '!' && text[i + 1] === '[') {
+            brackets ??= matchBrackets(text);
+            const close = brackets.get(i + 1) ?? -1;
+            const destination = close !== -1 && text[close + 1] === '(' ? matchLinkDestination(text, close + 1) : null;
+            if (destination) {
+                buffer += text.slice(i, destination.end);
+                i = destination.end;
+                continue;
+            }
+        }
+
+        if (char === '[' && !inLink) {
+            brackets ??= matchBrackets(text);
+            const close = brackets.get(i) ?? -1;
+            const destination = close !== -1 && text[close + 1] === '(' ? parseLinkDestination(text, close + 1) : null;
+            if (destination) {
+                flush();
+                const label = text.slice(i + 1, close);
+                nodes.push({
+                    type: 'link',
+                    href: destination.href,
+                    children: label ? parseInline(label, depth + 1, true) : [{ type: 'text', value: destination.href }],
+                });
+                i = destination.end;
+                continue;
+            }
+        }
+
+        if ((char === '*' || char === '_') && depth < MAX_DEPTH) {
+            const delimiter = text[i + 1] === char ? char + char : char;
+            let close = -1;
+            if (canOpenEmphasis(text, i, delimiter) && i < (unclosedFrom[delimiter] ?? Infinity)) {
+                close = findClosingDelimiter(text, i, delimiter);
+                if (close === -1) unclosedFrom[delimiter] = i;
+            }
+            if (close !== -1) {
+                flush();
+                nodes.push({
+                    type: delimiter.length === 2 ? 'strong' : 'emphasis',
+                    children: parseInline(text.slice(i + delimiter.length, close), depth + 1, inLink),
+                });
+                i = close + delimiter.length;
+                continue;
+            }
+            buffer += delimiter;
+            i += delimiter.length;
+            continue;
+        }
+
+        buffer += char;
+        i++;
+    }
+
+    flush();
+    return nodes;
+}
+
+/**
+ * Parse Markdown source into the allowlisted AST
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+    const lines = source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+    return parseBlocks(lines, 0);
+}
+
+// ==========================================
+// Rendering
+// ==========================================
+
+function renderInline(nodes: MarkdownInline[]): string {
+    return nodes.map((node) => {
+        switch (node.type) {
+            case 'text':
+                return escapeHtml(node.value);
+            case 'emphasis':
+                return `<em>${renderInline(node.children)}</em>`;
+            case 'strong':
+                return `<strong>${renderInline(node.children)}</strong>`;
+            case 'code':
+                return `<code>${escapeHtml(node.value)}</code>`;
+            case 'link':
+                return `<a href="${escapeHtml(node.href)}" rel="nofollow ugc">${renderInline(node.children)}</a>`;
+            case 'break':
+                return '<br>';
+        }
+    }).join('');
+}
+
+function renderListItem(blocks: MarkdownBlock[]): string {
+    // Tight items ("- one line") render without a wrapping <p>
+    if (blocks.length === 1 && blocks[0].type === 'paragraph') {
+        return renderInline(blocks[0].children);
+    }
+    return renderBlocks(blocks);
+}
+
+function renderBlocks(blocks: MarkdownBlock[]): string {
+    return blocks.map((block) => {
+        switch (block.type) {
+            case 'paragraph':
+                return `<p>${renderInline(block.children)}</p>`;
+            case 'code_block': {
+                const language = block.language && /^[\w+#.-]+$/.test(block.language)
+                    ? ` class="language-${escapeHtml(block.language)}"`
+                    : '';
+                return `<pre><code${language}>${escapeHtml(block.value)}</code></pre>`;
+            }
+            case 'blockquote':
+                return `<blockquote>${renderBlocks(block.children)}</blockquote>`;
+            case 'list': {
+                const items = block.items.map((item) => `<li>${renderListItem(item)}</li>`).join('');
+                if (!block.ordered) return `<ul>${items}</ul>`;
+                return block.start === 1 ? `<ol>${items}</ol>` : `<ol start="${block.start}">${items}</ol>`;
+            }
+        }
+    }).join('');
+}
+
+/**
+ * Render Markdown source to HTML that only contains allowlisted tags
+ */
+export function renderMarkdown(source: string): string {
+    return renderBlocks(parseMarkdown(source));
+}
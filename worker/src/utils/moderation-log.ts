@@ -0,0 +1,76 @@
+/**
+ * Moderation Log Helpers
+ *
+ * Every status change and delete is recorded in moderation_log together with
+ * a snapshot of who performed it, so site teams can audit each other.
+ */
+
+import type { AuthUser, ModerationAudit, ModerationLogEntry, ModeratorInfo } from '../types';
+import type { SiteActor } from './site-access';
+
+// Reasons are free text from the moderator, kept short
+function auditReason(reason?: string | null): string | undefined {
+    const trimmedReason = reason?.trim();
+    return trimmedReason ? trimmedReason.slice(0, 500) : undefined;
+}
+
+/**
+ * Build the audit context for a moderation action performed by a user
+ */
+export function buildModerationAudit(
+    user: AuthUser,
+    role: ModeratorInfo['role'],
+    reason?: string | null
+): ModerationAudit {
+    return {
+        moderator: { user_id: user.id, email: user.email, role },
+        reason: auditReason(reason),
+    };
+}
+
+/**
+ * Build the audit context for an action by a user or an API key; a key is
+ * recorded by its name since it has no user behind it
+ */
+export function buildActorModerationAudit(
+    actor: SiteActor,
+    role: ModeratorInfo['role'],
+    reason?: string | null
+): ModerationAudit {
+    if (!actor.apiKey) {
+        return buildModerationAudit(actor.user, role, reason);
+    }
+    return {
+        moderator: {
+            user_id: null,
+            email: null,
+            role: 'api_key',
+            api_key: { id: actor.apiKey.id, name: actor.apiKey.name },
+        },
+        reason: auditReason(reason),
+    };
+}
+
+/**
+ * Shape a moderation_log row for API responses
+ */
+export function formatModerationLogEntry(entry: ModerationLogEntry) {
+    let moderator: ModeratorInfo | null = null;
+    try {
+        moderator = entry.moderator_info ? JSON.parse(entry.moderator_info) : null;
+    } catch {
+        moderator = null;
+    }
+
+    return {
+        id: entry.id,
+        comment_id: entry.comment_id,
+        action: entry.action,
+        from_status: entry.from_status,
+        to_status: entry.to_status,
+        reason: entry.reason,
+        moderator,
+        comment_excerpt: entry.comment_excerpt,
+        created_at: entry.created_at,
+    };
+}
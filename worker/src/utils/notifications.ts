@@ -0,0 +1,222 @@
+/**
+ * Email Notifications
+ *
+ * Reply and @mention emails go out once a comment is published - on create,
+ * or later when a held comment is approved - and comments.notified_at makes
+ * sure that happens only once. Site owners also get a scheduled digest of new
+ * comments waiting for review.
+ *
+ * Every email carries a signed one-click unsubscribe link, so guests can opt
+ * out without an account.
+ */
+
+import type { Context } from 'hono';
+import { Database } from '../db';
+import type { Env, NotificationKind, NotificationPreferences } from '../types';
+import {
+    createEmailTransport,
+    sendMentionNotificationEmail,
+    sendPendingDigestEmail,
+    sendReplyNotificationEmail,
+} from './email';
+import { hmacSha256Hex, timingSafeEqual } from './signing';
+
+export const NOTIFICATION_KINDS = ['reply', 'mention', 'digest'] as const satisfies readonly NotificationKind[];
+
+const PREFERENCE_COLUMNS: Record<NotificationKind, 'reply_emails' | 'mention_emails' | 'digest_emails'> = {
+    reply: 'reply_emails',
+    mention: 'mention_emails',
+    digest: 'digest_emails',
+};
+
+// Caps so a single comment can't be used to mass-mail a page
+const MAX_MENTIONS_PER_COMMENT = 5;
+const DIGEST_MAX_ITEMS = 10;
+
+export function isSubscribed(prefs: NotificationPreferences, kind: NotificationKind): boolean {
+    return prefs[PREFERENCE_COLUMNS[kind]] === 1;
+}
+
+/**
+ * Sign an unsubscribe token for an address and notification kind
+ */
+export async function signUnsubscribeToken(email: string, kind: NotificationKind, secret: string): Promise<string> {
+    return hmacSha256Hex(`unsubscribe:${email.toLowerCase()}:${kind}`, secret);
+}
+
+export async function verifyUnsubscribeToken(
+    email: string,
+    kind: NotificationKind,
+    token: string,
+    secret: string
+): Promise<boolean> {
+    // Without a signing secret (e.g. local dev) no link can be valid
+    if (!secret) {
+        return false;
+    }
+
+    const expected = await signUnsubscribeToken(email, kind, secret);
+    return timingSafeEqual(token, expected);
+}
+
+export async function buildUnsubscribeUrl(env: Env, email: string, kind: NotificationKind): Promise<string> {
+    const params = new URLSearchParams({
+        email: email.toLowerCase(),
+        kind,
+        token: await signUnsubscribeToken(email, kind, env.JWT_SECRET),
+    });
+    return `${env.BASE_URL}/api/v1/notifications/unsubscribe?${params.toString()}`;
+}
+
+/**
+ * Find @handles in comment text, lowercased and de-duplicated
+ */
+export function extractMentions(content: string): string[] {
+    const handles = new Set<string>();
+    for (const match of content.matchAll(/(?:^|[^\w@])@([\w.-]{2,50})/g)) {
+        handles.add(match[1].toLowerCase().replace(/[.-]+$/, ''));
+    }
+    return [...handles];
+}
+
+// Names can contain spaces, so "@JaneDoe" matches "Jane Doe"
+function mentionHandle(name: string): string {
+    return name.toLowerCase().replace(/\s+/g, '');
+}
+
+/**
+ * Send reply and mention emails for a newly published comment
+ */
+export async function notifyCommentPublished(env: Env, db: Database, commentId: number): Promise<void> {
+    const comment = await db.getCommentForNotification(commentId);
+    if (!comment || comment.status !== 'approved' || comment.shadow_banned) {
+        return;
+    }
+
+    if (!(await db.markCommentNotified(comment.id))) {
+        return;
+    }
+
+    const transport = createEmailTransport(env);
+    const pageTitle = comment.page_title || comment.page_slug;
+
+    // Never email the author about their own comment, or anyone twice
+    const notified = new Set<string>();
+    if (comment.author_address) {
+        notified.add(comment.author_address);
+    }
+
+    if (comment.parent_id) {
+        const parent = await db.getCommentForNotification(comment.parent_id);
+        const recipient = parent?.status === 'approved' ? parent.author_address : null;
+
+        if (parent && recipient && !notified.has(recipient)) {
+            notified.add(recipient);
+            const prefs = await db.getNotificationPreferences(recipient);
+            if (isSubscribed(prefs, 'reply')) {
+                await sendReplyNotificationEmail(transport, {
+                    to: recipient,
+                    replierName: comment.author_display_name,
+                    pageTitle,
+                    pageUrl: comment.page_url,
+                    originalContent: parent.content,
+                    replyContent: comment.content,
+                    unsubscribeUrl: await buildUnsubscribeUrl(env, recipient, 'reply'),
+                });
+            }
+        }
+    }
+
+    const handles = extractMentions(comment.content);
+    if (handles.length === 0) {
+        return;
+    }
+
+    const participants = await db.getPageParticipants(comment.page_id);
+    let mentioned = 0;
+    for (const participant of participants) {
+        if (mentioned >= MAX_MENTIONS_PER_COMMENT) break;
+        if (notified.has(participant.email) || !handles.includes(mentionHandle(participant.name))) continue;
+
+        notified.add(participant.email);
+        mentioned++;
+
+        const prefs = await db.getNotificationPreferences(participant.email);
+        if (!isSubscribed(prefs, 'mention')) continue;
+
+        await sendMentionNotificationEmail(transport, {
+            to: participant.email,
+            authorName: comment.author_display_name,
+            pageTitle,
+            pageUrl: comment.page_url,
+            content: comment.content,
+            unsubscribeUrl: await buildUnsubscribeUrl(env, participant.email, 'mention'),
+        });
+    }
+}
+
+/**
+ * Notify about published comments after the response is sent
+ * Failures are logged and never affect the request that triggered them.
+ */
+export function queueCommentNotifications(c: Context<{ Bindings: Env }>, commentIds: number[]): void {
+    if (commentIds.length === 0) {
+        return;
+    }
+
+    const db = new Database(c.env.DB);
+    const task = (async () => {
+        for (const commentId of commentIds) {
+            try {
+                await notifyCommentPublished(c.env, db, commentId);
+            } catch (error) {
+                console.error(`[Notifications] Failed to notify for comment ${commentId}:`, error);
+            }
+        }
+    })();
+
+    try {
+        c.executionCtx.waitUntil(task);
+    } catch {
+        // No execution context outside the Workers runtime - the task still runs
+    }
+}
+
+/**
+ * Email each site owner a summary of comments that arrived for review since their last digest
+ *
+ * @returns Number of digests sent
+ */
+export async function sendPendingDigests(env: Env, db: Database): Promise<number> {
+    const transport = createEmailTransport(env);
+    const toSqlDate = (date: Date) => date.toISOString().replace('T', ' ').slice(0, 19);
+
+    const until = toSqlDate(new Date());
+    // First digest covers the last day rather than the whole backlog
+    const defaultSince = toSqlDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+    const dashboardUrl = env.FRONTEND_URL || env.BASE_URL;
+
+    let sent = 0;
+    for (const recipient of await db.getDigestRecipients()) {
+        const since = recipient.last_digest_at ?? defaultSince;
+        const { total, comments } = await db.getPendingCommentsForDigest(recipient.user_id, since, until, DIGEST_MAX_ITEMS);
+        if (total === 0) continue;
+
+        const result = await sendPendingDigestEmail(transport, {
+            to: recipient.email,
+            total,
+            comments,
+            dashboardUrl,
+            unsubscribeUrl: await buildUnsubscribeUrl(env, recipient.email, 'digest'),
+        });
+
+        if (result.success) {
+            await db.markDigestSent(recipient.email, until);
+            sent++;
+        } else {
+            console.error(`[Notifications] Failed to send digest to ${recipient.email}:`, result.error);
+        }
+    }
+
+    return sent;
+}
@@ -0,0 +1,44 @@
+/**
+ * Object Storage
+ *
+ * Uploaded files go through an ObjectStore so the backing service can change.
+ * R2 is the only implementation: in production it is a real bucket, and under
+ * `wrangler dev` the same binding is simulated on the local filesystem (in
+ * .wrangler/state), so development needs no cloud account.
+ */
+
+import type { Env, ObjectStore, StoredObject } from '../types';
+
+/**
+ * Stores objects in an R2 bucket
+ */
+export class R2ObjectStore implements ObjectStore {
+    constructor(private bucket: R2Bucket) { }
+
+    async put(key: string, body: ArrayBuffer, contentType: string): Promise<void> {
+        await this.bucket.put(key, body, { httpMetadata: { contentType } });
+    }
+
+    async get(key: string): Promise<StoredObject | null> {
+        const object = await this.bucket.get(key);
+        if (!object) {
+            return null;
+        }
+        return {
+            body: object.body,
+            contentType: object.httpMetadata?.contentType ?? 'application/octet-stream',
+            size: object.size,
+        };
+    }
+
+    async delete(key: string): Promise<void> {
+        await this.bucket.delete(key);
+    }
+}
+
+/**
+ * Store for uploaded avatars, or null when no bucket is bound
+ */
+export function createAvatarStore(env: Env): ObjectStore | null {
+    return env.AVATARS ? new R2ObjectStore(env.AVATARS) : null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Cursor pagination helpers
+ *
+ * Cursors are opaque to clients: a base64 encoding of the last thread's
+ * created_at timestamp and id. Using (created_at, id) keeps ordering stable
+ * when several comments share the same timestamp.
+ */
+
+import type { CommentCursor } from '../types';
+
+export const DEFAULT_THREAD_LIMIT = 20;
+export const MAX_THREAD_LIMIT = 100;
+
+/**
+ * Encode a cursor for use in API responses
+ */
+export function encodeCursor(cursor: CommentCursor): string {
+    return btoa(`${cursor.createdAt}|${cursor.id}`);
+}
+
+/**
+ * Decode a cursor from a query parameter
+ * Returns null if the cursor is malformed
+ */
+export function decodeCursor(value: string): CommentCursor | null {
+    try {
+        const [createdAt, idStr] = atob(value).split('|');
+        const id = parseInt(idStr, 10);
+
+        if (!createdAt || isNaN(id)) {
+            return null;
+        }
+
+        return { createdAt, id };
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Parse the requested thread page size, clamped to a sane range
+ */
+export function parseThreadLimit(value: string | undefined): number {
+    const limit = parseInt(value || '', 10);
+    if (isNaN(limit) || limit < 1) {
+        return DEFAULT_THREAD_LIMIT;
+    }
+    return Math.min(limit, MAX_THREAD_LIMIT);
+}
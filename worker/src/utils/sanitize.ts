@@ -45,6 +45,18 @@ export function stripAllHtml(input: string): string {
     return sanitized;
 }
 
+/**
+ * Escape text for safe interpolation into HTML (e.g. email templates)
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
 /**
  * Decode HTML entities to plain text
  * Prevents double-encoding when frontend escapes content
@@ -127,6 +139,31 @@ export function sanitizeCommentContent(input: string): string {
     return sanitized;
 }
 
+/**
+ * Sanitize Markdown comment source (sites with Markdown enabled)
+ * - Keeps markup characters; utils/markdown.ts escapes everything it renders
+ * - Removes control characters but keeps newlines and tabs
+ * - Limits length
+ */
+export function sanitizeMarkdownSource(input: string): string {
+    if (typeof input !== 'string') {
+        return '';
+    }
+
+    let sanitized = input.replace(/\r\n?/g, '\n');
+
+    sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+
+    if (sanitized.length > 10000) {
+        sanitized = sanitized.slice(0, 10000);
+    }
+
+    // Only trailing whitespace and blank leading lines; indentation can be meaningful
+    sanitized = sanitized.replace(/^\s*\n/, '').trimEnd();
+
+    return sanitized;
+}
+
 /**
  * Validate and sanitize email addresses
  * Returns null if invalid
@@ -0,0 +1,47 @@
+/**
+ * Session Lifetimes
+ *
+ * Sessions slide: each use pushes expires_at out by the full lifetime again,
+ * so a session only expires after going unused for that long. The refresh is
+ * written at most once per SESSION_TOUCH_INTERVAL_MS, so that every
+ * authenticated read doesn't also become a database write.
+ */
+
+import { SSO_SESSION_HOURS } from './sso';
+
+export const SESSION_DAYS = 30;
+
+export const SESSION_TOUCH_INTERVAL_MS = 10 * 60 * 1000;
+
+// Longest stored user agent; anything past this is noise for telling devices apart
+const MAX_USER_AGENT_LENGTH = 512;
+
+/**
+ * How long a session lasts from its last use
+ */
+export function sessionLifetimeMs(user: { sso_site_id: number | null }): number {
+    return user.sso_site_id
+        ? SSO_SESSION_HOURS * 60 * 60 * 1000
+        : SESSION_DAYS * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * Whether a session last used at lastUsedAt (SQLite datetime, UTC) is due a refresh
+ */
+export function sessionNeedsTouch(lastUsedAt: string | null, now: Date = new Date()): boolean {
+    if (!lastUsedAt) {
+        return true;
+    }
+    return now.getTime() - new Date(lastUsedAt.replace(' ', 'T') + 'Z').getTime() >= SESSION_TOUCH_INTERVAL_MS;
+}
+
+/**
+ * SQLite datetime for when a session used now should expire
+ */
+export function slidingSessionExpiry(user: { sso_site_id: number | null }, now: Date = new Date()): string {
+    return new Date(now.getTime() + sessionLifetimeMs(user)).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+export function sessionUserAgent(header: string | undefined): string | null {
+    return header ? header.slice(0, MAX_USER_AGENT_LENGTH) : null;
+}
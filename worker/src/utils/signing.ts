@@ -0,0 +1,42 @@
+/**
+ * HMAC Signing Helpers
+ *
+ * Shared by features that hand out signed values the server must later
+ * verify without storing them (e.g. one-click unsubscribe links).
+ */
+
+/**
+ * Sign a payload with HMAC-SHA256, returning a hex digest
+ */
+export async function hmacSha256Hex(payload: string, secret: string): Promise<string> {
+    const encoder = new TextEncoder();
+
+    const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign']
+    );
+
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+    return Array.from(new Uint8Array(signature))
+        .map((b) => b.toString(16).padStart(2, '0'))
+        .join('');
+}
+
+/**
+ * Compare two strings in constant time to prevent timing attacks
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+    if (a.length !== b.length) {
+        return false;
+    }
+
+    let result = 0;
+    for (let i = 0; i < a.length; i++) {
+        result |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    }
+
+    return result === 0;
+}
@@ -0,0 +1,144 @@
+/**
+ * Site Access
+ *
+ * The one place that decides what someone may do on a site. A site has a
+ * single owner (sites.owner_id) and a team of members (site_members), and each
+ * role can do everything the roles below it can:
+ *
+ * - viewer:    see the site's dashboard, comments, stats and moderation log
+ * - moderator: approve, reject, delete and restore comments, manage the blocklist
+ * - admin:     change settings, domains, keys, webhooks and the team, export the site
+ * - owner:     delete the site
+ *
+ * Routes ask for a permission rather than a role, so what a role may do can
+ * change here without touching them. Some permissions can also be given to a
+ * site's API keys through their scopes (see utils/api-keys.ts).
+ */
+
+import type { Context } from 'hono';
+import { Database } from '../db';
+import { getAuthUser } from '../middleware';
+import type { ApiKeyScope, AuthUser, Env, Site, SiteMemberRole, SiteRole } from '../types';
+import { type ApiKeyAuth, apiKeyAllows, authenticateApiKey } from './api-keys';
+
+// Lowest first
+export const SITE_ROLES: readonly SiteRole[] = ['viewer', 'moderator', 'admin', 'owner'];
+
+// Roles someone can be invited with; ownership only changes hands through a superadmin transfer
+export const SITE_MEMBER_ROLES = ['admin', 'moderator', 'viewer'] as const satisfies readonly SiteMemberRole[];
+
+export type SitePermission = 'view' | 'moderate' | 'export' | 'manage' | 'delete';
+
+const REQUIRED_ROLE: Record<SitePermission, SiteRole> = {
+    view: 'viewer',
+    moderate: 'moderator',
+    export: 'admin',
+    manage: 'admin',
+    delete: 'owner',
+};
+
+// The scope that lets an API key act with a permission; keys can never manage or delete a site
+const API_KEY_SCOPE: Partial<Record<SitePermission, ApiKeyScope>> = {
+    view: 'comments:read',
+    moderate: 'moderate',
+    export: 'export',
+};
+
+export function hasSitePermission(role: SiteRole | null, permission: SitePermission): boolean {
+    return role !== null && SITE_ROLES.indexOf(role) >= SITE_ROLES.indexOf(REQUIRED_ROLE[permission]);
+}
+
+/**
+ * The user's role on the site, or null if they aren't on its team
+ */
+export async function getSiteRole(db: Database, site: Site, userId: number): Promise<SiteRole | null> {
+    if (site.owner_id === userId) {
+        return 'owner';
+    }
+    return db.getSiteMemberRole(site.id, userId);
+}
+
+export type SiteAccess =
+    | { site: Site; user: AuthUser; role: SiteRole; error?: undefined }
+    | { site?: undefined; user?: undefined; role?: undefined; error: string; status: 400 | 401 | 403 | 404 };
+
+/**
+ * Resolve the site named by a path parameter (:id unless given) and check the
+ * current user has the permission on it
+ */
+export async function getSiteAccess(
+    c: Context<{ Bindings: Env }>,
+    db: Database,
+    permission: SitePermission,
+    param: string = 'id'
+): Promise<SiteAccess> {
+    const user = await getAuthUser(c);
+    if (!user) {
+        return { error: 'Authentication required', status: 401 };
+    }
+
+    const siteId = parseInt(c.req.param(param) ?? '');
+    if (isNaN(siteId)) {
+        return { error: 'Invalid site_id', status: 400 };
+    }
+
+    const site = await db.getSiteById(siteId);
+    if (!site) {
+        return { error: 'Site not found', status: 404 };
+    }
+
+    const role = await getSiteRole(db, site, user.id);
+    if (!hasSitePermission(role, permission)) {
+        return { error: 'Forbidden', status: 403 };
+    }
+
+    return { site, user, role: role! };
+}
+
+// Whoever a request acts as on a site: a signed-in user, or one of the site's API keys
+export type SiteActor =
+    | { user: AuthUser; apiKey: null }
+    | { user: null; apiKey: ApiKeyAuth };
+
+export type SiteActorResult =
+    | { actor: SiteActor; error?: undefined }
+    | { actor?: undefined; error: string; status: 401 };
+
+/**
+ * Authenticate a request that may come from a server: by its API key when it
+ * sends one, otherwise by the signed-in user
+ */
+export async function getSiteActor(c: Context<{ Bindings: Env }>, db: Database): Promise<SiteActorResult> {
+    const result = await authenticateApiKey(c, db);
+    if (result.error) {
+        return { error: result.error, status: result.status };
+    }
+    if (result.apiKey) {
+        return { actor: { user: null, apiKey: result.apiKey } };
+    }
+
+    const user = await getAuthUser(c);
+    if (!user) {
+        return { error: 'Authentication required', status: 401 };
+    }
+    return { actor: { user, apiKey: null } };
+}
+
+/**
+ * What the actor acts as if it has the permission on the site - the user's role,
+ * or 'api_key' for a key of the site with the permission's scope - otherwise null
+ */
+export async function authorizeSiteActor(
+    db: Database,
+    site: Site,
+    actor: SiteActor,
+    permission: SitePermission
+): Promise<SiteRole | 'api_key' | null> {
+    if (actor.apiKey) {
+        const scope = API_KEY_SCOPE[permission];
+        return scope && apiKeyAllows(actor.apiKey, site, scope) ? 'api_key' : null;
+    }
+
+    const role = await getSiteRole(db, site, actor.user.id);
+    return hasSitePermission(role, permission) ? role : null;
+}
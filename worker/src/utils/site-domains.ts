@@ -0,0 +1,147 @@
+/**
+ * Site Domains
+ *
+ * A site is served from its primary domain (sites.domain) and any number of
+ * aliases (site_domains), such as www., staging or preview hosts. All of them
+ * share the site's pages and comments, but each alias is verified on its own
+ * before the widget will load there. A domain belongs to at most one site,
+ * whether as a primary domain or an alias.
+ *
+ * Domains are stored and compared in one normal form (see normalizeDomain), and
+ * either kind may be a wildcard such as *.example.com, which covers every
+ * subdomain of example.com but not example.com itself. A verified match always
+ * wins over an unverified one; among those, an exact match wins over a wildcard,
+ * and a longer wildcard over a shorter one. Hosts under another site's verified
+ * wildcard can't be registered.
+ */
+
+import { z } from 'zod';
+import type { SiteDomain } from '../types';
+import { verificationInstructions } from './domain-verification';
+
+// Check if domain is localhost or IP address
+export function isLocalhostOrIP(domain: string): boolean {
+    // Localhost variations (exact match, port, or subdomain)
+    if (domain === 'localhost' || domain.startsWith('localhost:') || domain.endsWith('.localhost')) return true;
+    if (domain === '127.0.0.1' || domain.startsWith('127.0.0.1:')) return true;
+    if (domain === '0.0.0.0' || domain.startsWith('0.0.0.0:')) return true;
+
+    // IPv4 pattern (with optional port)
+    const ipv4Pattern = /^(\d{1,3}\.){3}\d{1,3}(:\d+)?$/;
+    if (ipv4Pattern.test(domain)) return true;
+
+    // IPv6 pattern (simplified check)
+    if (domain.startsWith('[') || domain.includes('::')) return true;
+
+    return false;
+}
+
+export const WILDCARD_PREFIX = '*.';
+
+const LABEL_PATTERN = /^(?!-)[a-z0-9-]{1,63}(?<!-)$/;
+
+export function isWildcardDomain(domain: string): boolean {
+    return domain.startsWith(WILDCARD_PREFIX);
+}
+
+/**
+ * Bring a domain, host or pasted URL into the form domains are stored in:
+ * lowercase, punycode for internationalized names, no scheme, path, port or
+ * trailing dot. A leading "*." marks a wildcard.
+ *
+ * @returns The normalized domain, or null if it is not a valid host name
+ */
+export function normalizeDomain(input: string): string | null {
+    let value = input.trim().toLowerCase()
+        .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+        .replace(/[/?#].*$/, '');
+    if (!value || value.includes('@')) return null;
+
+    const wildcard = isWildcardDomain(value);
+    if (wildcard) {
+        value = value.slice(WILDCARD_PREFIX.length);
+    }
+
+    let hostname: string;
+    try {
+        // The URL parser lowercases, converts IDNs to punycode and drops the port
+        hostname = new URL(`http://${value}`).hostname.replace(/\.$/, '');
+    } catch {
+        return null;
+    }
+
+    // IPv6 literals keep their brackets and can't be wildcards
+    if (hostname.startsWith('[')) {
+        return wildcard ? null : hostname;
+    }
+
+    const labels = hostname.split('.');
+    if (!labels.every((label) => LABEL_PATTERN.test(label))) return null;
+
+    if (wildcard) {
+        // "*.com" would claim a whole top-level domain, and IP addresses have no subdomains
+        if (labels.length < 2 || /^(\d{1,3}\.){3}\d{1,3}$/.test(hostname)) return null;
+        return WILDCARD_PREFIX + hostname;
+    }
+    return hostname;
+}
+
+// Request field for a domain to register, normalized on the way in
+export const domainSchema = z.string().min(1).max(255).transform((value, ctx) => {
+    const domain = normalizeDomain(value);
+    if (!domain) {
+        ctx.addIssue({ code: 'custom', message: 'Invalid domain' });
+        return z.NEVER;
+    }
+    return domain;
+});
+
+/**
+ * Stored domains that could match a normalized host, most specific first:
+ * the host itself, then a wildcard for each parent domain
+ *
+ * blog.eu.example.com -> blog.eu.example.com, *.eu.example.com, *.example.com
+ */
+export function domainLookupCandidates(host: string): string[] {
+    if (isWildcardDomain(host) || host.startsWith('[') || /^(\d{1,3}\.){3}\d{1,3}$/.test(host)) {
+        return [host];
+    }
+
+    const labels = host.split('.');
+    const candidates = [host];
+    // Stop before the last two labels: wildcards need at least two after "*."
+    for (let i = 1; i <= labels.length - 2; i++) {
+        candidates.push(WILDCARD_PREFIX + labels.slice(i).join('.'));
+    }
+    return candidates;
+}
+
+/**
+ * Wildcards that would cover a domain (or, for a wildcard, all of its hosts), most specific first
+ *
+ * shop.example.com or *.shop.example.com -> *.example.com
+ */
+export function coveringWildcards(domain: string): string[] {
+    const host = isWildcardDomain(domain) ? domain.slice(WILDCARD_PREFIX.length) : domain;
+    return domainLookupCandidates(host).slice(1);
+}
+
+/**
+ * API shape of an alias; unverified ones carry their verification instructions
+ */
+export function formatSiteDomain(alias: SiteDomain) {
+    return {
+        id: alias.id,
+        domain: alias.domain,
+        verified: !!alias.verified,
+        verified_at: alias.verified_at,
+        verification_method: alias.verification_method,
+        created_at: alias.created_at,
+        verification: alias.verified
+            ? null
+            : {
+                verification_token: alias.verification_token,
+                methods: verificationInstructions(alias.domain, alias.verification_token),
+            },
+    };
+}
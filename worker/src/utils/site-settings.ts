@@ -0,0 +1,244 @@
+/**
+ * Site Settings
+ *
+ * `sites.settings` is stored as a JSON string. Everything that reads it goes
+ * through parseSiteSettings() so missing or unknown keys fall back to defaults
+ * and a malformed blob never breaks comment posting.
+ */
+
+import { z } from 'zod';
+import type { Comment, ReactionType, SiteSettings } from '../types';
+
+// Every reaction the reactions table accepts, in display order
+export const REACTION_TYPES = ['like', 'love', 'laugh', 'sad', 'angry'] as const satisfies readonly ReactionType[];
+
+export const DEFAULT_SITE_SETTINGS: SiteSettings = {
+    moderation: {
+        require_approval: 'guests',
+        allow_guest_comments: true,
+        trusted_commenter_threshold: 0,
+        verify_guest_emails: false,
+        approve_verified_guests: false,
+    },
+    reactions: {
+        enabled: [...REACTION_TYPES],
+    },
+    spam: {
+        enabled: true,
+        blocked_words: [],
+    },
+    rate_limits: {
+        enabled: true,
+        window_minutes: 10,
+        comments_per_ip: 20,
+        comments_per_user: 10,
+        comments_per_email: 10,
+    },
+    formatting: {
+        markdown: false,
+    },
+    editing: {
+        window_minutes: 0,
+        public_history: false,
+    },
+    privacy: {
+        deleted_account_comments: 'anonymize',
+    },
+};
+
+const moderationSettingsSchema = z.object({
+    require_approval: z.enum(['all', 'guests', 'none']),
+    allow_guest_comments: z.boolean(),
+    // Approved comments needed before a signed-in commenter skips the queue (0 = disabled)
+    trusted_commenter_threshold: z.number().int().min(0).max(1000),
+    verify_guest_emails: z.boolean(),
+    // Only takes effect with verify_guest_emails; see resolveVerifiedGuestStatus()
+    approve_verified_guests: z.boolean(),
+});
+
+const reactionSettingsSchema = z.object({
+    // De-duplicated and kept in display order; an empty list turns reactions off
+    enabled: z.array(z.enum(REACTION_TYPES))
+        .transform((list) => REACTION_TYPES.filter((type) => list.includes(type))),
+});
+
+const spamSettingsSchema = z.object({
+    enabled: z.boolean(),
+    // Trimmed, lowercased and de-duplicated; blank entries are dropped
+    blocked_words: z.array(z.string().max(100)).max(500)
+        .transform((list) => [...new Set(list.map((word) => word.trim().toLowerCase()).filter(Boolean))]),
+});
+
+const rateLimitSettingsSchema = z.object({
+    enabled: z.boolean(),
+    window_minutes: z.number().int().min(1).max(1440),
+    comments_per_ip: z.number().int().min(1).max(10000),
+    comments_per_user: z.number().int().min(1).max(10000),
+    comments_per_email: z.number().int().min(1).max(10000),
+});
+
+const formattingSettingsSchema = z.object({
+    // Render comments as Markdown (see utils/markdown.ts) instead of plain text
+    markdown: z.boolean(),
+});
+
+const editingSettingsSchema = z.object({
+    // Up to 30 days; 0 lets authors edit at any time
+    window_minutes: z.number().int().min(0).max(43200),
+    public_history: z.boolean(),
+});
+
+const privacySettingsSchema = z.object({
+    deleted_account_comments: z.enum(['anonymize', 'delete']),
+});
+
+/**
+ * Schema for settings updates from the dashboard
+ * Every section and key is optional; omitted values keep their current setting
+ */
+export const siteSettingsUpdateSchema = z.object({
+    moderation: moderationSettingsSchema.partial().optional(),
+    reactions: reactionSettingsSchema.partial().optional(),
+    spam: spamSettingsSchema.partial().optional(),
+    rate_limits: rateLimitSettingsSchema.partial().optional(),
+    formatting: formattingSettingsSchema.partial().optional(),
+    editing: editingSettingsSchema.partial().optional(),
+    privacy: privacySettingsSchema.partial().optional(),
+});
+
+export type SiteSettingsUpdate = z.infer<typeof siteSettingsUpdateSchema>;
+
+// The stored JSON as a plain object; anything malformed reads as empty
+function parseStoredSettings(raw: string | null | undefined): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(raw || '{}');
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Parse the stored settings JSON, filling in defaults for anything missing or invalid
+ */
+export function parseSiteSettings(raw: string | null | undefined): SiteSettings {
+    const stored = parseStoredSettings(raw);
+
+    // Each section is validated on its own so one bad value doesn't reset the others
+    const moderation = moderationSettingsSchema.partial().safeParse(stored.moderation ?? {});
+    const reactions = reactionSettingsSchema.partial().safeParse(stored.reactions ?? {});
+    const spam = spamSettingsSchema.partial().safeParse(stored.spam ?? {});
+    const rateLimits = rateLimitSettingsSchema.partial().safeParse(stored.rate_limits ?? {});
+    const formatting = formattingSettingsSchema.partial().safeParse(stored.formatting ?? {});
+    const editing = editingSettingsSchema.partial().safeParse(stored.editing ?? {});
+    const privacy = privacySettingsSchema.partial().safeParse(stored.privacy ?? {});
+
+    return {
+        moderation: {
+            ...DEFAULT_SITE_SETTINGS.moderation,
+            ...(moderation.success ? moderation.data : {}),
+        },
+        reactions: {
+            ...DEFAULT_SITE_SETTINGS.reactions,
+            ...(reactions.success ? reactions.data : {}),
+        },
+        spam: {
+            ...DEFAULT_SITE_SETTINGS.spam,
+            ...(spam.success ? spam.data : {}),
+        },
+        rate_limits: {
+            ...DEFAULT_SITE_SETTINGS.rate_limits,
+            ...(rateLimits.success ? rateLimits.data : {}),
+        },
+        formatting: {
+            ...DEFAULT_SITE_SETTINGS.formatting,
+            ...(formatting.success ? formatting.data : {}),
+        },
+        editing: {
+            ...DEFAULT_SITE_SETTINGS.editing,
+            ...(editing.success ? editing.data : {}),
+        },
+        privacy: {
+            ...DEFAULT_SITE_SETTINGS.privacy,
+            ...(privacy.success ? privacy.data : {}),
+        },
+    };
+}
+
+/**
+ * Apply a validated update on top of the stored settings JSON
+ *
+ * The update is merged into the stored object itself, so keys this version
+ * doesn't know about survive a save instead of being dropped.
+ */
+export function mergeSiteSettings(raw: string | null | undefined, update: SiteSettingsUpdate): Record<string, unknown> {
+    const stored = parseStoredSettings(raw);
+    const current = parseSiteSettings(raw);
+    const merged: Record<string, unknown> = { ...stored };
+
+    for (const section of Object.keys(current) as (keyof SiteSettings)[]) {
+        const storedSection = stored[section];
+        merged[section] = {
+            ...(storedSection && typeof storedSection === 'object' ? storedSection : {}),
+            ...current[section],
+            ...update[section],
+        };
+    }
+
+    return merged;
+}
+
+/**
+ * Decide the initial status of a new comment under the site's moderation policy
+ *
+ * @param approvedCount - Approved comments this user already has on the site (signed-in users only)
+ */
+export function resolveCommentStatus(
+    settings: SiteSettings,
+    commenter: { isGuest: boolean; approvedCount: number }
+): Comment['status'] {
+    const { require_approval, trusted_commenter_threshold } = settings.moderation;
+
+    if (require_approval === 'none') {
+        return 'approved';
+    }
+
+    if (commenter.isGuest) {
+        return 'pending';
+    }
+
+    if (require_approval === 'guests') {
+        return 'approved';
+    }
+
+    // require_approval === 'all': only trusted commenters bypass the queue
+    const isTrusted = trusted_commenter_threshold > 0 && commenter.approvedCount >= trusted_commenter_threshold;
+    return isTrusted ? 'approved' : 'pending';
+}
+
+/**
+ * Status for a guest comment once its author confirms their email
+ *
+ * With approve_verified_guests a held comment is treated as if a signed-in
+ * newcomer had posted it; otherwise it keeps its current status.
+ */
+export function resolveVerifiedGuestStatus(settings: SiteSettings, current: Comment['status']): Comment['status'] {
+    if (current !== 'pending' || !settings.moderation.approve_verified_guests) {
+        return current;
+    }
+    return resolveCommentStatus(settings, { isGuest: false, approvedCount: 0 });
+}
+
+/**
+ * Whether a comment can still be edited under the site's edit window
+ */
+export function isWithinEditWindow(settings: SiteSettings, createdAt: string, now: Date = new Date()): boolean {
+    const { window_minutes } = settings.editing;
+    if (window_minutes === 0) {
+        return true;
+    }
+
+    // SQLite timestamps are UTC without a zone marker
+    const posted = new Date(`${createdAt.replace(' ', 'T')}Z`);
+    return now.getTime() - posted.getTime() <= window_minutes * 60 * 1000;
+}
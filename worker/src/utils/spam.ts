@@ -0,0 +1,183 @@
+/**
+ * Spam Detection
+ *
+ * Every new comment is scored before it is inserted. Providers return signals
+ * (a score and a human-readable reason); the scores are summed and compared
+ * against two thresholds:
+ *
+ *   score >= SPAM_THRESHOLD  -> stored as 'spam'
+ *   score >= HOLD_THRESHOLD  -> held for review ('pending')
+ *   otherwise                -> the site's moderation policy decides
+ *
+ * The built-in heuristics always run; extra providers (e.g. Akismet) are added
+ * by createSpamProviders() when configured. A provider that fails is logged
+ * and skipped so spam checking never blocks posting.
+ */
+
+import { Database } from '../db';
+import type { Comment, Env, SiteSettings, SpamCheckInput, SpamProvider, SpamSignal, SpamVerdict } from '../types';
+
+export const HOLD_THRESHOLD = 0.5;
+export const SPAM_THRESHOLD = 1.0;
+
+// Forms submitted faster than this were almost certainly not typed by a person
+const MIN_SUBMIT_MS = 3000;
+const LINK_ALLOWANCE = 2;
+const DUPLICATE_WINDOW_HOURS = 24;
+
+// Always counted, on top of each site's own blocked_words
+const BUILT_IN_BLOCKED_WORDS = ['viagra', 'cialis', 'payday loan', 'replica watches', 'casino bonus', 'crypto giveaway'];
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countLinks(content: string): number {
+    return content.match(/https?:\/\/|www\./gi)?.length ?? 0;
+}
+
+/**
+ * Built-in checks that need nothing but the comment and the database
+ */
+export class HeuristicSpamProvider implements SpamProvider {
+    readonly name = 'heuristics';
+
+    constructor(private db: Database, private blockedWords: string[]) { }
+
+    async check(input: SpamCheckInput): Promise<SpamSignal[]> {
+        const signals: SpamSignal[] = [];
+
+        if (input.honeypot?.trim()) {
+            signals.push({ score: SPAM_THRESHOLD, reason: 'Hidden honeypot field was filled in' });
+        }
+
+        if (input.elapsedMs !== undefined && input.elapsedMs < MIN_SUBMIT_MS) {
+            signals.push({ score: 0.6, reason: `Submitted ${(input.elapsedMs / 1000).toFixed(1)}s after the form was shown` });
+        }
+
+        const links = countLinks(input.content);
+        if (links > LINK_ALLOWANCE) {
+            const score = Math.min(0.9, 0.3 + 0.15 * (links - LINK_ALLOWANCE - 1));
+            signals.push({ score, reason: `Contains ${links} links` });
+        }
+
+        const content = input.content.toLowerCase();
+        const matched = [...new Set([...BUILT_IN_BLOCKED_WORDS, ...this.blockedWords])]
+            .filter((word) => new RegExp(`\\b${escapeRegExp(word)}\\b`, 'i').test(content));
+        for (const word of matched) {
+            signals.push({ score: 0.5, reason: `Contains blocked word "${word}"` });
+        }
+
+        const since = new Date(Date.now() - DUPLICATE_WINDOW_HOURS * 60 * 60 * 1000)
+            .toISOString().replace('T', ' ').slice(0, 19);
+        const duplicates = await this.db.countRecentDuplicateComments(input.siteId, input.content, since);
+        if (duplicates > 0) {
+            signals.push({ score: 0.6, reason: `Same content was already posted on this site in the last ${DUPLICATE_WINDOW_HOURS} hours` });
+        }
+
+        return signals;
+    }
+}
+
+/**
+ * Asks Akismet's comment-check API for a verdict
+ * https://akismet.com/developers/detailed-docs/comment-check/
+ */
+export class AkismetSpamProvider implements SpamProvider {
+    readonly name = 'akismet';
+
+    constructor(private apiKey: string, private blogUrl: string) { }
+
+    async check(input: SpamCheckInput): Promise<SpamSignal[]> {
+        const body = new URLSearchParams({
+            api_key: this.apiKey,
+            blog: this.blogUrl,
+            user_ip: input.ipAddress ?? '',
+            user_agent: input.userAgent ?? '',
+            permalink: input.pageUrl ?? '',
+            comment_type: 'comment',
+            comment_author: input.authorName,
+            comment_author_email: input.authorEmail ?? '',
+            comment_content: input.content,
+        });
+
+        const response = await fetch('https://rest.akismet.com/1.1/comment-check', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+            body,
+            signal: AbortSignal.timeout(5000),
+        });
+
+        const result = (await response.text()).trim();
+        if (result === 'true') {
+            // "discard" means Akismet is certain; otherwise leave room for a human to decide
+            const certain = response.headers.get('X-akismet-pro-tip') === 'discard';
+            return [{ score: certain ? SPAM_THRESHOLD : HOLD_THRESHOLD, reason: 'Akismet flagged this comment as spam' }];
+        }
+        if (result !== 'false') {
+            throw new Error(`Unexpected Akismet response: ${response.headers.get('X-akismet-debug-help') ?? result}`);
+        }
+
+        return [];
+    }
+}
+
+/**
+ * Providers to run for a site: the heuristics plus whatever is configured
+ */
+export function createSpamProviders(env: Env, db: Database, settings: SiteSettings, siteUrl: string): SpamProvider[] {
+    const providers: SpamProvider[] = [new HeuristicSpamProvider(db, settings.spam.blocked_words)];
+
+    if (env.AKISMET_API_KEY) {
+        providers.push(new AkismetSpamProvider(env.AKISMET_API_KEY, siteUrl));
+    }
+
+    return providers;
+}
+
+/**
+ * Run every provider and combine their signals into a verdict
+ */
+export async function scoreComment(providers: SpamProvider[], input: SpamCheckInput): Promise<SpamVerdict> {
+    const signals: SpamSignal[] = [];
+
+    for (const provider of providers) {
+        try {
+            signals.push(...await provider.check(input));
+        } catch (error) {
+            console.error(`[Spam] Provider ${provider.name} failed:`, error);
+        }
+    }
+
+    const score = Math.round(signals.reduce((sum, signal) => sum + signal.score, 0) * 100) / 100;
+    const action = score >= SPAM_THRESHOLD ? 'spam' : score >= HOLD_THRESHOLD ? 'hold' : 'allow';
+
+    return { score, reasons: signals.map((signal) => signal.reason), action };
+}
+
+/**
+ * Score a comment for a site, or allow it untouched when spam checking is turned off
+ */
+export async function checkCommentForSpam(
+    env: Env,
+    db: Database,
+    site: { domain: string },
+    settings: SiteSettings,
+    input: SpamCheckInput
+): Promise<SpamVerdict | null> {
+    if (!settings.spam.enabled) {
+        return null;
+    }
+
+    // A wildcard site is reported to providers by its base domain
+    return scoreComment(createSpamProviders(env, db, settings, `https://${site.domain.replace(/^\*\./, '')}`), input);
+}
+
+/**
+ * Apply a verdict to the status the moderation policy picked
+ */
+export function applySpamVerdict(status: Comment['status'], verdict: SpamVerdict | null): Comment['status'] {
+    if (verdict?.action === 'spam') return 'spam';
+    if (verdict?.action === 'hold') return 'pending';
+    return status;
+}
@@ -0,0 +1,119 @@
+/**
+ * Host-site Single Sign-On
+ *
+ * Sites that already have logged-in users can sign them into the widget
+ * without a magic link. The host's server builds a token from the user and the
+ * site's SSO secret (shown once in the dashboard):
+ *
+ *   payload = base64url(JSON.stringify({ id, name, email?, avatar?, iat }))
+ *   token   = payload + '.' + hex(HMAC-SHA256(payload, sso_secret))
+ *
+ * and the page passes it to CommentKit.init({ sso: token }). iat is the unix
+ * time in seconds the token was made; tokens are accepted for SSO_TOKEN_MAX_AGE
+ * so pages can be cached briefly.
+ *
+ * Each (site, id) pair becomes its own user, scoped to that site. Its email
+ * column holds a placeholder (see ssoPlaceholderEmail), so the host-supplied
+ * address only feeds the Gravatar hash and is never emailed or used to match
+ * an existing CommentKit account.
+ */
+
+import { z } from 'zod';
+import { hmacSha256Hex, timingSafeEqual } from './signing';
+
+export const SSO_TOKEN_MAX_AGE_SECONDS = 2 * 60 * 60;
+
+// SSO sessions live in the widget's memory, so they only need to outlast a visit
+export const SSO_SESSION_HOURS = 12;
+
+const ssoPayloadSchema = z.object({
+    id: z.union([z.string().min(1).max(255), z.number().int()]).transform(String),
+    name: z.string().trim().min(1).max(100),
+    email: z.string().email().max(255).nullable().optional(),
+    avatar: z.string().url().max(2048).startsWith('https://').nullable().optional(),
+    iat: z.number().int(),
+});
+
+export interface SsoIdentity {
+    externalId: string;
+    name: string;
+    email: string | null;
+    avatarUrl: string | null;
+}
+
+export function generateSsoSecret(): string {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return 'ssosec_' + Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function decodeBase64Url(value: string): string {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * Check a token against the site's secret and read the user out of it
+ *
+ * @returns The identity, or an error message safe to show the host developer
+ */
+export async function verifySsoToken(
+    token: string,
+    secret: string,
+    now: Date = new Date()
+): Promise<{ identity: SsoIdentity; error?: undefined } | { identity?: undefined; error: string }> {
+    const [payload, signature, extra] = token.split('.');
+    if (!payload || !signature || extra !== undefined) {
+        return { error: 'Malformed SSO token' };
+    }
+
+    if (!timingSafeEqual(signature.toLowerCase(), await hmacSha256Hex(payload, secret))) {
+        return { error: 'Invalid SSO signature' };
+    }
+
+    let parsed: z.infer<typeof ssoPayloadSchema>;
+    try {
+        const result = ssoPayloadSchema.safeParse(JSON.parse(decodeBase64Url(payload)));
+        if (!result.success) {
+            return { error: `Invalid SSO payload: ${result.error.issues.map((issue) => issue.path.join('.') || issue.message).join(', ')}` };
+        }
+        parsed = result.data;
+    } catch {
+        return { error: 'Malformed SSO token' };
+    }
+
+    const age = now.getTime() / 1000 - parsed.iat;
+    // A little leeway for clocks that run ahead
+    if (age > SSO_TOKEN_MAX_AGE_SECONDS || age < -5 * 60) {
+        return { error: 'SSO token has expired' };
+    }
+
+    return {
+        identity: {
+            externalId: parsed.id,
+            name: parsed.name,
+            email: parsed.email ?? null,
+            avatarUrl: parsed.avatar ?? null,
+        },
+    };
+}
+
+/**
+ * Unique, undeliverable address for an SSO user's email column (.invalid is reserved by RFC 2606)
+ */
+export async function ssoPlaceholderEmail(siteId: number, externalId: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(externalId));
+    const hash = Array.from(new Uint8Array(digest).slice(0, 12)).map((b) => b.toString(16).padStart(2, '0')).join('');
+    return `sso-${siteId}-${hash}@sso.invalid`;
+}
+
+export const SSO_OTHER_SITE_ERROR = 'This account can only be used on the site that signed it in';
+
+/**
+ * Whether a user signed in by a host site's SSO is acting outside that site. Such users only
+ * exist on their own site; pass null for actions that belong to no site, like creating one
+ */
+export function isOutsideSsoSite(user: { sso_site_id: number | null }, siteId: number | null): boolean {
+    return user.sso_site_id !== null && user.sso_site_id !== siteId;
+}
@@ -0,0 +1,300 @@
+/**
+ * Outgoing Webhooks
+ *
+ * Comment lifecycle and page-like events are POSTed as JSON to each site's
+ * subscribed endpoints. Every request carries an X-CommentKit-Signature header:
+ *
+ *   t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<raw body>" with the webhook secret>
+ *
+ * Receivers should recompute the HMAC and reject stale timestamps. Failed
+ * deliveries are retried with backoff by the cron trigger; every attempt is
+ * recorded in webhook_deliveries.
+ */
+
+import type { Context } from 'hono';
+import { Database } from '../db';
+import type { Comment, Env, Page, Site, Webhook, WebhookDelivery, WebhookEvent } from '../types';
+import { hmacSha256Hex } from './signing';
+
+// Events a webhook can subscribe to ('ping' is only sent by the test button)
+export const WEBHOOK_EVENTS = [
+    'comment.created',
+    'comment.approved',
+    'comment.rejected',
+    'comment.deleted',
+    'page.liked',
+] as const satisfies readonly WebhookEvent[];
+
+// Delay before retry N (after attempt N failed); a delivery fails for good once these run out
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 360];
+const MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+const RETRY_BATCH_SIZE = 50;
+
+export function generateWebhookSecret(): string {
+    const bytes = new Uint8Array(24);
+    crypto.getRandomValues(bytes);
+    return 'whsec_' + Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check a webhook endpoint URL, returning an error message if it can't be used
+ * Outside development only public https endpoints are accepted.
+ */
+export function validateWebhookUrl(url: string, env: Env): string | null {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return 'Invalid webhook URL';
+    }
+
+    if (env.ENVIRONMENT === 'development') {
+        return ['http:', 'https:'].includes(parsed.protocol) ? null : 'Webhook URL must use http or https';
+    }
+
+    if (parsed.protocol !== 'https:') {
+        return 'Webhook URL must use https';
+    }
+
+    const host = parsed.hostname;
+    const isPrivateHost = host === 'localhost'
+        || host.endsWith('.localhost')
+        || host.endsWith('.local')
+        || /^(127\.|10\.|192\.168\.|169\.254\.|172\.(1[6-9]|2\d|3[01])\.|0\.)/.test(host)
+        || host.startsWith('[');
+    if (isPrivateHost) {
+        return 'Webhook URL must point to a public host';
+    }
+
+    return null;
+}
+
+export function parseWebhookEvents(raw: string): WebhookEvent[] {
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Shape a webhooks row for API responses (the secret is only shown when created or rotated)
+ */
+export function formatWebhook(webhook: Webhook, options: { includeSecret?: boolean } = {}) {
+    return {
+        id: webhook.id,
+        url: webhook.url,
+        description: webhook.description,
+        events: parseWebhookEvents(webhook.events),
+        active: webhook.active === 1,
+        secret: options.includeSecret ? webhook.secret : undefined,
+        secret_preview: webhook.secret.slice(0, 10) + '...',
+        created_at: webhook.created_at,
+        updated_at: webhook.updated_at,
+    };
+}
+
+export function formatWebhookDelivery(delivery: WebhookDelivery) {
+    return {
+        id: delivery.id,
+        event: delivery.event,
+        status: delivery.status,
+        attempts: delivery.attempts,
+        response_status: delivery.response_status,
+        response_body: delivery.response_body,
+        error: delivery.error,
+        next_attempt_at: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+        created_at: delivery.created_at,
+        completed_at: delivery.completed_at,
+    };
+}
+
+// Public comment fields sent to webhooks (no email, IP or user agent)
+export function webhookComment(comment: Comment) {
+    return {
+        id: comment.id,
+        page_id: comment.page_id,
+        parent_id: comment.parent_id,
+        user_id: comment.user_id,
+        author_name: comment.author_name,
+        content: comment.content,
+        content_html: comment.content_html,
+        status: comment.status,
+        created_at: comment.created_at,
+    };
+}
+
+export function webhookPage(page: Page) {
+    return {
+        id: page.id,
+        slug: page.slug,
+        title: page.title,
+        url: page.url,
+    };
+}
+
+function buildPayload(site: Pick<Site, 'id' | 'domain'>, event: WebhookEvent, data: Record<string, unknown>): string {
+    return JSON.stringify({
+        event,
+        created_at: new Date().toISOString(),
+        site: { id: site.id, domain: site.domain },
+        data,
+    });
+}
+
+export async function signWebhookPayload(payload: string, secret: string, timestamp: number): Promise<string> {
+    const signature = await hmacSha256Hex(`${timestamp}.${payload}`, secret);
+    return `t=${timestamp},v1=${signature}`;
+}
+
+function toSqlDate(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * POST a delivery to its endpoint and record the outcome
+ * Non-2xx responses and network errors schedule a retry until MAX_ATTEMPTS is reached.
+ */
+export async function attemptWebhookDelivery(
+    db: Database,
+    target: Pick<Webhook, 'url' | 'secret'>,
+    delivery: WebhookDelivery
+): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const response = await fetch(target.url, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'User-Agent': 'CommentKit-Webhooks/1.0',
+                'X-CommentKit-Event': delivery.event,
+                'X-CommentKit-Delivery': String(delivery.id),
+                'X-CommentKit-Signature': await signWebhookPayload(delivery.payload, target.secret, timestamp),
+            },
+            body: delivery.payload,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+        responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+        if (!response.ok) {
+            error = `Endpoint responded with ${response.status}`;
+        }
+    } catch (err) {
+        error = err instanceof Error ? err.message : String(err);
+    }
+
+    const succeeded = error === null;
+    const retryDelay = RETRY_DELAYS_MINUTES[attempts - 1];
+    // Test pings report their result immediately and are never retried
+    const willRetry = !succeeded && delivery.event !== 'ping' && attempts < MAX_ATTEMPTS && retryDelay !== undefined;
+
+    return db.recordWebhookAttempt(delivery.id, {
+        status: succeeded ? 'success' : willRetry ? 'pending' : 'failed',
+        attempts,
+        response_status: responseStatus,
+        response_body: responseBody,
+        error,
+        next_attempt_at: willRetry ? toSqlDate(new Date(Date.now() + retryDelay * 60 * 1000)) : null,
+    });
+}
+
+/**
+ * Record and send an event to a single webhook (used by the test button)
+ */
+export async function sendWebhookEvent(
+    db: Database,
+    webhook: Webhook,
+    site: Pick<Site, 'id' | 'domain'>,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+): Promise<WebhookDelivery> {
+    const delivery = await db.createWebhookDelivery(webhook.id, event, buildPayload(site, event, data));
+    return attemptWebhookDelivery(db, webhook, delivery);
+}
+
+/**
+ * Fan an event out to the site's subscribed webhooks after the response is sent
+ * Failures are logged and never affect the request that triggered them.
+ */
+export function queueWebhookEvent(
+    c: Context<{ Bindings: Env }>,
+    siteId: number,
+    event: WebhookEvent,
+    data: Record<string, unknown>
+): void {
+    const db = new Database(c.env.DB);
+    const task = (async () => {
+        const webhooks = await db.getActiveWebhooksForEvent(siteId, event);
+        if (webhooks.length === 0) return;
+
+        const site = await db.getSiteById(siteId);
+        if (!site) return;
+
+        for (const webhook of webhooks) {
+            try {
+                await sendWebhookEvent(db, webhook, site, event, data);
+            } catch (error) {
+                console.error(`[Webhooks] Failed to deliver ${event} to webhook ${webhook.id}:`, error);
+            }
+        }
+    })().catch((error) => {
+        console.error(`[Webhooks] Failed to dispatch ${event} for site ${siteId}:`, error);
+    });
+
+    try {
+        c.executionCtx.waitUntil(task);
+    } catch {
+        // No execution context outside the Workers runtime - the task still runs
+    }
+}
+
+/**
+ * Queue one event per comment, e.g. after a bulk moderation action
+ * Pass status to report the comments' new status rather than the stored one.
+ */
+export function queueCommentWebhookEvents(
+    c: Context<{ Bindings: Env }>,
+    event: WebhookEvent,
+    comments: Comment[],
+    status?: Comment['status']
+): void {
+    for (const comment of comments) {
+        queueWebhookEvent(c, comment.site_id, event, {
+            comment: webhookComment(status ? { ...comment, status } : comment),
+        });
+    }
+}
+
+// Lifecycle event for a moderation status change, if there is one
+export function moderationWebhookEvent(status: Comment['status']): WebhookEvent | null {
+    if (status === 'approved') return 'comment.approved';
+    if (status === 'rejected') return 'comment.rejected';
+    return null;
+}
+
+/**
+ * Retry pending deliveries that are due (called from the cron trigger)
+ *
+ * @returns Number of deliveries attempted
+ */
+export async function retryWebhookDeliveries(db: Database): Promise<number> {
+    const due = await db.getDueWebhookDeliveries(RETRY_BATCH_SIZE);
+    for (const { url, secret, ...delivery } of due) {
+        try {
+            await attemptWebhookDelivery(db, { url, secret }, delivery);
+        } catch (error) {
+            console.error(`[Webhooks] Retry failed for delivery ${delivery.id}:`, error);
+        }
+    }
+    return due.length;
+}
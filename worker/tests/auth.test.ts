@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'bun:test';
-import { api } from './helpers';
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { api, BASE_URL, oauthSignIn, ssoToken } from './helpers';
+import { startMockOidc } from './mock-oidc';
 
 describe('Auth', () => {
     describe('POST /api/v1/auth/login', () => {
@@ -27,6 +29,23 @@ describe('Auth', () => {
             });
             expect(status).toBe(400);
         });
+
+        it('should rate limit magic links per email', async () => {
+            const email = `ratelimit-${Date.now()}@example.com`;
+            const send = () => api('/api/v1/auth/login', {
+                method: 'POST',
+                body: JSON.stringify({ email }),
+            });
+
+            for (let i = 0; i < 5; i++) {
+                expect((await send()).status).toBe(200);
+            }
+
+            const { status, json, headers } = await send();
+            expect(status).toBe(429);
+            expect(json.retry_after).toBeGreaterThan(0);
+            expect(Number(headers.get('Retry-After'))).toBeGreaterThan(0);
+        });
     });
 
     describe('GET /api/v1/auth/verify', () => {
@@ -60,4 +79,527 @@ describe('Auth', () => {
             expect(json.message).toContain('Logged out');
         });
     });
+
+    describe('OAuth sign-in', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        it('should list configured providers', async () => {
+            const { status, json } = await api('/api/v1/auth/providers');
+            expect(status).toBe(200);
+            expect(json.providers).toContainEqual({ id: 'oidc', name: 'Mock OIDC' });
+        });
+
+        it('should return 404 for an unknown provider', async () => {
+            const { status, json } = await api('/api/v1/auth/oauth/myspace');
+            expect(status).toBe(404);
+            expect(json.error).toContain('Unknown sign-in provider');
+        });
+
+        it('should start the flow with state and PKCE', async () => {
+            const { start } = await oauthSignIn('oidc-start@example.com');
+            const location = new URL(start.headers.get('Location')!);
+            expect(start.status).toBe(302);
+            expect(location.searchParams.get('state')).toBeTruthy();
+            expect(location.searchParams.get('code_challenge_method')).toBe('S256');
+            expect(start.headers.get('Set-Cookie')).toContain('ck_oauth=');
+        });
+
+        it('should sign in with a verified email', async () => {
+            const email = `oidc-${Date.now()}@example.com`;
+            const { callback, authCookie } = await oauthSignIn(email);
+            expect(callback.status).toBe(302);
+            expect(callback.headers.get('Location')).not.toContain('oauth_error');
+            expect(authCookie).toBeTruthy();
+
+            const { status, json } = await api('/api/v1/auth/me', { headers: { Cookie: authCookie! } });
+            expect(status).toBe(200);
+            expect(json.email).toBe(email);
+        });
+
+        it('should sign a returning account into the same user', async () => {
+            const email = `oidc-again-${Date.now()}@example.com`;
+            const first = await oauthSignIn(email);
+            const second = await oauthSignIn(email);
+
+            const me = (cookie: string) => api('/api/v1/auth/me', { headers: { Cookie: cookie } });
+            expect((await me(second.authCookie!)).json.id).toBe((await me(first.authCookie!)).json.id);
+        });
+
+        it('should link a verified email to the existing user in any case', async () => {
+            const email = `oidc-case-${Date.now()}@example.com`;
+            const first = await oauthSignIn(email);
+            const second = await oauthSignIn(email.toUpperCase());
+
+            const me = (cookie: string) => api('/api/v1/auth/me', { headers: { Cookie: cookie } });
+            expect((await me(second.authCookie!)).json.id).toBe((await me(first.authCookie!)).json.id);
+        });
+
+        it('should refuse an unverified email', async () => {
+            const { callback, authCookie } = await oauthSignIn(`unverified-${Date.now()}@example.com`);
+            expect(callback.headers.get('Location')).toContain('oauth_error=');
+            expect(authCookie).toBeNull();
+        });
+
+        it('should reject a callback without the flow cookie', async () => {
+            const res = await fetch(`${BASE_URL}/api/v1/auth/oauth/oidc/callback?code=abc&state=def`, { redirect: 'manual' });
+            expect(res.status).toBe(302);
+            expect(res.headers.get('Location')).toContain('oauth_error=');
+        });
+    });
+
+    describe('POST /api/v1/auth/sso', () => {
+        let oidc: Server;
+        let domain: string;
+        let secret: string;
+
+        beforeAll(async () => {
+            oidc = startMockOidc();
+
+            // A signed-in owner with a site that has SSO turned on
+            const { authCookie } = await oauthSignIn(`sso-owner-${Date.now()}@example.com`);
+            domain = `sso-${Date.now()}.example.com`;
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: authCookie! },
+                body: JSON.stringify({ name: 'SSO Site', domain }),
+            });
+            const enabled = await api(`/api/v1/admin/sites/${site.json.id}/sso-secret`, {
+                method: 'POST',
+                headers: { Cookie: authCookie! },
+            });
+            secret = enabled.json.sso_secret;
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        const signIn = (body: Record<string, unknown>) => api('/api/v1/auth/sso', {
+            method: 'POST',
+            body: JSON.stringify(body),
+        });
+
+        it('should return 404 for an unknown site', async () => {
+            const { status } = await signIn({ domain: 'no-such-site.example.com', token: ssoToken('x', { id: 1, name: 'A' }) });
+            expect(status).toBe(404);
+        });
+
+        it('should reject a token with a bad signature', async () => {
+            const { status, json } = await signIn({ domain, token: ssoToken('wrong-secret', { id: 1, name: 'A' }) });
+            expect(status).toBe(401);
+            expect(json.error).toContain('signature');
+        });
+
+        it('should reject an expired token', async () => {
+            const { status, json } = await signIn({ domain, token: ssoToken(secret, { id: 1, name: 'A' }, Math.floor(Date.now() / 1000) - 3 * 60 * 60) });
+            expect(status).toBe(401);
+            expect(json.error).toContain('expired');
+        });
+
+        it('should sign in a site user and keep the same account on return', async () => {
+            const first = await signIn({ domain, token: ssoToken(secret, { id: 'u-42', name: 'Host User', email: 'host-user@example.com' }) });
+            expect(first.status).toBe(200);
+            expect(first.json.token).toBeTruthy();
+            expect(first.json.user.display_name).toBe('Host User');
+            expect(first.json.user.sso_site_id).toBeTruthy();
+            // The host's address is not the account's email
+            expect(first.json.user.email).not.toBe('host-user@example.com');
+
+            const me = await api('/api/v1/auth/me', { headers: { Authorization: `Bearer ${first.json.token}` } });
+            expect(me.status).toBe(200);
+            expect(me.json.id).toBe(first.json.user.id);
+
+            const again = await signIn({ domain, token: ssoToken(secret, { id: 'u-42', name: 'Renamed User' }) });
+            expect(again.json.user.id).toBe(first.json.user.id);
+            expect(again.json.user.display_name).toBe('Renamed User');
+        });
+
+        it('should let a site user confirm deleting their account with their display name', async () => {
+            const { json } = await signIn({ domain, token: ssoToken(secret, { id: `u-delete-${Date.now()}`, name: 'Leaving User' }) });
+            const headers = { Authorization: `Bearer ${json.token}` };
+            const deleteAccount = (body: Record<string, unknown>) => api('/api/v1/auth/me', {
+                method: 'DELETE',
+                headers,
+                body: JSON.stringify(body),
+            });
+
+            // The placeholder email isn't something they can type
+            expect((await deleteAccount({ confirm_email: json.user.email })).status).toBe(400);
+            expect((await deleteAccount({ confirm_name: 'Someone Else' })).status).toBe(400);
+
+            const deleted = await deleteAccount({ confirm_name: 'Leaving User' });
+            expect(deleted.status).toBe(200);
+            expect((await api('/api/v1/auth/me', { headers })).status).toBe(401);
+        });
+    });
+
+    describe('Sessions', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        // Two browsers signed in to the same account
+        async function signInTwice() {
+            const email = `sessions-${Date.now()}@example.com`;
+            const first = (await oauthSignIn(email)).authCookie!;
+            const second = (await oauthSignIn(email)).authCookie!;
+            return { first, second };
+        }
+
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/auth/sessions');
+            expect(status).toBe(401);
+        });
+
+        it('should list sessions and mark the current one', async () => {
+            const { first } = await signInTwice();
+            const { status, json } = await api('/api/v1/auth/sessions', { headers: { Cookie: first } });
+            expect(status).toBe(200);
+            expect(json.sessions).toHaveLength(2);
+            expect(json.sessions.filter((session: { current: boolean }) => session.current)).toHaveLength(1);
+            expect(json.sessions[0].user_agent).toBeTruthy();
+            expect(json.sessions[0].last_used_at).toBeTruthy();
+        });
+
+        it('should revoke another session', async () => {
+            const { first, second } = await signInTwice();
+            const { json } = await api('/api/v1/auth/sessions', { headers: { Cookie: first } });
+            const other = json.sessions.find((session: { current: boolean }) => !session.current);
+
+            const revoked = await api(`/api/v1/auth/sessions/${other.id}`, { method: 'DELETE', headers: { Cookie: first } });
+            expect(revoked.status).toBe(200);
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: second } })).status).toBe(401);
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: first } })).status).toBe(200);
+        });
+
+        it("should not revoke someone else's session", async () => {
+            const mine = await signInTwice();
+            const theirs = await signInTwice();
+            const { json } = await api('/api/v1/auth/sessions', { headers: { Cookie: theirs.first } });
+
+            const { status } = await api(`/api/v1/auth/sessions/${json.sessions[0].id}`, { method: 'DELETE', headers: { Cookie: mine.first } });
+            expect(status).toBe(404);
+        });
+
+        it('should log out everywhere', async () => {
+            const { first, second } = await signInTwice();
+            const { status, json, headers } = await api('/api/v1/auth/logout-all', { method: 'POST', headers: { Cookie: first } });
+            expect(status).toBe(200);
+            expect(json.revoked).toBe(2);
+            expect(headers.get('Set-Cookie')).toContain('Max-Age=0');
+
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: first } })).status).toBe(401);
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: second } })).status).toBe(401);
+        });
+
+        it('should refresh the session cookie on use', async () => {
+            const { first } = await signInTwice();
+            const { headers } = await api('/api/v1/auth/me', { headers: { Cookie: first } });
+            expect(headers.get('Set-Cookie')).toContain(`${first}; Max-Age=${30 * 24 * 60 * 60}`);
+        });
+    });
+
+    describe('Account export and deletion', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        async function signIn(label: string) {
+            const email = `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+            return { email, cookie: (await oauthSignIn(email)).authCookie! };
+        }
+
+        // A site owned by someone else, with the given policy for deleted accounts' comments
+        async function siteWithPolicy(policy: 'anonymize' | 'delete') {
+            const owner = await signIn('site-owner');
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: owner.cookie },
+                body: JSON.stringify({ name: 'Privacy Site', domain: `privacy-${Date.now()}-${policy}.example.com` }),
+            });
+            await api(`/api/v1/admin/sites/${site.json.id}`, {
+                method: 'PATCH',
+                headers: { Cookie: owner.cookie },
+                body: JSON.stringify({ settings: { moderation: { require_approval: 'none' }, privacy: { deleted_account_comments: policy } } }),
+            });
+            return site.json.id as number;
+        }
+
+        const comment = (siteId: number, cookie: string, content: string) => api(`/api/v1/sites/${siteId}/pages/privacy-page`, {
+            method: 'POST',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ content }),
+        });
+
+        const deleteAccount = (cookie: string, confirmEmail: string) => api('/api/v1/auth/me', {
+            method: 'DELETE',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ confirm_email: confirmEmail }),
+        });
+
+        it('should return 401 for an export without auth', async () => {
+            const { status } = await api('/api/v1/auth/me/export');
+            expect(status).toBe(401);
+        });
+
+        it("should export the user's profile, comments and sessions", async () => {
+            const { email, cookie } = await signIn('export');
+            const siteId = await siteWithPolicy('anonymize');
+            expect((await comment(siteId, cookie, 'Exported comment')).status).toBe(201);
+
+            const { status, json, headers } = await api('/api/v1/auth/me/export', { headers: { Cookie: cookie } });
+            expect(status).toBe(200);
+            expect(headers.get('Content-Disposition')).toContain('attachment');
+            expect(json.profile.email).toBe(email);
+            expect(json.comments).toHaveLength(1);
+            expect(json.comments[0].content).toBe('Exported comment');
+            expect(json.sessions.length).toBeGreaterThan(0);
+            expect(json.linked_accounts[0].provider).toBe('oidc');
+        });
+
+        it('should require the email address to confirm deletion', async () => {
+            const { cookie } = await signIn('delete-confirm');
+            const { status } = await deleteAccount(cookie, 'someone-else@example.com');
+            expect(status).toBe(400);
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: cookie } })).status).toBe(200);
+        });
+
+        it('should refuse to delete an account that still owns sites', async () => {
+            const { email, cookie } = await signIn('delete-owner');
+            await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ name: 'Owned Site', domain: `owned-${Date.now()}.example.com` }),
+            });
+
+            const { status, json } = await deleteAccount(cookie, email);
+            expect(status).toBe(409);
+            expect(json.sites).toHaveLength(1);
+        });
+
+        it("should apply each site's policy to the user's comments", async () => {
+            const { email, cookie } = await signIn('delete-me');
+            const keepSite = await siteWithPolicy('anonymize');
+            const deleteSite = await siteWithPolicy('delete');
+            await comment(keepSite, cookie, 'Kept comment');
+            await comment(deleteSite, cookie, 'Deleted comment');
+
+            const { status, json, headers } = await deleteAccount(cookie, email.toUpperCase());
+            expect(status).toBe(200);
+            expect(json.comments_deleted).toBe(1);
+            expect(json.comments_anonymized).toBe(1);
+            expect(headers.get('Set-Cookie')).toContain('Max-Age=0');
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: cookie } })).status).toBe(401);
+
+            const kept = await api(`/api/v1/sites/${keepSite}/pages/privacy-page`);
+            expect(kept.json.comments[0].content).toBe('Kept comment');
+            expect(kept.json.comments[0].author_name).toBe('Deleted user');
+
+            const deleted = await api(`/api/v1/sites/${deleteSite}/pages/privacy-page`);
+            expect(deleted.json.comments).toHaveLength(0);
+        });
+    });
+
+    describe('Email change', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        async function signIn(label: string) {
+            const email = `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+            return { email, cookie: (await oauthSignIn(email)).authCookie! };
+        }
+
+        const requestChange = (cookie: string | null, newEmail: string) => api('/api/v1/auth/email-change', {
+            method: 'POST',
+            headers: cookie ? { Cookie: cookie } : {},
+            body: JSON.stringify({ new_email: newEmail }),
+        });
+
+        it('should return 401 without auth', async () => {
+            const { status } = await requestChange(null, 'new@example.com');
+            expect(status).toBe(401);
+        });
+
+        it('should reject an invalid address', async () => {
+            const { cookie } = await signIn('change-invalid');
+            const { status } = await requestChange(cookie, 'not-an-email');
+            expect(status).toBe(400);
+        });
+
+        it('should reject the current address', async () => {
+            const { email, cookie } = await signIn('change-same');
+            const { status } = await requestChange(cookie, email.toUpperCase());
+            expect(status).toBe(400);
+        });
+
+        it('should reject an address already in use', async () => {
+            const { cookie } = await signIn('change-taken');
+            const other = await signIn('change-owner');
+            const { status, json } = await requestChange(cookie, other.email);
+            expect(status).toBe(409);
+            expect(json.error).toContain('already in use');
+        });
+
+        it('should reject an address already in use with different capitalization', async () => {
+            const { cookie } = await signIn('change-taken-case');
+            const other = await signIn('Change-Owner-Case');
+            const { status } = await requestChange(cookie, other.email.toLowerCase());
+            expect(status).toBe(409);
+        });
+
+        it('should send a confirmation link without changing the address yet', async () => {
+            const { email, cookie } = await signIn('change-ok');
+            const { status, json } = await requestChange(cookie, `changed-${Date.now()}@example.com`);
+            expect(status).toBe(200);
+            expect(json.message).toContain('Confirmation link sent');
+
+            const me = await api('/api/v1/auth/me', { headers: { Cookie: cookie } });
+            expect(me.json.email).toBe(email);
+        });
+
+        it('should reject an unknown confirmation token', async () => {
+            const { status } = await api('/api/v1/auth/email-change/confirm', {
+                method: 'POST',
+                body: JSON.stringify({ token: 'not-a-real-token' }),
+            });
+            expect(status).toBe(400);
+        });
+    });
+
+    describe('Avatars', () => {
+        let oidc: Server;
+
+        // 1x1 transparent PNG
+        const png = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==', 'base64');
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        async function signIn(label: string) {
+            const email = `${label}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+            return (await oauthSignIn(email)).authCookie!;
+        }
+
+        const upload = (cookie: string | null, body: BodyInit) => api('/api/v1/auth/avatar', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'image/png', ...(cookie ? { Cookie: cookie } : {}) },
+            body,
+        });
+
+        it('should return 401 without auth', async () => {
+            const { status } = await upload(null, png);
+            expect(status).toBe(401);
+        });
+
+        it('should reject files that are not images', async () => {
+            const cookie = await signIn('avatar-text');
+            const { status, json } = await upload(cookie, 'definitely not a png');
+            expect(status).toBe(400);
+            expect(json.error).toContain('PNG, JPEG or WebP');
+        });
+
+        it('should reject images that are too large', async () => {
+            const cookie = await signIn('avatar-large');
+            // A PNG header claiming 10000x10000 pixels
+            const huge = Buffer.from(png);
+            huge.writeUInt32BE(10000, 16);
+            huge.writeUInt32BE(10000, 20);
+            const { status } = await upload(cookie, huge);
+            expect(status).toBe(400);
+        });
+
+        it('should refuse uploads by their Content-Length before reading them', async () => {
+            const cookie = await signIn('avatar-length');
+
+            const oversized = await upload(cookie, new Uint8Array(3 * 1024 * 1024));
+            expect(oversized.status).toBe(413);
+
+            // A streamed body is sent without a Content-Length
+            const streamed = await upload(cookie, new ReadableStream({
+                start(controller) {
+                    controller.enqueue(png);
+                    controller.close();
+                },
+            }));
+            expect(streamed.status).toBe(411);
+        });
+
+        it('should store, serve and remove an uploaded avatar', async () => {
+            const cookie = await signIn('avatar-upload');
+            const { status, json } = await upload(cookie, png);
+            expect(status).toBe(200);
+            expect(json.avatar_url).toContain('/api/v1/avatars/');
+
+            const served = await fetch(json.avatar_url);
+            expect(served.status).toBe(200);
+            expect(served.headers.get('Content-Type')).toBe('image/png');
+            expect(Buffer.from(await served.arrayBuffer()).equals(png)).toBe(true);
+
+            const me = await api('/api/v1/auth/me', { headers: { Cookie: cookie } });
+            expect(me.json.avatar_url).toBe(json.avatar_url);
+
+            const removed = await api('/api/v1/auth/avatar', { method: 'DELETE', headers: { Cookie: cookie } });
+            expect(removed.status).toBe(200);
+            expect((await fetch(json.avatar_url)).status).toBe(404);
+            expect((await api('/api/v1/auth/me', { headers: { Cookie: cookie } })).json.avatar_url).toBeNull();
+        });
+
+        it("should include the author's avatar with their comments", async () => {
+            const cookie = await signIn('avatar-comment');
+            const { json: uploaded } = await upload(cookie, png);
+
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ name: 'Avatar Site', domain: `avatar-${Date.now()}.example.com` }),
+            });
+            await api(`/api/v1/admin/sites/${site.json.id}`, {
+                method: 'PATCH',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ settings: { moderation: { require_approval: 'none' } } }),
+            });
+
+            const posted = await api(`/api/v1/sites/${site.json.id}/pages/avatar-page`, {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ content: 'Comment with an avatar' }),
+            });
+            expect(posted.json.author_avatar_url).toBe(uploaded.avatar_url);
+
+            const thread = await api(`/api/v1/sites/${site.json.id}/pages/avatar-page`);
+            expect(thread.json.comments[0].author_avatar_url).toBe(uploaded.avatar_url);
+        });
+    });
 });
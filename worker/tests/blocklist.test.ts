@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'bun:test';
+import { api } from './helpers';
+
+describe('Blocklist', () => {
+    describe('GET /api/v1/admin/sites/:id/blocklist', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/admin/sites/1/blocklist');
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+    });
+
+    describe('POST /api/v1/admin/sites/:id/blocklist', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/blocklist', {
+                method: 'POST',
+                body: JSON.stringify({ kind: 'word', value: 'spam', action: 'reject' }),
+            });
+            expect(status).toBe(401);
+        });
+
+        it('should reject unknown kinds', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/blocklist', {
+                method: 'POST',
+                body: JSON.stringify({ kind: 'country', value: 'nowhere' }),
+            });
+            expect(status).toBe(400);
+        });
+
+        it('should reject unknown actions', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/blocklist', {
+                method: 'POST',
+                body: JSON.stringify({ kind: 'word', value: 'spam', action: 'explode' }),
+            });
+            expect(status).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/v1/admin/sites/:id/blocklist/:entryId', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/blocklist/1', {
+                method: 'DELETE',
+            });
+            expect(status).toBe(401);
+        });
+    });
+});
@@ -1,5 +1,11 @@
-import { describe, it, expect } from 'bun:test';
-import { api } from './helpers';
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { getPlatformProxy } from 'wrangler';
+import { Database } from '../src/db';
+import { deletionRetentionCutoff } from '../src/utils/comment-deletion';
+import { signGuestVerificationToken } from '../src/utils/guest-verification';
+import { api, oauthSignIn } from './helpers';
+import { startMockOidc } from './mock-oidc';
 
 describe('Comments', () => {
     describe('GET /api/v1/sites/:siteId/pages/:slug', () => {
@@ -14,6 +20,12 @@ describe('Comments', () => {
             expect(status).toBe(404);
             expect(json.error).toContain('Site not found');
         });
+
+        it('should return 400 for invalid cursor', async () => {
+            const { status, json } = await api('/api/v1/sites/1/pages/test-page?cursor=not-a-cursor');
+            expect(status).toBe(400);
+            expect(json.error).toContain('Invalid cursor');
+        });
     });
 
     describe('POST /api/v1/sites/:siteId/pages/:slug', () => {
@@ -36,6 +48,18 @@ describe('Comments', () => {
             expect(status).toBe(404);
             expect(json.error).toContain('Site not found');
         });
+
+        it('should return 400 for a negative elapsed_ms', async () => {
+            const { status } = await api('/api/v1/sites/99999/pages/test-page', {
+                method: 'POST',
+                body: JSON.stringify({
+                    content: 'Test comment',
+                    author_name: 'Anonymous',
+                    elapsed_ms: -1,
+                }),
+            });
+            expect(status).toBe(400);
+        });
     });
 });
 
@@ -58,6 +82,16 @@ describe('Comment Management', () => {
         });
     });
 
+    describe('POST /api/v1/sites/comments/:id/restore', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/sites/comments/1/restore', {
+                method: 'POST',
+            });
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+    });
+
     describe('PATCH /api/v1/sites/comments/:id', () => {
         it('should return 401 without auth', async () => {
             const { status, json } = await api('/api/v1/sites/comments/1', {
@@ -69,6 +103,20 @@ describe('Comment Management', () => {
         });
     });
 
+    describe('GET /api/v1/sites/comments/:id/revisions', () => {
+        it('should return 400 for invalid comment id', async () => {
+            const { status, json } = await api('/api/v1/sites/comments/invalid/revisions');
+            expect(status).toBe(400);
+            expect(json.error).toContain('Invalid comment_id');
+        });
+
+        it('should return 404 for non-existent comment', async () => {
+            const { status, json } = await api('/api/v1/sites/comments/99999999/revisions');
+            expect(status).toBe(404);
+            expect(json.error).toContain('Comment not found');
+        });
+    });
+
     describe('PATCH /api/v1/sites/comments/:id/status', () => {
         it('should return 401 without auth', async () => {
             const { status, json } = await api('/api/v1/sites/comments/1/status', {
@@ -88,3 +136,422 @@ describe('Comment Management', () => {
         });
     });
 });
+
+describe('Commenting on a site', () => {
+    let oidc: Server;
+    // The local database and secrets `wrangler dev` uses, for what the API can't do:
+    // backdating rows and signing emailed links
+    let proxy: Awaited<ReturnType<typeof getPlatformProxy<{ DB: D1Database; JWT_SECRET: string }>>>;
+
+    beforeAll(async () => {
+        oidc = startMockOidc();
+        proxy = await getPlatformProxy<{ DB: D1Database; JWT_SECRET: string }>({ environment: 'dev' });
+    });
+
+    afterAll(async () => {
+        oidc.stop(true);
+        await proxy.dispose();
+    });
+
+    const unique = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    // A new site owned by a freshly signed-in user, with rate limits off so tests can post freely
+    async function createSite(settings: Record<string, unknown> = {}) {
+        const { authCookie } = await oauthSignIn(`owner-${unique()}@example.com`);
+        const cookie = authCookie!;
+        const domain = `commenting-${unique()}.example.com`;
+        const site = await api('/api/v1/admin/sites', {
+            method: 'POST',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ name: 'Commenting Site', domain }),
+        });
+        await api(`/api/v1/admin/sites/${site.json.id}`, {
+            method: 'PATCH',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ settings: { rate_limits: { enabled: false }, ...settings } }),
+        });
+        return { cookie, domain, siteId: site.json.id as number };
+    }
+
+    const postComment = (domain: string, pageId: string, body: Record<string, unknown> = {}, cookie?: string) => api('/api/v1/sites/comments', {
+        method: 'POST',
+        headers: cookie ? { Cookie: cookie } : {},
+        body: JSON.stringify({ domain, pageId, author_name: 'Guest', content: `Comment ${unique()}`, ...body }),
+    });
+
+    const signIn = async () => (await oauthSignIn(`commenter-${unique()}@example.com`)).authCookie!;
+
+    describe('Moderation policy', () => {
+        it('should approve everyone when require_approval is none', async () => {
+            const { domain } = await createSite({ moderation: { require_approval: 'none' } });
+            expect((await postComment(domain, 'policy')).json.status).toBe('approved');
+            expect((await postComment(domain, 'policy', {}, await signIn())).json.status).toBe('approved');
+        });
+
+        it('should hold only guests when require_approval is guests', async () => {
+            const { domain } = await createSite({ moderation: { require_approval: 'guests' } });
+            expect((await postComment(domain, 'policy')).json.status).toBe('pending');
+            expect((await postComment(domain, 'policy', {}, await signIn())).json.status).toBe('approved');
+        });
+
+        it('should hold everyone when require_approval is all', async () => {
+            const { domain } = await createSite({ moderation: { require_approval: 'all' } });
+            expect((await postComment(domain, 'policy')).json.status).toBe('pending');
+            expect((await postComment(domain, 'policy', {}, await signIn())).json.status).toBe('pending');
+        });
+
+        it('should let commenters skip the queue once they reach the trusted threshold', async () => {
+            const { cookie, domain } = await createSite({ moderation: { require_approval: 'all', trusted_commenter_threshold: 1 } });
+            const commenter = await signIn();
+
+            const first = await postComment(domain, 'policy', {}, commenter);
+            expect(first.json.status).toBe('pending');
+            const approved = await api(`/api/v1/sites/comments/${first.json.id}/status`, {
+                method: 'PATCH',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ status: 'approved' }),
+            });
+            expect(approved.status).toBe(200);
+
+            expect((await postComment(domain, 'policy', {}, commenter)).json.status).toBe('approved');
+            // Guests never earn trust
+            expect((await postComment(domain, 'policy')).json.status).toBe('pending');
+        });
+
+        it('should refuse guests when guest comments are disabled', async () => {
+            const { domain } = await createSite({ moderation: { allow_guest_comments: false } });
+            const { status, json } = await postComment(domain, 'policy');
+            expect(status).toBe(403);
+            expect(json.error).toContain('Guest comments are disabled');
+            expect((await postComment(domain, 'policy', {}, await signIn())).status).toBe(201);
+        });
+    });
+
+    describe('Spam screening', () => {
+        // The comment as the site's team sees it, with its stored spam verdict
+        async function getStoredComment(siteId: number, cookie: string, id: number) {
+            const { json } = await api(`/api/v1/sites/${siteId}/comments?limit=100`, { headers: { Cookie: cookie } });
+            return json.comments.find((comment: { id: number }) => comment.id === id);
+        }
+
+        it('should store a filled honeypot as spam but report it as pending', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const posted = await postComment(domain, 'spam', { honeypot: 'https://spam.example' });
+            expect(posted.status).toBe(201);
+            expect(posted.json.status).toBe('pending');
+
+            const stored = await getStoredComment(siteId, cookie, posted.json.id);
+            expect(stored.status).toBe('spam');
+            expect(stored.spam_score).toBe(1);
+            expect(JSON.parse(stored.spam_reasons)).toEqual(['Hidden honeypot field was filled in']);
+        });
+
+        it('should score links beyond the allowance and hold comments with many of them', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const links = (count: number) => Array.from({ length: count }, (_, i) => `https://example.com/${unique()}/${i}`).join(' ');
+
+            const few = await postComment(domain, 'spam', { content: links(3) });
+            expect(few.json.status).toBe('approved');
+            const fewStored = await getStoredComment(siteId, cookie, few.json.id);
+            expect(fewStored.spam_score).toBe(0.3);
+            expect(JSON.parse(fewStored.spam_reasons)).toEqual(['Contains 3 links']);
+
+            const many = await postComment(domain, 'spam', { content: links(5) });
+            expect(many.json.status).toBe('pending');
+            const manyStored = await getStoredComment(siteId, cookie, many.json.id);
+            expect(manyStored.status).toBe('pending');
+            expect(manyStored.spam_score).toBe(0.6);
+            expect(JSON.parse(manyStored.spam_reasons)).toEqual(['Contains 5 links']);
+        });
+
+        it('should not score plain comments', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const posted = await postComment(domain, 'spam', { elapsed_ms: 10000 });
+            const stored = await getStoredComment(siteId, cookie, posted.json.id);
+            expect(stored.spam_score).toBe(0);
+            expect(JSON.parse(stored.spam_reasons)).toEqual([]);
+        });
+    });
+
+    describe('Shadow bans', () => {
+        it('should only show a shadow-banned comment to its author', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const author = await signIn();
+            const { json: me } = await api('/api/v1/auth/me', { headers: { Cookie: author } });
+            const banned = await api(`/api/v1/admin/sites/${siteId}/blocklist`, {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ kind: 'user', value: String(me.id), action: 'shadow_ban' }),
+            });
+            expect(banned.status).toBe(201);
+
+            const hidden = await postComment(domain, 'shadow', {}, author);
+            expect(hidden.status).toBe(201);
+            expect(hidden.json.status).toBe('approved');
+            const visible = await postComment(domain, 'shadow');
+
+            const view = async (viewer?: string) => {
+                const { json } = await api(`/api/v1/sites/comments?domain=${domain}&pageId=shadow`, viewer ? { headers: { Cookie: viewer } } : undefined);
+                return { ids: json.comments.map((comment: { id: number }) => comment.id), count: json.comment_count };
+            };
+
+            const own = await view(author);
+            expect(own.ids).toContain(hidden.json.id);
+            expect(own.ids).toContain(visible.json.id);
+
+            for (const viewer of [undefined, await signIn()]) {
+                const other = await view(viewer);
+                expect(other.ids).toEqual([visible.json.id]);
+            }
+
+            // Counts never include it, even for the author
+            expect(own.count).toBe(1);
+            expect((await view()).count).toBe(1);
+            const legacy = await api(`/api/v1/sites/${siteId}/pages/shadow`);
+            expect(legacy.json.comment_count).toBe(1);
+            expect(legacy.json.comments.map((comment: { id: number }) => comment.id)).toEqual([visible.json.id]);
+        });
+    });
+
+    describe('POST /api/v1/sites/:siteId/pages/:slug', () => {
+        it('should sanitize content like the domain route', async () => {
+            const { siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const { status, json } = await api(`/api/v1/sites/${siteId}/pages/legacy`, {
+                method: 'POST',
+                body: JSON.stringify({ author_name: '<b>Guest</b>', content: `<script>alert(1)</script>Hello ${unique()}` }),
+            });
+            expect(status).toBe(201);
+            expect(json.content).not.toContain('<');
+            expect(json.author_name).toBe('Guest');
+            expect(json.content_html).toBeNull();
+        });
+
+        it('should render Markdown from the sanitized source', async () => {
+            const { siteId } = await createSite({ moderation: { require_approval: 'none' }, formatting: { markdown: true } });
+            const { json } = await api(`/api/v1/sites/${siteId}/pages/legacy`, {
+                method: 'POST',
+                body: JSON.stringify({ author_name: 'Guest', content: `**Hi** <img src=x onerror=alert(1)> ${unique()}` }),
+            });
+            expect(json.content_html).toContain('<strong>Hi</strong>');
+            expect(json.content_html).not.toContain('<img');
+        });
+    });
+
+    describe('PATCH /api/v1/sites/comments/:id', () => {
+        it('should keep the previous version as a revision', async () => {
+            const { domain } = await createSite({ moderation: { require_approval: 'none' }, editing: { window_minutes: 60, public_history: true } });
+            const author = await signIn();
+            const original = `Original ${unique()}`;
+            const posted = await postComment(domain, 'edited', { content: original }, author);
+
+            const edit = (content: string, cookie = author) => api(`/api/v1/sites/comments/${posted.json.id}`, {
+                method: 'PATCH',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ content }),
+            });
+
+            expect((await edit('Someone else', await signIn())).status).toBe(403);
+
+            const edited = await edit('Edited text');
+            expect(edited.status).toBe(200);
+            expect(edited.json).toMatchObject({ content: 'Edited text', edited: true });
+            // Saving the same text again is not a new revision
+            await edit('Edited text');
+
+            const { status, json } = await api(`/api/v1/sites/comments/${posted.json.id}/revisions`);
+            expect(status).toBe(200);
+            expect(json.revisions).toHaveLength(1);
+            expect(json.revisions[0].content).toBe(original);
+        });
+
+        it('should keep revisions private unless the site makes them public', async () => {
+            const { cookie, domain } = await createSite({ moderation: { require_approval: 'none' } });
+            const author = await signIn();
+            const posted = await postComment(domain, 'edited', {}, author);
+            await api(`/api/v1/sites/comments/${posted.json.id}`, {
+                method: 'PATCH',
+                headers: { Cookie: author },
+                body: JSON.stringify({ content: 'Edited text' }),
+            });
+
+            expect((await api(`/api/v1/sites/comments/${posted.json.id}/revisions`)).status).toBe(401);
+            const { json } = await api(`/api/v1/sites/comments/${posted.json.id}/revisions`, { headers: { Cookie: cookie } });
+            expect(json.revisions).toHaveLength(1);
+        });
+    });
+
+    describe('Deleting comments', () => {
+        // The scheduled purge only takes comments deleted before the retention cutoff
+        const backdateDeletion = (id: number) => proxy.env.DB
+            .prepare("UPDATE comments SET deleted_at = datetime('now', '-31 days') WHERE id = ?")
+            .bind(id)
+            .run();
+
+        const thread = async (domain: string) => {
+            const { json } = await api(`/api/v1/sites/comments?domain=${domain}&pageId=deleted`);
+            return json.comments as { id: number; content: string; deleted?: boolean }[];
+        };
+
+        it('should show a tombstone until the comment is restored or purged', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { require_approval: 'none' } });
+            const author = await signIn();
+            const content = `Soon gone ${unique()}`;
+            const parent = await postComment(domain, 'deleted', { content }, author);
+            const reply = await postComment(domain, 'deleted', { parent_id: parent.json.id });
+            const lone = await postComment(domain, 'deleted');
+
+            const remove = (id: number, as: string) => api(`/api/v1/sites/comments/${id}`, { method: 'DELETE', headers: { Cookie: as } });
+            const restore = (id: number) => api(`/api/v1/sites/comments/${id}/restore`, { method: 'POST', headers: { Cookie: cookie } });
+
+            // The author deletes their comment; replies keep it in the thread as a tombstone
+            expect((await remove(parent.json.id, author)).status).toBe(200);
+            expect((await remove(lone.json.id, cookie)).status).toBe(200);
+            let comments = await thread(domain);
+            expect(comments.find((comment) => comment.id === parent.json.id)).toMatchObject({ content: '[deleted]', deleted: true });
+            expect(comments.map((comment) => comment.id)).toContain(reply.json.id);
+            expect(comments.map((comment) => comment.id)).not.toContain(lone.json.id);
+
+            // Only the site's team can restore it
+            expect((await api(`/api/v1/sites/comments/${parent.json.id}/restore`, { method: 'POST', headers: { Cookie: author } })).status).toBe(403);
+            expect((await restore(parent.json.id)).status).toBe(200);
+            comments = await thread(domain);
+            expect(comments.find((comment) => comment.id === parent.json.id)).toMatchObject({ content });
+
+            // Past the retention period it can't be restored, and the purge scrubs or removes it
+            expect((await remove(parent.json.id, cookie)).status).toBe(200);
+            await backdateDeletion(parent.json.id);
+            await backdateDeletion(lone.json.id);
+            expect((await restore(parent.json.id)).status).toBe(410);
+
+            const result = await new Database(proxy.env.DB).purgeDeletedComments(deletionRetentionCutoff());
+            expect(result.purged).toBeGreaterThanOrEqual(1);
+            expect(result.scrubbed).toBeGreaterThanOrEqual(1);
+
+            comments = await thread(domain);
+            expect(comments.map((comment) => comment.id)).toEqual(expect.arrayContaining([parent.json.id, reply.json.id]));
+            const { json: deleted } = await api(`/api/v1/sites/${siteId}/comments?status=deleted`, { headers: { Cookie: cookie } });
+            expect(deleted.comments).toEqual([expect.objectContaining({ id: parent.json.id, content: '', author_name: 'Deleted' })]);
+
+            // Nothing the purged comments said is left in the moderation log
+            const { json: log } = await api(`/api/v1/admin/sites/${siteId}/moderation-log`, { headers: { Cookie: cookie } });
+            expect(log.total).toBeGreaterThanOrEqual(4);
+            expect(log.entries.map((entry: { comment_excerpt: string | null }) => entry.comment_excerpt)).toEqual(log.entries.map(() => null));
+        });
+    });
+
+    describe('Guest email verification', () => {
+        it('should approve a verified guest comment and hand it over when the guest signs in', async () => {
+            const { cookie, domain, siteId } = await createSite({ moderation: { verify_guest_emails: true, approve_verified_guests: true } });
+            const email = `Guest-${unique()}@example.com`;
+            const posted = await postComment(domain, 'verified', { author_email: email });
+            expect(posted.json).toMatchObject({ status: 'pending', verification_email_sent: true });
+
+            const stored = async () => {
+                const { json } = await api(`/api/v1/sites/${siteId}/comments`, { headers: { Cookie: cookie } });
+                return json.comments.find((comment: { id: number }) => comment.id === posted.json.id);
+            };
+
+            const token = await signGuestVerificationToken(posted.json.id, email, proxy.env.JWT_SECRET);
+            expect((await api(`/api/v1/notifications/verify-comment?comment=${posted.json.id}&token=bad`, { method: 'POST' })).status).toBe(400);
+            const verified = await api(`/api/v1/notifications/verify-comment?comment=${posted.json.id}&token=${token}`, { method: 'POST' });
+            expect(verified.status).toBe(200);
+            expect(await stored()).toMatchObject({ status: 'approved', user_id: null, email_verified_at: expect.any(String) });
+
+            // Signing in with the same address (in any case) claims it
+            const { authCookie } = await oauthSignIn(email.toLowerCase());
+            const { json: me } = await api('/api/v1/auth/me', { headers: { Cookie: authCookie! } });
+            expect((await stored()).user_id).toBe(me.id);
+        });
+    });
+
+    describe('PATCH /api/v1/sites/comments/:id/status', () => {
+        it('should record the change in the moderation log', async () => {
+            const { cookie, domain, siteId } = await createSite();
+            const posted = await postComment(domain, 'moderated', { content: 'Please review me' });
+            expect(posted.json.status).toBe('pending');
+
+            const rejected = await api(`/api/v1/sites/comments/${posted.json.id}/status`, {
+                method: 'PATCH',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ status: 'rejected', reason: 'Off topic' }),
+            });
+            expect(rejected.status).toBe(200);
+
+            const { json: log } = await api(`/api/v1/admin/sites/${siteId}/moderation-log?comment_id=${posted.json.id}`, { headers: { Cookie: cookie } });
+            expect(log.total).toBe(1);
+            expect(log.entries[0]).toMatchObject({
+                comment_id: posted.json.id,
+                action: 'reject',
+                from_status: 'pending',
+                to_status: 'rejected',
+                reason: 'Off topic',
+                comment_excerpt: 'Please review me',
+                moderator: expect.objectContaining({ role: 'owner' }),
+            });
+        });
+    });
+
+    describe('Replies', () => {
+        it('should only accept replies to live comments on the same page', async () => {
+            const victim = await createSite({ moderation: { require_approval: 'all' } });
+            const attacker = await createSite({ moderation: { require_approval: 'none' } });
+            const target = await postComment(victim.domain, 'replies');
+
+            // Another site, through either route
+            const crossSite = await postComment(attacker.domain, 'replies', { parent_id: target.json.id });
+            expect(crossSite.status).toBe(400);
+            const legacy = await api(`/api/v1/sites/${attacker.siteId}/pages/replies`, {
+                method: 'POST',
+                body: JSON.stringify({ author_name: 'Guest', content: `Reply ${unique()}`, parent_id: target.json.id }),
+            });
+            expect(legacy.status).toBe(400);
+
+            // Another page of the same site, or a deleted comment
+            expect((await postComment(victim.domain, 'elsewhere', { parent_id: target.json.id })).status).toBe(400);
+            await api(`/api/v1/sites/comments/${target.json.id}`, { method: 'DELETE', headers: { Cookie: victim.cookie } });
+            expect((await postComment(victim.domain, 'replies', { parent_id: target.json.id })).status).toBe(400);
+
+            const parent = await postComment(victim.domain, 'replies');
+            expect((await postComment(victim.domain, 'replies', { parent_id: parent.json.id })).status).toBe(201);
+        });
+
+        it('should keep replies from other pages out of a thread', async () => {
+            const victim = await createSite({ moderation: { require_approval: 'none' } });
+            const attacker = await createSite({ moderation: { require_approval: 'none' } });
+            const target = await postComment(victim.domain, 'replies');
+            const parent = await postComment(attacker.domain, 'replies');
+            const reply = await postComment(attacker.domain, 'replies', { parent_id: parent.json.id });
+
+            // A reply stored before parents were checked
+            await proxy.env.DB.prepare('UPDATE comments SET parent_id = ? WHERE id = ?').bind(target.json.id, reply.json.id).run();
+
+            const { json } = await api(`/api/v1/sites/comments?domain=${victim.domain}&pageId=replies`);
+            expect(json.comments.map((comment: { id: number }) => comment.id)).toEqual([target.json.id]);
+        });
+    });
+
+    describe('GET /api/v1/sites/comments', () => {
+        it('should walk every thread once by following next_cursor', async () => {
+            const { domain } = await createSite({ moderation: { require_approval: 'none' } });
+            const posted: number[] = [];
+            for (let i = 0; i < 5; i++) {
+                const { json } = await postComment(domain, 'paged');
+                posted.push(json.id);
+            }
+            await postComment(domain, 'paged', { parent_id: posted[0] });
+
+            const seen: number[] = [];
+            let cursor: string | null = null;
+            do {
+                const query: string = `/api/v1/sites/comments?domain=${domain}&pageId=paged&limit=2${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+                const { json } = await api(query);
+                seen.push(...json.comments.filter((comment: { parent_id: number | null }) => comment.parent_id === null).map((comment: { id: number }) => comment.id));
+                cursor = json.next_cursor;
+            } while (cursor);
+
+            // Every thread exactly once, even though their timestamps tie
+            expect(seen).toHaveLength(posted.length);
+            expect([...seen].sort()).toEqual([...posted].sort());
+        });
+    });
+});
@@ -7,6 +7,8 @@
  * 3. Run tests: `bun test`
  */
 
+import { createHmac } from 'node:crypto';
+
 export const BASE_URL = 'http://localhost:8787';
 
 // Helper to make requests
@@ -24,3 +26,27 @@ export async function api(path: string, options?: RequestInit) {
         headers: res.headers,
     };
 }
+
+// Run the OAuth flow against the mock provider without following redirects
+export async function oauthSignIn(loginHint: string) {
+    const start = await fetch(`${BASE_URL}/api/v1/auth/oauth/oidc`, { redirect: 'manual' });
+    const flowCookie = start.headers.get('Set-Cookie')?.split(';')[0] ?? '';
+
+    const authorizeUrl = new URL(start.headers.get('Location')!);
+    authorizeUrl.searchParams.set('login_hint', loginHint);
+    const authorized = await fetch(authorizeUrl, { redirect: 'manual' });
+
+    const callback = await fetch(authorized.headers.get('Location')!, {
+        redirect: 'manual',
+        headers: { Cookie: flowCookie },
+    });
+    const authCookie = callback.headers.getSetCookie().find((cookie) => cookie.startsWith('ck_auth=') && !cookie.startsWith('ck_auth=;'));
+
+    return { start, callback, authCookie: authCookie?.split(';')[0] ?? null };
+}
+
+// Build a host-site SSO token the way a site's server would
+export function ssoToken(secret: string, user: Record<string, unknown>, iat = Math.floor(Date.now() / 1000)) {
+    const payload = Buffer.from(JSON.stringify({ ...user, iat })).toString('base64url');
+    return `${payload}.${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
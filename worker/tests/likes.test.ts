@@ -1,5 +1,7 @@
-import { describe, it, expect } from 'bun:test';
-import { api } from './helpers';
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { api, oauthSignIn, ssoToken } from './helpers';
+import { startMockOidc } from './mock-oidc';
 
 describe('Page Likes', () => {
     describe('GET /api/v1/pages/:pageId/likes', () => {
@@ -106,3 +108,179 @@ describe('Comment Likes', () => {
         });
     });
 });
+
+describe('Comment Reactions', () => {
+    describe('GET /api/v1/comments/:commentId/reactions', () => {
+        it('should return 400 for invalid commentId', async () => {
+            const { status, json } = await api('/api/v1/comments/invalid/reactions');
+            expect(status).toBe(400);
+            expect(json.error).toContain('Invalid comment_id');
+        });
+
+        it('should return reaction stats for any commentId', async () => {
+            const { status, json } = await api('/api/v1/comments/1/reactions');
+            expect(status).toBe(200);
+            expect(json.reactions).toBeDefined();
+            expect(json.user_reaction).toBeNull();
+        });
+    });
+
+    describe('POST /api/v1/comments/:commentId/reactions', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/comments/1/reactions', {
+                method: 'POST',
+                body: JSON.stringify({ reaction: 'love' }),
+            });
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+
+        it('should return 400 for unknown reaction', async () => {
+            const { status } = await api('/api/v1/comments/1/reactions', {
+                method: 'POST',
+                body: JSON.stringify({ reaction: 'confused' }),
+            });
+            expect(status).toBe(400);
+        });
+    });
+
+    describe('DELETE /api/v1/comments/:commentId/reactions', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/comments/1/reactions', {
+                method: 'DELETE',
+            });
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+    });
+});
+
+describe('Reacting to site comments', () => {
+    let oidc: Server;
+
+    beforeAll(() => {
+        oidc = startMockOidc();
+    });
+
+    afterAll(() => {
+        oidc.stop(true);
+    });
+
+    const unique = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    // A new site with one comment on it, plus a signed-in reader
+    async function createComment(settings: Record<string, unknown> = {}) {
+        const { authCookie } = await oauthSignIn(`reactions-${unique()}@example.com`);
+        const cookie = authCookie!;
+        const domain = `reactions-${unique()}.example.com`;
+        const site = await api('/api/v1/admin/sites', {
+            method: 'POST',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ name: 'Reactions Site', domain }),
+        });
+        await api(`/api/v1/admin/sites/${site.json.id}`, {
+            method: 'PATCH',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ settings: { moderation: { require_approval: 'none' }, ...settings } }),
+        });
+        const comment = await api('/api/v1/sites/comments', {
+            method: 'POST',
+            body: JSON.stringify({ domain, pageId: 'reactions', author_name: 'Guest', content: `Comment ${unique()}` }),
+        });
+        const reader = (await oauthSignIn(`reader-${unique()}@example.com`)).authCookie!;
+        return { cookie, reader, domain, siteId: site.json.id as number, commentId: comment.json.id as number };
+    }
+
+    const react = (commentId: number, cookie: string, method: string, path = 'reactions', reaction?: string) => api(`/api/v1/comments/${commentId}/${path}`, {
+        method,
+        headers: { Cookie: cookie },
+        body: reaction ? JSON.stringify({ reaction }) : undefined,
+    });
+
+    it('should apply the site\'s reaction settings to legacy likes', async () => {
+        const { reader, commentId } = await createComment({ reactions: { enabled: ['love'] } });
+
+        const { status, json } = await react(commentId, reader, 'POST', 'likes');
+        expect(status).toBe(400);
+        expect(json.error).toContain('not enabled');
+    });
+
+    it('should not like comments that are not approved', async () => {
+        const { cookie, reader, commentId } = await createComment();
+        await api(`/api/v1/sites/comments/${commentId}/status`, {
+            method: 'PATCH',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ status: 'pending' }),
+        });
+
+        expect((await react(commentId, reader, 'POST', 'likes')).status).toBe(404);
+    });
+
+    it('should keep SSO users to the site that signed them in', async () => {
+        // A user signed in by site A's SSO...
+        const siteA = await createComment();
+        const enabled = await api(`/api/v1/admin/sites/${siteA.siteId}/sso-secret`, {
+            method: 'POST',
+            headers: { Cookie: siteA.cookie },
+        });
+        const signedIn = await api('/api/v1/auth/sso', {
+            method: 'POST',
+            body: JSON.stringify({ domain: siteA.domain, token: ssoToken(enabled.json.sso_secret, { id: unique(), name: 'Host User' }) }),
+        });
+        const headers = { Authorization: `Bearer ${signedIn.json.token}` };
+
+        // ...can't like or react on site B
+        const siteB = await createComment();
+        const thread = await api(`/api/v1/sites/comments?domain=${siteB.domain}&pageId=reactions`);
+        const pageId = thread.json.page_id;
+        for (const [method, path, reaction] of [
+            ['POST', `/api/v1/comments/${siteB.commentId}/likes`],
+            ['DELETE', `/api/v1/comments/${siteB.commentId}/likes`],
+            ['POST', `/api/v1/comments/${siteB.commentId}/reactions`, 'love'],
+            ['DELETE', `/api/v1/comments/${siteB.commentId}/reactions`],
+            ['POST', `/api/v1/pages/${pageId}/likes`],
+            ['DELETE', `/api/v1/pages/${pageId}/likes`],
+        ]) {
+            const { status } = await api(path, {
+                method,
+                headers,
+                body: reaction ? JSON.stringify({ reaction }) : undefined,
+            });
+            expect(status).toBe(403);
+        }
+
+        // ...or create a site of their own
+        const created = await api('/api/v1/admin/sites', {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ name: 'SSO Site', domain: `sso-user-${unique()}.example.com` }),
+        });
+        expect(created.status).toBe(403);
+
+        // Their own site is fine
+        const own = await api(`/api/v1/comments/${siteA.commentId}/reactions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({ reaction: 'love' }),
+        });
+        expect(own.status).toBe(200);
+    });
+
+    it('should only remove a like when unliking', async () => {
+        const { reader, commentId } = await createComment();
+        expect((await react(commentId, reader, 'POST', 'reactions', 'love')).status).toBe(200);
+
+        await react(commentId, reader, 'DELETE', 'likes');
+
+        const { json } = await api(`/api/v1/comments/${commentId}/reactions`, { headers: { Cookie: reader } });
+        expect(json.user_reaction).toBe('love');
+    });
+
+    it('should not react to deleted comments', async () => {
+        const { cookie, reader, commentId } = await createComment();
+        expect((await api(`/api/v1/sites/comments/${commentId}`, { method: 'DELETE', headers: { Cookie: cookie } })).status).toBe(200);
+
+        expect((await react(commentId, reader, 'POST', 'reactions', 'love')).status).toBe(404);
+        expect((await react(commentId, reader, 'POST', 'likes')).status).toBe(404);
+    });
+});
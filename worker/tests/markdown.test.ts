@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'bun:test';
+import { renderMarkdown, safeLinkHref } from '../src/utils/markdown';
+import { sanitizeMarkdownSource } from '../src/utils/sanitize';
+
+describe('Markdown', () => {
+    describe('links', () => {
+        it('should render http(s) and mailto links with nofollow', () => {
+            expect(renderMarkdown('[site](https://example.com)')).toBe('<p><a href="https://example.com/" rel="nofollow ugc">site</a></p>');
+            expect(renderMarkdown('[mail](mailto:me@example.com)')).toBe('<p><a href="mailto:me@example.com" rel="nofollow ugc">mail</a></p>');
+        });
+
+        it('should leave links with other protocols as text', () => {
+            for (const href of [
+                'javascript:alert(1)',
+                'JaVaScRiPt:alert(1)',
+                ' javascript:alert(1)',
+                'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+                'vbscript:msgbox(1)',
+                'javascript&#58;alert(1)',
+                '&#106;avascript:alert(1)',
+                '//example.com/relative',
+            ]) {
+                expect(safeLinkHref(href)).toBeNull();
+                const html = renderMarkdown(`[click](${href})`);
+                expect(html).not.toContain('<a');
+                expect(html).not.toContain('href');
+            }
+        });
+
+        it('should escape link targets inside the attribute', () => {
+            const html = renderMarkdown('[x](https://example.com/?a=1&b="2")');
+            expect(html).toContain('href="https://example.com/?a=1&amp;b=%222%22"');
+        });
+    });
+
+    describe('raw HTML', () => {
+        it('should escape tags and attributes as text', () => {
+            expect(renderMarkdown('<script>alert("x")</script>')).toBe('<p>&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>');
+            expect(renderMarkdown('<img src=x onerror=\'alert(1)\'>')).toBe('<p>&lt;img src=x onerror=&#39;alert(1)&#39;&gt;</p>');
+        });
+
+        it('should escape HTML inside formatting', () => {
+            expect(renderMarkdown('**<b>bold</b>**')).toBe('<p><strong>&lt;b&gt;bold&lt;/b&gt;</strong></p>');
+            expect(renderMarkdown('[<i>x</i>](https://example.com)')).toContain('>&lt;i&gt;x&lt;/i&gt;</a>');
+        });
+    });
+
+    describe('code', () => {
+        it('should render fenced code blocks verbatim', () => {
+            expect(renderMarkdown('```js\nconst a = "<b>";\n**not bold**\n```')).toBe(
+                '<pre><code class="language-js">const a = &quot;&lt;b&gt;&quot;;\n**not bold**</code></pre>'
+            );
+            // An unclosed fence runs to the end of the comment
+            expect(renderMarkdown('~~~\n[x](https://example.com)')).toBe('<pre><code>[x](https://example.com)</code></pre>');
+        });
+
+        it('should render inline code without formatting inside it', () => {
+            expect(renderMarkdown('use `*x* <y>` here')).toBe('<p>use <code>*x* &lt;y&gt;</code> here</p>');
+            expect(renderMarkdown('``a ` b``')).toBe('<p><code>a ` b</code></p>');
+        });
+    });
+
+    describe('images', () => {
+        it('should keep image syntax as literal text', () => {
+            expect(renderMarkdown('![alt](https://example.com/a.png)')).toBe('<p>![alt](https://example.com/a.png)</p>');
+            expect(renderMarkdown('see ![x](javascript:alert(1)) and [y](https://example.com)')).toBe(
+                '<p>see ![x](javascript:alert(1)) and <a href="https://example.com/" rel="nofollow ugc">y</a></p>'
+            );
+        });
+    });
+
+    describe('limits', () => {
+        it('should stop nesting quotes and lists at the maximum depth', () => {
+            const quotes = renderMarkdown(`${'>'.repeat(50)} deep`);
+            expect(quotes.match(/<blockquote>/g)).toHaveLength(8);
+            expect(quotes).toContain('&gt;');
+
+            const lists = renderMarkdown(`${'- '.repeat(50)}deep`);
+            expect(lists.match(/<ul>/g)).toHaveLength(8);
+            expect(lists).toContain('deep');
+        });
+
+        it('should render pathological input quickly', () => {
+            const started = performance.now();
+            renderMarkdown('*a '.repeat(5000));
+            renderMarkdown('['.repeat(10000));
+            renderMarkdown('`'.repeat(10000));
+            expect(performance.now() - started).toBeLessThan(1000);
+        });
+
+        it('should cap the stored source at 10,000 characters', () => {
+            expect(sanitizeMarkdownSource('a'.repeat(20000))).toHaveLength(10000);
+        });
+    });
+});
@@ -0,0 +1,41 @@
+/**
+ * Stub DNS-over-HTTPS resolver for testing TXT record domain verification
+ *
+ * The dev environment points DNS_RESOLVER_URL at this server (see wrangler.toml).
+ * It answers TXT queries in the JSON format of cloudflare-dns.com from the
+ * records map the caller passes in, and NXDOMAIN for any other name.
+ */
+
+import type { Server } from 'bun';
+
+export const MOCK_DNS_PORT = 8789;
+
+export function startMockDns(records: Map<string, string[]>, port: number = MOCK_DNS_PORT): Server {
+    return Bun.serve({
+        port,
+        fetch(req) {
+            const url = new URL(req.url);
+            if (url.pathname !== '/dns-query') {
+                return new Response('Not found', { status: 404 });
+            }
+
+            const name = url.searchParams.get('name') ?? '';
+            const values = records.get(name);
+            if (!values || url.searchParams.get('type') !== 'TXT') {
+                return Response.json({ Status: 3, Question: [{ name, type: 16 }] });
+            }
+
+            return Response.json({
+                Status: 0,
+                Question: [{ name, type: 16 }],
+                // Real resolvers quote TXT data and split long values into 255-byte strings
+                Answer: values.map((value) => ({
+                    name,
+                    type: 16,
+                    TTL: 300,
+                    data: (value.match(/.{1,255}/g) ?? ['']).map((part) => `"${part}"`).join(' '),
+                })),
+            });
+        },
+    });
+}
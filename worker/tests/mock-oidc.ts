@@ -0,0 +1,107 @@
+/**
+ * Minimal OpenID Connect provider for testing the OAuth sign-in flow
+ *
+ * The dev environment points OIDC_ISSUER at this server (see wrangler.toml).
+ * The authorize endpoint skips the login screen and signs in whoever is named
+ * by `login_hint`; hints starting with "unverified" get email_verified: false.
+ */
+
+import type { Server } from 'bun';
+
+export const MOCK_OIDC_PORT = 8788;
+export const MOCK_OIDC_CLIENT_ID = 'commentkit-dev';
+export const MOCK_OIDC_CLIENT_SECRET = 'commentkit-dev-secret';
+
+interface PendingCode {
+    email: string;
+    redirectUri: string;
+    codeChallenge: string;
+}
+
+async function s256(value: string): Promise<string> {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value)));
+    return Buffer.from(digest).toString('base64url');
+}
+
+export function startMockOidc(port: number = MOCK_OIDC_PORT): Server {
+    const issuer = `http://localhost:${port}`;
+    const codes = new Map<string, PendingCode>();
+    const tokens = new Map<string, string>();
+
+    return Bun.serve({
+        port,
+        async fetch(req) {
+            const url = new URL(req.url);
+
+            switch (url.pathname) {
+                case '/.well-known/openid-configuration':
+                    return Response.json({
+                        issuer,
+                        authorization_endpoint: `${issuer}/authorize`,
+                        token_endpoint: `${issuer}/token`,
+                        userinfo_endpoint: `${issuer}/userinfo`,
+                    });
+
+                case '/authorize': {
+                    const params = url.searchParams;
+                    const redirectUri = params.get('redirect_uri');
+                    if (params.get('client_id') !== MOCK_OIDC_CLIENT_ID || !redirectUri || params.get('code_challenge_method') !== 'S256') {
+                        return new Response('Bad authorization request', { status: 400 });
+                    }
+
+                    const code = crypto.randomUUID();
+                    codes.set(code, {
+                        email: params.get('login_hint') || 'oidc-user@example.com',
+                        redirectUri,
+                        codeChallenge: params.get('code_challenge') ?? '',
+                    });
+
+                    const callback = new URL(redirectUri);
+                    callback.searchParams.set('code', code);
+                    callback.searchParams.set('state', params.get('state') ?? '');
+                    return Response.redirect(callback.toString(), 302);
+                }
+
+                case '/token': {
+                    const body = new URLSearchParams(await req.text());
+                    const pending = codes.get(body.get('code') ?? '');
+                    codes.delete(body.get('code') ?? '');
+
+                    if (
+                        !pending ||
+                        body.get('client_secret') !== MOCK_OIDC_CLIENT_SECRET ||
+                        body.get('redirect_uri') !== pending.redirectUri ||
+                        (await s256(body.get('code_verifier') ?? '')) !== pending.codeChallenge
+                    ) {
+                        return Response.json({ error: 'invalid_grant' }, { status: 400 });
+                    }
+
+                    const accessToken = crypto.randomUUID();
+                    tokens.set(accessToken, pending.email);
+                    return Response.json({ access_token: accessToken, token_type: 'Bearer' });
+                }
+
+                case '/userinfo': {
+                    const email = tokens.get(req.headers.get('Authorization')?.replace('Bearer ', '') ?? '');
+                    if (!email) {
+                        return new Response('Unauthorized', { status: 401 });
+                    }
+
+                    return Response.json({
+                        sub: `mock-${email}`,
+                        email,
+                        email_verified: !email.startsWith('unverified'),
+                        name: email.split('@')[0],
+                    });
+                }
+            }
+
+            return new Response('Not found', { status: 404 });
+        },
+    });
+}
+
+if (import.meta.main) {
+    const server = startMockOidc();
+    console.log(`Mock OIDC provider listening on http://localhost:${server.port}`);
+}
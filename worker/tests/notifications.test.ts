@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'bun:test';
+import { api } from './helpers';
+
+describe('Notifications', () => {
+    describe('GET /api/v1/notifications/preferences', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/notifications/preferences');
+            expect(status).toBe(401);
+            expect(json.error).toContain('Not authenticated');
+        });
+    });
+
+    describe('PATCH /api/v1/notifications/preferences', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/notifications/preferences', {
+                method: 'PATCH',
+                body: JSON.stringify({ reply_emails: false }),
+            });
+            expect(status).toBe(401);
+        });
+    });
+
+    describe('/api/v1/notifications/unsubscribe', () => {
+        it('should reject a missing token', async () => {
+            const { status } = await api('/api/v1/notifications/unsubscribe?email=test@example.com&kind=reply');
+            expect(status).toBe(400);
+        });
+
+        it('should reject an unknown notification kind', async () => {
+            const { status } = await api('/api/v1/notifications/unsubscribe?email=test@example.com&kind=everything&token=abc');
+            expect(status).toBe(400);
+        });
+
+        it('should reject an invalid signature', async () => {
+            const { status } = await api('/api/v1/notifications/unsubscribe?email=test@example.com&kind=reply&token=abc', {
+                method: 'POST',
+            });
+            expect(status).toBe(400);
+        });
+    });
+
+    describe('/api/v1/notifications/verify-comment', () => {
+        it('should reject a missing token', async () => {
+            const { status } = await api('/api/v1/notifications/verify-comment?comment=1');
+            expect(status).toBe(400);
+        });
+
+        it('should reject an invalid signature', async () => {
+            const { status } = await api('/api/v1/notifications/verify-comment?comment=1&token=abc', {
+                method: 'POST',
+            });
+            expect(status).toBe(400);
+        });
+    });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'bun:test';
+import { DEFAULT_SITE_SETTINGS, isWithinEditWindow, mergeSiteSettings } from '../src/utils/site-settings';
+
+describe('Site settings', () => {
+    describe('mergeSiteSettings', () => {
+        it('should keep stored keys it does not know about', () => {
+            const stored = JSON.stringify({
+                moderation: { require_approval: 'all', future_option: true },
+                future_section: { enabled: true },
+            });
+
+            const merged = mergeSiteSettings(stored, { moderation: { allow_guest_comments: false } });
+
+            expect(merged.future_section).toEqual({ enabled: true });
+            expect(merged.moderation).toMatchObject({
+                require_approval: 'all',
+                allow_guest_comments: false,
+                future_option: true,
+            });
+        });
+
+        it('should fill in defaults for malformed settings', () => {
+            const merged = mergeSiteSettings('not json', { spam: { enabled: false } });
+            expect(merged.spam).toEqual({ enabled: false, blocked_words: [] });
+            expect(merged.moderation).toMatchObject({ require_approval: 'guests' });
+        });
+    });
+
+    describe('isWithinEditWindow', () => {
+        const withWindow = (minutes: number) => ({ ...DEFAULT_SITE_SETTINGS, editing: { window_minutes: minutes, public_history: false } });
+        const now = new Date('2026-01-01T12:00:00Z');
+
+        it('should allow edits until the window closes', () => {
+            expect(isWithinEditWindow(withWindow(15), '2026-01-01 11:50:00', now)).toBe(true);
+            expect(isWithinEditWindow(withWindow(15), '2026-01-01 11:45:00', now)).toBe(true);
+            expect(isWithinEditWindow(withWindow(15), '2026-01-01 11:44:59', now)).toBe(false);
+        });
+
+        it('should always allow edits without a window', () => {
+            expect(isWithinEditWindow(withWindow(0), '2020-01-01 00:00:00', now)).toBe(true);
+        });
+    });
+});
@@ -1,5 +1,8 @@
-import { describe, it, expect } from 'bun:test';
-import { api } from './helpers';
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { api, oauthSignIn } from './helpers';
+import { startMockDns } from './mock-dns';
+import { startMockOidc } from './mock-oidc';
 
 describe('Site Management', () => {
     describe('GET /api/v1/admin/sites', () => {
@@ -37,6 +40,14 @@ describe('Site Management', () => {
         });
     });
 
+    describe('POST /api/v1/admin/sites/:id/sso-secret', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/admin/sites/1/sso-secret', { method: 'POST' });
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+    });
+
     describe('PATCH /api/v1/admin/sites/:id', () => {
         it('should return 401 without auth', async () => {
             const { status, json } = await api('/api/v1/admin/sites/1', {
@@ -58,11 +69,9 @@ describe('Site Management', () => {
         });
     });
 
-    describe('POST /api/v1/admin/sites/:id/regenerate-key', () => {
+    describe('GET /api/v1/admin/sites/:id/export', () => {
         it('should return 401 without auth', async () => {
-            const { status, json } = await api('/api/v1/admin/sites/1/regenerate-key', {
-                method: 'POST',
-            });
+            const { status, json } = await api('/api/v1/admin/sites/1/export');
             expect(status).toBe(401);
             expect(json.error).toContain('Authentication required');
         });
@@ -75,4 +84,623 @@ describe('Site Management', () => {
             expect(json.error).toContain('Authentication required');
         });
     });
+
+    describe('GET /api/v1/admin/sites/:id/moderation-log', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/admin/sites/1/moderation-log');
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+
+        it('should return 400 for invalid paging', async () => {
+            for (const query of ['limit=abc', 'limit=0', 'limit=101', 'offset=-1', 'comment_id=x']) {
+                const { status } = await api(`/api/v1/admin/sites/1/moderation-log?${query}`);
+                expect(status).toBe(400);
+            }
+        });
+    });
+
+    describe('Domain verification', () => {
+        const txtRecords = new Map<string, string[]>();
+        let oidc: Server;
+        let dns: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+            dns = startMockDns(txtRecords);
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+            dns.stop(true);
+        });
+
+        // A new site owned by a freshly signed-in user, with its verification instructions
+        async function createSite() {
+            const { authCookie } = await oauthSignIn(`verify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`);
+            const cookie = authCookie!;
+            const domain = `verify-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.example.com`;
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ name: 'Verify Site', domain }),
+            });
+            const { json: verification } = await api(`/api/v1/admin/sites/${site.json.id}/verification`, { headers: { Cookie: cookie } });
+            return { cookie, domain, siteId: site.json.id as number, verification };
+        }
+
+        const verify = (siteId: number, cookie: string, method: string) => api(`/api/v1/admin/sites/${siteId}/verify`, {
+            method: 'POST',
+            headers: { Cookie: cookie },
+            body: JSON.stringify({ method }),
+        });
+
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/verify', { method: 'POST', body: JSON.stringify({ method: 'dns' }) });
+            expect(status).toBe(401);
+        });
+
+        it('should give instructions for every method', async () => {
+            const { domain, verification } = await createSite();
+            const token = verification.verification_token;
+
+            expect(verification.methods.file.url).toBe(`https://${domain}/.well-known/commentkit-verify.txt`);
+            expect(verification.methods.dns).toEqual({ type: 'TXT', name: `_commentkit.${domain}`, value: `commentkit-verification=${token}` });
+            expect(verification.methods.meta.tag).toBe(`<meta name="commentkit-verification" content="${token}">`);
+        });
+
+        it('should reject an unknown method', async () => {
+            const { cookie, siteId } = await createSite();
+            const { status } = await verify(siteId, cookie, 'carrier-pigeon');
+            expect(status).toBe(400);
+        });
+
+        it('should report a missing TXT record', async () => {
+            const { cookie, siteId } = await createSite();
+            const { status, json } = await verify(siteId, cookie, 'dns');
+            expect(status).toBe(200);
+            expect(json.verified).toBe(false);
+            expect(json.error).toContain('No TXT record');
+        });
+
+        it('should not accept a TXT record with the wrong token', async () => {
+            const { cookie, siteId, verification } = await createSite();
+            txtRecords.set(verification.methods.dns.name, ['commentkit-verification=not-the-token']);
+
+            const { json } = await verify(siteId, cookie, 'dns');
+            expect(json.verified).toBe(false);
+            expect(json.error).toContain('does not match');
+        });
+
+        it('should verify a site with a matching TXT record', async () => {
+            const { cookie, siteId, verification } = await createSite();
+            txtRecords.set(verification.methods.dns.name, ['v=spf1 -all', verification.methods.dns.value]);
+
+            const { json } = await verify(siteId, cookie, 'dns');
+            expect(json.verified).toBe(true);
+            expect(json.method).toBe('dns');
+
+            const { json: after } = await api(`/api/v1/admin/sites/${siteId}/verification`, { headers: { Cookie: cookie } });
+            expect(after.verified).toBe(true);
+            expect(after.verification_method).toBe('dns');
+        });
+
+        describe('Domain aliases', () => {
+            const addAlias = (siteId: number, cookie: string, domain: string) => api(`/api/v1/admin/sites/${siteId}/domains`, {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ domain }),
+            });
+
+            it('should return 401 without auth', async () => {
+                const { status } = await api('/api/v1/admin/sites/1/domains');
+                expect(status).toBe(401);
+            });
+
+            it('should not add a domain that is already registered', async () => {
+                const { cookie, siteId, domain } = await createSite();
+                const other = await createSite();
+
+                expect((await addAlias(siteId, cookie, domain)).status).toBe(409);
+                expect((await addAlias(siteId, cookie, other.domain)).status).toBe(409);
+
+                const alias = `www.${domain}`;
+                expect((await addAlias(siteId, cookie, alias)).status).toBe(201);
+                expect((await addAlias(other.siteId, other.cookie, alias)).status).toBe(409);
+            });
+
+            it('should only load the widget on an alias once it is verified', async () => {
+                const { cookie, siteId, domain } = await createSite();
+                const { status, json: alias } = await addAlias(siteId, cookie, `staging.${domain}`);
+                expect(status).toBe(201);
+                expect(alias.verified).toBe(false);
+
+                const before = await api(`/api/v1/widget/verify-site?domain=${alias.domain}`);
+                expect(before.json.verified).toBe(false);
+
+                txtRecords.set(alias.verification.methods.dns.name, [alias.verification.methods.dns.value]);
+                const verified = await api(`/api/v1/admin/sites/${siteId}/domains/${alias.id}/verify`, {
+                    method: 'POST',
+                    headers: { Cookie: cookie },
+                    body: JSON.stringify({ method: 'dns' }),
+                });
+                expect(verified.json.verified).toBe(true);
+
+                const after = await api(`/api/v1/widget/verify-site?domain=${alias.domain}`);
+                expect(after.json).toEqual({ verified: true, site_id: siteId });
+
+                const { json: list } = await api(`/api/v1/admin/sites/${siteId}/domains`, { headers: { Cookie: cookie } });
+                expect(list.primary.domain).toBe(domain);
+                expect(list.aliases).toHaveLength(1);
+                expect(list.aliases[0].verified).toBe(true);
+                expect(list.aliases[0].verification).toBeNull();
+            });
+
+            it("should share the site's comments across its domains", async () => {
+                const { cookie, siteId, domain } = await createSite();
+                await api(`/api/v1/admin/sites/${siteId}`, {
+                    method: 'PATCH',
+                    headers: { Cookie: cookie },
+                    body: JSON.stringify({ settings: { moderation: { require_approval: 'none' } } }),
+                });
+                const { json: alias } = await addAlias(siteId, cookie, `www.${domain}`);
+
+                const posted = await api('/api/v1/sites/comments', {
+                    method: 'POST',
+                    headers: { Cookie: cookie },
+                    body: JSON.stringify({ domain: alias.domain, pageId: 'shared-page', content: 'Posted on the alias' }),
+                });
+                expect(posted.status).toBe(201);
+
+                const { json } = await api(`/api/v1/sites/comments?domain=${domain}&pageId=shared-page`);
+                expect(json.comments.map((comment: { content: string }) => comment.content)).toContain('Posted on the alias');
+            });
+
+            it('should remove an alias', async () => {
+                const { cookie, siteId, domain } = await createSite();
+                const { json: alias } = await addAlias(siteId, cookie, `preview.${domain}`);
+
+                const removed = await api(`/api/v1/admin/sites/${siteId}/domains/${alias.id}`, { method: 'DELETE', headers: { Cookie: cookie } });
+                expect(removed.status).toBe(200);
+
+                const { json } = await api(`/api/v1/widget/verify-site?domain=${alias.domain}`);
+                expect(json.error).toContain('not registered');
+            });
+        });
+
+        describe('Normalization and wildcards', () => {
+            const addAlias = (siteId: number, cookie: string, domain: string) => api(`/api/v1/admin/sites/${siteId}/domains`, {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ domain }),
+            });
+
+            it('should store domains in normal form', async () => {
+                const { cookie, siteId, domain } = await createSite();
+
+                const { status, json } = await addAlias(siteId, cookie, `HTTPS://WWW.${domain.toUpperCase()}.:8080/blog`);
+                expect(status).toBe(201);
+                expect(json.domain).toBe(`www.${domain}`);
+
+                // Same domain written differently
+                expect((await addAlias(siteId, cookie, `www.${domain}.`)).status).toBe(409);
+
+                const idn = await addAlias(siteId, cookie, `bücher.${domain}`);
+                expect(idn.json.domain).toBe(new URL(`http://bücher.${domain}`).hostname);
+                expect(idn.json.domain).toStartWith('xn--');
+            });
+
+            it('should reject invalid domains', async () => {
+                const { cookie, siteId } = await createSite();
+                for (const domain of ['not a domain', 'user@example.com', '*.com', '-bad.example.com']) {
+                    expect((await addAlias(siteId, cookie, domain)).status).toBe(400);
+                }
+            });
+
+            it('should look sites up by normalized domain', async () => {
+                const { cookie, siteId, domain } = await createSite();
+                txtRecords.set(`_commentkit.${domain}`, [`commentkit-verification=${(await api(`/api/v1/admin/sites/${siteId}/verification`, { headers: { Cookie: cookie } })).json.verification_token}`]);
+                await api(`/api/v1/admin/sites/${siteId}/verify`, {
+                    method: 'POST',
+                    headers: { Cookie: cookie },
+                    body: JSON.stringify({ method: 'dns' }),
+                });
+
+                const { json } = await api(`/api/v1/widget/verify-site?domain=${domain.toUpperCase()}.`);
+                expect(json).toEqual({ verified: true, site_id: siteId });
+            });
+
+            it('should match subdomains with a verified wildcard', async () => {
+                const { cookie, siteId, domain } = await createSite();
+                const { status, json: alias } = await addAlias(siteId, cookie, `*.blogs.${domain}`);
+                expect(status).toBe(201);
+                expect(alias.verification.methods.file).toBeNull();
+                expect(alias.verification.methods.meta).toBeNull();
+                expect(alias.verification.methods.dns.name).toBe(`_commentkit.blogs.${domain}`);
+
+                const verifyAlias = (method: string) => api(`/api/v1/admin/sites/${siteId}/domains/${alias.id}/verify`, {
+                    method: 'POST',
+                    headers: { Cookie: cookie },
+                    body: JSON.stringify({ method }),
+                });
+
+                const viaFile = await verifyAlias('file');
+                expect(viaFile.json.verified).toBe(false);
+                expect(viaFile.json.error).toContain('DNS');
+
+                const before = await api(`/api/v1/widget/verify-site?domain=alice.blogs.${domain}`);
+                expect(before.json.verified).toBe(false);
+
+                txtRecords.set(alias.verification.methods.dns.name, [alias.verification.methods.dns.value]);
+                expect((await verifyAlias('dns')).json.verified).toBe(true);
+
+                for (const host of [`alice.blogs.${domain}`, `Deep.Nested.blogs.${domain}`]) {
+                    const { json } = await api(`/api/v1/widget/verify-site?domain=${host}`);
+                    expect(json).toEqual({ verified: true, site_id: siteId });
+                }
+
+                // The wildcard covers subdomains only, not its base domain
+                const base = await api(`/api/v1/widget/verify-site?domain=blogs.${domain}`);
+                expect(base.json.error).toContain('not registered');
+            });
+
+            it('should prefer an exact domain over a wildcard', async () => {
+                const owner = await createSite();
+                const other = await createSite();
+                const wildcard = await addAlias(owner.siteId, owner.cookie, `*.shop.${owner.domain}`);
+                expect(wildcard.status).toBe(201);
+
+                // A specific subdomain can still be registered by another site
+                const exact = await addAlias(other.siteId, other.cookie, `eu.shop.${owner.domain}`);
+                expect(exact.status).toBe(201);
+
+                const { json } = await api(`/api/v1/widget/verify-site?domain=eu.shop.${owner.domain}`);
+                expect(json.error).toContain('not been verified');
+
+                txtRecords.set(exact.json.verification.methods.dns.name, [exact.json.verification.methods.dns.value]);
+                await api(`/api/v1/admin/sites/${other.siteId}/domains/${exact.json.id}/verify`, {
+                    method: 'POST',
+                    headers: { Cookie: other.cookie },
+                    body: JSON.stringify({ method: 'dns' }),
+                });
+                const after = await api(`/api/v1/widget/verify-site?domain=eu.shop.${owner.domain}`);
+                expect(after.json).toEqual({ verified: true, site_id: other.siteId });
+            });
+
+            // A wildcard alias on the owner's site, verified over DNS
+            async function addVerifiedWildcard(owner: { siteId: number; cookie: string }, domain: string) {
+                const { json: alias } = await addAlias(owner.siteId, owner.cookie, domain);
+                txtRecords.set(alias.verification.methods.dns.name, [alias.verification.methods.dns.value]);
+                await api(`/api/v1/admin/sites/${owner.siteId}/domains/${alias.id}/verify`, {
+                    method: 'POST',
+                    headers: { Cookie: owner.cookie },
+                    body: JSON.stringify({ method: 'dns' }),
+                });
+            }
+
+            it("should not register hosts under another site's verified wildcard", async () => {
+                const owner = await createSite();
+                const other = await createSite();
+                await addVerifiedWildcard(owner, `*.shop.${owner.domain}`);
+
+                expect((await addAlias(other.siteId, other.cookie, `eu.shop.${owner.domain}`)).status).toBe(409);
+                expect((await addAlias(other.siteId, other.cookie, `*.eu.shop.${owner.domain}`)).status).toBe(409);
+                const created = await api('/api/v1/admin/sites', {
+                    method: 'POST',
+                    headers: { Cookie: other.cookie },
+                    body: JSON.stringify({ name: 'Squatter', domain: `eu.shop.${owner.domain}` }),
+                });
+                expect(created.status).toBe(409);
+
+                // The wildcard's own site can still add hosts under it
+                expect((await addAlias(owner.siteId, owner.cookie, `eu.shop.${owner.domain}`)).status).toBe(201);
+            });
+
+            it('should prefer a verified wildcard over an unverified exact domain', async () => {
+                const owner = await createSite();
+                const other = await createSite();
+                // Registered before the wildcard was verified
+                expect((await addAlias(other.siteId, other.cookie, `eu.shop.${owner.domain}`)).status).toBe(201);
+                await addVerifiedWildcard(owner, `*.shop.${owner.domain}`);
+
+                const { json } = await api(`/api/v1/widget/verify-site?domain=eu.shop.${owner.domain}`);
+                expect(json).toEqual({ verified: true, site_id: owner.siteId });
+            });
+        });
+    });
+
+    describe('Site teams', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        const uniqueEmail = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`;
+
+        // A site whose owner has invited one person with each role, all of whom have signed in
+        async function createTeam() {
+            const { authCookie } = await oauthSignIn(uniqueEmail('owner'));
+            const owner = authCookie!;
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: owner },
+                body: JSON.stringify({ name: 'Team Site', domain: `team-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.example.com` }),
+            });
+            const siteId = site.json.id as number;
+            await api(`/api/v1/admin/sites/${siteId}`, {
+                method: 'PATCH',
+                headers: { Cookie: owner },
+                body: JSON.stringify({ settings: { moderation: { require_approval: 'all' } } }),
+            });
+
+            const members: Record<'admin' | 'moderator' | 'viewer', string> = { admin: '', moderator: '', viewer: '' };
+            for (const role of ['admin', 'moderator', 'viewer'] as const) {
+                const email = uniqueEmail(role);
+                const invited = await api(`/api/v1/admin/sites/${siteId}/team/invitations`, {
+                    method: 'POST',
+                    headers: { Cookie: owner },
+                    body: JSON.stringify({ email, role }),
+                });
+                expect(invited.status).toBe(201);
+                members[role] = (await oauthSignIn(email)).authCookie!;
+            }
+
+            return { owner, siteId, ...members };
+        }
+
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/team');
+            expect(status).toBe(401);
+        });
+
+        it('should add invited people to the team when they sign in', async () => {
+            const { authCookie } = await oauthSignIn(uniqueEmail('owner'));
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: authCookie! },
+                body: JSON.stringify({ name: 'Invite Site', domain: `invite-${Date.now()}.example.com` }),
+            });
+            const siteId = site.json.id;
+            const email = uniqueEmail('Editor');
+
+            const invited = await api(`/api/v1/admin/sites/${siteId}/team/invitations`, {
+                method: 'POST',
+                headers: { Cookie: authCookie! },
+                body: JSON.stringify({ email, role: 'moderator' }),
+            });
+            expect(invited.status).toBe(201);
+            expect(invited.json.email).toBe(email.toLowerCase());
+
+            const { json: pending } = await api(`/api/v1/admin/sites/${siteId}/team`, { headers: { Cookie: authCookie! } });
+            expect(pending.members).toHaveLength(1);
+            expect(pending.members[0].role).toBe('owner');
+            expect(pending.invitations.map((invitation: { email: string }) => invitation.email)).toEqual([email.toLowerCase()]);
+
+            const moderator = (await oauthSignIn(email)).authCookie!;
+            const { json: list } = await api('/api/v1/admin/sites', { headers: { Cookie: moderator } });
+            expect(list.sites).toEqual([expect.objectContaining({ id: siteId, role: 'moderator' })]);
+
+            const { json: team } = await api(`/api/v1/admin/sites/${siteId}/team`, { headers: { Cookie: authCookie! } });
+            expect(team.members.map((member: { role: string }) => member.role)).toEqual(['owner', 'moderator']);
+            expect(team.invitations).toEqual([]);
+        });
+
+        it('should let each role do only what it is allowed to', async () => {
+            const team = await createTeam();
+            const asRole = (cookie: string) => ({ headers: { Cookie: cookie } });
+
+            // Everyone on the team can see the site
+            for (const cookie of [team.admin, team.moderator, team.viewer]) {
+                expect((await api(`/api/v1/admin/sites/${team.siteId}`, asRole(cookie))).status).toBe(200);
+            }
+
+            // Only admins and up change settings
+            const patch = (cookie: string) => api(`/api/v1/admin/sites/${team.siteId}`, {
+                method: 'PATCH',
+                ...asRole(cookie),
+                body: JSON.stringify({ name: 'Renamed' }),
+            });
+            expect((await patch(team.admin)).status).toBe(200);
+            expect((await patch(team.moderator)).status).toBe(403);
+            expect((await patch(team.viewer)).status).toBe(403);
+
+            // Only the owner deletes the site
+            expect((await api(`/api/v1/admin/sites/${team.siteId}`, { method: 'DELETE', ...asRole(team.admin) })).status).toBe(403);
+
+            // Moderators and up moderate comments, and the log records their role
+            const posted = await api('/api/v1/sites/comments', {
+                method: 'POST',
+                ...asRole(team.viewer),
+                body: JSON.stringify({ domain: (await api(`/api/v1/admin/sites/${team.siteId}`, asRole(team.owner))).json.domain, pageId: 'team-page', content: 'Needs review' }),
+            });
+            expect(posted.status).toBe(201);
+
+            const moderate = (cookie: string) => api(`/api/v1/sites/comments/${posted.json.id}/status`, {
+                method: 'PATCH',
+                ...asRole(cookie),
+                body: JSON.stringify({ status: 'approved' }),
+            });
+            expect((await moderate(team.viewer)).status).toBe(403);
+            expect((await moderate(team.moderator)).status).toBe(200);
+
+            const { json: log } = await api(`/api/v1/admin/sites/${team.siteId}/moderation-log`, asRole(team.viewer));
+            expect(log.entries[0].moderator.role).toBe('moderator');
+
+            // Only admins and up manage the team
+            const invite = (cookie: string) => api(`/api/v1/admin/sites/${team.siteId}/team/invitations`, {
+                method: 'POST',
+                ...asRole(cookie),
+                body: JSON.stringify({ email: uniqueEmail('another'), role: 'viewer' }),
+            });
+            expect((await invite(team.moderator)).status).toBe(403);
+            expect((await invite(team.admin)).status).toBe(201);
+        });
+
+        it('should manage members', async () => {
+            const team = await createTeam();
+            const { json } = await api(`/api/v1/admin/sites/${team.siteId}/team`, { headers: { Cookie: team.admin } });
+            const byRole = Object.fromEntries(json.members.map((member: { role: string; user_id: number; email: string }) => [member.role, member]));
+
+            const invite = await api(`/api/v1/admin/sites/${team.siteId}/team/invitations`, {
+                method: 'POST',
+                headers: { Cookie: team.admin },
+                body: JSON.stringify({ email: byRole.viewer.email, role: 'admin' }),
+            });
+            expect(invite.status).toBe(409);
+
+            const invalidRole = await api(`/api/v1/admin/sites/${team.siteId}/team/members/${byRole.viewer.user_id}`, {
+                method: 'PATCH',
+                headers: { Cookie: team.admin },
+                body: JSON.stringify({ role: 'owner' }),
+            });
+            expect(invalidRole.status).toBe(400);
+
+            const promoted = await api(`/api/v1/admin/sites/${team.siteId}/team/members/${byRole.viewer.user_id}`, {
+                method: 'PATCH',
+                headers: { Cookie: team.admin },
+                body: JSON.stringify({ role: 'moderator' }),
+            });
+            expect(promoted.json).toEqual({ user_id: byRole.viewer.user_id, role: 'moderator' });
+
+            const removeOwner = await api(`/api/v1/admin/sites/${team.siteId}/team/members/${byRole.owner.user_id}`, {
+                method: 'DELETE',
+                headers: { Cookie: team.admin },
+            });
+            expect(removeOwner.status).toBe(400);
+
+            // Anyone can leave, but only admins remove others
+            const removeOther = await api(`/api/v1/admin/sites/${team.siteId}/team/members/${byRole.admin.user_id}`, {
+                method: 'DELETE',
+                headers: { Cookie: team.moderator },
+            });
+            expect(removeOther.status).toBe(403);
+
+            const leave = await api(`/api/v1/admin/sites/${team.siteId}/team/members/${byRole.moderator.user_id}`, {
+                method: 'DELETE',
+                headers: { Cookie: team.moderator },
+            });
+            expect(leave.status).toBe(200);
+            expect((await api(`/api/v1/admin/sites/${team.siteId}`, { headers: { Cookie: team.moderator } })).status).toBe(403);
+        });
+    });
+
+    describe('API keys', () => {
+        let oidc: Server;
+
+        beforeAll(() => {
+            oidc = startMockOidc();
+        });
+
+        afterAll(() => {
+            oidc.stop(true);
+        });
+
+        // A new site owned by a freshly signed-in user
+        async function createSite() {
+            const { authCookie } = await oauthSignIn(`keys-${Date.now()}-${Math.random().toString(36).slice(2, 8)}@example.com`);
+            const cookie = authCookie!;
+            const domain = `keys-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.example.com`;
+            const site = await api('/api/v1/admin/sites', {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ name: 'Keys Site', domain }),
+            });
+            return { cookie, domain, siteId: site.json.id as number };
+        }
+
+        async function createKey(siteId: number, cookie: string, scopes: string[]) {
+            const { status, json } = await api(`/api/v1/admin/sites/${siteId}/api-keys`, {
+                method: 'POST',
+                headers: { Cookie: cookie },
+                body: JSON.stringify({ name: `Key ${scopes.join(' ')}`, scopes }),
+            });
+            expect(status).toBe(201);
+            return json;
+        }
+
+        const withKey = (key: string) => ({ headers: { 'X-API-Key': key } });
+
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/api-keys');
+            expect(status).toBe(401);
+        });
+
+        it('should show a key once and only store its hash', async () => {
+            const { cookie, siteId } = await createSite();
+            const created = await createKey(siteId, cookie, ['moderate', 'comments:read', 'moderate']);
+            expect(created.key).toStartWith(created.key_prefix);
+            expect(created.scopes).toEqual(['comments:read', 'moderate']);
+
+            const { json } = await api(`/api/v1/admin/sites/${siteId}/api-keys`, { headers: { Cookie: cookie } });
+            expect(json.api_keys).toEqual([expect.objectContaining({ id: created.id, last_used_at: null, revoked_at: null })]);
+            expect(JSON.stringify(json)).not.toContain(created.key);
+        });
+
+        it('should only let a key do what its scopes allow on its own site', async () => {
+            const { cookie, domain, siteId } = await createSite();
+            const other = await createSite();
+            const writer = (await createKey(siteId, cookie, ['comments:write'])).key;
+            const moderator = (await createKey(siteId, cookie, ['comments:read', 'moderate'])).key;
+
+            expect((await api(`/api/v1/sites/comments?domain=${domain}&pageId=p`, withKey('ck_not-a-real-key'))).status).toBe(401);
+
+            const posted = await api('/api/v1/sites/comments', {
+                method: 'POST',
+                ...withKey(writer),
+                body: JSON.stringify({ domain, pageId: 'api-page', author_name: 'Importer', content: 'Posted by a server' }),
+            });
+            expect(posted.status).toBe(201);
+
+            const wrongScope = await api('/api/v1/sites/comments', {
+                method: 'POST',
+                ...withKey(moderator),
+                body: JSON.stringify({ domain, pageId: 'api-page', author_name: 'Importer', content: 'Not allowed' }),
+            });
+            expect(wrongScope.status).toBe(403);
+
+            const list = await api(`/api/v1/sites/${siteId}/comments`, withKey(moderator));
+            expect(list.status).toBe(200);
+            expect(list.json.comments.map((comment: { id: number }) => comment.id)).toContain(posted.json.id);
+            expect((await api(`/api/v1/sites/${siteId}/comments`, withKey(writer))).status).toBe(403);
+            expect((await api(`/api/v1/sites/${other.siteId}/comments`, withKey(moderator))).status).toBe(403);
+
+            const approved = await api(`/api/v1/sites/comments/${posted.json.id}/status`, {
+                method: 'PATCH',
+                ...withKey(moderator),
+                body: JSON.stringify({ status: 'approved' }),
+            });
+            expect(approved.status).toBe(200);
+
+            const { json: log } = await api(`/api/v1/admin/sites/${siteId}/moderation-log`, { headers: { Cookie: cookie } });
+            expect(log.entries[0].moderator).toEqual(expect.objectContaining({ role: 'api_key', user_id: null }));
+
+            // A key never acts with the session sent alongside it
+            const manage = await api(`/api/v1/admin/sites/${siteId}`, { headers: { 'X-API-Key': moderator, Cookie: cookie } });
+            expect(manage.status).toBe(401);
+        });
+
+        it('should export with an export key and stop accepting revoked keys', async () => {
+            const { cookie, siteId } = await createSite();
+            const exporter = await createKey(siteId, cookie, ['export']);
+
+            const exported = await api(`/api/v1/admin/sites/${siteId}/export`, withKey(exporter.key));
+            expect(exported.status).toBe(200);
+            expect(exported.json.site.id).toBe(siteId);
+            expect(exported.json.comments).toEqual([]);
+            expect((await api(`/api/v1/admin/sites/${siteId}/export`, { headers: { Cookie: cookie } })).status).toBe(200);
+
+            const revoked = await api(`/api/v1/admin/sites/${siteId}/api-keys/${exporter.id}`, {
+                method: 'DELETE',
+                headers: { Cookie: cookie },
+            });
+            expect(revoked.json.revoked_at).not.toBeNull();
+            expect(revoked.json.last_used_at).not.toBeNull();
+            expect((await api(`/api/v1/admin/sites/${siteId}/export`, withKey(exporter.key))).status).toBe(401);
+        });
+    });
 });
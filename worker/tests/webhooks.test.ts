@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'bun:test';
+import { api } from './helpers';
+
+describe('Webhooks', () => {
+    describe('GET /api/v1/admin/sites/:id/webhooks', () => {
+        it('should return 401 without auth', async () => {
+            const { status, json } = await api('/api/v1/admin/sites/1/webhooks');
+            expect(status).toBe(401);
+            expect(json.error).toContain('Authentication required');
+        });
+    });
+
+    describe('POST /api/v1/admin/sites/:id/webhooks', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/webhooks', {
+                method: 'POST',
+                body: JSON.stringify({ url: 'https://example.com/hook', events: ['comment.created'] }),
+            });
+            expect(status).toBe(401);
+        });
+
+        it('should reject unknown events', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/webhooks', {
+                method: 'POST',
+                body: JSON.stringify({ url: 'https://example.com/hook', events: ['comment.exploded'] }),
+            });
+            expect(status).toBe(400);
+        });
+    });
+
+    describe('POST /api/v1/admin/sites/:id/webhooks/:webhookId/test', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/webhooks/1/test', {
+                method: 'POST',
+            });
+            expect(status).toBe(401);
+        });
+    });
+
+    describe('GET /api/v1/admin/sites/:id/webhooks/:webhookId/deliveries', () => {
+        it('should return 401 without auth', async () => {
+            const { status } = await api('/api/v1/admin/sites/1/webhooks/1/deliveries');
+            expect(status).toBe(401);
+        });
+    });
+});